@@ -28,7 +28,7 @@ public class AuthFlowTests : IClassFixture<WebApplicationFactory<Program>>
     [Fact]
     public async Task WeatherForecast_requires_admin_role()
     {
-        var loginResponse = await Login("user", "user");
+        var loginResponse = await _client.LoginAsync("user", "user");
         using var request = new HttpRequestMessage(HttpMethod.Get, "/WeatherForecast");
         request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
         var response = await _client.SendAsync(request);
@@ -38,22 +38,106 @@ public class AuthFlowTests : IClassFixture<WebApplicationFactory<Program>>
     [Fact]
     public async Task Admin_can_access_weather_forecast()
     {
-        var loginResponse = await Login("admin", "admin");
+        var loginResponse = await _client.LoginAsync("admin", "admin");
         using var request = new HttpRequestMessage(HttpMethod.Get, "/WeatherForecast");
         request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
         var response = await _client.SendAsync(request);
         Assert.Equal(HttpStatusCode.OK, response.StatusCode);
     }
 
-    private async Task<AuthResponse> Login(string username, string password)
+    [Fact]
+    public async Task Login_returns_role_permissions()
+    {
+        var loginResponse = await _client.LoginAsync("user", "user");
+        Assert.Contains("users.view", loginResponse.User.Permissions);
+        Assert.DoesNotContain("users.manage", loginResponse.User.Permissions);
+    }
+
+    [Fact]
+    public async Task Creating_users_requires_manage_permission()
+    {
+        var loginResponse = await _client.LoginAsync("user", "user");
+        using var request = new HttpRequestMessage(HttpMethod.Post, "/api/users");
+        request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", loginResponse.AccessToken);
+        request.Content = JsonContent.Create(new { username = "blocked", role = "User", password = "secret1" });
+        var response = await _client.SendAsync(request);
+        Assert.Equal(HttpStatusCode.Forbidden, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task Change_password_rejects_a_wrong_current_password()
+    {
+        var loginResponse = await _client.LoginAsync("user", "user");
+        var response = await _client.SendAsAsync(
+            HttpMethod.Post,
+            "/api/auth/change-password",
+            loginResponse.AccessToken,
+            new { currentPassword = "not-the-password", newPassword = "Another-pass2" });
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task Revoking_other_sessions_keeps_the_callers_session()
+    {
+        var admin = await _client.LoginAsync("admin", "admin");
+        var user = await _client.CreateUserAsync(admin.AccessToken);
+        try
+        {
+            var current = await _client.LoginAsync(user.Username, HttpClientExtensions.TestPassword);
+            var other = await _client.LoginAsync(user.Username, HttpClientExtensions.TestPassword);
+
+            var response = await _client.SendAsAsync(
+                HttpMethod.Post,
+                "/api/auth/sessions/revoke-others",
+                current.AccessToken);
+            Assert.Equal(HttpStatusCode.NoContent, response.StatusCode);
+
+            var sessions = await (await _client.SendAsAsync(HttpMethod.Get, "/api/auth/sessions", current.AccessToken))
+                .ReadAsync<SessionResponse[]>();
+            Assert.True(Assert.Single(sessions).IsCurrent);
+            Assert.Equal(HttpStatusCode.Unauthorized, (await Refresh(other.RefreshToken)).StatusCode);
+            Assert.Equal(HttpStatusCode.OK, (await Refresh(current.RefreshToken)).StatusCode);
+        }
+        finally
+        {
+            await _client.DeleteUserAsync(admin.AccessToken, user.Id);
+        }
+    }
+
+    [Fact]
+    public async Task Changing_the_password_revokes_other_sessions()
+    {
+        var admin = await _client.LoginAsync("admin", "admin");
+        var user = await _client.CreateUserAsync(admin.AccessToken);
+        try
+        {
+            var current = await _client.LoginAsync(user.Username, HttpClientExtensions.TestPassword);
+            var other = await _client.LoginAsync(user.Username, HttpClientExtensions.TestPassword);
+
+            var response = await _client.SendAsAsync(
+                HttpMethod.Post,
+                "/api/auth/change-password",
+                current.AccessToken,
+                new { currentPassword = HttpClientExtensions.TestPassword, newPassword = "Changed-pass2" });
+            Assert.Equal(HttpStatusCode.NoContent, response.StatusCode);
+
+            Assert.Equal(HttpStatusCode.Unauthorized, (await Refresh(other.RefreshToken)).StatusCode);
+            Assert.Equal(HttpStatusCode.OK, (await Refresh(current.RefreshToken)).StatusCode);
+            await _client.LoginAsync(user.Username, "Changed-pass2");
+        }
+        finally
+        {
+            await _client.DeleteUserAsync(admin.AccessToken, user.Id);
+        }
+    }
+
+    private Task<HttpResponseMessage> Refresh(string refreshToken)
     {
-        var response = await _client.PostAsJsonAsync("/api/auth/login", new LoginRequest(username, password));
-        response.EnsureSuccessStatusCode();
-        var data = await response.Content.ReadFromJsonAsync<AuthResponse>();
-        return data ?? throw new InvalidOperationException("Missing auth response.");
+        return _client.PostAsJsonAsync("/api/auth/refresh", new { refreshToken });
     }
 }
 
 public record LoginRequest(string Username, string Password);
 public record AuthResponse(string AccessToken, string RefreshToken, UserResponse User);
-public record UserResponse(string Username, string Role);
+public record UserResponse(string Username, string Role, string[] Permissions);
+public record SessionResponse(Guid Id, bool IsCurrent);
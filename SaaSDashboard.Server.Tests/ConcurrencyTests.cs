@@ -0,0 +1,98 @@
+using System;
+using System.Net;
+using System.Net.Http;
+using System.Net.Http.Json;
+using System.Threading.Tasks;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Xunit;
+
+namespace SaaSDashboard.Server.Tests;
+
+public class ConcurrencyTests : IClassFixture<WebApplicationFactory<Program>>
+{
+    private readonly HttpClient _client;
+
+    public ConcurrencyTests(WebApplicationFactory<Program> factory)
+    {
+        _client = factory.CreateClient();
+    }
+
+    [Fact]
+    public async Task User_writes_require_the_current_version()
+    {
+        var admin = await _client.LoginAsync("admin", "admin");
+        var user = await _client.CreateUserAsync(admin.AccessToken);
+        try
+        {
+            var path = $"/api/users/{user.Id}";
+            var payload = new { username = user.Username, role = "Admin", organizationId = user.OrganizationId, teamId = user.TeamId };
+
+            var missing = await _client.SendAsAsync(HttpMethod.Put, path, admin.AccessToken, payload);
+            Assert.Equal(HttpStatusCode.PreconditionRequired, missing.StatusCode);
+
+            var updated = await (await _client.SendAsAsync(HttpMethod.Put, path, admin.AccessToken, payload, user.Version))
+                .ReadAsync<TestUser>();
+            Assert.NotEqual(user.Version, updated.Version);
+
+            var stale = await _client.SendAsAsync(HttpMethod.Put, path, admin.AccessToken, payload, user.Version);
+            Assert.Equal(HttpStatusCode.PreconditionFailed, stale.StatusCode);
+            var conflict = await stale.Content.ReadFromJsonAsync<Conflict<TestUser>>();
+            Assert.Equal(updated.Version, conflict?.Current.Version);
+
+            Assert.Equal(
+                HttpStatusCode.PreconditionRequired,
+                (await _client.SendAsAsync(HttpMethod.Delete, path, admin.AccessToken)).StatusCode);
+            Assert.Equal(
+                HttpStatusCode.PreconditionFailed,
+                (await _client.SendAsAsync(HttpMethod.Delete, path, admin.AccessToken, version: user.Version)).StatusCode);
+        }
+        finally
+        {
+            await _client.DeleteUserAsync(admin.AccessToken, user.Id);
+        }
+    }
+
+    [Fact]
+    public async Task Role_writes_require_the_current_version()
+    {
+        var admin = await _client.LoginAsync("admin", "admin");
+        var name = $"Test {Guid.NewGuid():N}"[..20];
+        var role = await (await _client.SendAsAsync(
+            HttpMethod.Post,
+            "/api/roles",
+            admin.AccessToken,
+            new { name, description = "", permissionKeys = new[] { "users.view" } })).ReadAsync<TestRole>();
+        var path = $"/api/roles/{role.Id}";
+        var current = role;
+        try
+        {
+            // Only the permissions change, which must still move the version on.
+            var payload = new { name, description = "", permissionKeys = new[] { "users.view", "billing.view" } };
+
+            var missing = await _client.SendAsAsync(HttpMethod.Put, path, admin.AccessToken, payload);
+            Assert.Equal(HttpStatusCode.PreconditionRequired, missing.StatusCode);
+
+            current = await (await _client.SendAsAsync(HttpMethod.Put, path, admin.AccessToken, payload, role.Version))
+                .ReadAsync<TestRole>();
+            Assert.NotEqual(role.Version, current.Version);
+
+            var stale = await _client.SendAsAsync(HttpMethod.Put, path, admin.AccessToken, payload, role.Version);
+            Assert.Equal(HttpStatusCode.PreconditionFailed, stale.StatusCode);
+
+            Assert.Equal(
+                HttpStatusCode.PreconditionRequired,
+                (await _client.SendAsAsync(HttpMethod.Delete, path, admin.AccessToken)).StatusCode);
+            Assert.Equal(
+                HttpStatusCode.PreconditionFailed,
+                (await _client.SendAsAsync(HttpMethod.Delete, path, admin.AccessToken, version: role.Version)).StatusCode);
+        }
+        finally
+        {
+            var deleted = await _client.SendAsAsync(HttpMethod.Delete, path, admin.AccessToken, version: current.Version);
+            Assert.Equal(HttpStatusCode.NoContent, deleted.StatusCode);
+        }
+    }
+}
+
+public record TestRole(Guid Id, string Name, string Version);
+public record Conflict<T>(string Message, T Current);
@@ -0,0 +1,88 @@
+using System;
+using System.Linq;
+using System.Net.Http;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using System.Threading.Tasks;
+
+namespace SaaSDashboard.Server.Tests;
+
+/// <summary>
+/// Calls the API as a signed-in user. Tests share the seeded database, so anything they create
+/// gets a unique name and is deleted again.
+/// </summary>
+internal static class HttpClientExtensions
+{
+    public const string TestPassword = "Secret-pass1";
+
+    public static async Task<AuthResponse> LoginAsync(this HttpClient client, string username, string password)
+    {
+        var response = await client.PostAsJsonAsync("/api/auth/login", new LoginRequest(username, password));
+        response.EnsureSuccessStatusCode();
+        var data = await response.Content.ReadFromJsonAsync<AuthResponse>();
+        return data ?? throw new InvalidOperationException("Missing auth response.");
+    }
+
+    public static Task<HttpResponseMessage> SendAsAsync(
+        this HttpClient client,
+        HttpMethod method,
+        string path,
+        string accessToken,
+        object? body = null,
+        string? version = null)
+    {
+        var request = new HttpRequestMessage(method, path);
+        request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);
+        if (body is not null)
+        {
+            request.Content = JsonContent.Create(body);
+        }
+
+        if (version is not null)
+        {
+            request.Headers.IfMatch.Add(new EntityTagHeaderValue($"\"{version}\""));
+        }
+
+        return client.SendAsync(request);
+    }
+
+    public static async Task<T> ReadAsync<T>(this HttpResponseMessage response)
+    {
+        response.EnsureSuccessStatusCode();
+        var data = await response.Content.ReadFromJsonAsync<T>();
+        return data ?? throw new InvalidOperationException($"Missing {typeof(T).Name} response.");
+    }
+
+    /// <summary>Creates a user with <see cref="TestPassword"/> in the first seeded team.</summary>
+    public static async Task<TestUser> CreateUserAsync(this HttpClient client, string adminToken)
+    {
+        var organizations = await (await client.SendAsAsync(
+            HttpMethod.Get,
+            "/api/organizations?includeTeams=true",
+            adminToken)).ReadAsync<TestOrganization[]>();
+        var organization = organizations.First(item => item.Teams is { Length: > 0 });
+
+        var response = await client.SendAsAsync(HttpMethod.Post, "/api/users", adminToken, new
+        {
+            username = $"test-{Guid.NewGuid():N}"[..20],
+            role = "User",
+            password = TestPassword,
+            organizationId = organization.Id,
+            teamId = organization.Teams![0].Id
+        });
+        return await response.ReadAsync<TestUser>();
+    }
+
+    /// <summary>Deletes a user at whatever version it has reached.</summary>
+    public static async Task DeleteUserAsync(this HttpClient client, string adminToken, Guid id)
+    {
+        var user = await (await client.SendAsAsync(HttpMethod.Get, $"/api/users/{id}", adminToken))
+            .ReadAsync<TestUser>();
+        var response = await client.SendAsAsync(HttpMethod.Delete, $"/api/users/{id}", adminToken, version: user.Version);
+        response.EnsureSuccessStatusCode();
+    }
+}
+
+public record TestUser(Guid Id, string Username, string Role, Guid OrganizationId, Guid TeamId, string Version);
+public record TestTeam(Guid Id, string Name);
+public record TestOrganization(Guid Id, string Name, TestTeam[]? Teams);
@@ -0,0 +1,110 @@
+using System;
+using System.Linq;
+using System.Net;
+using System.Net.Http;
+using System.Threading.Tasks;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Xunit;
+
+namespace SaaSDashboard.Server.Tests;
+
+public class WorkspaceSettingsTests : IClassFixture<WebApplicationFactory<Program>>
+{
+    private readonly HttpClient _client;
+
+    public WorkspaceSettingsTests(WebApplicationFactory<Program> factory)
+    {
+        _client = factory.CreateClient();
+    }
+
+    [Fact]
+    public async Task User_writes_follow_the_organization_password_policy()
+    {
+        var admin = await _client.LoginAsync("admin", "admin");
+        var organizations = await (await _client.SendAsAsync(
+            HttpMethod.Get,
+            "/api/organizations?includeTeams=true",
+            admin.AccessToken)).ReadAsync<TestOrganization[]>();
+        var organization = organizations.First(item => item.Teams is { Length: > 0 });
+        var path = $"/api/workspace-settings/{organization.Id}";
+        var original = (await (await _client.SendAsAsync(HttpMethod.Get, "/api/workspace-settings", admin.AccessToken))
+            .ReadAsync<TestWorkspaceSettings[]>()).Single(item => item.OrganizationId == organization.Id);
+
+        // Other tests create users with TestPassword at the same time, so the policy must still accept it.
+        var policy = new TestPasswordPolicy(12, true, true, true);
+        var saved = await _client.SendAsAsync(HttpMethod.Put, path, admin.AccessToken, original with { PasswordPolicy = policy });
+        try
+        {
+            Assert.Equal(policy, (await saved.ReadAsync<TestWorkspaceSettings>()).PasswordPolicy);
+
+            var weak = await _client.SendAsAsync(HttpMethod.Post, "/api/users", admin.AccessToken, new
+            {
+                username = $"test-{Guid.NewGuid():N}"[..20],
+                role = "User",
+                password = "weakpassword",
+                organizationId = organization.Id,
+                teamId = organization.Teams![0].Id
+            });
+            Assert.Equal(HttpStatusCode.BadRequest, weak.StatusCode);
+
+            var user = await _client.CreateUserAsync(admin.AccessToken);
+            await _client.DeleteUserAsync(admin.AccessToken, user.Id);
+
+            var tooShort = await _client.SendAsAsync(
+                HttpMethod.Put,
+                path,
+                admin.AccessToken,
+                original with { PasswordPolicy = policy with { MinLength = 5 } });
+            Assert.Equal(HttpStatusCode.BadRequest, tooShort.StatusCode);
+        }
+        finally
+        {
+            var restored = await _client.SendAsAsync(HttpMethod.Put, path, admin.AccessToken, original);
+            restored.EnsureSuccessStatusCode();
+        }
+    }
+
+    [Fact]
+    public async Task Viewers_only_see_their_own_organization()
+    {
+        var admin = await _client.LoginAsync("admin", "admin");
+        var viewer = await _client.LoginAsync("user", "user");
+        var created = await _client.SendAsAsync(HttpMethod.Post, "/api/organizations", admin.AccessToken, new
+        {
+            name = $"test-{Guid.NewGuid():N}"[..20]
+        });
+        var organization = await created.ReadAsync<TestOrganization>();
+        try
+        {
+            const string billingEmail = "billing@other-tenant.example";
+            var saved = await _client.SendAsAsync(
+                HttpMethod.Put,
+                $"/api/workspace-settings/{organization.Id}",
+                admin.AccessToken,
+                new TestWorkspaceSettings(organization.Id, "", new TestPasswordPolicy(6, false, false, false), billingEmail));
+            saved.EnsureSuccessStatusCode();
+
+            var adminView = await (await _client.SendAsAsync(HttpMethod.Get, "/api/workspace-settings", admin.AccessToken))
+                .ReadAsync<TestWorkspaceSettings[]>();
+            Assert.Contains(adminView, item => item.BillingEmail == billingEmail);
+
+            var viewerView = await (await _client.SendAsAsync(HttpMethod.Get, "/api/workspace-settings", viewer.AccessToken))
+                .ReadAsync<TestWorkspaceSettings[]>();
+            Assert.DoesNotContain(viewerView, item => item.OrganizationId == organization.Id);
+            Assert.DoesNotContain(viewerView, item => item.BillingEmail == billingEmail);
+            Assert.Single(viewerView);
+        }
+        finally
+        {
+            var deleted = await _client.SendAsAsync(HttpMethod.Delete, $"/api/organizations/{organization.Id}", admin.AccessToken);
+            deleted.EnsureSuccessStatusCode();
+        }
+    }
+}
+
+public record TestPasswordPolicy(int MinLength, bool RequireUppercase, bool RequireNumber, bool RequireSymbol);
+public record TestWorkspaceSettings(
+    Guid OrganizationId,
+    string DefaultRole,
+    TestPasswordPolicy PasswordPolicy,
+    string BillingEmail);
@@ -12,4 +12,5 @@ public class AuthUser
     public Organization? Organization { get; set; }
     public Guid TeamId { get; set; }
     public Team? Team { get; set; }
+    public byte[] Version { get; set; } = [];
 }
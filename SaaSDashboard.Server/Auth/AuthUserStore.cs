@@ -32,4 +32,30 @@ public class AuthUserStore
     {
         return _dbContext.Users.SingleOrDefaultAsync(user => user.Id == id);
     }
+
+    public bool VerifyPassword(AuthUser user, string password)
+    {
+        return _passwordHasher.VerifyHashedPassword(user, user.PasswordHash, password)
+            == PasswordVerificationResult.Success;
+    }
+
+    public Task ChangePassword(AuthUser user, string newPassword)
+    {
+        user.PasswordHash = _passwordHasher.HashPassword(user, newPassword);
+        return _dbContext.SaveChangesAsync();
+    }
+
+    public Task<WorkspaceSettings> GetWorkspaceSettings(Guid organizationId)
+    {
+        return _dbContext.WorkspaceSettings.ForOrganizationAsync(organizationId);
+    }
+
+    public Task<List<string>> GetPermissionKeys(string role)
+    {
+        return _dbContext.RolePermissions.AsNoTracking()
+            .Where(item => item.Role!.Name == role)
+            .Select(item => item.Permission!.Key)
+            .OrderBy(key => key)
+            .ToListAsync();
+    }
 }
@@ -0,0 +1,27 @@
+namespace SaaSDashboard.Server.Auth;
+
+public static class Permissions
+{
+    public const string ClaimType = "permission";
+
+    public const string UsersView = "users.view";
+    public const string UsersManage = "users.manage";
+    public const string OrganizationsView = "organizations.view";
+    public const string OrganizationsManage = "organizations.manage";
+    public const string RolesManage = "roles.manage";
+    public const string BillingView = "billing.view";
+    public const string SettingsManage = "settings.manage";
+    public const string AuditView = "audit.view";
+
+    public static readonly IReadOnlyList<string> All =
+    [
+        UsersView,
+        UsersManage,
+        OrganizationsView,
+        OrganizationsManage,
+        RolesManage,
+        BillingView,
+        SettingsManage,
+        AuditView
+    ];
+}
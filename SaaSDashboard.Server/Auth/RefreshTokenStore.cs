@@ -7,10 +7,22 @@ public class RefreshTokenStore
 {
     private readonly ConcurrentDictionary<string, RefreshToken> _tokens = new();
 
-    public RefreshToken IssueToken(AuthUser user, int daysToExpire)
+    /// <summary>
+    /// Issues a refresh token. Passing the token being rotated keeps the new one in the same
+    /// session, so a device stays one entry in the session list across refreshes.
+    /// </summary>
+    public RefreshToken IssueToken(AuthUser user, int daysToExpire, RefreshToken? previous = null, string? userAgent = null)
     {
         var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(64));
-        var refreshToken = new RefreshToken(token, user.Id, DateTimeOffset.UtcNow.AddDays(daysToExpire));
+        var now = DateTimeOffset.UtcNow;
+        var refreshToken = new RefreshToken(
+            token,
+            user.Id,
+            now.AddDays(daysToExpire),
+            previous?.SessionId ?? Guid.NewGuid(),
+            previous?.CreatedAt ?? now,
+            now,
+            userAgent ?? previous?.UserAgent);
         _tokens[token] = refreshToken;
         return refreshToken;
     }
@@ -20,10 +32,37 @@ public class RefreshTokenStore
         return _tokens.TryGetValue(token, out var refreshToken) ? refreshToken : null;
     }
 
+    public IReadOnlyList<RefreshToken> GetSessions(Guid userId)
+    {
+        var now = DateTimeOffset.UtcNow;
+        return _tokens.Values
+            .Where(token => token.UserId == userId && token.ExpiresAt > now)
+            .OrderByDescending(token => token.LastUsedAt)
+            .ToList();
+    }
+
     public void Revoke(string token)
     {
         _tokens.TryRemove(token, out _);
     }
+
+    public void RevokeSessions(Guid userId, Guid? exceptSessionId = null)
+    {
+        foreach (var token in _tokens.Values)
+        {
+            if (token.UserId == userId && token.SessionId != exceptSessionId)
+            {
+                _tokens.TryRemove(token.Token, out _);
+            }
+        }
+    }
 }
 
-public record RefreshToken(string Token, Guid UserId, DateTimeOffset ExpiresAt);
+public record RefreshToken(
+    string Token,
+    Guid UserId,
+    DateTimeOffset ExpiresAt,
+    Guid SessionId,
+    DateTimeOffset CreatedAt,
+    DateTimeOffset LastUsedAt,
+    string? UserAgent);
@@ -17,15 +17,17 @@ public class TokenService
         _signingKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_options.Key));
     }
 
-    public string CreateAccessToken(AuthUser user)
+    public string CreateAccessToken(AuthUser user, IReadOnlyList<string> permissions, Guid sessionId)
     {
         var claims = new List<Claim>
         {
             new(JwtRegisteredClaimNames.Sub, user.Id.ToString()),
             new("username", user.Username),
             new("role", user.Role),
-            new("orgId", user.OrganizationId.ToString())
+            new("orgId", user.OrganizationId.ToString()),
+            new("sid", sessionId.ToString())
         };
+        claims.AddRange(permissions.Select(permission => new Claim(Permissions.ClaimType, permission)));
 
         var credentials = new SigningCredentials(_signingKey, SecurityAlgorithms.HmacSha256);
         var token = new JwtSecurityToken(
@@ -1,13 +1,14 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using SaaSDashboard.Server.Auth;
 using SaaSDashboard.Server.Data;
 
 namespace SaaSDashboard.Server.Controllers;
 
 [ApiController]
 [Route("api/audit-logs")]
-[Authorize(Roles = "Admin")]
+[Authorize(Policy = Permissions.AuditView)]
 public class AuditLogsController : ControllerBase
 {
     private readonly AppDbContext _dbContext;
@@ -25,7 +26,9 @@ public class AuditLogsController : ControllerBase
         [FromQuery] DateTime? from = null,
         [FromQuery] DateTime? to = null,
         [FromQuery] int page = 1,
-        [FromQuery] int pageSize = 20)
+        [FromQuery] int pageSize = 20,
+        [FromQuery] string? sortBy = null,
+        [FromQuery] string? sortDirection = null)
     {
         var query = BuildQuery(organizationId, user, action, from, to);
 
@@ -33,8 +36,19 @@ public class AuditLogsController : ControllerBase
         var safePageSize = Math.Clamp(pageSize, 5, 100);
         var totalCount = await query.CountAsync();
 
-        var items = await query
-            .OrderByDescending(item => item.CreatedAt)
+        // Newest first unless the caller explicitly asks for ascending order.
+        var ascending = string.Equals(sortDirection, "asc", StringComparison.OrdinalIgnoreCase);
+        var ordered = (sortBy?.ToLowerInvariant(), ascending) switch
+        {
+            ("user", true) => query.OrderBy(item => item.Username).ThenByDescending(item => item.CreatedAt),
+            ("user", false) => query.OrderByDescending(item => item.Username).ThenByDescending(item => item.CreatedAt),
+            ("action", true) => query.OrderBy(item => item.Action).ThenByDescending(item => item.CreatedAt),
+            ("action", false) => query.OrderByDescending(item => item.Action).ThenByDescending(item => item.CreatedAt),
+            (_, true) => query.OrderBy(item => item.CreatedAt),
+            _ => query.OrderByDescending(item => item.CreatedAt)
+        };
+
+        var items = await ordered
             .Skip((safePage - 1) * safePageSize)
             .Take(safePageSize)
             .Select(item => new AuditLogSummary(
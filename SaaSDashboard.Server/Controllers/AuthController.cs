@@ -36,7 +36,7 @@ public class AuthController : ControllerBase
             return Unauthorized();
         }
 
-        return Ok(CreateAuthResponse(user));
+        return Ok(await CreateAuthResponse(user));
     }
 
     [HttpPost("refresh")]
@@ -60,7 +60,7 @@ public class AuthController : ControllerBase
         }
 
         _refreshTokenStore.Revoke(token.Token);
-        return Ok(CreateAuthResponse(user));
+        return Ok(await CreateAuthResponse(user, token));
     }
 
     [HttpPost("logout")]
@@ -80,18 +80,124 @@ public class AuthController : ControllerBase
     {
         var username = User.FindFirst("username")?.Value ?? string.Empty;
         var role = User.FindFirst("role")?.Value ?? "User";
-        return Ok(new UserResponse(username, role));
+        var permissions = User.FindAll(Permissions.ClaimType).Select(claim => claim.Value).ToList();
+        return Ok(new UserResponse(username, role, permissions));
     }
 
-    private AuthResponse CreateAuthResponse(AuthUser user)
+    [Authorize]
+    [HttpGet("sessions")]
+    public ActionResult<IEnumerable<SessionResponse>> GetSessions()
+    {
+        var userId = GetUserId();
+        if (userId is null)
+        {
+            return Unauthorized();
+        }
+
+        var currentSessionId = GetSessionId();
+        var sessions = _refreshTokenStore.GetSessions(userId.Value)
+            .Select(token => new SessionResponse(
+                token.SessionId,
+                token.UserAgent,
+                token.CreatedAt,
+                token.LastUsedAt,
+                token.ExpiresAt,
+                token.SessionId == currentSessionId))
+            .ToList();
+        return Ok(sessions);
+    }
+
+    [Authorize]
+    [HttpPost("sessions/revoke-others")]
+    public IActionResult RevokeOtherSessions()
+    {
+        var userId = GetUserId();
+        if (userId is null)
+        {
+            return Unauthorized();
+        }
+
+        _refreshTokenStore.RevokeSessions(userId.Value, GetSessionId());
+        return NoContent();
+    }
+
+    [Authorize]
+    [HttpPost("change-password")]
+    public async Task<IActionResult> ChangePassword(ChangePasswordRequest request)
+    {
+        var userId = GetUserId();
+        var user = userId is null ? null : await _userStore.FindById(userId.Value);
+        if (user is null)
+        {
+            return Unauthorized();
+        }
+
+        if (string.IsNullOrEmpty(request.CurrentPassword) || !_userStore.VerifyPassword(user, request.CurrentPassword))
+        {
+            return BadRequest(new { message = "Current password is incorrect." });
+        }
+
+        if (string.IsNullOrWhiteSpace(request.NewPassword))
+        {
+            return BadRequest(new { message = "Password is required." });
+        }
+
+        var settings = await _userStore.GetWorkspaceSettings(user.OrganizationId);
+        var policyError = settings.CheckPassword(request.NewPassword);
+        if (policyError is not null)
+        {
+            return BadRequest(new { message = policyError });
+        }
+
+        if (request.NewPassword == request.CurrentPassword)
+        {
+            return BadRequest(new { message = "New password must be different from the current password." });
+        }
+
+        await _userStore.ChangePassword(user, request.NewPassword);
+        // Anyone holding an old session must sign in again with the new password.
+        _refreshTokenStore.RevokeSessions(user.Id, GetSessionId());
+        return NoContent();
+    }
+
+    private Guid? GetUserId()
+    {
+        var value = User.FindFirst(JwtRegisteredClaimNames.Sub)?.Value;
+        return Guid.TryParse(value, out var userId) ? userId : null;
+    }
+
+    private Guid? GetSessionId()
+    {
+        var value = User.FindFirst("sid")?.Value;
+        return Guid.TryParse(value, out var sessionId) ? sessionId : null;
+    }
+
+    private async Task<AuthResponse> CreateAuthResponse(AuthUser user, RefreshToken? previous = null)
     {
-        var accessToken = _tokenService.CreateAccessToken(user);
-        var refreshToken = _refreshTokenStore.IssueToken(user, _options.RefreshTokenDays);
-        return new AuthResponse(accessToken, refreshToken.Token, new UserResponse(user.Username, user.Role));
+        var permissions = await _userStore.GetPermissionKeys(user.Role);
+        var userAgent = Request.Headers.UserAgent.ToString();
+        var refreshToken = _refreshTokenStore.IssueToken(
+            user,
+            _options.RefreshTokenDays,
+            previous,
+            string.IsNullOrWhiteSpace(userAgent) ? null : userAgent);
+        var accessToken = _tokenService.CreateAccessToken(user, permissions, refreshToken.SessionId);
+        return new AuthResponse(
+            accessToken,
+            refreshToken.Token,
+            new UserResponse(user.Username, user.Role, permissions));
     }
 }
 
 public record LoginRequest(string Username, string Password);
 public record RefreshRequest(string RefreshToken);
+public record ChangePasswordRequest(string CurrentPassword, string NewPassword);
+public record SessionResponse(
+    Guid Id,
+    string? UserAgent,
+    DateTimeOffset CreatedAt,
+    DateTimeOffset LastUsedAt,
+    DateTimeOffset ExpiresAt,
+    bool IsCurrent);
 public record AuthResponse(string AccessToken, string RefreshToken, UserResponse User);
-public record UserResponse(string Username, string Role);
+public record UserResponse(string Username, string Role, IReadOnlyList<string> Permissions);
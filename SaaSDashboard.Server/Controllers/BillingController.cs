@@ -1,13 +1,14 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using SaaSDashboard.Server.Auth;
 using SaaSDashboard.Server.Data;
 
 namespace SaaSDashboard.Server.Controllers;
 
 [ApiController]
 [Route("api/billing")]
-[Authorize]
+[Authorize(Policy = Permissions.BillingView)]
 public class BillingController : ControllerBase
 {
     private static readonly HashSet<string> AllowedBrands = new(StringComparer.OrdinalIgnoreCase)
@@ -295,7 +296,7 @@ public class BillingController : ControllerBase
             return tokenOrgId;
         }
 
-        if (User.IsInRole("Admin"))
+        if (User.HasClaim(Permissions.ClaimType, Permissions.OrganizationsManage))
         {
             return requestedOrgId;
         }
@@ -0,0 +1,44 @@
+using Microsoft.AspNetCore.Mvc;
+
+namespace SaaSDashboard.Server.Controllers;
+
+/// <summary>
+/// Maps row versions to the version strings clients read from responses and the quoted ETags
+/// they send back in If-Match.
+/// </summary>
+public static class EntityTags
+{
+    public static string ToVersion(byte[] rowVersion) => Convert.ToBase64String(rowVersion);
+
+    public static void SetETag(HttpResponse response, string version)
+    {
+        response.Headers.ETag = $"\"{version}\"";
+    }
+
+    /// <summary>
+    /// True when the request sends If-Match at all. Writes without one are answered with
+    /// <see cref="IfMatchRequired"/> rather than a version conflict.
+    /// </summary>
+    public static bool HasIfMatch(HttpRequest request) => request.Headers.IfMatch.Count > 0;
+
+    /// <summary>428 Precondition Required for a write that did not say which version it was based on.</summary>
+    public static ObjectResult IfMatchRequired() =>
+        new(new { message = "This change must include the version it is based on in an If-Match header." })
+        {
+            StatusCode = StatusCodes.Status428PreconditionRequired,
+        };
+
+    /// <summary>
+    /// True when one of the request's If-Match tags names the current version. A missing
+    /// If-Match fails too, so no write can skip the check.
+    /// </summary>
+    public static bool Matches(HttpRequest request, byte[] rowVersion)
+    {
+        var ifMatch = request.Headers.IfMatch;
+        var current = $"\"{ToVersion(rowVersion)}\"";
+        return ifMatch
+            .SelectMany(value => (value ?? string.Empty).Split(','))
+            .Select(tag => tag.Trim())
+            .Any(tag => tag == current || tag == $"W/{current}");
+    }
+}
@@ -1,13 +1,14 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using SaaSDashboard.Server.Auth;
 using SaaSDashboard.Server.Data;
 
 namespace SaaSDashboard.Server.Controllers;
 
 [ApiController]
 [Route("api/organizations")]
-[Authorize(Roles = "Admin")]
+[Authorize(Policy = Permissions.OrganizationsView)]
 public class OrganizationsController : ControllerBase
 {
     private readonly AppDbContext _dbContext;
@@ -64,6 +65,7 @@ public class OrganizationsController : ControllerBase
     }
 
     [HttpPost]
+    [Authorize(Policy = Permissions.OrganizationsManage)]
     public async Task<ActionResult<OrganizationSummary>> CreateOrganization(OrganizationRequest request)
     {
         var validationError = ValidateName(request.Name);
@@ -88,6 +90,7 @@ public class OrganizationsController : ControllerBase
     }
 
     [HttpPut("{id:guid}")]
+    [Authorize(Policy = Permissions.OrganizationsManage)]
     public async Task<ActionResult<OrganizationSummary>> UpdateOrganization(Guid id, OrganizationRequest request)
     {
         var validationError = ValidateName(request.Name);
@@ -117,6 +120,7 @@ public class OrganizationsController : ControllerBase
     }
 
     [HttpDelete("{id:guid}")]
+    [Authorize(Policy = Permissions.OrganizationsManage)]
     public async Task<IActionResult> DeleteOrganization(Guid id)
     {
         var organization = await _dbContext.Organizations.SingleOrDefaultAsync(org => org.Id == id);
@@ -143,6 +147,7 @@ public class OrganizationsController : ControllerBase
     }
 
     [HttpPost("{organizationId:guid}/teams")]
+    [Authorize(Policy = Permissions.OrganizationsManage)]
     public async Task<ActionResult<TeamSummary>> CreateTeam(Guid organizationId, TeamRequest request)
     {
         var validationError = ValidateName(request.Name);
@@ -173,6 +178,7 @@ public class OrganizationsController : ControllerBase
     }
 
     [HttpPut("teams/{id:guid}")]
+    [Authorize(Policy = Permissions.OrganizationsManage)]
     public async Task<ActionResult<TeamSummary>> UpdateTeam(Guid id, TeamRequest request)
     {
         var validationError = ValidateName(request.Name);
@@ -202,6 +208,7 @@ public class OrganizationsController : ControllerBase
     }
 
     [HttpDelete("teams/{id:guid}")]
+    [Authorize(Policy = Permissions.OrganizationsManage)]
     public async Task<IActionResult> DeleteTeam(Guid id)
     {
         var team = await _dbContext.Teams.SingleOrDefaultAsync(item => item.Id == id);
@@ -1,13 +1,14 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using SaaSDashboard.Server.Auth;
 using SaaSDashboard.Server.Data;
 
 namespace SaaSDashboard.Server.Controllers;
 
 [ApiController]
 [Route("api/roles")]
-[Authorize(Roles = "Admin")]
+[Authorize]
 public class RolesController : ControllerBase
 {
     private readonly AppDbContext _dbContext;
@@ -26,7 +27,8 @@ public class RolesController : ControllerBase
                 role.Id,
                 role.Name,
                 role.Description,
-                role.RolePermissions.Select(item => item.Permission!.Key).ToList()))
+                role.RolePermissions.Select(item => item.Permission!.Key).ToList(),
+                EntityTags.ToVersion(role.Version)))
             .ToListAsync();
 
         return Ok(roles);
@@ -48,6 +50,7 @@ public class RolesController : ControllerBase
     }
 
     [HttpPost]
+    [Authorize(Policy = Permissions.RolesManage)]
     public async Task<ActionResult<RoleSummary>> CreateRole(RoleRequest request)
     {
         var validationError = ValidateRoleRequest(request);
@@ -77,10 +80,13 @@ public class RolesController : ControllerBase
         _dbContext.Roles.Add(role);
         await _dbContext.SaveChangesAsync();
 
-        return CreatedAtAction(nameof(GetRoles), new RoleSummary(role.Id, role.Name, role.Description, request.PermissionKeys));
+        return CreatedAtAction(
+            nameof(GetRoles),
+            new RoleSummary(role.Id, role.Name, role.Description, request.PermissionKeys, EntityTags.ToVersion(role.Version)));
     }
 
     [HttpPut("{id:guid}")]
+    [Authorize(Policy = Permissions.RolesManage)]
     public async Task<ActionResult<RoleSummary>> UpdateRole(Guid id, RoleRequest request)
     {
         var validationError = ValidateRoleRequest(request);
@@ -97,6 +103,16 @@ public class RolesController : ControllerBase
             return NotFound();
         }
 
+        if (!EntityTags.HasIfMatch(Request))
+        {
+            return EntityTags.IfMatchRequired();
+        }
+
+        if (!EntityTags.Matches(Request, role.Version))
+        {
+            return await VersionConflictAsync(id);
+        }
+
         var normalized = request.Name.Trim().ToLower();
         var exists = await _dbContext.Roles.AnyAsync(
             item => item.Id != id && item.Name.ToLower() == normalized);
@@ -123,12 +139,24 @@ public class RolesController : ControllerBase
             }
         }
 
-        await _dbContext.SaveChangesAsync();
+        // Permissions live in their own table; touching the row moves the version on for them too.
+        _dbContext.Entry(role).Property(item => item.Name).IsModified = true;
+        try
+        {
+            await _dbContext.SaveChangesAsync();
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return await VersionConflictAsync(id);
+        }
 
-        return Ok(new RoleSummary(role.Id, role.Name, role.Description, request.PermissionKeys));
+        var version = EntityTags.ToVersion(role.Version);
+        EntityTags.SetETag(Response, version);
+        return Ok(new RoleSummary(role.Id, role.Name, role.Description, request.PermissionKeys, version));
     }
 
     [HttpDelete("{id:guid}")]
+    [Authorize(Policy = Permissions.RolesManage)]
     public async Task<IActionResult> DeleteRole(Guid id)
     {
         var role = await _dbContext.Roles.SingleOrDefaultAsync(item => item.Id == id);
@@ -137,6 +165,16 @@ public class RolesController : ControllerBase
             return NotFound();
         }
 
+        if (!EntityTags.HasIfMatch(Request))
+        {
+            return EntityTags.IfMatchRequired();
+        }
+
+        if (!EntityTags.Matches(Request, role.Version))
+        {
+            return await VersionConflictAsync(id);
+        }
+
         var hasUsers = await _dbContext.Users.AnyAsync(user => user.Role == role.Name);
         if (hasUsers)
         {
@@ -144,10 +182,40 @@ public class RolesController : ControllerBase
         }
 
         _dbContext.Roles.Remove(role);
-        await _dbContext.SaveChangesAsync();
+        try
+        {
+            await _dbContext.SaveChangesAsync();
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return await VersionConflictAsync(id);
+        }
+
         return NoContent();
     }
 
+    private async Task<ObjectResult> VersionConflictAsync(Guid id)
+    {
+        var current = await _dbContext.Roles.AsNoTracking()
+            .Where(role => role.Id == id)
+            .Select(role => new RoleSummary(
+                role.Id,
+                role.Name,
+                role.Description,
+                role.RolePermissions.Select(item => item.Permission!.Key).ToList(),
+                EntityTags.ToVersion(role.Version)))
+            .SingleOrDefaultAsync();
+        if (current is null)
+        {
+            return NotFound(new { message = "Role not found." });
+        }
+
+        EntityTags.SetETag(Response, current.Version);
+        return StatusCode(
+            StatusCodes.Status412PreconditionFailed,
+            new { message = "This role was changed by someone else.", current });
+    }
+
     private async Task<HashSet<Guid>?> ResolvePermissionIdsAsync(IReadOnlyList<string> permissionKeys)
     {
         var keys = permissionKeys.Select(item => item.Trim()).Where(item => item.Length > 0).ToList();
@@ -185,6 +253,11 @@ public class RolesController : ControllerBase
     }
 }
 
-public record RoleSummary(Guid Id, string Name, string Description, IReadOnlyList<string> PermissionKeys);
+public record RoleSummary(
+    Guid Id,
+    string Name,
+    string Description,
+    IReadOnlyList<string> PermissionKeys,
+    string Version);
 public record PermissionSummary(Guid Id, string Key, string Label, string Description);
 public record RoleRequest(string Name, string? Description, IReadOnlyList<string> PermissionKeys);
@@ -9,7 +9,7 @@ namespace SaaSDashboard.Server.Controllers;
 
 [ApiController]
 [Route("api/users")]
-[Authorize(Roles = "Admin")]
+[Authorize(Policy = Permissions.UsersView)]
 public class UsersController : ControllerBase
 {
     private const int MaxPageSize = 100;
@@ -28,7 +28,9 @@ public class UsersController : ControllerBase
         [FromQuery] string? search = null,
         [FromQuery] string? role = null,
         [FromQuery] Guid? organizationId = null,
-        [FromQuery] Guid? teamId = null)
+        [FromQuery] Guid? teamId = null,
+        [FromQuery] string? sortBy = null,
+        [FromQuery] string? sortDirection = null)
     {
         page = Math.Max(page, 1);
         pageSize = Math.Clamp(pageSize, 1, MaxPageSize);
@@ -57,10 +59,22 @@ public class UsersController : ControllerBase
         }
 
         var totalCount = await query.CountAsync();
-        var items = await query
+        var descending = string.Equals(sortDirection, "desc", StringComparison.OrdinalIgnoreCase);
+        var ordered = (sortBy?.ToLowerInvariant(), descending) switch
+        {
+            ("role", false) => query.OrderBy(user => user.Role).ThenBy(user => user.Username),
+            ("role", true) => query.OrderByDescending(user => user.Role).ThenBy(user => user.Username),
+            ("organization", false) => query.OrderBy(user => user.Organization!.Name).ThenBy(user => user.Username),
+            ("organization", true) => query.OrderByDescending(user => user.Organization!.Name).ThenBy(user => user.Username),
+            ("team", false) => query.OrderBy(user => user.Team!.Name).ThenBy(user => user.Username),
+            ("team", true) => query.OrderByDescending(user => user.Team!.Name).ThenBy(user => user.Username),
+            (_, true) => query.OrderByDescending(user => user.Username),
+            _ => query.OrderBy(user => user.Username)
+        };
+
+        var items = await ordered
             .Include(user => user.Organization)
             .Include(user => user.Team)
-            .OrderBy(user => user.Username)
             .Skip((page - 1) * pageSize)
             .Take(pageSize)
             .Select(user => new UserListItem(
@@ -70,7 +84,8 @@ public class UsersController : ControllerBase
                 user.OrganizationId,
                 user.Organization!.Name,
                 user.TeamId,
-                user.Team!.Name))
+                user.Team!.Name,
+                EntityTags.ToVersion(user.Version)))
             .ToListAsync();
 
         return Ok(new PagedResponse<UserListItem>(items, totalCount, page, pageSize));
@@ -79,27 +94,18 @@ public class UsersController : ControllerBase
     [HttpGet("{id:guid}")]
     public async Task<ActionResult<UserListItem>> GetUser(Guid id)
     {
-        var user = await _dbContext.Users.AsNoTracking()
-            .Where(item => item.Id == id)
-            .Select(item => new UserListItem(
-                item.Id,
-                item.Username,
-                item.Role,
-                item.OrganizationId,
-                item.Organization!.Name,
-                item.TeamId,
-                item.Team!.Name))
-            .SingleOrDefaultAsync();
-
+        var user = await FindUserAsync(id);
         if (user is null)
         {
             return NotFound();
         }
 
+        EntityTags.SetETag(Response, user.Version);
         return Ok(user);
     }
 
     [HttpPost]
+    [Authorize(Policy = Permissions.UsersManage)]
     public async Task<ActionResult<UserListItem>> CreateUser(UserCreateRequest request)
     {
         var validationError = ValidateRequest(request.Username, request.Role, request.Password, request.OrganizationId, request.TeamId);
@@ -127,6 +133,12 @@ public class UsersController : ControllerBase
             return BadRequest(new { message = teamValidation });
         }
 
+        var passwordValidation = await ValidatePasswordAsync(request.OrganizationId, request.Password);
+        if (passwordValidation is not null)
+        {
+            return BadRequest(new { message = passwordValidation });
+        }
+
         var user = new AuthUser
         {
             Username = request.Username.Trim(),
@@ -152,10 +164,19 @@ public class UsersController : ControllerBase
         return CreatedAtAction(
             nameof(GetUser),
             new { id = user.Id },
-            new UserListItem(user.Id, user.Username, user.Role, user.OrganizationId, orgName, user.TeamId, teamName));
+            new UserListItem(
+                user.Id,
+                user.Username,
+                user.Role,
+                user.OrganizationId,
+                orgName,
+                user.TeamId,
+                teamName,
+                EntityTags.ToVersion(user.Version)));
     }
 
     [HttpPut("{id:guid}")]
+    [Authorize(Policy = Permissions.UsersManage)]
     public async Task<ActionResult<UserListItem>> UpdateUser(Guid id, UserUpdateRequest request)
     {
         var validationError = ValidateRequest(
@@ -182,6 +203,16 @@ public class UsersController : ControllerBase
             return NotFound();
         }
 
+        if (!EntityTags.HasIfMatch(Request))
+        {
+            return EntityTags.IfMatchRequired();
+        }
+
+        if (!EntityTags.Matches(Request, user.Version))
+        {
+            return await VersionConflictAsync(id);
+        }
+
         var normalized = request.Username.Trim().ToLower();
         var duplicate = await _dbContext.Users.AnyAsync(
             item => item.Id != id && item.Username.ToLower() == normalized);
@@ -196,6 +227,12 @@ public class UsersController : ControllerBase
             return BadRequest(new { message = teamValidation });
         }
 
+        var passwordValidation = await ValidatePasswordAsync(request.OrganizationId, request.Password);
+        if (passwordValidation is not null)
+        {
+            return BadRequest(new { message = passwordValidation });
+        }
+
         user.Username = request.Username.Trim();
         user.Role = request.Role;
         user.OrganizationId = request.OrganizationId;
@@ -207,7 +244,15 @@ public class UsersController : ControllerBase
         }
 
         AddAuditLog(user.OrganizationId, $"Updated user {user.Username}");
-        await _dbContext.SaveChangesAsync();
+        try
+        {
+            await _dbContext.SaveChangesAsync();
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            // Someone saved between our read and this write.
+            return await VersionConflictAsync(id);
+        }
 
         var orgName = await _dbContext.Organizations
             .Where(item => item.Id == user.OrganizationId)
@@ -218,10 +263,13 @@ public class UsersController : ControllerBase
             .Select(item => item.Name)
             .SingleAsync();
 
-        return Ok(new UserListItem(user.Id, user.Username, user.Role, user.OrganizationId, orgName, user.TeamId, teamName));
+        var version = EntityTags.ToVersion(user.Version);
+        EntityTags.SetETag(Response, version);
+        return Ok(new UserListItem(user.Id, user.Username, user.Role, user.OrganizationId, orgName, user.TeamId, teamName, version));
     }
 
     [HttpDelete("{id:guid}")]
+    [Authorize(Policy = Permissions.UsersManage)]
     public async Task<IActionResult> DeleteUser(Guid id)
     {
         var user = await _dbContext.Users.SingleOrDefaultAsync(item => item.Id == id);
@@ -230,14 +278,66 @@ public class UsersController : ControllerBase
             return NotFound();
         }
 
+        if (!EntityTags.HasIfMatch(Request))
+        {
+            return EntityTags.IfMatchRequired();
+        }
+
+        if (!EntityTags.Matches(Request, user.Version))
+        {
+            return await VersionConflictAsync(id);
+        }
+
         var orgId = user.OrganizationId;
         var username = user.Username;
         _dbContext.Users.Remove(user);
         AddAuditLog(orgId, $"Deleted user {username}");
-        await _dbContext.SaveChangesAsync();
+        try
+        {
+            await _dbContext.SaveChangesAsync();
+        }
+        catch (DbUpdateConcurrencyException)
+        {
+            return await VersionConflictAsync(id);
+        }
+
         return NoContent();
     }
 
+    private Task<UserListItem?> FindUserAsync(Guid id)
+    {
+        return _dbContext.Users.AsNoTracking()
+            .Where(item => item.Id == id)
+            .Select(item => new UserListItem(
+                item.Id,
+                item.Username,
+                item.Role,
+                item.OrganizationId,
+                item.Organization!.Name,
+                item.TeamId,
+                item.Team!.Name,
+                EntityTags.ToVersion(item.Version)))
+            .SingleOrDefaultAsync();
+    }
+
+    /// <summary>
+    /// 412 carrying the user as saved now, which the client diffs against its edit. Also used
+    /// when a concurrent save lands between our read and write; a concurrent delete gives 404.
+    /// </summary>
+    private async Task<ObjectResult> VersionConflictAsync(Guid id)
+    {
+        var current = await FindUserAsync(id);
+        if (current is null)
+        {
+            return NotFound(new { message = "User not found." });
+        }
+
+        EntityTags.SetETag(Response, current.Version);
+        return StatusCode(
+            StatusCodes.Status412PreconditionFailed,
+            new { message = "This user was changed by someone else.", current });
+    }
+
     private static string? ValidateRequest(
         string username,
         string role,
@@ -256,9 +356,9 @@ public class UsersController : ControllerBase
             return "Username must be between 3 and 32 characters.";
         }
 
-        if (role is not ("Admin" or "User"))
+        if (string.IsNullOrWhiteSpace(role))
         {
-            return "Role must be Admin or User.";
+            return "Role is required.";
         }
 
         if (organizationId == Guid.Empty)
@@ -281,12 +381,19 @@ public class UsersController : ControllerBase
             return "Password is required.";
         }
 
-        if (password.Length < 6 || password.Length > 64)
+        return null;
+    }
+
+    // Checked against the organization the user is saved into, after that organization is known to exist.
+    private async Task<string?> ValidatePasswordAsync(Guid organizationId, string? password)
+    {
+        if (string.IsNullOrWhiteSpace(password))
         {
-            return "Password must be between 6 and 64 characters.";
+            return null;
         }
 
-        return null;
+        var settings = await _dbContext.WorkspaceSettings.ForOrganizationAsync(organizationId);
+        return settings.CheckPassword(password);
     }
 
     private async Task<string?> ValidateOrganizationTeamAsync(Guid organizationId, Guid teamId)
@@ -346,7 +453,8 @@ public record UserListItem(
     Guid OrganizationId,
     string OrganizationName,
     Guid TeamId,
-    string TeamName);
+    string TeamName,
+    string Version);
 public record PagedResponse<T>(IReadOnlyList<T> Items, int TotalCount, int Page, int PageSize);
 public record UserCreateRequest(string Username, string Role, string Password, Guid OrganizationId, Guid TeamId);
 public record UserUpdateRequest(string Username, string Role, string? Password, Guid OrganizationId, Guid TeamId);
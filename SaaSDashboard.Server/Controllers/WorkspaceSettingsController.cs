@@ -0,0 +1,138 @@
+using System.Net.Mail;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using SaaSDashboard.Server.Auth;
+using SaaSDashboard.Server.Data;
+
+namespace SaaSDashboard.Server.Controllers;
+
+[ApiController]
+[Route("api/workspace-settings")]
+[Authorize]
+public class WorkspaceSettingsController : ControllerBase
+{
+    private readonly AppDbContext _dbContext;
+
+    public WorkspaceSettingsController(AppDbContext dbContext)
+    {
+        _dbContext = dbContext;
+    }
+
+    // Everyone reads their own organization's settings for the password policy. Settings and
+    // organization managers work across organizations, and only settings managers see billing emails.
+    [HttpGet]
+    public async Task<ActionResult<IReadOnlyList<WorkspaceSettingsResponse>>> GetWorkspaceSettings()
+    {
+        var seesAllOrganizations = User.HasClaim(Permissions.ClaimType, Permissions.SettingsManage) ||
+            User.HasClaim(Permissions.ClaimType, Permissions.OrganizationsManage);
+        var ownOrganizationId = GetOrganizationId();
+
+        var organizationIds = await _dbContext.Organizations.AsNoTracking()
+            .Where(org => seesAllOrganizations || org.Id == ownOrganizationId)
+            .OrderBy(org => org.Name)
+            .Select(org => org.Id)
+            .ToListAsync();
+        var saved = await _dbContext.WorkspaceSettings.AsNoTracking()
+            .Where(settings => organizationIds.Contains(settings.OrganizationId))
+            .ToDictionaryAsync(settings => settings.OrganizationId);
+        var includeBillingEmail = User.HasClaim(Permissions.ClaimType, Permissions.SettingsManage);
+
+        return Ok(organizationIds
+            .Select(id => ToResponse(
+                saved.GetValueOrDefault(id) ?? new WorkspaceSettings { OrganizationId = id },
+                includeBillingEmail))
+            .ToList());
+    }
+
+    [HttpPut("{organizationId:guid}")]
+    [Authorize(Policy = Permissions.SettingsManage)]
+    public async Task<ActionResult<WorkspaceSettingsResponse>> UpdateWorkspaceSettings(
+        Guid organizationId,
+        WorkspaceSettingsRequest request)
+    {
+        var validationError = ValidateRequest(request);
+        if (validationError is not null)
+        {
+            return BadRequest(new { message = validationError });
+        }
+
+        var defaultRole = request.DefaultRole?.Trim() ?? string.Empty;
+        if (defaultRole.Length > 0 && !await _dbContext.Roles.AnyAsync(role => role.Name == defaultRole))
+        {
+            return BadRequest(new { message = "Role not found." });
+        }
+
+        var organizationExists = await _dbContext.Organizations.AnyAsync(org => org.Id == organizationId);
+        if (!organizationExists)
+        {
+            return NotFound();
+        }
+
+        var settings = await _dbContext.WorkspaceSettings.SingleOrDefaultAsync(
+            item => item.OrganizationId == organizationId);
+        if (settings is null)
+        {
+            settings = new WorkspaceSettings { OrganizationId = organizationId };
+            _dbContext.WorkspaceSettings.Add(settings);
+        }
+
+        settings.DefaultRole = defaultRole;
+        settings.PasswordMinLength = request.PasswordPolicy.MinLength;
+        settings.PasswordRequireUppercase = request.PasswordPolicy.RequireUppercase;
+        settings.PasswordRequireNumber = request.PasswordPolicy.RequireNumber;
+        settings.PasswordRequireSymbol = request.PasswordPolicy.RequireSymbol;
+        settings.BillingEmail = request.BillingEmail?.Trim() ?? string.Empty;
+        await _dbContext.SaveChangesAsync();
+
+        return Ok(ToResponse(settings, includeBillingEmail: true));
+    }
+
+    private static WorkspaceSettingsResponse ToResponse(WorkspaceSettings settings, bool includeBillingEmail) =>
+        new(
+            settings.OrganizationId,
+            settings.DefaultRole,
+            new PasswordPolicy(
+                settings.PasswordMinLength,
+                settings.PasswordRequireUppercase,
+                settings.PasswordRequireNumber,
+                settings.PasswordRequireSymbol),
+            includeBillingEmail ? settings.BillingEmail : string.Empty);
+
+    private Guid? GetOrganizationId()
+    {
+        var value = User.FindFirst("orgId")?.Value;
+        if (Guid.TryParse(value, out var orgId))
+        {
+            return orgId;
+        }
+
+        return null;
+    }
+
+    private static string? ValidateRequest(WorkspaceSettingsRequest request)
+    {
+        var minLength = request.PasswordPolicy.MinLength;
+        if (minLength < WorkspaceSettings.MinPasswordLength || minLength > WorkspaceSettings.MaxPasswordLength)
+        {
+            return $"Minimum password length must be between {WorkspaceSettings.MinPasswordLength} and {WorkspaceSettings.MaxPasswordLength}.";
+        }
+
+        var billingEmail = request.BillingEmail?.Trim() ?? string.Empty;
+        if (billingEmail.Length > 254 || (billingEmail.Length > 0 && !MailAddress.TryCreate(billingEmail, out _)))
+        {
+            return "Billing email is not a valid email address.";
+        }
+
+        return null;
+    }
+}
+
+public record PasswordPolicy(int MinLength, bool RequireUppercase, bool RequireNumber, bool RequireSymbol);
+public record WorkspaceSettingsResponse(
+    Guid OrganizationId,
+    string DefaultRole,
+    PasswordPolicy PasswordPolicy,
+    string BillingEmail);
+// Empty strings clear the default role and billing email, so they may not be treated as required.
+public record WorkspaceSettingsRequest(string? DefaultRole, PasswordPolicy PasswordPolicy, string? BillingEmail);
@@ -17,6 +17,7 @@ public class AppDbContext : DbContext
     public DbSet<Invoice> Invoices => Set<Invoice>();
     public DbSet<PaymentMethod> PaymentMethods => Set<PaymentMethod>();
     public DbSet<AuditLog> AuditLogs => Set<AuditLog>();
+    public DbSet<WorkspaceSettings> WorkspaceSettings => Set<WorkspaceSettings>();
 
     public AppDbContext(DbContextOptions<AppDbContext> options) : base(options)
     {
@@ -28,6 +29,11 @@ public class AppDbContext : DbContext
             .HasIndex(role => role.Name)
             .IsUnique();
 
+        // Checked against If-Match so concurrent edits are refused instead of overwritten.
+        modelBuilder.Entity<Role>()
+            .Property(role => role.Version)
+            .IsRowVersion();
+
         modelBuilder.Entity<Permission>()
             .HasIndex(permission => permission.Key)
             .IsUnique();
@@ -113,6 +119,15 @@ public class AppDbContext : DbContext
             .HasForeignKey(log => log.UserId)
             .OnDelete(DeleteBehavior.SetNull);
 
+        modelBuilder.Entity<WorkspaceSettings>()
+            .HasKey(settings => settings.OrganizationId);
+
+        modelBuilder.Entity<WorkspaceSettings>()
+            .HasOne(settings => settings.Organization)
+            .WithOne()
+            .HasForeignKey<WorkspaceSettings>(settings => settings.OrganizationId)
+            .OnDelete(DeleteBehavior.Cascade);
+
         modelBuilder.Entity<Organization>()
             .HasIndex(org => org.Name)
             .IsUnique();
@@ -143,6 +158,10 @@ public class AppDbContext : DbContext
             .HasIndex(user => user.Username)
             .IsUnique();
 
+        modelBuilder.Entity<AuthUser>()
+            .Property(user => user.Version)
+            .IsRowVersion();
+
         // Seed data handled by DbSeeder to allow idempotent inserts.
     }
 }
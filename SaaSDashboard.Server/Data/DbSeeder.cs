@@ -9,11 +9,13 @@ public static class DbSeeder
     public static async Task EnsureSeededAsync(AppDbContext dbContext)
     {
         await EnsureAuditLogsTableAsync(dbContext);
+        await EnsureVersionColumnsAsync(dbContext);
+        await EnsureWorkspaceSettingsTableAsync(dbContext);
 
         var permissions = await EnsurePermissionsAsync(dbContext);
         var adminRole = await EnsureRoleAsync(dbContext, "Admin", "Full access to the workspace.", permissions);
         var userRole = await EnsureRoleAsync(dbContext, "User", "Standard workspace access.", permissions
-            .Where(item => item.Key is "users.view" or "organizations.view")
+            .Where(item => item.Key is "users.view" or "organizations.view" or "billing.view")
             .ToList());
 
         var hasher = new PasswordHasher<AuthUser>();
@@ -167,7 +169,8 @@ public static class DbSeeder
             new() { Key = "organizations.manage", Label = "Manage organizations", Description = "Create and edit organizations or teams." },
             new() { Key = "roles.manage", Label = "Manage roles", Description = "Edit role permissions and access levels." },
             new() { Key = "billing.view", Label = "View billing", Description = "Read billing history and invoices." },
-            new() { Key = "settings.manage", Label = "Manage settings", Description = "Update workspace settings." }
+            new() { Key = "settings.manage", Label = "Manage settings", Description = "Update workspace settings." },
+            new() { Key = "audit.view", Label = "View audit logs", Description = "Read and export the audit trail." }
         };
 
         var resolved = new List<Permission>();
@@ -350,4 +353,39 @@ public static class DbSeeder
 
         await dbContext.Database.ExecuteSqlRawAsync(sql);
     }
+
+    private static async Task EnsureWorkspaceSettingsTableAsync(AppDbContext dbContext)
+    {
+        const string sql = """
+            IF OBJECT_ID(N'[WorkspaceSettings]', N'U') IS NULL
+            BEGIN
+                CREATE TABLE [WorkspaceSettings] (
+                    [OrganizationId] uniqueidentifier NOT NULL,
+                    [DefaultRole] nvarchar(max) NOT NULL,
+                    [PasswordMinLength] int NOT NULL,
+                    [PasswordRequireUppercase] bit NOT NULL,
+                    [PasswordRequireNumber] bit NOT NULL,
+                    [PasswordRequireSymbol] bit NOT NULL,
+                    [BillingEmail] nvarchar(max) NOT NULL,
+                    CONSTRAINT [PK_WorkspaceSettings] PRIMARY KEY ([OrganizationId]),
+                    CONSTRAINT [FK_WorkspaceSettings_Organizations_OrganizationId] FOREIGN KEY ([OrganizationId]) REFERENCES [Organizations]([Id]) ON DELETE CASCADE
+                );
+            END
+            """;
+
+        await dbContext.Database.ExecuteSqlRawAsync(sql);
+    }
+
+    // Databases created before row versions were added lack the columns; existing rows get a version on add.
+    private static async Task EnsureVersionColumnsAsync(AppDbContext dbContext)
+    {
+        const string sql = """
+            IF COL_LENGTH(N'[Users]', N'Version') IS NULL
+                ALTER TABLE [Users] ADD [Version] rowversion NOT NULL;
+            IF COL_LENGTH(N'[Roles]', N'Version') IS NULL
+                ALTER TABLE [Roles] ADD [Version] rowversion NOT NULL;
+            """;
+
+        await dbContext.Database.ExecuteSqlRawAsync(sql);
+    }
 }
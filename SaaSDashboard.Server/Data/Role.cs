@@ -6,4 +6,5 @@ public class Role
     public string Name { get; set; } = string.Empty;
     public string Description { get; set; } = string.Empty;
     public List<RolePermission> RolePermissions { get; set; } = [];
+    public byte[] Version { get; set; } = [];
 }
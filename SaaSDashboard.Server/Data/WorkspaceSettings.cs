@@ -0,0 +1,63 @@
+using Microsoft.EntityFrameworkCore;
+
+namespace SaaSDashboard.Server.Data;
+
+/// <summary>An organization's workspace settings. Organizations that never saved any have no row and use the defaults.</summary>
+public class WorkspaceSettings
+{
+    public const int MinPasswordLength = 6;
+    public const int MaxPasswordLength = 64;
+
+    public Guid OrganizationId { get; init; }
+    public Organization? Organization { get; set; }
+    /// <summary>Role preselected when creating or importing users; empty means the first role.</summary>
+    public string DefaultRole { get; set; } = string.Empty;
+    public int PasswordMinLength { get; set; } = MinPasswordLength;
+    public bool PasswordRequireUppercase { get; set; }
+    public bool PasswordRequireNumber { get; set; }
+    public bool PasswordRequireSymbol { get; set; }
+    public string BillingEmail { get; set; } = string.Empty;
+
+    /// <summary>Why <paramref name="password"/> breaks the password policy, or null when it meets it.</summary>
+    public string? CheckPassword(string password)
+    {
+        if (password.Length < PasswordMinLength)
+        {
+            return $"Password must be at least {PasswordMinLength} characters.";
+        }
+
+        if (password.Length > MaxPasswordLength)
+        {
+            return $"Password must be at most {MaxPasswordLength} characters.";
+        }
+
+        if (PasswordRequireUppercase && !password.Any(char.IsAsciiLetterUpper))
+        {
+            return "Password must contain an uppercase letter.";
+        }
+
+        if (PasswordRequireNumber && !password.Any(char.IsAsciiDigit))
+        {
+            return "Password must contain a number.";
+        }
+
+        if (PasswordRequireSymbol && password.All(char.IsAsciiLetterOrDigit))
+        {
+            return "Password must contain a symbol.";
+        }
+
+        return null;
+    }
+}
+
+public static class WorkspaceSettingsQueries
+{
+    /// <summary>The organization's saved settings, or the defaults when it has none.</summary>
+    public static async Task<WorkspaceSettings> ForOrganizationAsync(
+        this IQueryable<WorkspaceSettings> settings,
+        Guid organizationId)
+    {
+        return await settings.AsNoTracking().SingleOrDefaultAsync(item => item.OrganizationId == organizationId)
+            ?? new WorkspaceSettings { OrganizationId = organizationId };
+    }
+}
@@ -11,18 +11,39 @@ import {
   useNavigate,
 } from 'react-router-dom';
 import { ThemeProvider, useTheme } from './theme';
+import { ConfirmProvider, ToastProvider } from './components/ui';
 import { login as loginApi, logout as logoutApi } from './auth/api';
 import { ApiError } from './api/client';
-import { getRefreshToken, getSessionUser, onSessionChange, refreshSession } from './auth/session';
+import {
+  getRefreshToken,
+  getSessionUser,
+  onSessionChange,
+  refreshSession,
+  startTokenRefreshScheduler,
+} from './auth/session';
+import { IdleTimeout } from './auth/IdleTimeout';
+import { RequirePermission } from './auth/RequirePermission';
+import { usePermissions } from './auth/permissions';
 import { UsersPage } from './users/UsersPage';
 import { OrganizationsPage } from './organizations/OrganizationsPage';
 import { RolesPage } from './roles/RolesPage';
 import { BillingPage } from './billing/BillingPage';
 import { AuditPage } from './audit/AuditPage';
+import { DashboardPage } from './dashboard/DashboardPage';
+import { navigationItems, routeLabelKeys } from './navigation';
+import { CommandPalette } from './commands/CommandPalette';
+import { formatShortcut, runCommand } from './commands/registry';
+import { GlobalSearch } from './search/GlobalSearch';
+import { NotificationCenter } from './notifications/NotificationCenter';
+import { getPreferences, usePreferences } from './preferences/preferences';
+import { useI18n } from './i18n/i18n';
+import { ProfilePage } from './profile/ProfilePage';
+import { SettingsPage } from './settings/SettingsPage';
 
 type AuthUser = {
   username: string;
-  role: 'Admin' | 'User';
+  role: string;
+  permissions?: string[];
 };
 
 type AuthContextValue = {
@@ -55,6 +76,10 @@ function AuthProvider({ children }: PropsWithChildren) {
     return onSessionChange(() => setUser(getSessionUser()));
   }, []);
 
+  useEffect(() => {
+    return startTokenRefreshScheduler();
+  }, []);
+
   const value = useMemo<AuthContextValue>(() => {
     return {
       isAuthed: Boolean(user),
@@ -82,38 +107,29 @@ function useAuth() {
   return context;
 }
 
-const routeLabels: Record<string, string> = {
-  '/': 'Dashboard',
-  '/users': 'Users',
-  '/organizations': 'Organizations',
-  '/roles': 'Roles',
-  '/audit': 'Audit logs',
-  '/billing': 'Billing',
-  '/settings': 'Settings',
-  '/login': 'Login',
-};
-
 function Breadcrumbs() {
   const location = useLocation();
+  const { t } = useI18n();
   const segments = location.pathname.split('/').filter(Boolean);
 
   if (segments.length === 0) {
     return (
       <div className="breadcrumbs">
-        <span>Dashboard</span>
+        <span>{t('nav.dashboard')}</span>
       </div>
     );
   }
 
   const crumbs = segments.map((segment, index) => {
     const path = `/${segments.slice(0, index + 1).join('/')}`;
-    const label = routeLabels[path] ?? segment[0]?.toUpperCase() + segment.slice(1);
+    const labelKey = routeLabelKeys[path];
+    const label = labelKey ? t(labelKey) : segment[0]?.toUpperCase() + segment.slice(1);
     return { path, label };
   });
 
   return (
     <div className="breadcrumbs">
-      <Link to="/">Dashboard</Link>
+      <Link to="/">{t('nav.dashboard')}</Link>
       {crumbs.map((crumb) => (
         <span key={crumb.path}>
           <span className="breadcrumbs-separator">/</span>
@@ -125,26 +141,18 @@ function Breadcrumbs() {
 }
 
 function Sidebar() {
-  const { user } = useAuth();
-  const items = [
-    { to: '/', label: 'Dashboard' },
-    { to: '/users', label: 'Users', roles: ['Admin'] },
-    { to: '/organizations', label: 'Organizations', roles: ['Admin'] },
-    { to: '/roles', label: 'Roles', roles: ['Admin'] },
-    { to: '/audit', label: 'Audit logs', roles: ['Admin'] },
-    { to: '/billing', label: 'Billing' },
-    { to: '/settings', label: 'Settings' },
-  ];
+  const { can } = usePermissions();
+  const { t } = useI18n();
 
   return (
     <aside className="sidebar">
       <div className="sidebar-brand">SaaS Dashboard</div>
       <nav className="sidebar-nav">
-        {items
-          .filter((item) => !item.roles || (user && item.roles.includes(user.role)))
+        {navigationItems
+          .filter((item) => !item.permission || can(item.permission))
           .map((item) => (
             <NavLink key={item.to} to={item.to} end={item.to === '/'}>
-              {item.label}
+              {t(item.labelKey)}
             </NavLink>
           ))}
       </nav>
@@ -155,6 +163,7 @@ function Sidebar() {
 function Topbar() {
   const { logout } = useAuth();
   const { mode, toggleTheme } = useTheme();
+  const { t } = useI18n();
   const navigate = useNavigate();
 
   const handleLogout = async () => {
@@ -167,28 +176,58 @@ function Topbar() {
 
   return (
     <header className="topbar">
-      <div className="topbar-title">Overview</div>
+      <div className="topbar-title">{t('topbar.overview')}</div>
+      <GlobalSearch />
       <div className="topbar-actions">
-        <button className="ghost-button" type="button" onClick={toggleTheme}>
-          {mode === 'light' ? 'Dark mode' : 'Light mode'}
+        <button className="ghost-button" type="button" onClick={() => runCommand('palette.open')}>
+          {t('topbar.commands')} <kbd>{formatShortcut('mod+k')}</kbd>
         </button>
-        <button className="ghost-button" type="button">
-          Notifications
+        <button className="ghost-button" type="button" onClick={toggleTheme}>
+          {mode === 'light' ? t('topbar.darkMode') : t('topbar.lightMode')}
         </button>
-        <button className="ghost-button" type="button">
-          Profile
+        <NotificationCenter />
+        <button className="ghost-button" type="button" onClick={() => navigate('/profile')}>
+          {t('topbar.profile')}
         </button>
         <button className="ghost-button" onClick={handleLogout} type="button">
-          Logout
+          {t('topbar.logout')}
         </button>
       </div>
     </header>
   );
 }
 
+function SessionTimeout() {
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const handleTimeout = async () => {
+    try {
+      await logout();
+    } finally {
+      navigate('/login', { replace: true, state: { from: location, reason: 'idle' } });
+    }
+  };
+
+  return <IdleTimeout onTimeout={handleTimeout} />;
+}
+
 function AppLayout() {
+  const { density, locale } = usePreferences();
+
+  useEffect(() => {
+    document.documentElement.dataset.density = density;
+  }, [density]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
   return (
     <div className="app-shell">
+      <SessionTimeout />
+      <CommandPalette />
       <Sidebar />
       <div className="app-main">
         <Topbar />
@@ -212,13 +251,14 @@ function PublicLayout() {
 }
 
 function RequireAuth() {
+  const { t } = useI18n();
   const { isAuthed, isLoading } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
     return (
       <section className="page">
-        <p>Loading session…</p>
+        <p>{t('login.loadingSession')}</p>
       </section>
     );
   }
@@ -230,64 +270,47 @@ function RequireAuth() {
   return <Outlet />;
 }
 
-function RequireRole({ roles }: { roles: AuthUser['role'][] }) {
-  const { user } = useAuth();
-
-  if (!user || !roles.includes(user.role)) {
-    return <Navigate to="/" replace />;
-  }
-
-  return <Outlet />;
-}
-
-function DashboardPage() {
-  return (
-    <section className="page">
-      <h1>Dashboard</h1>
-      <p>Quick snapshot of your product, users, and revenue.</p>
-    </section>
-  );
-}
-
-function SettingsPage() {
-  return (
-    <section className="page">
-      <h1>Settings</h1>
-      <p>Configure workspace preferences and billing.</p>
-    </section>
-  );
-}
-
 function LoginPage() {
+  const { t } = useI18n();
   const { isAuthed, login } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
-  const state = location.state as { from?: { pathname?: string } } | null;
-  const fallbackPath = state?.from?.pathname ?? '/';
+  const state = location.state as {
+    from?: { pathname?: string; search?: string; hash?: string };
+    reason?: 'idle';
+  } | null;
+  // A deep link wins over the landing page preference; the bare dashboard URL does not count.
+  const fromPath =
+    state?.from?.pathname && state.from.pathname !== '/'
+      ? `${state.from.pathname}${state.from.search ?? ''}${state.from.hash ?? ''}`
+      : null;
   const [error, setError] = useState<string | null>(null);
 
   if (isAuthed) {
-    return <Navigate to={fallbackPath} replace />;
+    return <Navigate to={fromPath ?? getPreferences().landingPage} replace />;
   }
 
   const handleLogin = async (username: string, password: string) => {
     setError(null);
     try {
       await login(username.trim(), password);
-      navigate(fallbackPath, { replace: true });
+      navigate(fromPath ?? getPreferences().landingPage, { replace: true });
     } catch (err) {
       if (err instanceof ApiError && err.status === 401) {
-        setError('Invalid username or password.');
+        setError(t('login.invalidCredentials'));
       } else {
-        setError('Login failed. Check credentials and try again.');
+        setError(t('login.failed'));
       }
     }
   };
 
   return (
     <section className="page">
-      <h1>Login</h1>
-      <p>Sign in to access your dashboard.</p>
+      <h1>{t('login.title')}</h1>
+      <p>{t('login.subtitle')}</p>
+      {state?.reason === 'idle' ? (
+        <p className="login-hint">{t('idle.signedOut')}</p>
+      ) : null}
       <form
         className="login-form"
         onSubmit={(event) => {
@@ -299,16 +322,16 @@ function LoginPage() {
         }}
       >
         <label className="login-field">
-          <span>Username</span>
-          <input name="username" placeholder="admin or user" required />
+          <span>{t('common.username')}</span>
+          <input name="username" placeholder={t('login.usernamePlaceholder')} required />
         </label>
         <label className="login-field">
-          <span>Password</span>
+          <span>{t('common.password')}</span>
           <input name="password" type="password" placeholder="•••••••" required />
         </label>
-        <p className="login-hint">Demo credentials: admin / admin, user / user</p>
+        <p className="login-hint">{t('login.demoCredentials')}</p>
         <button className="primary-button" type="submit">
-          Continue
+          {t('login.submit')}
         </button>
       </form>
       {error ? <p className="form-error">{error}</p> : null}
@@ -317,10 +340,11 @@ function LoginPage() {
 }
 
 function NotFoundPage() {
+  const { t } = useI18n();
   return (
     <section className="page">
-      <h1>Page not found</h1>
-      <Link to="/">Go back to Dashboard</Link>
+      <h1>{t('notFound.title')}</h1>
+      <Link to="/">{t('notFound.backToDashboard')}</Link>
     </section>
   );
 }
@@ -328,27 +352,42 @@ function NotFoundPage() {
 function App() {
   return (
     <ThemeProvider>
-      <AuthProvider>
-        <Routes>
-          <Route element={<RequireAuth />}>
-            <Route element={<AppLayout />}>
-              <Route index element={<DashboardPage />} />
-              <Route element={<RequireRole roles={['Admin']} />}>
-                <Route path="users" element={<UsersPage />} />
-                <Route path="organizations" element={<OrganizationsPage />} />
-                <Route path="roles" element={<RolesPage />} />
-                <Route path="audit" element={<AuditPage />} />
+      <ToastProvider>
+        <ConfirmProvider>
+          <AuthProvider>
+            <Routes>
+              <Route element={<RequireAuth />}>
+                <Route element={<AppLayout />}>
+                  <Route index element={<DashboardPage />} />
+                  <Route path="profile" element={<ProfilePage />} />
+                  <Route element={<RequirePermission permission="users.view" />}>
+                    <Route path="users" element={<UsersPage />} />
+                  </Route>
+                  <Route element={<RequirePermission permission="organizations.view" />}>
+                    <Route path="organizations" element={<OrganizationsPage />} />
+                  </Route>
+                  <Route element={<RequirePermission permission="roles.manage" />}>
+                    <Route path="roles" element={<RolesPage />} />
+                  </Route>
+                  <Route element={<RequirePermission permission="audit.view" />}>
+                    <Route path="audit" element={<AuditPage />} />
+                  </Route>
+                  <Route element={<RequirePermission permission="billing.view" />}>
+                    <Route path="billing" element={<BillingPage />} />
+                  </Route>
+                  <Route element={<RequirePermission permission="settings.manage" />}>
+                    <Route path="settings" element={<SettingsPage />} />
+                  </Route>
+                </Route>
+              </Route>
+              <Route element={<PublicLayout />}>
+                <Route path="login" element={<LoginPage />} />
               </Route>
-              <Route path="billing" element={<BillingPage />} />
-              <Route path="settings" element={<SettingsPage />} />
-            </Route>
-          </Route>
-          <Route element={<PublicLayout />}>
-            <Route path="login" element={<LoginPage />} />
-          </Route>
-          <Route path="*" element={<NotFoundPage />} />
-        </Routes>
-      </AuthProvider>
+              <Route path="*" element={<NotFoundPage />} />
+            </Routes>
+          </AuthProvider>
+        </ConfirmProvider>
+      </ToastProvider>
     </ThemeProvider>
   );
 }
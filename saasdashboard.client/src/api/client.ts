@@ -1,3 +1,4 @@
+import type { z } from 'zod';
 import { getAccessToken, refreshSession } from '../auth/session';
 
 export class ApiError extends Error {
@@ -12,86 +13,316 @@ export class ApiError extends Error {
   }
 }
 
-type RequestOptions = Omit<RequestInit, 'body'> & {
-  body?: unknown;
+export class ApiTimeoutError extends ApiError {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`, 408);
+    this.name = 'ApiTimeoutError';
+  }
+}
+
+const formatIssuePath = (path: readonly PropertyKey[]) =>
+  path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`;
+    return result ? `${result}.${String(key)}` : String(key);
+  }, '') || '(root)';
+
+/** Thrown when a response body does not match the schema the api module expects. */
+export class ApiContractError extends Error {
+  endpoint: string;
+  path: string;
+  issues: z.core.$ZodIssue[];
+
+  constructor(endpoint: string, issues: z.core.$ZodIssue[]) {
+    const path = issues.length ? formatIssuePath(issues[0].path) : '(root)';
+    super(`Unexpected response from ${endpoint} at ${path}: ${issues[0]?.message ?? 'invalid'}`);
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+export type ApiRequestContext = {
+  url: string;
+  path: string;
+  method: string;
+  headers: Headers;
+  attempt: number;
+  startedAt: number;
+};
+
+export type RequestInterceptor = (context: ApiRequestContext) => void | Promise<void>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  context: ApiRequestContext,
+) => void | Promise<void>;
+
+export type ApiClientConfig = {
+  baseUrl: string;
+  timeoutMs: number;
+  retry: number;
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+};
+
+/** Options every api module function accepts and forwards to `apiRequest`. */
+export type ApiCallOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+};
+
+type SendOptions = Omit<RequestInit, 'body' | 'headers' | 'signal'> &
+  ApiCallOptions & {
+    body?: unknown;
+    headers?: HeadersInit;
+  };
+
+export type RequestOptions<T = unknown> = SendOptions & {
+  schema?: z.ZodType<T>;
+  /**
+   * Extra attempts after a failure. GET and HEAD default to `config.retry`; other methods default
+   * to none, because a write that timed out may still have reached the server.
+   */
   retry?: number;
   retryDelayMs?: number;
   retryAuth?: boolean;
 };
 
-const DEFAULT_RETRY = 2;
-const DEFAULT_RETRY_DELAY_MS = 400;
-
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
 const getBaseUrl = () => {
   const envBase = import.meta.env.VITE_API_BASE_URL as string | undefined;
   return envBase?.trim() ? envBase.replace(/\/$/, '') : '';
 };
 
+const config: ApiClientConfig = {
+  baseUrl: getBaseUrl(),
+  timeoutMs: 15_000,
+  retry: 2,
+  retryDelayMs: 400,
+  maxRetryDelayMs: 10_000,
+};
+
+const requestInterceptors: RequestInterceptor[] = [];
+const responseInterceptors: ResponseInterceptor[] = [];
+
+export const configureApiClient = (overrides: Partial<ApiClientConfig>) => {
+  Object.assign(config, overrides);
+};
+
+export const addRequestInterceptor = (interceptor: RequestInterceptor) => {
+  requestInterceptors.push(interceptor);
+  return () => {
+    const index = requestInterceptors.indexOf(interceptor);
+    if (index >= 0) requestInterceptors.splice(index, 1);
+  };
+};
+
+export const addResponseInterceptor = (interceptor: ResponseInterceptor) => {
+  responseInterceptors.push(interceptor);
+  return () => {
+    const index = responseInterceptors.indexOf(interceptor);
+    if (index >= 0) responseInterceptors.splice(index, 1);
+  };
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = () => new DOMException('The request was aborted.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const idempotentMethods = new Set(['GET', 'HEAD']);
+
 const shouldRetry = (status?: number) => {
   if (!status) return true;
   return status >= 500 || status === 408 || status === 429;
 };
 
-export async function apiRequest<T>(path: string, options: RequestOptions = {}) {
+/** Exponential backoff capped at `maxRetryDelayMs`, jittered into the upper half of the window. */
+const backoffDelay = (attempt: number, baseMs: number) => {
+  const ceiling = Math.min(config.maxRetryDelayMs, baseMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+/** Parses a `Retry-After` header given either as seconds or as an HTTP date. */
+const parseRetryAfter = (value: string | null) => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const isRawBody = (body: unknown): body is BodyInit =>
+  typeof body === 'string' ||
+  body instanceof FormData ||
+  body instanceof Blob ||
+  body instanceof URLSearchParams ||
+  body instanceof ArrayBuffer;
+
+/** Reads an error body without assuming it is JSON (proxies return HTML or plain text). */
+const readErrorPayload = async (response: Response): Promise<unknown> => {
+  const text = await response.text().catch(() => '');
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+};
+
+const readBody = async <T>(response: Response) => {
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const responseText = await response.text();
+  if (!responseText) {
+    return undefined as T;
+  }
+  if (!contentType.includes('json')) {
+    return responseText as T;
+  }
+  return JSON.parse(responseText) as T;
+};
+
+type AttemptResult = { response: Response; context: ApiRequestContext };
+
+const send = async (
+  path: string,
+  attempt: number,
+  options: SendOptions,
+): Promise<AttemptResult> => {
+  const { body, headers, signal, timeoutMs = config.timeoutMs, ...init } = options;
+  const context: ApiRequestContext = {
+    url: `${config.baseUrl}${path.startsWith('/') ? path : `/${path}`}`,
+    path,
+    method: (init.method ?? 'GET').toUpperCase(),
+    headers: new Headers(headers),
+    attempt,
+    startedAt: Date.now(),
+  };
+
+  let requestBody: BodyInit | undefined;
+  if (body !== undefined && body !== null) {
+    if (isRawBody(body)) {
+      requestBody = body;
+    } else {
+      requestBody = JSON.stringify(body);
+      if (!context.headers.has('Content-Type')) {
+        context.headers.set('Content-Type', 'application/json');
+      }
+    }
+  }
+
+  for (const interceptor of requestInterceptors) {
+    await interceptor(context);
+  }
+
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  try {
+    const response = await fetch(context.url, {
+      ...init,
+      method: context.method,
+      headers: context.headers,
+      body: requestBody,
+      signal: controller.signal,
+    });
+    for (const interceptor of responseInterceptors) {
+      await interceptor(response, context);
+    }
+    return { response, context };
+  } catch (error) {
+    if (timedOut) throw new ApiTimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+const fetchWithRetry = async (
+  path: string,
+  options: Omit<RequestOptions, 'schema'>,
+): Promise<AttemptResult> => {
   const {
-    retry = DEFAULT_RETRY,
-    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
-    headers,
-    body,
+    retry = idempotentMethods.has((options.method ?? 'GET').toUpperCase()) ? config.retry : 0,
+    retryDelayMs = config.retryDelayMs,
     retryAuth = true,
-    ...rest
+    ...sendOptions
   } = options;
-  const url = `${getBaseUrl()}${path.startsWith('/') ? path : `/${path}`}`;
+  const { signal } = sendOptions;
 
   for (let attempt = 0; attempt <= retry; attempt += 1) {
+    let delayMs = backoffDelay(attempt, retryDelayMs);
     try {
-      const accessToken = getAccessToken();
-      const response = await fetch(url, {
-        ...rest,
-        headers: {
-          'Content-Type': 'application/json',
-          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
-          ...headers,
-        },
-        body: body ? JSON.stringify(body) : undefined,
-      });
+      const result = await send(path, attempt, sendOptions);
+      const { response, context } = result;
 
       if (response.status === 401 && retryAuth) {
-        const refreshed = await refreshSession();
+        const sentToken = context.headers.get('Authorization');
+        const currentToken = getAccessToken();
+        const refreshed =
+          currentToken && `Bearer ${currentToken}` !== sentToken
+            ? currentToken
+            : await refreshSession();
         if (refreshed) {
-          return apiRequest<T>(path, { ...options, retryAuth: false });
+          return fetchWithRetry(path, { ...options, retryAuth: false });
         }
       }
 
       if (!response.ok) {
-        const payloadText = await response.text().catch(() => '');
-        const payload = payloadText ? JSON.parse(payloadText) : undefined;
+        const payload = await readErrorPayload(response);
         const error = new ApiError('Request failed', response.status, payload);
-        if (attempt < retry && shouldRetry(response.status)) {
-          await sleep(retryDelayMs * (attempt + 1));
-          continue;
+        if (attempt >= retry || !shouldRetry(response.status)) {
+          throw error;
         }
-        throw error;
-      }
-
-      if (response.status === 204) {
-        return undefined as T;
+        if (response.status === 429 || response.status === 503) {
+          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+          if (retryAfter !== null) {
+            if (retryAfter > config.maxRetryDelayMs) throw error;
+            delayMs = retryAfter;
+          }
+        }
+        await sleep(delayMs, signal);
+        continue;
       }
 
-      const contentType = response.headers.get('content-type') ?? '';
-      const responseText = await response.text();
-      if (!responseText) {
-        return undefined as T;
-      }
-      if (!contentType.includes('application/json')) {
-        return responseText as T;
-      }
-      return JSON.parse(responseText) as T;
+      return result;
     } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw error;
+      if (error instanceof ApiError && !(error instanceof ApiTimeoutError)) throw error;
       if (attempt < retry) {
-        await sleep(retryDelayMs * (attempt + 1));
+        await sleep(delayMs, signal);
         continue;
       }
       throw error;
@@ -99,4 +330,116 @@ export async function apiRequest<T>(path: string, options: RequestOptions = {})
   }
 
   throw new Error('Retry strategy exhausted.');
+};
+
+export async function apiRequest<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+  const { schema, ...requestOptions } = options;
+  const { response, context } = await fetchWithRetry(path, requestOptions);
+
+  const data = await readBody<T>(response);
+  if (!schema) return data;
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const endpoint = `${context.method} ${path.split('?')[0]}`;
+    throw new ApiContractError(endpoint, result.error.issues);
+  }
+  return result.data;
 }
+
+export type DownloadProgress = {
+  loaded: number;
+  total: number | null;
+};
+
+export type DownloadOptions = ApiCallOptions & {
+  headers?: HeadersInit;
+  retry?: number;
+  /** Used when the response has no usable `Content-Disposition` header. */
+  fallbackFilename?: string;
+  onProgress?: (progress: DownloadProgress) => void;
+};
+
+export type DownloadResult = {
+  blob: Blob;
+  filename: string;
+};
+
+/** Extracts the filename from a `Content-Disposition` header, preferring the RFC 5987 `filename*` form. */
+export const parseContentDispositionFilename = (header: string | null) => {
+  if (!header) return null;
+  const encoded = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall through to the plain filename parameter.
+    }
+  }
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header);
+  const filename = plain ? (plain[2] ?? plain[1]).trim() : '';
+  return filename || null;
+};
+
+const readBlob = async (
+  response: Response,
+  signal: AbortSignal | undefined,
+  onProgress: DownloadOptions['onProgress'],
+) => {
+  const lengthHeader = Number(response.headers.get('Content-Length'));
+  const total = Number.isFinite(lengthHeader) && lengthHeader > 0 ? lengthHeader : null;
+  const type = response.headers.get('Content-Type') ?? 'application/octet-stream';
+
+  if (!response.body) {
+    const blob = await response.blob();
+    onProgress?.({ loaded: blob.size, total: blob.size });
+    return blob;
+  }
+
+  const reader = response.body.getReader();
+  const cancelRead = () => void reader.cancel().catch(() => undefined);
+  signal?.addEventListener('abort', cancelRead, { once: true });
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let loaded = 0;
+  onProgress?.({ loaded, total });
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (signal?.aborted) throw abortError();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.byteLength;
+      onProgress?.({ loaded, total });
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancelRead);
+  }
+
+  return new Blob(chunks, { type });
+};
+
+/** Downloads a binary response through the same auth, retry and interceptor pipeline as `apiRequest`. */
+export async function apiDownload(
+  path: string,
+  options: DownloadOptions = {},
+): Promise<DownloadResult> {
+  const { fallbackFilename = 'download', onProgress, ...requestOptions } = options;
+  const { response } = await fetchWithRetry(path, requestOptions);
+  const blob = await readBlob(response, requestOptions.signal, onProgress);
+  const filename =
+    parseContentDispositionFilename(response.headers.get('Content-Disposition')) ??
+    fallbackFilename;
+  return { blob, filename };
+}
+
+/** Hands a downloaded blob to the browser as a file save. */
+export const saveBlob = ({ blob, filename }: DownloadResult) => {
+  const blobUrl = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => window.URL.revokeObjectURL(blobUrl), 0);
+};
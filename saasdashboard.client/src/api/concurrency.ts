@@ -0,0 +1,17 @@
+import type { z } from 'zod';
+import { ApiError } from './client';
+
+/** Makes a write apply only to the `version` it was made from. */
+export const ifMatch = (version: string): HeadersInit => ({ 'If-Match': `"${version}"` });
+
+/**
+ * The record as the server now has it when a write was refused because someone else saved it
+ * first (412 Precondition Failed), or null for any other error. A write sent without a version
+ * (428 Precondition Required) is a client bug, not a conflict, so it is left to the error path.
+ */
+export const conflictingVersion = <T>(error: unknown, schema: z.ZodType<T>): T | null => {
+  if (!(error instanceof ApiError) || error.status !== 412) return null;
+  const payload = error.payload as { current?: unknown } | undefined;
+  const result = schema.safeParse(payload?.current);
+  return result.success ? result.data : null;
+};
@@ -0,0 +1,76 @@
+import { translate } from '../i18n/i18n';
+import { ApiError, ApiTimeoutError } from './client';
+
+export type NormalizedError = {
+  message: string;
+  status?: number;
+  /** Whether trying the same request again may succeed: network failures, timeouts, 5xx and 429. */
+  retryable: boolean;
+};
+
+type ErrorPayload = {
+  message?: unknown;
+  title?: unknown;
+  detail?: unknown;
+  errors?: unknown;
+};
+
+const firstValidationMessage = (errors: unknown) => {
+  if (!errors || typeof errors !== 'object') return undefined;
+  for (const messages of Object.values(errors)) {
+    const [first] = Array.isArray(messages) ? messages : [messages];
+    if (typeof first === 'string' && first) return first;
+  }
+  return undefined;
+};
+
+/** Controllers answer `{ message }`; model validation answers ASP.NET problem details. */
+const payloadMessage = (payload: unknown) => {
+  if (typeof payload === 'string') {
+    // Proxies answer with HTML error pages, which are no use to show.
+    return payload.trimStart().startsWith('<') ? undefined : payload.trim() || undefined;
+  }
+  if (!payload || typeof payload !== 'object') return undefined;
+  const { message, title, detail, errors } = payload as ErrorPayload;
+  if (typeof message === 'string' && message) return message;
+  const validation = firstValidationMessage(errors);
+  if (validation) return validation;
+  if (typeof detail === 'string' && detail) return detail;
+  if (typeof title === 'string' && title) return title;
+  return undefined;
+};
+
+// fetch rejects with a TypeError whose wording differs per browser when the request never
+// reaches the server; other TypeErrors are bugs and keep their message.
+const isNetworkError = (error: unknown) =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+const isRetryableStatus = (status: number) => status >= 500 || status === 408 || status === 429;
+
+export const normalizeError = (error: unknown): NormalizedError => {
+  if (error instanceof ApiTimeoutError) {
+    return {
+      message: translate('errors.timeout'),
+      status: error.status,
+      retryable: true,
+    };
+  }
+  if (error instanceof ApiError) {
+    return {
+      message:
+        payloadMessage(error.payload) ??
+        translate('errors.requestFailed', { status: error.status }),
+      status: error.status,
+      retryable: isRetryableStatus(error.status),
+    };
+  }
+  if (isNetworkError(error)) {
+    return { message: translate('errors.network'), retryable: true };
+  }
+  if (error instanceof Error) {
+    return { message: error.message, retryable: false };
+  }
+  return { message: translate('errors.unknown'), retryable: false };
+};
+
+export const errorMessage = (error: unknown) => normalizeError(error).message;
@@ -0,0 +1,45 @@
+import { getAccessToken } from '../auth/session';
+import { addRequestInterceptor, addResponseInterceptor, type RequestInterceptor } from './client';
+
+const CORRELATION_HEADER = 'X-Correlation-Id';
+
+const createCorrelationId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const authInterceptor: RequestInterceptor = ({ headers }) => {
+  const accessToken = getAccessToken();
+  if (accessToken && !headers.has('Authorization')) {
+    headers.set('Authorization', `Bearer ${accessToken}`);
+  }
+};
+
+export const correlationIdInterceptor: RequestInterceptor = ({ headers }) => {
+  if (!headers.has(CORRELATION_HEADER)) {
+    headers.set(CORRELATION_HEADER, createCorrelationId());
+  }
+};
+
+let installed = false;
+
+export const installDefaultInterceptors = ({ logging = import.meta.env.DEV } = {}) => {
+  if (installed) return;
+  installed = true;
+
+  addRequestInterceptor(authInterceptor);
+  addRequestInterceptor(correlationIdInterceptor);
+
+  if (logging) {
+    addResponseInterceptor((response, context) => {
+      const log = response.ok ? console.debug : console.warn;
+      log(
+        `[api] ${context.method} ${context.path} -> ${response.status} in ${Date.now() - context.startedAt} ms`,
+        {
+          attempt: context.attempt,
+          correlationId: context.headers.get(CORRELATION_HEADER),
+        },
+      );
+    });
+  }
+};
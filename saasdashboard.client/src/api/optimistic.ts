@@ -0,0 +1,102 @@
+import { partialMatchKey, type QueryClient, type QueryKey } from '@tanstack/react-query';
+
+/** A change to cached data: `update` runs on the data of every query under `queryKey`. */
+export type CacheUpdate = {
+  queryKey: QueryKey;
+  update: (data: unknown) => unknown;
+};
+
+/** Builds a `CacheUpdate` typed against the shape the queries under `queryKey` cache. */
+export const cacheUpdate = <TData>(
+  queryKey: QueryKey,
+  update: (data: TData) => TData,
+): CacheUpdate => ({
+  queryKey,
+  update: (data) => (data === undefined ? data : update(data as TData)),
+});
+
+/** Writes data the server confirmed, e.g. the entity a mutation returned, into the cache. */
+export const writeCache = (queryClient: QueryClient, updates: CacheUpdate[]) => {
+  for (const { queryKey, update } of updates) {
+    queryClient.setQueriesData({ queryKey }, update);
+  }
+};
+
+type PendingChange = {
+  id: number;
+  queryClient: QueryClient;
+  updates: CacheUpdate[];
+  snapshots: [QueryKey, unknown][];
+};
+
+/** Rolls an applied change back; `settle` instead keeps it once the server has caught up. */
+export type OptimisticChange = {
+  rollback: () => void;
+  settle: () => void;
+};
+
+// Changes the server has not confirmed yet, oldest first.
+const pending: PendingChange[] = [];
+let nextChangeId = 0;
+let unsubscribe: (() => void) | null = null;
+
+const applyTo = (change: PendingChange, queryKey: QueryKey) => {
+  for (const { queryKey: prefix, update } of change.updates) {
+    if (partialMatchKey(queryKey, prefix)) {
+      change.queryClient.setQueryData(queryKey, update);
+    }
+  }
+};
+
+// A refetch that lands before the server has the change would bring the old data back.
+const watchRefetches = (queryClient: QueryClient) => {
+  if (unsubscribe) return;
+  unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' || event.action.type !== 'success' || event.action.manual) return;
+    for (const change of pending) {
+      if (change.queryClient === queryClient) applyTo(change, event.query.queryKey);
+    }
+  });
+};
+
+const release = (change: PendingChange) => {
+  const index = pending.indexOf(change);
+  if (index !== -1) pending.splice(index, 1);
+  if (pending.length === 0) {
+    unsubscribe?.();
+    unsubscribe = null;
+  }
+};
+
+/**
+ * Applies `updates` to the cache straight away and keeps re-applying them over refetches until
+ * the change is settled or rolled back. Queries in flight are cancelled so they cannot overwrite it.
+ */
+export const applyOptimistic = (
+  queryClient: QueryClient,
+  updates: CacheUpdate[],
+): OptimisticChange => {
+  const snapshots = updates.flatMap(({ queryKey }) => queryClient.getQueriesData({ queryKey }));
+  const change: PendingChange = { id: nextChangeId++, queryClient, updates, snapshots };
+  for (const { queryKey } of updates) {
+    void queryClient.cancelQueries({ queryKey });
+  }
+  writeCache(queryClient, updates);
+  pending.push(change);
+  watchRefetches(queryClient);
+
+  return {
+    rollback: () => {
+      if (!pending.includes(change)) return;
+      release(change);
+      // The snapshots predate later changes, so those are applied again on top.
+      for (const [queryKey, data] of change.snapshots) {
+        queryClient.setQueryData(queryKey, data);
+        for (const later of pending) {
+          if (later.id > change.id) applyTo(later, queryKey);
+        }
+      }
+    },
+    settle: () => release(change),
+  };
+};
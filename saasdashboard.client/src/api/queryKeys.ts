@@ -0,0 +1,65 @@
+import type { AuditLogFilters } from '../audit/api';
+import type { SavedViewScope } from '../savedViews/types';
+import type { UsersQuery } from '../users/api';
+
+/**
+ * Every React Query key in the app. Keys start with the resource they cache, so invalidating
+ * `queryKeys.users.all` reaches every users query, and each request maps to exactly one key:
+ * screens asking the server the same question share a cache entry.
+ */
+export const queryKeys = {
+  users: {
+    all: ['users'] as const,
+    lists: () => [...queryKeys.users.all, 'list'] as const,
+    list: (query: UsersQuery) => [...queryKeys.users.lists(), query] as const,
+    detail: (id: string) => [...queryKeys.users.all, 'detail', id] as const,
+  },
+  organizations: {
+    all: ['organizations'] as const,
+    lists: () => [...queryKeys.organizations.all, 'list'] as const,
+    list: (includeTeams: boolean) =>
+      [...queryKeys.organizations.lists(), { includeTeams }] as const,
+  },
+  roles: {
+    all: ['roles'] as const,
+    list: () => [...queryKeys.roles.all, 'list'] as const,
+    permissions: () => [...queryKeys.roles.all, 'permissions'] as const,
+  },
+  auditLogs: {
+    all: ['audit-logs'] as const,
+    list: (filters: AuditLogFilters) => [...queryKeys.auditLogs.all, 'list', filters] as const,
+    /** Polled separately from the page, with its own retry and interval options. */
+    notifications: (username: string) =>
+      [...queryKeys.auditLogs.all, 'notifications', username] as const,
+  },
+  billing: {
+    all: ['billing'] as const,
+    plans: () => [...queryKeys.billing.all, 'plans'] as const,
+    // Without an organization id the server answers for the signed-in user's organization.
+    summary: (organizationId?: string | null) =>
+      [
+        ...queryKeys.billing.all,
+        'summary',
+        organizationId === undefined ? 'self' : organizationId,
+      ] as const,
+    invoices: (organizationId?: string | null) =>
+      [
+        ...queryKeys.billing.all,
+        'invoices',
+        organizationId === undefined ? 'self' : organizationId,
+      ] as const,
+    allPaymentMethods: () => [...queryKeys.billing.all, 'payment-methods'] as const,
+    paymentMethods: (organizationId?: string | null) =>
+      [
+        ...queryKeys.billing.allPaymentMethods(),
+        organizationId === undefined ? 'self' : organizationId,
+      ] as const,
+  },
+  auth: {
+    sessions: () => ['auth', 'sessions'] as const,
+  },
+  workspaceSettings: () => ['workspace-settings'] as const,
+  savedViews: (username: string, scope: SavedViewScope) =>
+    ['saved-views', username, scope] as const,
+  notificationReads: (username: string) => ['notifications', 'read', username] as const,
+};
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  apiDownload,
+  isAbortError,
+  saveBlob,
+  type DownloadOptions,
+  type DownloadProgress,
+} from './client';
+
+export type ActiveDownload = DownloadProgress & {
+  label: string;
+};
+
+type StartOptions = Omit<DownloadOptions, 'signal' | 'onProgress'> & {
+  label: string;
+};
+
+/**
+ * Runs one download at a time, exposing its progress for a toast and a `cancel` handle.
+ * Resolves to `false` when the user cancels; other failures are rethrown to the caller.
+ */
+export function useDownload() {
+  const [active, setActive] = useState<ActiveDownload | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  const start = useCallback(async (path: string, { label, ...options }: StartOptions) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setActive({ label, loaded: 0, total: null });
+
+    try {
+      const result = await apiDownload(path, {
+        ...options,
+        signal: controller.signal,
+        onProgress: (progress) => setActive({ label, ...progress }),
+      });
+      saveBlob(result);
+      return true;
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) return false;
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setActive(null);
+      }
+    }
+  }, []);
+
+  return { active, start, cancel };
+}
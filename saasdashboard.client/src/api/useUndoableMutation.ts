@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { useToast } from '../components/ui';
+import { useI18n } from '../i18n/i18n';
+import { applyOptimistic, type CacheUpdate } from './optimistic';
+
+const UNDO_WINDOW_MS = 6000;
+
+const warnBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+
+/** Changes still inside their undo window, across every page; leaving now would drop them. */
+let pendingChanges = 0;
+
+const trackPendingChange = () => {
+  pendingChanges += 1;
+  if (pendingChanges === 1) window.addEventListener('beforeunload', warnBeforeUnload);
+  return () => {
+    pendingChanges -= 1;
+    if (pendingChanges === 0) window.removeEventListener('beforeunload', warnBeforeUnload);
+  };
+};
+
+type UndoableMutationOptions<TVariables> = {
+  mutationFn: (variables: TVariables) => Promise<unknown>;
+  /** Cache changes that make the page look as if the mutation had already run. */
+  optimistic: (variables: TVariables) => CacheUpdate[];
+  /** Title of the toast offering "Undo", e.g. "Deleted alice". */
+  message: (variables: TVariables) => string;
+  errorTitle: string;
+  /** Refetched once the request has settled, whatever its outcome. */
+  invalidates: QueryKey[];
+  onCommitted?: (variables: TVariables) => void;
+  undoWindowMs?: number;
+};
+
+/**
+ * Applies a mutation to the cache at once but only sends it when its "Undo" toast closes,
+ * so undoing never reaches the server. A failed request rolls the cache back and shows the
+ * error with a retry. Closing or reloading the tab while a change still waits shows the browser's
+ * leave prompt, since leaving would drop it unsent.
+ */
+export function useUndoableMutation<TVariables>(options: UndoableMutationOptions<TVariables>) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const { t } = useI18n();
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  return useMemo(() => {
+    const mutate = (variables: TVariables) => {
+      const {
+        mutationFn,
+        optimistic,
+        message,
+        errorTitle,
+        invalidates,
+        onCommitted,
+        undoWindowMs = UNDO_WINDOW_MS,
+      } = optionsRef.current;
+      const change = applyOptimistic(queryClient, optimistic(variables));
+      const untrack = trackPendingChange();
+
+      const commit = async () => {
+        try {
+          await mutationFn(variables);
+          change.settle();
+          onCommitted?.(variables);
+        } catch (error) {
+          change.rollback();
+          toast.showError(error, { title: errorTitle, retry: () => mutate(variables) });
+        } finally {
+          for (const queryKey of invalidates) {
+            void queryClient.invalidateQueries({ queryKey });
+          }
+        }
+      };
+
+      toast.show({
+        title: message(variables),
+        duration: undoWindowMs,
+        action: {
+          label: t('toast.undo'),
+          onAction: () => {
+            untrack();
+            change.rollback();
+          },
+        },
+        onClose: () => {
+          untrack();
+          void commit();
+        },
+      });
+    };
+
+    return { mutate };
+  }, [queryClient, t, toast]);
+}
@@ -1,80 +1,107 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { ApiError } from '../api/client';
-import { Button, Input, Select, Table, Toast } from '../components/ui';
-import { getAuditLogs } from './api';
+import { errorMessage } from '../api/errors';
+import { useDownload } from '../api/useDownload';
+import {
+  Button,
+  Input,
+  ProgressToast,
+  Select,
+  Table,
+  Toast,
+  useToast,
+  type TableColumn,
+} from '../components/ui';
+import { getAuditLogs, type AuditLogSortKey } from './api';
 import type { AuditLogItem } from './types';
-import { getAccessToken, getSessionUser } from '../auth/session';
+import { usePermissions } from '../auth/permissions';
 import { getOrganizations } from '../organizations/api';
 import type { Organization } from '../organizations/types';
+import { SavedViewsBar } from '../savedViews/SavedViewsBar';
+import { usePageCommand, useShortcut } from '../commands/useShortcut';
+import { urlDefaults, urlParam, useUrlState } from '../urlState';
+import { useI18n } from '../i18n/i18n';
+import { pageSizes, usePageSizeParam } from '../preferences/preferences';
+import { queryKeys } from '../api/queryKeys';
 
-const pageSizeOptions = [
-  { label: '10 / page', value: '10' },
-  { label: '20 / page', value: '20' },
-  { label: '50 / page', value: '50' },
-];
-
-const parseError = (error: unknown) => {
-  if (error instanceof ApiError) {
-    const message = (error.payload as { message?: string } | undefined)?.message;
-    return message ?? `Request failed (${error.status}).`;
-  }
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return 'Something went wrong.';
+const auditUrlParams = {
+  organization: urlParam.string(),
+  user: urlParam.string(),
+  action: urlParam.string(),
+  from: urlParam.date(),
+  to: urlParam.date(),
+  page: urlParam.integer(1, { min: 1 }),
+  sort: urlParam.sort(['time', 'user', 'action'], { key: 'time', direction: 'desc' }),
 };
 
-const formatDateTime = (value: string) =>
-  new Date(value).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
-
 export function AuditPage() {
-  const sessionUser = getSessionUser();
-  const isAdmin = sessionUser?.role === 'Admin';
-  const [organizationId, setOrganizationId] = useState('');
-  const [userFilter, setUserFilter] = useState('');
-  const [actionFilter, setActionFilter] = useState('');
-  const [fromDate, setFromDate] = useState('');
-  const [toDate, setToDate] = useState('');
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(10);
-  const [exportError, setExportError] = useState<string | null>(null);
+  const { can } = usePermissions();
+  const canFilterOrganizations = can('organizations.view');
+  const i18n = useI18n();
+  const { t } = i18n;
+  const toast = useToast();
+  const pageSizeParam = usePageSizeParam();
+  const urlParams = useMemo(() => ({ ...auditUrlParams, pageSize: pageSizeParam }), [pageSizeParam]);
+  const [filters, setFilters] = useUrlState(urlParams);
+  const {
+    organization: pickedOrganizationId,
+    user: userFilter,
+    action: actionFilter,
+    from: fromDate,
+    to: toDate,
+    page,
+    pageSize,
+    sort,
+  } = filters;
+  const viewFilters = useMemo(
+    () => ({
+      organization: pickedOrganizationId,
+      user: userFilter,
+      action: actionFilter,
+      from: fromDate,
+      to: toDate,
+      pageSize,
+      sort,
+    }),
+    [actionFilter, fromDate, pageSize, pickedOrganizationId, sort, toDate, userFilter],
+  );
+  const applyView = useCallback(
+    (saved: Record<string, unknown>, { replace }: { replace: boolean }) =>
+      setFilters({ ...urlDefaults(urlParams), ...saved, page: 1 }, { replace }),
+    [setFilters, urlParams],
+  );
 
   const organizationsQuery = useQuery({
-    queryKey: ['organizations', 'audit'],
-    queryFn: () => getOrganizations(false),
-    enabled: isAdmin,
+    queryKey: queryKeys.organizations.list(false),
+    queryFn: ({ signal }) => getOrganizations(false, { signal }),
+    enabled: canFilterOrganizations,
   });
 
-  useEffect(() => {
-    if (!isAdmin) return;
-    if (organizationId) return;
-    if (organizationsQuery.data?.length) {
-      setOrganizationId(organizationsQuery.data[0].id);
-    }
-  }, [isAdmin, organizationId, organizationsQuery.data]);
+  const organizationId = pickedOrganizationId || organizationsQuery.data?.[0]?.id || '';
 
-  useEffect(() => {
-    setPage(1);
-  }, [organizationId, userFilter, actionFilter, fromDate, toDate, pageSize]);
+  // Free-text filters replace the history entry so Back does not replay every keystroke.
+  const changeFilters = (patch: Partial<typeof filters>, { typing = false } = {}) =>
+    setFilters({ ...patch, page: 1 }, { replace: typing });
 
   const query = useMemo(
     () => ({
-      organizationId: isAdmin ? organizationId : undefined,
+      organizationId: canFilterOrganizations ? organizationId : undefined,
       user: userFilter.trim() || undefined,
       action: actionFilter.trim() || undefined,
       from: fromDate || undefined,
       to: toDate || undefined,
       page,
       pageSize,
+      sortBy: sort?.key as AuditLogSortKey | undefined,
+      sortDirection: sort?.direction,
     }),
-    [actionFilter, fromDate, isAdmin, organizationId, page, pageSize, toDate, userFilter],
+    [actionFilter, fromDate, canFilterOrganizations, organizationId, page, pageSize, sort, toDate, userFilter],
   );
 
   const auditQuery = useQuery({
-    queryKey: ['audit-logs', query],
-    queryFn: () => getAuditLogs(query),
-    enabled: isAdmin ? Boolean(organizationId) : true,
+    queryKey: queryKeys.auditLogs.list(query),
+    queryFn: ({ signal }) => getAuditLogs(query, { signal }),
+    enabled: canFilterOrganizations ? Boolean(organizationId) : true,
     placeholderData: (previous) => previous,
   });
 
@@ -90,141 +117,162 @@ export function AuditPage() {
   const rangeEnd = Math.min(totalCount, safePage * pageSize);
 
   useEffect(() => {
-    if (!auditQuery.data) return;
-    if (safePage !== page) {
-      setPage(safePage);
+    if (auditQuery.data && safePage !== page) {
+      setFilters({ page: safePage }, { replace: true });
     }
-  }, [auditQuery.data, page, safePage]);
+  }, [auditQuery.data, page, safePage, setFilters]);
 
-  const columns = useMemo(
+  const columns = useMemo<TableColumn<AuditLogItem>[]>(
     () => [
       {
         key: 'time',
-        header: 'Time',
-        render: (item: AuditLogItem) => formatDateTime(item.time),
+        sortable: true,
+        header: t('audit.time'),
+        render: (item: AuditLogItem) => i18n.formatDateTime(item.time),
       },
       {
         key: 'user',
-        header: 'User',
+        sortable: true,
+        header: t('common.user'),
         render: (item: AuditLogItem) => item.user,
       },
       {
         key: 'action',
-        header: 'Action',
+        sortable: true,
+        header: t('audit.action'),
         render: (item: AuditLogItem) => item.action,
       },
     ],
-    [],
+    [i18n, t],
   );
 
+  const exportDownload = useDownload();
+
   const handleExport = async () => {
-    setExportError(null);
     try {
-      const baseUrl = (import.meta.env.VITE_API_BASE_URL as string | undefined)?.replace(/\/$/, '') ?? '';
       const params = new URLSearchParams();
-      if (isAdmin && organizationId) params.set('organizationId', organizationId);
+      if (canFilterOrganizations && organizationId) params.set('organizationId', organizationId);
       if (userFilter.trim()) params.set('user', userFilter.trim());
       if (actionFilter.trim()) params.set('action', actionFilter.trim());
       if (fromDate) params.set('from', fromDate);
       if (toDate) params.set('to', toDate);
-      const url = params.toString() ? `${baseUrl}/api/audit-logs/export?${params.toString()}` : `${baseUrl}/api/audit-logs/export`;
-      const token = getAccessToken();
-      const response = await fetch(url, { headers: token ? { Authorization: `Bearer ${token}` } : undefined });
-      if (!response.ok) {
-        throw new Error(`Export failed (${response.status}).`);
-      }
-      const blob = await response.blob();
-      const blobUrl = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`;
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      window.URL.revokeObjectURL(blobUrl);
+      const path = params.toString()
+        ? `/api/audit-logs/export?${params.toString()}`
+        : '/api/audit-logs/export';
+      await exportDownload.start(path, {
+        label: t('audit.exporting'),
+        fallbackFilename: `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`,
+      });
     } catch (error) {
-      setExportError(parseError(error));
+      toast.showError(error, {
+        title: t('audit.exportFailed'),
+        retry: () => {
+          void handleExport();
+        },
+      });
     }
   };
 
+  usePageCommand('audit.export', () => void handleExport());
+  useShortcut('e', t('palette.exportAudit'), () => void handleExport());
+
   return (
     <section className="page">
       <div className="audit-header">
         <div>
-          <h1>Audit logs & activity</h1>
-          <p>Track actions across users and systems.</p>
+          <h1>{t('audit.title')}</h1>
+          <p>{t('audit.subtitle')}</p>
+          <SavedViewsBar scope="audit-logs" filters={viewFilters} onApply={applyView} />
         </div>
         <div className="audit-actions">
-          <Button type="button" variant="secondary" onClick={handleExport} disabled={auditQuery.isLoading}>
-            Export CSV
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleExport}
+            disabled={auditQuery.isLoading || Boolean(exportDownload.active)}
+          >
+            {t('audit.exportCsv')}
           </Button>
         </div>
       </div>
 
       {auditQuery.isError ? (
-        <Toast title="Unable to load audit logs" variant="error">
-          <span>{parseError(auditQuery.error)}</span>
+        <Toast title={t('audit.loadFailed')} variant="error">
+          <span>{errorMessage(auditQuery.error)}</span>
         </Toast>
       ) : null}
 
-      {exportError ? (
-        <Toast title="Export failed" variant="error" onClose={() => setExportError(null)}>
-          <span>{exportError}</span>
-        </Toast>
+      {exportDownload.active ? (
+        <ProgressToast
+          title={exportDownload.active.label}
+          loaded={exportDownload.active.loaded}
+          total={exportDownload.active.total}
+          onCancel={exportDownload.cancel}
+        />
       ) : null}
 
       <div className="audit-filters">
-        {isAdmin ? (
+        {canFilterOrganizations ? (
           <Select
-            label="Organization"
+            label={t('common.organization')}
             value={organizationId}
             options={organizationOptions}
-            onChange={(event) => setOrganizationId(event.target.value)}
+            onChange={(event) => changeFilters({ organization: event.target.value })}
           />
         ) : null}
         <Input
-          label="User"
-          placeholder="Search by username"
+          label={t('common.user')}
+          placeholder={t('common.searchByUsername')}
           value={userFilter}
-          onChange={(event) => setUserFilter(event.target.value)}
+          onChange={(event) => changeFilters({ user: event.target.value }, { typing: true })}
         />
         <Input
-          label="Action"
-          placeholder="Search by action"
+          label={t('audit.action')}
+          placeholder={t('audit.searchAction')}
           value={actionFilter}
-          onChange={(event) => setActionFilter(event.target.value)}
+          onChange={(event) => changeFilters({ action: event.target.value }, { typing: true })}
         />
         <Input
-          label="From"
+          label={t('audit.from')}
           type="date"
           value={fromDate}
-          onChange={(event) => setFromDate(event.target.value)}
+          onChange={(event) => changeFilters({ from: event.target.value })}
         />
         <Input
-          label="To"
+          label={t('audit.to')}
           type="date"
           value={toDate}
-          onChange={(event) => setToDate(event.target.value)}
+          onChange={(event) => changeFilters({ to: event.target.value })}
         />
         <Select
-          label="Page size"
+          label={t('common.pageSize')}
           value={String(pageSize)}
-          options={pageSizeOptions}
-          onChange={(event) => setPageSize(Number(event.target.value))}
+          options={pageSizes.map((size) => ({
+            label: t('common.perPage', { size }),
+            value: String(size),
+          }))}
+          onChange={(event) => changeFilters({ pageSize: Number(event.target.value) })}
         />
       </div>
 
       <div className="audit-summary">
         <span>
-          {totalCount === 0 ? 'No audit logs found.' : `Showing ${rangeStart}-${rangeEnd} of ${totalCount}`}
+          {totalCount === 0
+            ? t('audit.noneFound')
+            : t('common.showing', { start: rangeStart, end: rangeEnd, total: totalCount })}
         </span>
-        <span>Page {safePage} of {totalPages}</span>
+        <span>{t('common.pageOf', { page: safePage, pages: totalPages })}</span>
       </div>
 
       <Table
+        tableId="audit-logs"
         columns={columns}
         data={auditQuery.data?.items ?? []}
-        emptyMessage={auditQuery.isLoading ? 'Loading audit logs…' : 'No audit logs'}
+        rowKey={(item) => item.id}
+        sort={sort}
+        sortMode="server"
+        onSortChange={(next) => changeFilters({ sort: next })}
+        emptyMessage={auditQuery.isLoading ? t('audit.loading') : t('audit.empty')}
       />
 
       <div className="audit-pagination">
@@ -232,17 +280,17 @@ export function AuditPage() {
           variant="secondary"
           type="button"
           disabled={safePage <= 1 || auditQuery.isLoading}
-          onClick={() => setPage((current) => Math.max(1, current - 1))}
+          onClick={() => setFilters({ page: Math.max(1, safePage - 1) })}
         >
-          Previous
+          {t('common.previous')}
         </Button>
         <Button
           variant="secondary"
           type="button"
           disabled={safePage >= totalPages || auditQuery.isLoading}
-          onClick={() => setPage((current) => Math.min(totalPages, current + 1))}
+          onClick={() => setFilters({ page: Math.min(totalPages, safePage + 1) })}
         >
-          Next
+          {t('common.next')}
         </Button>
       </div>
     </section>
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { KpiCard } from '../dashboard/KpiCard';
+import { useI18n } from '../i18n/i18n';
+import { getAuditLogs } from './api';
+import { queryKeys } from '../api/queryKeys';
+
+const recentQuery = { page: 1, pageSize: 10 };
+
+export function AuditWidget() {
+  const { t, formatDateTime, formatRelativeTime } = useI18n();
+  const auditQuery = useQuery({
+    queryKey: queryKeys.auditLogs.list(recentQuery),
+    queryFn: ({ signal }) => getAuditLogs(recentQuery, { signal }),
+  });
+
+  const items = auditQuery.data?.items ?? [];
+
+  return (
+    <KpiCard
+      title={t('widgets.recentActivity')}
+      isLoading={auditQuery.isLoading}
+      error={auditQuery.error}
+      onRetry={() => auditQuery.refetch()}
+      link={{ to: '/audit', label: t('widgets.allLogs') }}
+    >
+      {items.length === 0 ? (
+        <div className="kpi-card-meta">{t('widgets.noActivity')}</div>
+      ) : (
+        <ul className="kpi-activity">
+          {items.map((item) => (
+            <li key={item.id}>
+              <span className="kpi-activity-action">{item.action}</span>
+              <span className="kpi-activity-meta" title={formatDateTime(item.time)}>
+                {item.user} · {formatRelativeTime(item.time)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </KpiCard>
+  );
+}
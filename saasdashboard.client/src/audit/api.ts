@@ -1,7 +1,7 @@
-import { apiRequest } from '../api/client';
-import type { AuditLogPage } from './types';
+import { apiRequest, type ApiCallOptions } from '../api/client';
+import { auditLogPageSchema } from './types';
 
-type AuditLogFilters = {
+export type AuditLogFilters = {
   organizationId?: string;
   user?: string;
   action?: string;
@@ -9,8 +9,12 @@ type AuditLogFilters = {
   to?: string;
   page?: number;
   pageSize?: number;
+  sortBy?: AuditLogSortKey;
+  sortDirection?: 'asc' | 'desc';
 };
 
+export type AuditLogSortKey = 'time' | 'user' | 'action';
+
 const buildQuery = (filters: AuditLogFilters) => {
   const params = new URLSearchParams();
   if (filters.organizationId) params.set('organizationId', filters.organizationId);
@@ -20,11 +24,13 @@ const buildQuery = (filters: AuditLogFilters) => {
   if (filters.to) params.set('to', filters.to);
   if (filters.page) params.set('page', String(filters.page));
   if (filters.pageSize) params.set('pageSize', String(filters.pageSize));
+  if (filters.sortBy) params.set('sortBy', filters.sortBy);
+  if (filters.sortDirection) params.set('sortDirection', filters.sortDirection);
   return params.toString();
 };
 
-export const getAuditLogs = (filters: AuditLogFilters) => {
+export const getAuditLogs = (filters: AuditLogFilters, options?: ApiCallOptions) => {
   const query = buildQuery(filters);
   const path = query ? `/api/audit-logs?${query}` : '/api/audit-logs';
-  return apiRequest<AuditLogPage>(path);
+  return apiRequest(path, { ...options, schema: auditLogPageSchema });
 };
@@ -1,11 +1,17 @@
-export type AuditLogItem = {
-  id: string;
-  time: string;
-  user: string;
-  action: string;
-};
-
-export type AuditLogPage = {
-  items: AuditLogItem[];
-  totalCount: number;
-};
+import { z } from 'zod';
+
+export const auditLogItemSchema = z.object({
+  id: z.string(),
+  time: z.string(),
+  user: z.string(),
+  action: z.string(),
+});
+
+export const auditLogPageSchema = z.object({
+  items: z.array(auditLogItemSchema),
+  totalCount: z.number(),
+});
+
+export type AuditLogItem = z.infer<typeof auditLogItemSchema>;
+
+export type AuditLogPage = z.infer<typeof auditLogPageSchema>;
@@ -0,0 +1,14 @@
+import type { DashboardWidget } from '../dashboard/types';
+import { AuditWidget } from './AuditWidget';
+
+export const widgets: DashboardWidget[] = [
+  {
+    id: 'audit.recent',
+    titleKey: 'widgets.recentActivity',
+    descriptionKey: 'widgets.recentActivityDescription',
+    defaultSize: 'large',
+    defaultOrder: 50,
+    permission: 'audit.view',
+    component: AuditWidget,
+  },
+];
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button, Modal } from '../components/ui';
+import { useI18n } from '../i18n/i18n';
+import { markActivity, readLastActivity } from './activity';
+import { sessionConfig } from './config';
+
+const ACTIVITY_THROTTLE_MS = 5_000;
+const activityEvents = ['pointerdown', 'keydown', 'mousemove', 'wheel', 'touchstart'] as const;
+
+type IdleTimeoutProps = {
+  timeoutMs?: number;
+  warningMs?: number;
+  onTimeout: () => void;
+};
+
+export function IdleTimeout({
+  timeoutMs = sessionConfig.idleTimeoutMs,
+  warningMs = sessionConfig.idleWarningMs,
+  onTimeout,
+}: IdleTimeoutProps) {
+  const { t } = useI18n();
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const isWarningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  useEffect(() => {
+    markActivity();
+    let lastMarked = Date.now();
+
+    const handleActivity = () => {
+      if (isWarningRef.current) return;
+      const now = Date.now();
+      if (now - lastMarked < ACTIVITY_THROTTLE_MS) return;
+      lastMarked = now;
+      markActivity();
+    };
+
+    const interval = window.setInterval(() => {
+      const remaining = readLastActivity() + timeoutMs - Date.now();
+      if (remaining <= 0) {
+        window.clearInterval(interval);
+        onTimeoutRef.current();
+        return;
+      }
+      isWarningRef.current = remaining <= warningMs;
+      setRemainingMs(isWarningRef.current ? remaining : null);
+    }, 1000);
+
+    activityEvents.forEach((name) =>
+      window.addEventListener(name, handleActivity, { passive: true }),
+    );
+    return () => {
+      window.clearInterval(interval);
+      activityEvents.forEach((name) => window.removeEventListener(name, handleActivity));
+    };
+  }, [timeoutMs, warningMs]);
+
+  const staySignedIn = () => {
+    markActivity();
+    isWarningRef.current = false;
+    setRemainingMs(null);
+  };
+
+  const secondsLeft = Math.max(0, Math.ceil((remainingMs ?? 0) / 1000));
+
+  return (
+    <Modal
+      isOpen={remainingMs !== null}
+      title={t('idle.title')}
+      onClose={staySignedIn}
+      actions={
+        <>
+          <Button variant="ghost" type="button" onClick={() => onTimeoutRef.current()}>
+            {t('idle.signOut')}
+          </Button>
+          <Button type="button" onClick={staySignedIn}>
+            {t('idle.stay')}
+          </Button>
+        </>
+      }
+    >
+      <p>{t('idle.body', { seconds: secondsLeft })}</p>
+    </Modal>
+  );
+}
@@ -0,0 +1,23 @@
+import type { PropsWithChildren, ReactNode } from 'react';
+import { Navigate, Outlet } from 'react-router-dom';
+import { usePermissions, type PermissionKey } from './permissions';
+
+type RequirePermissionProps = PropsWithChildren<{
+  permission: PermissionKey | PermissionKey[];
+  fallback?: ReactNode;
+}>;
+
+export function RequirePermission({
+  permission,
+  fallback = null,
+  children,
+}: RequirePermissionProps) {
+  const { can } = usePermissions();
+  const allowed = can(permission);
+
+  if (children === undefined) {
+    return allowed ? <Outlet /> : <Navigate to="/" replace />;
+  }
+
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,4 @@
+const ACTIVITY_KEY = 'saas_last_activity';
+
+export const markActivity = () => localStorage.setItem(ACTIVITY_KEY, String(Date.now()));
+export const readLastActivity = () => Number(localStorage.getItem(ACTIVITY_KEY)) || Date.now();
@@ -6,7 +6,8 @@ type LoginResponse = {
   refreshToken: string;
   user: {
     username: string;
-    role: 'Admin' | 'User';
+    role: string;
+    permissions: string[];
   };
 };
 
@@ -14,7 +15,6 @@ export const login = async (username: string, password: string) => {
   const data = await apiRequest<LoginResponse>('/api/auth/login', {
     method: 'POST',
     body: { username, password },
-    retry: 0,
   });
   setSession(data);
   return data.user;
@@ -26,7 +26,6 @@ export const logout = async (refreshToken: string | null) => {
       await apiRequest('/api/auth/logout', {
         method: 'POST',
         body: { refreshToken },
-        retry: 0,
       });
     }
   } finally {
@@ -0,0 +1,12 @@
+const readNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const sessionConfig = {
+  refreshLeadMs: 60_000,
+  idleTimeoutMs:
+    readNumber(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES as string | undefined, 30) * 60_000,
+  idleWarningMs:
+    readNumber(import.meta.env.VITE_IDLE_WARNING_SECONDS as string | undefined, 60) * 1000,
+};
@@ -0,0 +1,31 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getSessionUser, onSessionChange } from './session';
+
+export type PermissionKey =
+  | 'users.view'
+  | 'users.manage'
+  | 'organizations.view'
+  | 'organizations.manage'
+  | 'roles.manage'
+  | 'billing.view'
+  | 'settings.manage'
+  | 'audit.view';
+
+const getPermissionsSnapshot = () => getSessionUser()?.permissions?.join(' ') ?? '';
+
+export const hasPermission = (permissions: string[], required: PermissionKey | PermissionKey[]) => {
+  const keys = Array.isArray(required) ? required : [required];
+  return keys.some((key) => permissions.includes(key));
+};
+
+export function usePermissions() {
+  const snapshot = useSyncExternalStore(onSessionChange, getPermissionsSnapshot);
+
+  return useMemo(() => {
+    const permissions = snapshot ? snapshot.split(' ') : [];
+    return {
+      permissions,
+      can: (required: PermissionKey | PermissionKey[]) => hasPermission(permissions, required),
+    };
+  }, [snapshot]);
+}
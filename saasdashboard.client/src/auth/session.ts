@@ -1,6 +1,10 @@
+import { sessionConfig } from './config';
+import { decodeJwtPayload, getTokenExpiry } from './token';
+
 type SessionUser = {
   username: string;
-  role: 'Admin' | 'User';
+  role: string;
+  permissions?: string[];
 };
 
 type SessionData = {
@@ -9,14 +13,36 @@ type SessionData = {
   user: SessionUser;
 };
 
+export type SessionChangeType = 'login' | 'logout' | 'rotate';
+
+export type SessionChange = {
+  type: SessionChangeType;
+  source: 'local' | 'remote';
+};
+
 const STORAGE_KEY = 'saas_session';
 const SESSION_EVENT = 'saas:session';
+const CHANNEL_NAME = 'saas:session';
+const REFRESH_LOCK = 'saas:session-refresh';
+
+const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+
+let refreshInFlight: Promise<string | null> | null = null;
 
 const getBaseUrl = () => {
   const envBase = import.meta.env.VITE_API_BASE_URL as string | undefined;
   return envBase?.trim() ? envBase.replace(/\/$/, '') : '';
 };
 
+const emitSessionChange = (change: SessionChange) => {
+  window.dispatchEvent(new CustomEvent<SessionChange>(SESSION_EVENT, { detail: change }));
+};
+
+const publishSessionChange = (type: SessionChangeType) => {
+  emitSessionChange({ type, source: 'local' });
+  channel?.postMessage(type);
+};
+
 export const getSession = (): SessionData | null => {
   const raw = localStorage.getItem(STORAGE_KEY);
   if (!raw) return null;
@@ -28,18 +54,24 @@ export const getSession = (): SessionData | null => {
 };
 
 export const setSession = (session: SessionData) => {
+  const previous = getSession();
   localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
-  window.dispatchEvent(new Event(SESSION_EVENT));
+  publishSessionChange(previous?.user.username === session.user.username ? 'rotate' : 'login');
 };
 
 export const clearSession = () => {
   localStorage.removeItem(STORAGE_KEY);
-  window.dispatchEvent(new Event(SESSION_EVENT));
+  publishSessionChange('logout');
 };
 
 export const getAccessToken = () => getSession()?.accessToken ?? null;
 export const getRefreshToken = () => getSession()?.refreshToken ?? null;
 export const getSessionUser = () => getSession()?.user ?? null;
+export const getAccessTokenExpiry = () => getTokenExpiry(getAccessToken());
+export const getSessionOrganizationId = () => {
+  const token = getAccessToken();
+  return (token && decodeJwtPayload(token)?.orgId) || null;
+};
 
 export const updateSessionTokens = (accessToken: string, refreshToken: string) => {
   const current = getSession();
@@ -47,10 +79,15 @@ export const updateSessionTokens = (accessToken: string, refreshToken: string) =
   setSession({ ...current, accessToken, refreshToken });
 };
 
-export const refreshSession = async (): Promise<string | null> => {
+const rotateTokens = async (staleRefreshToken: string | null): Promise<string | null> => {
   const refreshToken = getRefreshToken();
   if (!refreshToken) return null;
 
+  // Another tab rotated the token while we were waiting for the lock.
+  if (staleRefreshToken && refreshToken !== staleRefreshToken) {
+    return getAccessToken();
+  }
+
   const response = await fetch(`${getBaseUrl()}/api/auth/refresh`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -58,6 +95,9 @@ export const refreshSession = async (): Promise<string | null> => {
   });
 
   if (!response.ok) {
+    if (getRefreshToken() !== refreshToken) {
+      return getAccessToken();
+    }
     clearSession();
     return null;
   }
@@ -67,7 +107,70 @@ export const refreshSession = async (): Promise<string | null> => {
   return data.accessToken;
 };
 
-export const onSessionChange = (handler: () => void) => {
-  window.addEventListener(SESSION_EVENT, handler);
-  return () => window.removeEventListener(SESSION_EVENT, handler);
+export const refreshSession = (): Promise<string | null> => {
+  if (refreshInFlight) return refreshInFlight;
+
+  const staleRefreshToken = getRefreshToken();
+  const run = () => rotateTokens(staleRefreshToken);
+  const pending = navigator.locks
+    ? navigator.locks.request(REFRESH_LOCK, run).then((token) => token)
+    : run();
+
+  const shared = pending.finally(() => {
+    refreshInFlight = null;
+  });
+  refreshInFlight = shared;
+  return shared;
+};
+
+export const onSessionChange = (handler: (change: SessionChange) => void) => {
+  const listener = (event: Event) => handler((event as CustomEvent<SessionChange>).detail);
+  window.addEventListener(SESSION_EVENT, listener);
+  return () => window.removeEventListener(SESSION_EVENT, listener);
 };
+
+const REFRESH_RETRY_MS = 15_000;
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+export const startTokenRefreshScheduler = (leadMs = sessionConfig.refreshLeadMs) => {
+  let timer: number | undefined;
+
+  const schedule = (delay: number) => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(
+      () => {
+        refreshSession().catch(() => schedule(REFRESH_RETRY_MS));
+      },
+      Math.min(MAX_TIMEOUT_MS, Math.max(0, delay)),
+    );
+  };
+
+  const scheduleFromToken = () => {
+    window.clearTimeout(timer);
+    const expiresAt = getAccessTokenExpiry();
+    if (!expiresAt || !getRefreshToken()) return;
+    schedule(expiresAt - leadMs - Date.now());
+  };
+
+  scheduleFromToken();
+  const unsubscribe = onSessionChange(scheduleFromToken);
+  return () => {
+    window.clearTimeout(timer);
+    unsubscribe();
+  };
+};
+
+if (channel) {
+  channel.addEventListener('message', (event: MessageEvent<SessionChangeType>) => {
+    emitSessionChange({ type: event.data, source: 'remote' });
+  });
+} else {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_KEY && event.key !== null) return;
+    if (!event.newValue) {
+      emitSessionChange({ type: 'logout', source: 'remote' });
+      return;
+    }
+    emitSessionChange({ type: event.oldValue ? 'rotate' : 'login', source: 'remote' });
+  });
+}
@@ -0,0 +1,26 @@
+type JwtPayload = {
+  exp?: number;
+  orgId?: string;
+};
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  return atob(padded);
+};
+
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+  try {
+    return JSON.parse(decodeBase64Url(payload)) as JwtPayload;
+  } catch {
+    return null;
+  }
+};
+
+export const getTokenExpiry = (token: string | null) => {
+  if (!token) return null;
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
@@ -1,16 +1,52 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { ApiError } from '../api/client';
-import { Button, Input, Modal, Select, Table, Toast } from '../components/ui';
+import { errorMessage } from '../api/errors';
+import { useDownload } from '../api/useDownload';
+import {
+  Button,
+  Input,
+  Modal,
+  ProgressToast,
+  Select,
+  Table,
+  Toast,
+  useToast,
+  type TableColumn,
+} from '../components/ui';
 import { addPaymentMethod, getBillingSummary, getInvoices, getPaymentMethods, getPlans, updateSubscription } from './api';
 import type { Invoice, PaymentMethod } from './types';
-import { getAccessToken, getSessionUser } from '../auth/session';
+import { usePermissions } from '../auth/permissions';
 import { getOrganizations } from '../organizations/api';
 import type { Organization } from '../organizations/types';
+import { usePageCommand, useShortcut } from '../commands/useShortcut';
+import { useI18n, type MessageKey } from '../i18n/i18n';
+import type { MessageValues } from '../i18n/icu';
+import { queryKeys } from '../api/queryKeys';
 
-const billingCycleOptions = [
-  { label: 'Monthly billing', value: 'Monthly' },
-  { label: 'Yearly billing', value: 'Yearly' },
+/** The plans API has no currency field; plan prices are in US dollars. */
+const PLAN_CURRENCY = 'USD';
+
+const planPerks: Record<string, [MessageKey, MessageValues?][]> = {
+  Starter: [
+    ['billing.perk.seats', { count: 10 }],
+    ['billing.perk.basicAnalytics'],
+    ['billing.perk.communitySupport'],
+  ],
+  Growth: [
+    ['billing.perk.seats', { count: 50 }],
+    ['billing.perk.advancedAnalytics'],
+    ['billing.perk.prioritySupport'],
+  ],
+  Enterprise: [
+    ['billing.perk.unlimitedSeats'],
+    ['billing.perk.customRoles'],
+    ['billing.perk.dedicatedCsm'],
+  ],
+};
+
+const defaultPlanPerks: [MessageKey][] = [
+  ['billing.perk.customLimits'],
+  ['billing.perk.standardSupport'],
 ];
 
 const cardBrandOptions = [
@@ -20,28 +56,14 @@ const cardBrandOptions = [
   { label: 'Discover', value: 'Discover' },
 ];
 
-const parseError = (error: unknown) => {
-  if (error instanceof ApiError) {
-    const message = (error.payload as { message?: string } | undefined)?.message;
-    return message ?? `Request failed (${error.status}).`;
-  }
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return 'Something went wrong.';
-};
-
-const formatDate = (value: string) =>
-  new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
-
-const formatUsage = (used: number, limit: number) => `${used.toLocaleString()} / ${limit.toLocaleString()}`;
-
 export function BillingPage() {
   const queryClient = useQueryClient();
-  const sessionUser = getSessionUser();
-  const isAdmin = sessionUser?.role === 'Admin';
+  const { can } = usePermissions();
+  const canManageOrganizations = can('organizations.manage');
+  const i18n = useI18n();
+  const { t } = i18n;
+  const toast = useToast();
   const [billingCycle, setBillingCycle] = useState<'Monthly' | 'Yearly'>('Monthly');
-  const [error, setError] = useState<string | null>(null);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [paymentBrand, setPaymentBrand] = useState('Visa');
   const [paymentLast4, setPaymentLast4] = useState('');
@@ -49,35 +71,39 @@ export function BillingPage() {
   const [paymentExpYear, setPaymentExpYear] = useState(new Date().getFullYear() + 2);
   const [paymentDefault, setPaymentDefault] = useState(true);
   const [paymentError, setPaymentError] = useState<string | null>(null);
-  const [selectedOrgId, setSelectedOrgId] = useState<string>('');
+  const [pickedOrgId, setSelectedOrgId] = useState<string>('');
 
-  const plansQuery = useQuery({ queryKey: ['billing', 'plans'], queryFn: getPlans });
+  const plansQuery = useQuery({ queryKey: queryKeys.billing.plans(), queryFn: ({ signal }) => getPlans({ signal }) });
   const organizationsQuery = useQuery({
-    queryKey: ['organizations', 'billing'],
-    queryFn: () => getOrganizations(false),
-    enabled: isAdmin,
+    queryKey: queryKeys.organizations.list(false),
+    queryFn: ({ signal }) => getOrganizations(false, { signal }),
+    enabled: canManageOrganizations,
   });
+  const selectedOrgId = pickedOrgId || organizationsQuery.data?.[0]?.id || '';
   const summaryQuery = useQuery({
-    queryKey: ['billing', 'summary', isAdmin ? selectedOrgId : 'self'],
-    queryFn: () => getBillingSummary(isAdmin ? selectedOrgId : undefined),
-    enabled: isAdmin ? Boolean(selectedOrgId) : true,
+    queryKey: queryKeys.billing.summary(canManageOrganizations ? selectedOrgId : undefined),
+    queryFn: ({ signal }) =>
+      getBillingSummary(canManageOrganizations ? selectedOrgId : undefined, { signal }),
+    enabled: canManageOrganizations ? Boolean(selectedOrgId) : true,
   });
   const invoicesQuery = useQuery({
-    queryKey: ['billing', 'invoices', isAdmin ? selectedOrgId : 'self'],
-    queryFn: () => getInvoices(isAdmin ? selectedOrgId : undefined),
-    enabled: isAdmin ? Boolean(selectedOrgId) : true,
+    queryKey: queryKeys.billing.invoices(canManageOrganizations ? selectedOrgId : undefined),
+    queryFn: ({ signal }) =>
+      getInvoices(canManageOrganizations ? selectedOrgId : undefined, { signal }),
+    enabled: canManageOrganizations ? Boolean(selectedOrgId) : true,
   });
   const paymentMethodsQuery = useQuery({
-    queryKey: ['billing', 'payment-methods', isAdmin ? selectedOrgId : 'self'],
-    queryFn: () => getPaymentMethods(isAdmin ? selectedOrgId : undefined),
-    enabled: isAdmin ? Boolean(selectedOrgId) : true,
+    queryKey: queryKeys.billing.paymentMethods(canManageOrganizations ? selectedOrgId : undefined),
+    queryFn: ({ signal }) =>
+      getPaymentMethods(canManageOrganizations ? selectedOrgId : undefined, { signal }),
+    enabled: canManageOrganizations ? Boolean(selectedOrgId) : true,
   });
 
   const summary = summaryQuery.data;
   const plans = plansQuery.data ?? [];
 
   const currentPlanId = summary?.currentPlan.id ?? '';
-  const organizationId = (isAdmin ? selectedOrgId : summary?.organizationId) ?? '';
+  const organizationId = (canManageOrganizations ? selectedOrgId : summary?.organizationId) ?? '';
   const organizationOptions = (organizationsQuery.data ?? []).map((org: Organization) => ({
     label: org.name,
     value: org.id,
@@ -85,159 +111,167 @@ export function BillingPage() {
 
   const availableOrgId = organizationId || summary?.organizationId || '';
 
-  useEffect(() => {
-    if (!isAdmin) return;
-    if (selectedOrgId) return;
-    if (organizationsQuery.data?.length) {
-      setSelectedOrgId(organizationsQuery.data[0].id);
-    }
-  }, [isAdmin, organizationsQuery.data, selectedOrgId]);
-
   const selectMutation = useMutation({
     mutationFn: updateSubscription,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['billing'] });
-      setError(null);
+      queryClient.invalidateQueries({ queryKey: queryKeys.billing.all });
     },
-    onError: (err) => setError(parseError(err)),
+    onError: (err, variables) =>
+      toast.showError(err, {
+        title: t('billing.updateFailed'),
+        retry: () => {
+          selectMutation.mutate(variables);
+        },
+      }),
   });
 
   const paymentMutation = useMutation({
     mutationFn: addPaymentMethod,
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['billing', 'payment-methods'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.billing.allPaymentMethods() });
       setIsPaymentModalOpen(false);
       setPaymentError(null);
     },
-    onError: (err) => setPaymentError(parseError(err)),
+    onError: (err) => setPaymentError(errorMessage(err)),
   });
 
   const usageItems = useMemo(() => {
     if (!summary) return [];
     return [
       {
-        label: 'Seats',
+        label: t('billing.seats'),
         used: summary.usage.seatsUsed,
         limit: summary.usage.seatsLimit,
       },
       {
-        label: 'Storage (GB)',
+        label: t('billing.storage'),
         used: summary.usage.storageUsedGb,
         limit: summary.usage.storageLimitGb,
       },
       {
-        label: 'API calls',
+        label: t('billing.apiCalls'),
         used: summary.usage.apiCallsUsed,
         limit: summary.usage.apiCallsLimit,
       },
     ];
-  }, [summary]);
+  }, [summary, t]);
 
 
   const paymentColumns = useMemo(
     () => [
       {
         key: 'method',
-        header: 'Method',
+        header: t('billing.method'),
         render: (method: PaymentMethod) => `${method.brand} •••• ${method.last4}`,
       },
       {
         key: 'expires',
-        header: 'Expires',
+        header: t('billing.expires'),
         render: (method: PaymentMethod) => `${String(method.expMonth).padStart(2, '0')}/${method.expYear}`,
       },
       {
         key: 'default',
-        header: 'Default',
-        render: (method: PaymentMethod) => (method.isDefault ? 'Yes' : 'No'),
+        header: t('billing.default'),
+        render: (method: PaymentMethod) => (method.isDefault ? t('common.yes') : t('common.no')),
       },
     ],
-    [],
+    [t],
   );
 
-  const planPerks: Record<string, string[]> = {
-    Starter: ['Up to 10 seats', 'Basic analytics', 'Community support'],
-    Growth: ['Up to 50 seats', 'Advanced analytics', 'Priority support'],
-    Enterprise: ['Unlimited seats', 'Custom roles', 'Dedicated CSM'],
-  };
+  const invoiceDownload = useDownload();
+  const startInvoiceDownload = invoiceDownload.start;
 
   const downloadInvoice = useCallback(async (invoice: Invoice) => {
     try {
-      const baseUrl = (import.meta.env.VITE_API_BASE_URL as string | undefined)?.replace(/\/$/, '') ?? '';
-      const token = getAccessToken();
       const params = new URLSearchParams();
-      if (isAdmin && selectedOrgId) {
+      if (canManageOrganizations && selectedOrgId) {
         params.set('organizationId', selectedOrgId);
       }
-      const downloadUrl = params.toString()
-        ? `${baseUrl}/api/billing/invoices/${invoice.id}/download?${params.toString()}`
-        : `${baseUrl}/api/billing/invoices/${invoice.id}/download`;
-      const response = await fetch(downloadUrl, {
-        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      const downloadPath = params.toString()
+        ? `/api/billing/invoices/${invoice.id}/download?${params.toString()}`
+        : `/api/billing/invoices/${invoice.id}/download`;
+      await startInvoiceDownload(downloadPath, {
+        label: t('billing.downloadingInvoice', { number: invoice.number }),
+        fallbackFilename: `${invoice.number}.txt`,
       });
-      if (!response.ok) {
-        throw new Error(`Download failed (${response.status}).`);
-      }
-      const blob = await response.blob();
-      const blobUrl = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = blobUrl;
-      link.download = `${invoice.number}.txt`;
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      window.URL.revokeObjectURL(blobUrl);
     } catch (err) {
-      setError(parseError(err));
+      toast.showError(err, { title: t('billing.downloadFailed') });
     }
-  }, [isAdmin, selectedOrgId]);
+  }, [canManageOrganizations, selectedOrgId, startInvoiceDownload, t, toast]);
 
-  const invoiceColumns = useMemo(
+  const invoiceColumns = useMemo<TableColumn<Invoice>[]>(
     () => [
       {
         key: 'number',
-        header: 'Invoice',
+        header: t('billing.invoice'),
+        sortable: true,
+        sortValue: (invoice: Invoice) => invoice.number,
         render: (invoice: Invoice) => invoice.number,
       },
       {
         key: 'period',
-        header: 'Period',
+        header: t('billing.period'),
+        sortable: true,
+        sortValue: (invoice: Invoice) => invoice.periodStart,
         render: (invoice: Invoice) =>
-          `${formatDate(invoice.periodStart)} - ${formatDate(invoice.periodEnd)}`,
+          `${i18n.formatDate(invoice.periodStart)} - ${i18n.formatDate(invoice.periodEnd)}`,
       },
       {
         key: 'amount',
-        header: 'Amount',
-        render: (invoice: Invoice) => `${invoice.currency} ${invoice.amount.toFixed(2)}`,
+        header: t('billing.amount'),
+        sortable: true,
+        sortValue: (invoice: Invoice) => invoice.amount,
+        render: (invoice: Invoice) => i18n.formatCurrency(invoice.amount, invoice.currency),
       },
       {
         key: 'status',
         header: 'Status',
+        sortable: true,
+        sortValue: (invoice: Invoice) => invoice.status,
         render: (invoice: Invoice) => invoice.status,
       },
       {
         key: 'download',
         header: '',
+        hideable: false,
         render: (invoice: Invoice) => (
           <Button variant="ghost" type="button" onClick={() => downloadInvoice(invoice)}>
-            Download
+            {t('common.download')}
           </Button>
         ),
       },
     ],
-    [downloadInvoice],
+    [downloadInvoice, i18n, t],
   );
 
+  const openPaymentModal = () => {
+    setPaymentError(null);
+    setPaymentBrand('Visa');
+    setPaymentLast4('');
+    setPaymentExpMonth(12);
+    setPaymentExpYear(new Date().getFullYear() + 2);
+    setPaymentDefault(true);
+    setIsPaymentModalOpen(true);
+  };
+
+  usePageCommand('billing.add-payment-method', openPaymentModal);
+  useShortcut('p', t('palette.addPaymentMethod'), openPaymentModal);
+
+  const billingCycleOptions = [
+    { label: t('billing.monthly'), value: 'Monthly' },
+    { label: t('billing.yearly'), value: 'Yearly' },
+  ];
+
   return (
     <section className="page">
-      {isAdmin ? (
+      {canManageOrganizations ? (
         <div className="billing-org-banner">
           <div className="billing-org-banner-text">
-            <div className="billing-org-banner-title">Organization billing</div>
-            <div className="billing-org-banner-subtitle">Choose the organization to manage billing, plans, and invoices.</div>
+            <div className="billing-org-banner-title">{t('billing.orgTitle')}</div>
+            <div className="billing-org-banner-subtitle">{t('billing.orgSubtitle')}</div>
           </div>
           <Select
-            label="Organization"
+            label={t('common.organization')}
             value={selectedOrgId}
             options={organizationOptions}
             onChange={(event) => setSelectedOrgId(event.target.value)}
@@ -247,12 +281,12 @@ export function BillingPage() {
 
       <div className="billing-header">
         <div>
-          <h1>Billing & plans</h1>
-          <p>Plan selector, usage summary, and subscription status.</p>
+          <h1>{t('billing.title')}</h1>
+          <p>{t('billing.subtitle')}</p>
         </div>
         <div className="billing-controls">
           <Select
-            label="Billing cycle"
+            label={t('billing.cycle')}
             value={billingCycle}
             options={billingCycleOptions}
             onChange={(event) => setBillingCycle(event.target.value as 'Monthly' | 'Yearly')}
@@ -261,14 +295,14 @@ export function BillingPage() {
       </div>
 
       {summaryQuery.isError ? (
-        <Toast title="Unable to load billing summary" variant="error">
-          <span>{parseError(summaryQuery.error)}</span>
+        <Toast title={t('billing.summaryFailed')} variant="error">
+          <span>{errorMessage(summaryQuery.error)}</span>
         </Toast>
       ) : null}
 
       {plansQuery.isError ? (
-        <Toast title="Unable to load plans" variant="error">
-          <span>{parseError(plansQuery.error)}</span>
+        <Toast title={t('billing.plansFailed')} variant="error">
+          <span>{errorMessage(plansQuery.error)}</span>
         </Toast>
       ) : null}
 
@@ -277,14 +311,17 @@ export function BillingPage() {
           <div>
             <h2>{summary.organizationName}</h2>
             <p>
-              Status: <strong>{summary.status}</strong>
-              {summary.cancelAtPeriodEnd ? ' (cancels at period end)' : ''}
+              {t('billing.status')} <strong>{summary.status}</strong>
+              {summary.cancelAtPeriodEnd ? ` ${t('billing.cancelsAtPeriodEnd')}` : ''}
             </p>
           </div>
           <div className="billing-status-meta">
-            <div>Current plan: {summary.currentPlan.name}</div>
+            <div>{t('billing.currentPlanName', { plan: summary.currentPlan.name })}</div>
             <div>
-              Renewal: {formatDate(summary.currentPeriodEnd)} · Cycle: {summary.billingCycle}
+              {t('billing.renewal', {
+                date: i18n.formatDate(summary.currentPeriodEnd),
+                cycle: summary.billingCycle,
+              })}
             </div>
           </div>
         </div>
@@ -294,7 +331,7 @@ export function BillingPage() {
         {plans.map((plan) => {
           const isCurrent = plan.id === currentPlanId;
           const price = billingCycle === 'Yearly' ? plan.priceYearly : plan.priceMonthly;
-          const perks = planPerks[plan.name] ?? ['Custom limits', 'Standard support'];
+          const perks = planPerks[plan.name] ?? defaultPlanPerks;
           return (
             <div
               key={plan.id}
@@ -306,29 +343,28 @@ export function BillingPage() {
                 .filter(Boolean)
                 .join(' ')}
             >
-              {plan.isPopular ? <span className="plan-badge">Popular</span> : null}
+              {plan.isPopular ? <span className="plan-badge">{t('billing.popular')}</span> : null}
               <h3>{plan.name}</h3>
               <p>{plan.description}</p>
               <ul className="plan-perks">
-                {perks.map((perk) => (
-                  <li key={perk}>{perk}</li>
+                {perks.map(([key, values]) => (
+                  <li key={key}>{t(key, values)}</li>
                 ))}
               </ul>
               <div className="plan-price">
-                ${price}
-                <span>/ {billingCycle === 'Yearly' ? 'year' : 'month'}</span>
+                {i18n.formatCurrency(price, PLAN_CURRENCY)}
+                <span>{billingCycle === 'Yearly' ? t('billing.perYear') : t('billing.perMonth')}</span>
               </div>
               <Button
                 variant={isCurrent ? 'secondary' : 'primary'}
                 type="button"
                 disabled={!availableOrgId || selectMutation.isPending}
                 onClick={() => {
-                  setError(null);
                   if (!availableOrgId) return;
                   selectMutation.mutate({ organizationId: availableOrgId, planId: plan.id, billingCycle });
                 }}
               >
-                {isCurrent ? 'Current plan' : 'Select plan'}
+                {isCurrent ? t('billing.currentPlan') : t('billing.selectPlan')}
               </Button>
             </div>
           );
@@ -337,8 +373,10 @@ export function BillingPage() {
 
       <div className="billing-usage">
         <div className="billing-usage-header">
-          <h3>Usage summary</h3>
-          {summary ? <span>Period ends {formatDate(summary.currentPeriodEnd)}</span> : null}
+          <h3>{t('billing.usageSummary')}</h3>
+          {summary ? (
+            <span>{t('billing.periodEnds', { date: i18n.formatDate(summary.currentPeriodEnd) })}</span>
+          ) : null}
         </div>
         <div className="billing-usage-grid">
           {usageItems.map((item) => {
@@ -347,7 +385,9 @@ export function BillingPage() {
               <div key={item.label} className="usage-card">
                 <div className="usage-card-header">
                   <span>{item.label}</span>
-                  <span>{formatUsage(item.used, item.limit)}</span>
+                  <span>
+                    {i18n.formatNumber(item.used)} / {i18n.formatNumber(item.limit)}
+                  </span>
                 </div>
                 <div className="usage-bar">
                   <div className="usage-bar-fill" style={{ width: `${percent}%` }} />
@@ -361,60 +401,59 @@ export function BillingPage() {
       <div className="billing-secondary">
         <div className="billing-card">
           <div className="billing-card-header">
-            <h3>Payment methods</h3>
+            <h3>{t('billing.paymentMethods')}</h3>
             <Button
               variant="secondary"
               type="button"
-              onClick={() => {
-                setPaymentError(null);
-                setPaymentBrand('Visa');
-                setPaymentLast4('');
-                setPaymentExpMonth(12);
-                setPaymentExpYear(new Date().getFullYear() + 2);
-                setPaymentDefault(true);
-                setIsPaymentModalOpen(true);
-              }}
+              onClick={openPaymentModal}
             >
-              Add method
+              {t('billing.addMethod')}
             </Button>
           </div>
           {paymentMethodsQuery.isError ? (
-            <Toast title="Unable to load payment methods" variant="error">
-              <span>{parseError(paymentMethodsQuery.error)}</span>
+            <Toast title={t('billing.paymentMethodsFailed')} variant="error">
+              <span>{errorMessage(paymentMethodsQuery.error)}</span>
             </Toast>
           ) : null}
           <Table
             columns={paymentColumns}
             data={paymentMethodsQuery.data ?? []}
-            emptyMessage="No payment methods yet."
+            emptyMessage={t('billing.noPaymentMethods')}
           />
         </div>
         <div className="billing-card">
           <div className="billing-card-header">
-            <h3>Invoice history</h3>
+            <h3>{t('billing.invoiceHistory')}</h3>
           </div>
           {invoicesQuery.isError ? (
-            <Toast title="Unable to load invoices" variant="error">
-              <span>{parseError(invoicesQuery.error)}</span>
+            <Toast title={t('billing.invoicesFailed')} variant="error">
+              <span>{errorMessage(invoicesQuery.error)}</span>
             </Toast>
           ) : null}
           <Table
+            tableId="invoices"
             columns={invoiceColumns}
             data={invoicesQuery.data ?? []}
-            emptyMessage="No invoices yet."
+            rowKey={(invoice) => invoice.id}
+            maxHeight={480}
+            rowHeight={48}
+            emptyMessage={t('billing.noInvoices')}
           />
         </div>
       </div>
 
-      {error ? (
-        <Toast title="Billing update failed" variant="error" onClose={() => setError(null)}>
-          <span>{error}</span>
-        </Toast>
+      {invoiceDownload.active ? (
+        <ProgressToast
+          title={invoiceDownload.active.label}
+          loaded={invoiceDownload.active.loaded}
+          total={invoiceDownload.active.total}
+          onCancel={invoiceDownload.cancel}
+        />
       ) : null}
 
       <Modal
         isOpen={isPaymentModalOpen}
-        title="Add payment method"
+        title={t('billing.addPaymentMethod')}
         onClose={() => {
           if (paymentMutation.isPending) return;
           setIsPaymentModalOpen(false);
@@ -423,13 +462,13 @@ export function BillingPage() {
       >
         <div className="billing-form">
           <Select
-            label="Card brand"
+            label={t('billing.cardBrand')}
             value={paymentBrand}
             options={cardBrandOptions}
             onChange={(event) => setPaymentBrand(event.target.value)}
           />
           <Input
-            label="Last 4 digits"
+            label={t('billing.last4')}
             placeholder="4242"
             value={paymentLast4}
             onChange={(event) => setPaymentLast4(event.target.value.replace(/\D/g, '').slice(0, 4))}
@@ -437,7 +476,7 @@ export function BillingPage() {
           />
           <div className="billing-form-row">
             <Input
-              label="Exp month"
+              label={t('billing.expMonth')}
               type="number"
               min={1}
               max={12}
@@ -445,7 +484,7 @@ export function BillingPage() {
               onChange={(event) => setPaymentExpMonth(Number(event.target.value))}
             />
             <Input
-              label="Exp year"
+              label={t('billing.expYear')}
               type="number"
               min={new Date().getFullYear()}
               max={new Date().getFullYear() + 15}
@@ -459,7 +498,7 @@ export function BillingPage() {
               checked={paymentDefault}
               onChange={(event) => setPaymentDefault(event.target.checked)}
             />
-            Set as default
+            {t('billing.setDefault')}
           </label>
           <div className="billing-form-actions">
             <Button
@@ -478,7 +517,7 @@ export function BillingPage() {
                 });
               }}
             >
-              {paymentMutation.isPending ? 'Saving…' : 'Save method'}
+              {paymentMutation.isPending ? t('common.saving') : t('billing.saveMethod')}
             </Button>
           </div>
         </div>
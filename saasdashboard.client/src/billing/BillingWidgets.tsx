@@ -0,0 +1,85 @@
+import { useQuery } from '@tanstack/react-query';
+import { KpiCard } from '../dashboard/KpiCard';
+import { useI18n } from '../i18n/i18n';
+import { getBillingSummary, getInvoices } from './api';
+import type { UsageSummary } from './types';
+import { queryKeys } from '../api/queryKeys';
+
+const toPercent = (used: number, limit: number) =>
+  limit === 0 ? 0 : Math.min(100, Math.round((used / limit) * 100));
+
+const getUsagePercent = (usage: UsageSummary) =>
+  Math.max(
+    toPercent(usage.seatsUsed, usage.seatsLimit),
+    toPercent(usage.storageUsedGb, usage.storageLimitGb),
+    toPercent(usage.apiCallsUsed, usage.apiCallsLimit),
+  );
+
+export function PlanWidget() {
+  const { t } = useI18n();
+  const summaryQuery = useQuery({
+    queryKey: queryKeys.billing.summary(),
+    queryFn: ({ signal }) => getBillingSummary(undefined, { signal }),
+  });
+
+  const summary = summaryQuery.data;
+  const usagePercent = summary ? getUsagePercent(summary.usage) : 0;
+
+  return (
+    <KpiCard
+      title={t('widgets.currentPlan')}
+      isLoading={summaryQuery.isLoading}
+      error={summaryQuery.error}
+      onRetry={() => summaryQuery.refetch()}
+      link={{ to: '/billing', label: t('nav.billing') }}
+    >
+      {summary ? (
+        <>
+          <div className="kpi-card-value">{summary.currentPlan.name}</div>
+          <div className="kpi-card-meta">
+            {summary.status} · {summary.billingCycle}
+          </div>
+          <div className="usage-bar">
+            <div className="usage-bar-fill" style={{ width: `${usagePercent}%` }} />
+          </div>
+          <div className="kpi-card-meta">{t('widgets.planUsage', { percent: usagePercent })}</div>
+        </>
+      ) : null}
+    </KpiCard>
+  );
+}
+
+export function InvoicesWidget() {
+  const { t, formatCurrency } = useI18n();
+  const invoicesQuery = useQuery({
+    queryKey: queryKeys.billing.invoices(),
+    queryFn: ({ signal }) => getInvoices(undefined, { signal }),
+  });
+
+  const unpaid = (invoicesQuery.data ?? []).filter((invoice) => invoice.status !== 'Paid');
+  // Amounts in different currencies cannot be added up, so each currency keeps its own total.
+  const outstanding = new Map<string, number>();
+  for (const invoice of unpaid) {
+    outstanding.set(invoice.currency, (outstanding.get(invoice.currency) ?? 0) + invoice.amount);
+  }
+  const outstandingTotals = [...outstanding]
+    .map(([currency, amount]) => formatCurrency(amount, currency))
+    .join(', ');
+
+  return (
+    <KpiCard
+      title={t('widgets.unpaidInvoices')}
+      isLoading={invoicesQuery.isLoading}
+      error={invoicesQuery.error}
+      onRetry={() => invoicesQuery.refetch()}
+      link={{ to: '/billing', label: t('widgets.view') }}
+    >
+      <div className="kpi-card-value">{unpaid.length}</div>
+      <div className="kpi-card-meta">
+        {unpaid.length === 0
+          ? t('widgets.allPaid')
+          : t('widgets.outstanding', { amounts: outstandingTotals })}
+      </div>
+    </KpiCard>
+  );
+}
@@ -1,36 +1,42 @@
-import { apiRequest } from '../api/client';
-import type { BillingSummary, Invoice, PaymentMethod, Plan } from './types';
+import { apiRequest, type ApiCallOptions } from '../api/client';
+import { z } from 'zod';
+import { billingSummarySchema, invoiceSchema, paymentMethodSchema, planSchema } from './types';
 
-export const getPlans = () => apiRequest<Plan[]>('/api/billing/plans');
+export const getPlans = (options?: ApiCallOptions) =>
+  apiRequest('/api/billing/plans', { ...options, schema: z.array(planSchema) });
 
-export const getBillingSummary = (organizationId?: string) => {
+export const getBillingSummary = (organizationId?: string, options?: ApiCallOptions) => {
   const params = new URLSearchParams();
   if (organizationId) {
     params.set('organizationId', organizationId);
   }
   const path = params.toString() ? `/api/billing/summary?${params.toString()}` : '/api/billing/summary';
-  return apiRequest<BillingSummary>(path);
+  return apiRequest(path, { ...options, schema: billingSummarySchema });
 };
 
 export const updateSubscription = (payload: { organizationId: string; planId: string; billingCycle: string }) =>
-  apiRequest<BillingSummary>('/api/billing/subscribe', { method: 'POST', body: payload });
+  apiRequest('/api/billing/subscribe', {
+    method: 'POST',
+    body: payload,
+    schema: billingSummarySchema,
+  });
 
-export const getInvoices = (organizationId?: string) => {
+export const getInvoices = (organizationId?: string, options?: ApiCallOptions) => {
   const params = new URLSearchParams();
   if (organizationId) {
     params.set('organizationId', organizationId);
   }
   const path = params.toString() ? `/api/billing/invoices?${params.toString()}` : '/api/billing/invoices';
-  return apiRequest<Invoice[]>(path);
+  return apiRequest(path, { ...options, schema: z.array(invoiceSchema) });
 };
 
-export const getPaymentMethods = (organizationId?: string) => {
+export const getPaymentMethods = (organizationId?: string, options?: ApiCallOptions) => {
   const params = new URLSearchParams();
   if (organizationId) {
     params.set('organizationId', organizationId);
   }
   const path = params.toString() ? `/api/billing/payment-methods?${params.toString()}` : '/api/billing/payment-methods';
-  return apiRequest<PaymentMethod[]>(path);
+  return apiRequest(path, { ...options, schema: z.array(paymentMethodSchema) });
 };
 
 export const addPaymentMethod = (payload: {
@@ -40,4 +46,9 @@ export const addPaymentMethod = (payload: {
   expMonth: number;
   expYear: number;
   isDefault: boolean;
-}) => apiRequest<PaymentMethod[]>('/api/billing/payment-methods', { method: 'POST', body: payload });
+}) =>
+  apiRequest('/api/billing/payment-methods', {
+    method: 'POST',
+    body: payload,
+    schema: z.array(paymentMethodSchema),
+  });
@@ -1,51 +1,63 @@
-export type Plan = {
-  id: string;
-  name: string;
-  description: string;
-  priceMonthly: number;
-  priceYearly: number;
-  isPopular: boolean;
-};
-
-export type UsageSummary = {
-  seatsUsed: number;
-  seatsLimit: number;
-  storageUsedGb: number;
-  storageLimitGb: number;
-  apiCallsUsed: number;
-  apiCallsLimit: number;
-};
-
-export type BillingSummary = {
-  organizationId: string;
-  organizationName: string;
-  currentPlan: Plan;
-  status: string;
-  billingCycle: string;
-  currentPeriodStart: string;
-  currentPeriodEnd: string;
-  cancelAtPeriodEnd: boolean;
-  usage: UsageSummary;
-};
-
-export type Invoice = {
-  id: string;
-  number: string;
-  issuedAt: string;
-  dueAt: string;
-  paidAt?: string | null;
-  amount: number;
-  currency: string;
-  status: string;
-  periodStart: string;
-  periodEnd: string;
-};
-
-export type PaymentMethod = {
-  id: string;
-  brand: string;
-  last4: string;
-  expMonth: number;
-  expYear: number;
-  isDefault: boolean;
-};
+import { z } from 'zod';
+
+export const planSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  priceMonthly: z.number(),
+  priceYearly: z.number(),
+  isPopular: z.boolean(),
+});
+
+export const usageSummarySchema = z.object({
+  seatsUsed: z.number(),
+  seatsLimit: z.number(),
+  storageUsedGb: z.number(),
+  storageLimitGb: z.number(),
+  apiCallsUsed: z.number(),
+  apiCallsLimit: z.number(),
+});
+
+export const billingSummarySchema = z.object({
+  organizationId: z.string(),
+  organizationName: z.string(),
+  currentPlan: planSchema,
+  status: z.string(),
+  billingCycle: z.string(),
+  currentPeriodStart: z.string(),
+  currentPeriodEnd: z.string(),
+  cancelAtPeriodEnd: z.boolean(),
+  usage: usageSummarySchema,
+});
+
+export const invoiceSchema = z.object({
+  id: z.string(),
+  number: z.string(),
+  issuedAt: z.string(),
+  dueAt: z.string(),
+  paidAt: z.string().nullish(),
+  amount: z.number(),
+  currency: z.string(),
+  status: z.string(),
+  periodStart: z.string(),
+  periodEnd: z.string(),
+});
+
+export const paymentMethodSchema = z.object({
+  id: z.string(),
+  brand: z.string(),
+  last4: z.string(),
+  expMonth: z.number(),
+  expYear: z.number(),
+  isDefault: z.boolean(),
+});
+
+export type Plan = z.infer<typeof planSchema>;
+
+export type UsageSummary = z.infer<typeof usageSummarySchema>;
+
+export type BillingSummary = z.infer<typeof billingSummarySchema>;
+
+export type Invoice = z.infer<typeof invoiceSchema>;
+
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
@@ -0,0 +1,23 @@
+import type { DashboardWidget } from '../dashboard/types';
+import { InvoicesWidget, PlanWidget } from './BillingWidgets';
+
+export const widgets: DashboardWidget[] = [
+  {
+    id: 'billing.plan',
+    titleKey: 'widgets.currentPlan',
+    descriptionKey: 'widgets.currentPlanDescription',
+    defaultSize: 'medium',
+    defaultOrder: 30,
+    permission: 'billing.view',
+    component: PlanWidget,
+  },
+  {
+    id: 'billing.unpaid-invoices',
+    titleKey: 'widgets.unpaidInvoices',
+    descriptionKey: 'widgets.unpaidInvoicesDescription',
+    defaultSize: 'small',
+    defaultOrder: 40,
+    permission: 'billing.view',
+    component: InvoicesWidget,
+  },
+];
@@ -0,0 +1,219 @@
+import { useEffect, useState, type KeyboardEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Modal } from '../components/ui';
+import { usePermissions, type PermissionKey } from '../auth/permissions';
+import { useI18n, type MessageKey } from '../i18n/i18n';
+import { navigationItems } from '../navigation';
+import { useTheme } from '../theme';
+import { useEntitySearch, type EntityResult } from '../search/useEntitySearch';
+import { fuzzyFilter } from './fuzzy';
+import { formatShortcut, runCommand } from './registry';
+import { ShortcutHelp } from './ShortcutHelp';
+import { usePageCommand, useShortcut, useShortcutListener } from './useShortcut';
+
+type PaletteItem = {
+  id: string;
+  group: 'palette.pages' | 'palette.actions' | EntityResult['group'];
+  label: string;
+  hint?: string;
+  run: () => void;
+};
+
+/** Page actions; each page registers a handler for its id with `usePageCommand`. */
+const pageActions: {
+  id: string;
+  labelKey: MessageKey;
+  route: string;
+  permission: PermissionKey;
+}[] = [
+  {
+    id: 'users.create',
+    labelKey: 'palette.createUser',
+    route: '/users',
+    permission: 'users.manage',
+  },
+  {
+    id: 'billing.add-payment-method',
+    labelKey: 'palette.addPaymentMethod',
+    route: '/billing',
+    permission: 'billing.view',
+  },
+  {
+    id: 'audit.export',
+    labelKey: 'palette.exportAudit',
+    route: '/audit',
+    permission: 'audit.view',
+  },
+];
+
+const ENTITY_LIMIT = 5;
+
+type CommandPaletteDialogProps = {
+  onClose: () => void;
+  onShowShortcuts: () => void;
+};
+
+function CommandPaletteDialog({ onClose, onShowShortcuts }: CommandPaletteDialogProps) {
+  const navigate = useNavigate();
+  const { can } = usePermissions();
+  const { mode, toggleTheme } = useTheme();
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const handle = window.setTimeout(() => {
+      setSearch(query.trim());
+    }, 250);
+    return () => window.clearTimeout(handle);
+  }, [query]);
+
+  const { results, isFetching } = useEntitySearch(search, ENTITY_LIMIT);
+
+  const staticItems: PaletteItem[] = [
+    ...navigationItems
+      .filter((item) => !item.permission || can(item.permission))
+      .map((item) => ({
+        id: `page:${item.to}`,
+        group: 'palette.pages' as const,
+        label: t(item.labelKey),
+        run: () => navigate(item.to),
+      })),
+    ...pageActions
+      .filter((action) => can(action.permission))
+      .map((action) => ({
+        id: `action:${action.id}`,
+        group: 'palette.actions' as const,
+        label: t(action.labelKey),
+        run: () => {
+          if (!runCommand(action.id)) navigate(action.route);
+        },
+      })),
+    {
+      id: 'action:theme',
+      group: 'palette.actions',
+      label: mode === 'light' ? t('palette.darkMode') : t('palette.lightMode'),
+      run: toggleTheme,
+    },
+    {
+      id: 'action:shortcuts',
+      group: 'palette.actions',
+      label: t('palette.shortcuts'),
+      hint: formatShortcut('?'),
+      run: onShowShortcuts,
+    },
+  ];
+
+  const entityItems: PaletteItem[] = query.trim()
+    ? results.map((result) => ({
+        id: result.id,
+        group: result.group,
+        label: result.label,
+        hint: result.detail,
+        run: () => navigate(result.to),
+      }))
+    : [];
+
+  const items = [...fuzzyFilter(staticItems, query, (item) => item.label), ...entityItems];
+  const active = Math.min(activeIndex, items.length - 1);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((active + 1) % Math.max(items.length, 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((active - 1 + items.length) % Math.max(items.length, 1));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      runItem(items[active]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen title={t('palette.title')} onClose={onClose}>
+      <div className="command-palette">
+        <input
+          className="ui-input"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={items[active] ? `command-${items[active].id}` : undefined}
+          placeholder={t('palette.placeholder')}
+          value={query}
+          autoFocus
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+        <ul id="command-palette-results" className="command-palette-results" role="listbox">
+          {items.map((item, index) => (
+            <li key={item.id} role="presentation">
+              {index === 0 || items[index - 1].group !== item.group ? (
+                <div className="command-palette-group" role="presentation">
+                  {t(item.group)}
+                </div>
+              ) : null}
+              <div
+                id={`command-${item.id}`}
+                role="option"
+                aria-selected={index === active}
+                className={
+                  index === active ? 'command-palette-item is-active' : 'command-palette-item'
+                }
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => runItem(item)}
+              >
+                <span>{item.label}</span>
+                {item.hint ? <span className="command-palette-hint">{item.hint}</span> : null}
+              </div>
+            </li>
+          ))}
+        </ul>
+        {items.length === 0 ? (
+          <p className="command-palette-empty">
+            {isFetching ? t('search.searching') : t('palette.noMatches')}
+          </p>
+        ) : null}
+      </div>
+    </Modal>
+  );
+}
+
+/** Ctrl/Cmd+K palette and the `?` shortcut overlay; mounted once in the app layout. */
+export function CommandPalette() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const { t } = useI18n();
+
+  useShortcutListener();
+  useShortcut('mod+k', t('palette.open'), () => setIsOpen((current) => !current), {
+    scope: 'global',
+  });
+  useShortcut('?', t('palette.shortcuts'), () => setIsHelpOpen(true), { scope: 'global' });
+  usePageCommand('palette.open', () => setIsOpen(true));
+
+  return (
+    <>
+      {isOpen ? (
+        <CommandPaletteDialog
+          onClose={() => setIsOpen(false)}
+          onShowShortcuts={() => setIsHelpOpen(true)}
+        />
+      ) : null}
+      {isHelpOpen ? <ShortcutHelp onClose={() => setIsHelpOpen(false)} /> : null}
+    </>
+  );
+}
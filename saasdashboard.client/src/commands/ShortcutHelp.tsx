@@ -0,0 +1,40 @@
+import { Modal } from '../components/ui';
+import { useI18n, type MessageKey } from '../i18n/i18n';
+import { formatShortcut, type Shortcut } from './registry';
+import { useRegisteredShortcuts } from './useShortcut';
+
+const sections: { scope: Shortcut['scope']; titleKey: MessageKey }[] = [
+  { scope: 'global', titleKey: 'shortcuts.global' },
+  { scope: 'page', titleKey: 'shortcuts.page' },
+];
+
+export function ShortcutHelp({ onClose }: { onClose: () => void }) {
+  const shortcuts = useRegisteredShortcuts();
+  const { t } = useI18n();
+
+  return (
+    <Modal isOpen title={t('shortcuts.title')} onClose={onClose}>
+      <div className="shortcut-help">
+        {sections.map(({ scope, titleKey }) => {
+          const entries = shortcuts.filter((shortcut) => shortcut.scope === scope);
+          if (!entries.length) return null;
+          return (
+            <section key={scope}>
+              <h3>{t(titleKey)}</h3>
+              <dl>
+                {entries.map((shortcut) => (
+                  <div key={shortcut.id} className="shortcut-help-row">
+                    <dt>
+                      <kbd>{formatShortcut(shortcut.keys)}</kbd>
+                    </dt>
+                    <dd>{shortcut.description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * Scores `text` against `query` as an in-order subsequence match, or returns null when some
+ * query character is missing. Consecutive characters and matches at word starts score higher,
+ * so "au" ranks "Audit logs" above "Manage users".
+ */
+export const fuzzyScore = (query: string, text: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s/._-]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  // Prefer shorter labels when the match quality is the same.
+  return score - haystack.length / 100;
+};
+
+export const fuzzyFilter = <T>(items: T[], query: string, text: (item: T) => string) =>
+  items
+    .map((item) => ({ item, score: fuzzyScore(query, text(item)) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.item);
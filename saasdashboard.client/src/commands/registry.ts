@@ -0,0 +1,94 @@
+export type ShortcutScope = 'global' | 'page';
+
+export type Shortcut = {
+  id: string;
+  /** `mod+k`, `shift+n` or a single key such as `?`; `mod` is Cmd on macOS and Ctrl elsewhere. */
+  keys: string;
+  description: string;
+  scope: ShortcutScope;
+  run: () => void;
+};
+
+const shortcuts = new Map<string, Shortcut>();
+const listeners = new Set<() => void>();
+let snapshot: Shortcut[] = [];
+
+const emit = () => {
+  snapshot = [...shortcuts.values()];
+  listeners.forEach((listener) => listener());
+};
+
+export const registerShortcut = (shortcut: Shortcut) => {
+  shortcuts.set(shortcut.id, shortcut);
+  emit();
+  return () => {
+    if (shortcuts.get(shortcut.id) === shortcut) {
+      shortcuts.delete(shortcut.id);
+      emit();
+    }
+  };
+};
+
+export const subscribeShortcuts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getShortcuts = () => snapshot;
+
+export const isMac =
+  typeof navigator !== 'undefined' && /mac|iphone|ipad/i.test(navigator.platform);
+
+export const formatShortcut = (keys: string) =>
+  keys
+    .split('+')
+    .map((part) => {
+      if (part === 'mod') return isMac ? '⌘' : 'Ctrl';
+      if (part === 'shift') return isMac ? '⇧' : 'Shift';
+      if (part === 'alt') return isMac ? '⌥' : 'Alt';
+      return part.length === 1 ? part.toUpperCase() : part;
+    })
+    .join(isMac ? '' : '+');
+
+export const matchesShortcut = (event: KeyboardEvent, keys: string) => {
+  const parts = keys.toLowerCase().split('+');
+  const key = parts[parts.length - 1];
+  const wantsMod = parts.includes('mod');
+  const hasMod = isMac ? event.metaKey : event.ctrlKey;
+  if (wantsMod !== hasMod || parts.includes('alt') !== event.altKey) return false;
+  // Shift is implied by characters such as `?`, so it is only checked when spelled out.
+  if (parts.includes('shift') && !event.shiftKey) return false;
+  return event.key.toLowerCase() === key;
+};
+
+const handlers = new Map<string, () => void>();
+let pendingCommand: string | null = null;
+
+/**
+ * Lets a page expose an action to the command palette. When the palette runs a command whose
+ * page is not mounted yet, it navigates there and the command runs once the page registers.
+ */
+export const registerCommandHandler = (id: string, run: () => void) => {
+  handlers.set(id, run);
+  if (pendingCommand === id) {
+    pendingCommand = null;
+    queueMicrotask(run);
+  }
+  return () => {
+    if (handlers.get(id) === run) handlers.delete(id);
+  };
+};
+
+/** Runs a registered page command, or queues it for the page about to mount. */
+export const runCommand = (id: string) => {
+  const handler = handlers.get(id);
+  if (handler) {
+    pendingCommand = null;
+    handler();
+    return true;
+  }
+  pendingCommand = id;
+  return false;
+};
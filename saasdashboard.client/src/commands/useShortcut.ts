@@ -0,0 +1,81 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  getShortcuts,
+  matchesShortcut,
+  registerCommandHandler,
+  registerShortcut,
+  subscribeShortcuts,
+  type ShortcutScope,
+} from './registry';
+
+const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return Boolean(
+    element &&
+    (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)),
+  );
+};
+
+/** Keeps the latest callback without re-registering on every render. */
+const useLatest = <T>(value: T) => {
+  const ref = useRef(value);
+  useEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+};
+
+/**
+ * Registers a keyboard shortcut while the calling component is mounted. Page shortcuts disappear
+ * from the help overlay when the user navigates away.
+ */
+export function useShortcut(
+  keys: string,
+  description: string,
+  run: () => void,
+  { scope = 'page', enabled = true }: { scope?: ShortcutScope; enabled?: boolean } = {},
+) {
+  const latest = useLatest(run);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return registerShortcut({
+      id: `${scope}:${keys}`,
+      keys,
+      description,
+      scope,
+      run: () => latest.current(),
+    });
+  }, [description, enabled, keys, latest, scope]);
+}
+
+/** Exposes a page action to the command palette under `id`. */
+export function usePageCommand(id: string, run: () => void, enabled = true) {
+  const latest = useLatest(run);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return registerCommandHandler(id, () => latest.current());
+  }, [enabled, id, latest]);
+}
+
+export function useRegisteredShortcuts() {
+  return useSyncExternalStore(subscribeShortcuts, getShortcuts);
+}
+
+/** Dispatches key presses to registered shortcuts; mount once in the app shell. */
+export function useShortcutListener() {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return;
+      const shortcut = getShortcuts().find((item) => matchesShortcut(event, item.keys));
+      if (!shortcut) return;
+      // Plain-key shortcuts must not fire while the user is typing into a field.
+      if (!shortcut.keys.includes('mod') && isTypingTarget(event.target)) return;
+      event.preventDefault();
+      shortcut.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -1,6 +1,6 @@
 import type { ButtonHTMLAttributes } from 'react';
 
-type ButtonVariant = 'primary' | 'secondary' | 'ghost';
+type ButtonVariant = 'primary' | 'secondary' | 'ghost' | 'danger';
 
 type ButtonProps = ButtonHTMLAttributes<HTMLButtonElement> & {
   variant?: ButtonVariant;
@@ -10,6 +10,7 @@ const variantClassMap: Record<ButtonVariant, string> = {
   primary: 'ui-button--primary',
   secondary: 'ui-button--secondary',
   ghost: 'ui-button--ghost',
+  danger: 'ui-button--danger',
 };
 
 export function Button({ variant = 'primary', className, ...props }: ButtonProps) {
@@ -0,0 +1,111 @@
+import { useCallback, useId, useState, type FormEvent, type PropsWithChildren } from 'react';
+import { useI18n } from '../../i18n/i18n';
+import { Button } from './Button';
+import { ConfirmContext, type ConfirmOptions } from './confirm';
+import { Input } from './Input';
+import { Modal } from './Modal';
+
+type PendingConfirm = {
+  id: number;
+  options: ConfirmOptions;
+  resolve: (confirmed: boolean) => void;
+};
+
+let nextConfirmId = 0;
+
+function ConfirmDialog({ options, resolve }: Omit<PendingConfirm, 'id'>) {
+  const { t } = useI18n();
+  const descriptionId = useId();
+  const [typed, setTyped] = useState('');
+  const isDanger = options.tone === 'danger';
+  const canConfirm = !options.requireText || typed.trim() === options.requireText;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (canConfirm) resolve(true);
+  };
+
+  return (
+    <Modal
+      isOpen
+      title={options.title}
+      describedBy={descriptionId}
+      onClose={() => resolve(false)}
+      actions={
+        <>
+          {/* Without a field to type in, focus starts on the safe choice. */}
+          <Button
+            variant="ghost"
+            type="button"
+            autoFocus={!options.requireText}
+            onClick={() => resolve(false)}
+          >
+            {options.cancelLabel ?? t('confirm.cancel')}
+          </Button>
+          <Button
+            variant={isDanger ? 'danger' : 'primary'}
+            type="submit"
+            form={descriptionId}
+            disabled={!canConfirm}
+          >
+            {options.confirmLabel ?? t('confirm.confirm')}
+          </Button>
+        </>
+      }
+    >
+      <form id={descriptionId} className="ui-confirm" onSubmit={handleSubmit}>
+        {options.message ? <p className="ui-confirm-message">{options.message}</p> : null}
+        {options.impact ? (
+          <p
+            className={
+              isDanger ? 'ui-confirm-impact ui-confirm-impact--danger' : 'ui-confirm-impact'
+            }
+          >
+            {options.impact}
+          </p>
+        ) : null}
+        {options.requireText ? (
+          <Input
+            label={t('confirm.typeToConfirm', { text: options.requireText })}
+            value={typed}
+            autoFocus
+            autoComplete="off"
+            onChange={(event) => setTyped(event.target.value)}
+          />
+        ) : null}
+      </form>
+    </Modal>
+  );
+}
+
+/** Serves `useConfirm()`; requests made while a dialog is open are shown one after another. */
+export function ConfirmProvider({ children }: PropsWithChildren) {
+  const [queue, setQueue] = useState<PendingConfirm[]>([]);
+
+  const confirm = useCallback(
+    (options: ConfirmOptions) =>
+      new Promise<boolean>((resolve) => {
+        const pending: PendingConfirm = {
+          id: nextConfirmId++,
+          options,
+          resolve: (confirmed) => {
+            setQueue((current) => current.filter((item) => item !== pending));
+            resolve(confirmed);
+          },
+        };
+        setQueue((current) => [...current, pending]);
+      }),
+    [],
+  );
+
+  const [current] = queue;
+
+  return (
+    <ConfirmContext.Provider value={confirm}>
+      {children}
+      {current ? (
+        <ConfirmDialog key={current.id} options={current.options} resolve={current.resolve} />
+      ) : null}
+    </ConfirmContext.Provider>
+  );
+}
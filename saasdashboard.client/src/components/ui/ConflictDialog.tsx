@@ -0,0 +1,113 @@
+import { useId, useState } from 'react';
+import { useI18n } from '../../i18n/i18n';
+import { Button } from './Button';
+import type { ConflictChoice, ConflictChoices, ConflictField } from './conflict';
+import { Modal } from './Modal';
+
+type ConflictDialogProps = {
+  /** What was being edited, e.g. a username. */
+  name: string;
+  /** Fields where your edit and the saved record differ, usually built with `diffField`. */
+  fields: ConflictField[];
+  isSaving?: boolean;
+  /** Saves the value picked for each field over the saved record. */
+  onMerge: (choices: ConflictChoices) => void;
+  /** Saves your edit as it is over the saved record. */
+  onOverwrite: () => void;
+  /** Drops your edit and keeps the saved record. */
+  onDiscard: () => void;
+  onClose: () => void;
+};
+
+const sides: ConflictChoice[] = ['yours', 'theirs'];
+
+/**
+ * Shown when a save was refused because someone else saved the same record first. Lists the
+ * fields that differ side by side so the user can keep either value per field.
+ */
+export function ConflictDialog({
+  name,
+  fields,
+  isSaving = false,
+  onMerge,
+  onOverwrite,
+  onDiscard,
+  onClose,
+}: ConflictDialogProps) {
+  const { t } = useI18n();
+  const descriptionId = useId();
+  const [choices, setChoices] = useState<ConflictChoices>(() =>
+    Object.fromEntries(fields.map((field) => [field.key, field.changedByYou ? 'yours' : 'theirs'])),
+  );
+
+  return (
+    <Modal
+      isOpen
+      size="wide"
+      title={t('conflict.title', { name })}
+      describedBy={descriptionId}
+      onClose={onClose}
+      actions={
+        <>
+          <Button variant="ghost" type="button" disabled={isSaving} onClick={onDiscard}>
+            {t('conflict.discard')}
+          </Button>
+          <Button
+            variant={fields.length ? 'secondary' : 'primary'}
+            type="button"
+            disabled={isSaving}
+            onClick={onOverwrite}
+          >
+            {t('conflict.overwrite')}
+          </Button>
+          {/* With nothing to pick, merging would save the same as overwriting. */}
+          {fields.length ? (
+            <Button type="button" disabled={isSaving} onClick={() => onMerge(choices)}>
+              {isSaving ? t('common.saving') : t('conflict.merge')}
+            </Button>
+          ) : null}
+        </>
+      }
+    >
+      <div className="ui-conflict">
+        <p id={descriptionId} className="ui-confirm-message">
+          {fields.length ? t('conflict.message') : t('conflict.noDifferences')}
+        </p>
+        {fields.length ? (
+          <table className="ui-conflict-table">
+            <thead>
+              <tr>
+                <th scope="col">{t('conflict.field')}</th>
+                <th scope="col">{t('conflict.yours')}</th>
+                <th scope="col">{t('conflict.theirs')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => (
+                <tr key={field.key}>
+                  <th scope="row">{field.label}</th>
+                  {sides.map((side) => (
+                    <td key={side}>
+                      <label className="ui-conflict-option">
+                        <input
+                          type="radio"
+                          name={`${descriptionId}-${field.key}`}
+                          checked={choices[field.key] === side}
+                          disabled={isSaving}
+                          onChange={() =>
+                            setChoices((current) => ({ ...current, [field.key]: side }))
+                          }
+                        />
+                        <span>{field[side] || '—'}</span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+      </div>
+    </Modal>
+  );
+}
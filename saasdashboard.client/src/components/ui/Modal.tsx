@@ -1,24 +1,126 @@
-import type { PropsWithChildren, ReactNode } from 'react';
+import { useEffect, useId, useRef, useState, type PropsWithChildren, type ReactNode } from 'react';
+import { useI18n } from '../../i18n/i18n';
 
 type ModalProps = PropsWithChildren<{
   isOpen: boolean;
   title?: string;
   onClose: () => void;
   actions?: ReactNode;
+  size?: 'default' | 'wide';
+  /** Ids of elements describing the dialog, e.g. a confirmation message. */
+  describedBy?: string;
 }>;
 
-export function Modal({ isOpen, title, onClose, actions, children }: ModalProps) {
-  if (!isOpen) {
-    return null;
-  }
+const FOCUSABLE =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+const BASE_Z_INDEX = 30;
+
+// Open dialogs in opening order; only the last one reacts to Escape and traps Tab.
+const openModals: string[] = [];
+
+const focusableIn = (element: HTMLElement) =>
+  Array.from(element.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (item) => !item.closest('[aria-hidden="true"]'),
+  );
+
+function ModalDialog({
+  title,
+  onClose,
+  actions,
+  size = 'default',
+  describedBy,
+  children,
+}: Omit<ModalProps, 'isOpen'>) {
+  const { t } = useI18n();
+  const id = useId();
+  const titleId = `${id}-title`;
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  // Read during render: by the time effects run, an autoFocus field inside has taken focus.
+  const [opener] = useState(() => document.activeElement as HTMLElement | null);
+  const [depth] = useState(() => openModals.length);
+
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    openModals.push(id);
+    document.body.style.overflow = 'hidden';
+
+    // Fields marked autoFocus have already taken focus; otherwise start on the first control.
+    if (!dialog.contains(document.activeElement)) {
+      const [first] = focusableIn(dialog.querySelector<HTMLElement>('.ui-modal-body') ?? dialog);
+      (first ?? dialog).focus();
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (openModals[openModals.length - 1] !== id) return;
+      if (event.key === 'Escape' && !event.defaultPrevented) {
+        event.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (event.key !== 'Tab') return;
+      const focusable = focusableIn(dialog);
+      if (focusable.length === 0) {
+        event.preventDefault();
+        dialog.focus();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (
+        event.shiftKey &&
+        (document.activeElement === first || !dialog.contains(document.activeElement))
+      ) {
+        event.preventDefault();
+        last.focus();
+      } else if (
+        !event.shiftKey &&
+        (document.activeElement === last || !dialog.contains(document.activeElement))
+      ) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      openModals.splice(openModals.indexOf(id), 1);
+      if (openModals.length === 0) document.body.style.overflow = '';
+      // The opener may be gone, e.g. a row deleted from the dialog.
+      if (opener?.isConnected) opener.focus();
+    };
+  }, [id, opener]);
 
   return (
-    <div className="ui-modal-overlay" role="presentation" onClick={onClose}>
-      <div className="ui-modal" role="dialog" aria-modal="true" onClick={(event) => event.stopPropagation()}>
+    <div
+      className="ui-modal-overlay"
+      role="presentation"
+      style={{ zIndex: BASE_Z_INDEX + depth }}
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        className={size === 'wide' ? 'ui-modal ui-modal--wide' : 'ui-modal'}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={title ? titleId : undefined}
+        aria-describedby={describedBy}
+        tabIndex={-1}
+        onClick={(event) => event.stopPropagation()}
+      >
         <div className="ui-modal-header">
-          <span>{title}</span>
+          <h2 id={titleId} className="ui-modal-title">
+            {title}
+          </h2>
           <button className="ui-button ui-button--ghost" type="button" onClick={onClose}>
-            Close
+            {t('modal.close')}
           </button>
         </div>
         <div className="ui-modal-body">{children}</div>
@@ -27,3 +129,12 @@ export function Modal({ isOpen, title, onClose, actions, children }: ModalProps)
     </div>
   );
 }
+
+/** Dialog with a focus trap, Escape to close and focus returned to the opener; dialogs can stack. */
+export function Modal({ isOpen, ...props }: ModalProps) {
+  if (!isOpen) {
+    return null;
+  }
+
+  return <ModalDialog {...props} />;
+}
@@ -0,0 +1,41 @@
+import { useI18n, type I18n } from '../../i18n/i18n';
+import { Toast } from './Toast';
+
+type ProgressToastProps = {
+  title: string;
+  loaded: number;
+  total: number | null;
+  onCancel?: () => void;
+};
+
+const formatBytes = (bytes: number, formatNumber: I18n['formatNumber']) => {
+  const [value, unit] =
+    bytes < 1024
+      ? [bytes, 'byte']
+      : bytes < 1024 * 1024
+        ? [bytes / 1024, 'kilobyte']
+        : [bytes / (1024 * 1024), 'megabyte'];
+  return formatNumber(value, { style: 'unit', unit, maximumFractionDigits: 1 });
+};
+
+export function ProgressToast({ title, loaded, total, onCancel }: ProgressToastProps) {
+  const { t, formatNumber } = useI18n();
+  const percent = total ? Math.min(100, Math.round((loaded / total) * 100)) : null;
+
+  return (
+    <Toast title={title} onClose={onCancel} closeLabel={t('toast.cancel')}>
+      <div className="ui-toast-progress">
+        <progress max={100} value={percent ?? undefined} aria-label={title} />
+        <span>
+          {percent === null
+            ? formatBytes(loaded, formatNumber)
+            : t('toast.progress', {
+                percent,
+                loaded: formatBytes(loaded, formatNumber),
+                total: formatBytes(total!, formatNumber),
+              })}
+        </span>
+      </div>
+    </Toast>
+  );
+}
@@ -1,40 +1,234 @@
-import type { ReactNode } from 'react';
+import { useState, type ReactNode } from 'react';
+import { useI18n } from '../../i18n/i18n';
+import {
+  nextSort,
+  sortRows,
+  useColumnVisibility,
+  useVirtualRows,
+  type SortDescriptor,
+} from './tableState';
 
-type TableColumn<T> = {
+export type TableColumn<T> = {
   key: string;
-  header: string;
+  header: ReactNode;
   render: (row: T) => ReactNode;
+  /** Name used in the column menu when `header` is not plain text. */
+  label?: string;
+  sortable?: boolean;
+  /** Value compared when sorting on the client; server-sorted tables can omit it. */
+  sortValue?: (row: T) => string | number | null | undefined;
+  /** Set to false for columns that must always stay visible, such as row actions. */
+  hideable?: boolean;
 };
 
 type TableProps<T> = {
   columns: TableColumn<T>[];
   data: T[];
   emptyMessage?: string;
+  /** Stable key per row; required for selection and recommended whenever rows can reorder. */
+  rowKey?: (row: T) => string;
+  /** Controlled sort. Leave undefined to let the table keep its own sort state. */
+  sort?: SortDescriptor | null;
+  onSortChange?: (sort: SortDescriptor | null) => void;
+  /** `server` renders `data` as given and only reports sort changes. */
+  sortMode?: 'client' | 'server';
+  selectedKeys?: ReadonlySet<string>;
+  onSelectionChange?: (keys: Set<string>) => void;
+  /** Persists hidden columns under this id and shows the column menu. */
+  tableId?: string;
+  /** Scrolls the body inside a container of this height with a sticky header. */
+  maxHeight?: number;
+  /** Fixed row height in px; with `maxHeight` it enables windowed rendering for long lists. */
+  rowHeight?: number;
 };
 
-export function Table<T>({ columns, data, emptyMessage = 'No data available.' }: TableProps<T>) {
-  if (data.length === 0) {
-    return <div className="ui-emptystate">{emptyMessage}</div>;
-  }
+const VIRTUALIZE_AFTER_ROWS = 100;
+
+const columnLabel = <T,>(column: TableColumn<T>) =>
+  column.label ?? (typeof column.header === 'string' ? column.header : column.key);
+
+export function Table<T>({
+  columns,
+  data,
+  emptyMessage,
+  rowKey,
+  sort,
+  onSortChange,
+  sortMode = 'client',
+  selectedKeys,
+  onSelectionChange,
+  tableId,
+  maxHeight,
+  rowHeight,
+}: TableProps<T>) {
+  const { t } = useI18n();
+  const [localSort, setLocalSort] = useState<SortDescriptor | null>(null);
+  const { hidden, toggleColumn } = useColumnVisibility(tableId);
+
+  const activeSort = sort === undefined ? localSort : sort;
+  const sortColumn = columns.find((column) => column.key === activeSort?.key);
+  const rows = sortMode === 'client' ? sortRows(data, activeSort, sortColumn?.sortValue) : data;
+
+  const virtual = Boolean(maxHeight && rowHeight) && rows.length > VIRTUALIZE_AFTER_ROWS;
+  const windowed = useVirtualRows({
+    count: rows.length,
+    rowHeight: rowHeight ?? 0,
+    viewportHeight: maxHeight ?? 0,
+    enabled: virtual,
+  });
+
+  const hideableColumns = columns.filter((column) => column.hideable !== false);
+  // Stored keys may name a column that has since become unhideable; it stays visible.
+  const visibleColumns = columns.filter(
+    (column) => column.hideable === false || !hidden.has(column.key),
+  );
+  const getKey = (row: T, index: number) => (rowKey ? rowKey(row) : String(index));
+
+  const selectable = Boolean(rowKey && selectedKeys && onSelectionChange);
+  const pageKeys = selectable ? rows.map((row, index) => getKey(row, index)) : [];
+  const selectedOnPage = pageKeys.filter((key) => selectedKeys?.has(key)).length;
+  const allSelected = pageKeys.length > 0 && selectedOnPage === pageKeys.length;
+
+  const changeSort = (key: string) => {
+    const next = nextSort(activeSort, key);
+    if (sort === undefined) setLocalSort(next);
+    onSortChange?.(next);
+  };
+
+  const toggleRow = (key: string) => {
+    const next = new Set(selectedKeys);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    onSelectionChange?.(next);
+  };
+
+  const toggleAll = () => {
+    const next = new Set(selectedKeys);
+    pageKeys.forEach((key) => (allSelected ? next.delete(key) : next.add(key)));
+    onSelectionChange?.(next);
+  };
+
+  const columnCount = visibleColumns.length + (selectable ? 1 : 0);
+  const renderedRows = rows.slice(windowed.start, windowed.end);
 
   return (
-    <table className="ui-table">
-      <thead>
-        <tr>
-          {columns.map((column) => (
-            <th key={column.key}>{column.header}</th>
-          ))}
-        </tr>
-      </thead>
-      <tbody>
-        {data.map((row, rowIndex) => (
-          <tr key={rowIndex}>
-            {columns.map((column) => (
-              <td key={column.key}>{column.render(row)}</td>
-            ))}
-          </tr>
-        ))}
-      </tbody>
-    </table>
+    <div className="ui-table-container">
+      {tableId && hideableColumns.length > 1 ? (
+        <div className="ui-table-toolbar">
+          <details className="ui-table-columns">
+            <summary>{t('table.columns')}</summary>
+            <div className="ui-table-columns-menu">
+              {hideableColumns.map((column) => {
+                const isVisible = !hidden.has(column.key);
+                return (
+                  <label key={column.key}>
+                    <input
+                      type="checkbox"
+                      checked={isVisible}
+                      disabled={isVisible && visibleColumns.length === 1}
+                      onChange={() => toggleColumn(column.key)}
+                    />
+                    {columnLabel(column)}
+                  </label>
+                );
+              })}
+            </div>
+          </details>
+        </div>
+      ) : null}
+
+      {rows.length === 0 ? (
+        <div className="ui-emptystate">{emptyMessage ?? t('table.empty')}</div>
+      ) : (
+        <div
+          className={maxHeight ? 'ui-table-scroll' : undefined}
+          style={maxHeight ? { maxHeight } : undefined}
+          onScroll={windowed.onScroll}
+        >
+          <table className={virtual ? 'ui-table ui-table--virtual' : 'ui-table'}>
+            <thead>
+              <tr>
+                {selectable ? (
+                  <th className="ui-table-select">
+                    <input
+                      type="checkbox"
+                      aria-label={t('table.selectAll')}
+                      checked={allSelected}
+                      ref={(element) => {
+                        if (element) element.indeterminate = selectedOnPage > 0 && !allSelected;
+                      }}
+                      onChange={toggleAll}
+                    />
+                  </th>
+                ) : null}
+                {visibleColumns.map((column) => {
+                  const direction = activeSort?.key === column.key ? activeSort.direction : null;
+                  return (
+                    <th
+                      key={column.key}
+                      aria-sort={
+                        direction ? (direction === 'asc' ? 'ascending' : 'descending') : undefined
+                      }
+                    >
+                      {column.sortable ? (
+                        <button
+                          type="button"
+                          className="ui-table-sort"
+                          onClick={() => changeSort(column.key)}
+                        >
+                          {column.header}
+                          <span className="ui-table-sort-indicator" aria-hidden="true">
+                            {direction === 'asc' ? '▲' : direction === 'desc' ? '▼' : '↕'}
+                          </span>
+                        </button>
+                      ) : (
+                        column.header
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {windowed.paddingTop > 0 ? (
+                <tr aria-hidden="true" style={{ height: windowed.paddingTop }}>
+                  <td colSpan={columnCount} />
+                </tr>
+              ) : null}
+              {renderedRows.map((row, offset) => {
+                const key = getKey(row, windowed.start + offset);
+                const isSelected = selectable && selectedKeys!.has(key);
+                return (
+                  <tr
+                    key={key}
+                    className={isSelected ? 'is-selected' : undefined}
+                    style={virtual ? { height: rowHeight } : undefined}
+                  >
+                    {selectable ? (
+                      <td className="ui-table-select">
+                        <input
+                          type="checkbox"
+                          aria-label={t('table.selectRow')}
+                          checked={isSelected}
+                          onChange={() => toggleRow(key)}
+                        />
+                      </td>
+                    ) : null}
+                    {visibleColumns.map((column) => (
+                      <td key={column.key}>{column.render(row)}</td>
+                    ))}
+                  </tr>
+                );
+              })}
+              {windowed.paddingBottom > 0 ? (
+                <tr aria-hidden="true" style={{ height: windowed.paddingBottom }}>
+                  <td colSpan={columnCount} />
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
   );
 }
@@ -1,11 +1,15 @@
-import type { PropsWithChildren } from 'react';
+import type { PropsWithChildren, ReactNode } from 'react';
+import { useI18n } from '../../i18n/i18n';
 
-type ToastVariant = 'info' | 'success' | 'warning' | 'error';
+export type ToastVariant = 'info' | 'success' | 'warning' | 'error';
 
 type ToastProps = PropsWithChildren<{
   title: string;
   variant?: ToastVariant;
   onClose?: () => void;
+  closeLabel?: string;
+  /** Buttons shown before the close button, e.g. "Retry". */
+  actions?: ReactNode;
 }>;
 
 const variantIcon: Record<ToastVariant, string> = {
@@ -15,17 +19,29 @@ const variantIcon: Record<ToastVariant, string> = {
   error: 'x',
 };
 
-export function Toast({ title, variant = 'info', onClose, children }: ToastProps) {
+export function Toast({
+  title,
+  variant = 'info',
+  onClose,
+  closeLabel,
+  actions,
+  children,
+}: ToastProps) {
+  const { t } = useI18n();
   return (
-    <div className="ui-toast" role="status">
+    <div
+      className={`ui-toast ui-toast--${variant}`}
+      role={variant === 'error' ? 'alert' : 'status'}
+    >
       <span aria-hidden="true">{variantIcon[variant]}</span>
-      <div>
+      <div className="ui-toast-content">
         <div className="ui-toast-title">{title}</div>
         {children ? <div>{children}</div> : null}
       </div>
+      {actions}
       {onClose ? (
         <button className="ui-button ui-button--ghost" type="button" onClick={onClose}>
-          Dismiss
+          {closeLabel ?? t('toast.dismiss')}
         </button>
       ) : null}
     </div>
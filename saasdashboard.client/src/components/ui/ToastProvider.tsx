@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type PropsWithChildren } from 'react';
+import { normalizeError } from '../../api/errors';
+import { useI18n } from '../../i18n/i18n';
+import { Button } from './Button';
+import { Toast } from './Toast';
+import { ToastContext, type ErrorToastOptions, type ToastApi, type ToastOptions } from './toast';
+
+type QueuedToast = ToastOptions & { id: number };
+
+/** Further toasts wait in the queue until one of these closes. */
+const MAX_VISIBLE = 3;
+
+const DEFAULT_DURATION = 5000;
+const ERROR_DURATION = 8000;
+
+let nextToastId = 0;
+
+type ToastItemProps = {
+  toast: QueuedToast;
+  onDismiss: (id: number) => void;
+  onAction: (id: number) => void;
+};
+
+function ToastItem({ toast, onDismiss, onAction }: ToastItemProps) {
+  const { t } = useI18n();
+  const { id, duration = DEFAULT_DURATION } = toast;
+  const [isPaused, setIsPaused] = useState(false);
+  const remaining = useRef(duration);
+
+  useEffect(() => {
+    if (isPaused || duration <= 0) return;
+    const startedAt = Date.now();
+    const timer = setTimeout(() => onDismiss(id), remaining.current);
+    return () => {
+      clearTimeout(timer);
+      remaining.current -= Date.now() - startedAt;
+    };
+  }, [duration, id, isPaused, onDismiss]);
+
+  return (
+    <li
+      className="ui-toast-item"
+      onMouseEnter={() => setIsPaused(true)}
+      onMouseLeave={() => setIsPaused(false)}
+      onFocus={() => setIsPaused(true)}
+      onBlur={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget)) setIsPaused(false);
+      }}
+    >
+      <Toast
+        title={toast.title}
+        variant={toast.variant}
+        closeLabel={t('toast.dismiss')}
+        onClose={() => onDismiss(id)}
+        actions={
+          toast.action ? (
+            <Button variant="secondary" type="button" onClick={() => onAction(id)}>
+              {toast.action.label}
+            </Button>
+          ) : null
+        }
+      >
+        {toast.message ? <span>{toast.message}</span> : null}
+      </Toast>
+    </li>
+  );
+}
+
+/** Serves `useToast()` and shows queued toasts stacked in a corner live region. */
+export function ToastProvider({ children }: PropsWithChildren) {
+  const { t } = useI18n();
+  const [queue, setQueue] = useState<QueuedToast[]>([]);
+  // Mirrors the queue so close callbacks run once, outside state updaters.
+  const openToasts = useRef(new Map<number, QueuedToast>());
+
+  const remove = useCallback((id: number) => {
+    const toast = openToasts.current.get(id);
+    openToasts.current.delete(id);
+    setQueue((current) => current.filter((item) => item.id !== id));
+    return toast;
+  }, []);
+
+  const dismiss = useCallback((id: number) => remove(id)?.onClose?.(), [remove]);
+
+  const takeAction = useCallback((id: number) => remove(id)?.action?.onAction(), [remove]);
+
+  const show = useCallback((options: ToastOptions) => {
+    const toast = { ...options, id: nextToastId++ };
+    openToasts.current.set(toast.id, toast);
+    setQueue((current) => [...current, toast]);
+    return toast.id;
+  }, []);
+
+  const api = useMemo<ToastApi>(
+    () => ({
+      show,
+      dismiss,
+      showError: (error: unknown, { retry, ...options }: ErrorToastOptions) => {
+        const { message, retryable } = normalizeError(error);
+        return show({
+          duration: ERROR_DURATION,
+          ...options,
+          message,
+          variant: 'error',
+          action: retry && retryable ? { label: t('toast.retry'), onAction: retry } : undefined,
+        });
+      },
+    }),
+    [dismiss, show, t],
+  );
+
+  return (
+    <ToastContext.Provider value={api}>
+      {children}
+      <section className="ui-toast-region" aria-label={t('toast.region')}>
+        <ol className="ui-toast-stack">
+          {queue.slice(0, MAX_VISIBLE).map((toast) => (
+            <ToastItem key={toast.id} toast={toast} onDismiss={dismiss} onAction={takeAction} />
+          ))}
+        </ol>
+      </section>
+    </ToastContext.Provider>
+  );
+}
@@ -0,0 +1,26 @@
+import { createContext, useContext, type ReactNode } from 'react';
+
+export type ConfirmOptions = {
+  title: string;
+  message?: ReactNode;
+  /** What the action will change, e.g. "12 users will lose this role". */
+  impact?: ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  tone?: 'default' | 'danger';
+  /** Text the user must type before confirming, usually the name of what is being deleted. */
+  requireText?: string;
+};
+
+/** Resolves to true when the user confirms and false when they cancel or dismiss the dialog. */
+export type Confirm = (options: ConfirmOptions) => Promise<boolean>;
+
+export const ConfirmContext = createContext<Confirm | null>(null);
+
+export function useConfirm() {
+  const confirm = useContext(ConfirmContext);
+  if (!confirm) {
+    throw new Error('useConfirm must be used within ConfirmProvider');
+  }
+  return confirm;
+}
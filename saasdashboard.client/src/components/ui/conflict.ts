@@ -0,0 +1,51 @@
+/** Which side of a conflict to keep for one field. */
+export type ConflictChoice = 'yours' | 'theirs';
+
+export type ConflictChoices = Record<string, ConflictChoice>;
+
+/** One row of `ConflictDialog`: a field whose value differs between your edit and the saved record. */
+export type ConflictField = {
+  key: string;
+  label: string;
+  yours: string;
+  theirs: string;
+  /** Fields you changed keep your value by default; the rest take theirs. */
+  changedByYou: boolean;
+};
+
+type FieldVersions<T> = {
+  key: string;
+  label: string;
+  /** The value when you started editing. */
+  base: T;
+  yours: T;
+  theirs: T;
+  format?: (value: T) => string;
+  isEqual?: (left: T, right: T) => boolean;
+};
+
+/** The field as a `ConflictDialog` row, in a list so rows can be spread; empty when both sides agree. */
+export const diffField = <T>({
+  key,
+  label,
+  base,
+  yours,
+  theirs,
+  format = String,
+  isEqual = Object.is,
+}: FieldVersions<T>): ConflictField[] =>
+  isEqual(yours, theirs)
+    ? []
+    : [
+        {
+          key,
+          label,
+          yours: format(yours),
+          theirs: format(theirs),
+          changedByYou: !isEqual(yours, base),
+        },
+      ];
+
+/** The value to save for `key`; fields without a row in the dialog agree, so either side will do. */
+export const chooseValue = <T>(choices: ConflictChoices, key: string, yours: T, theirs: T) =>
+  choices[key] === 'theirs' ? theirs : yours;
@@ -1,7 +1,15 @@
 export { Button } from './Button';
+export { useConfirm, type ConfirmOptions } from './confirm';
+export { ConfirmProvider } from './ConfirmProvider';
+export { ConflictDialog } from './ConflictDialog';
+export { chooseValue, diffField, type ConflictChoices, type ConflictField } from './conflict';
 export { EmptyState } from './EmptyState';
 export { Input } from './Input';
 export { Modal } from './Modal';
+export { ProgressToast } from './ProgressToast';
 export { Select } from './Select';
-export { Table } from './Table';
+export { Table, type TableColumn } from './Table';
+export type { SortDescriptor, SortDirection } from './tableState';
 export { Toast } from './Toast';
+export { useToast, type ToastApi, type ToastOptions } from './toast';
+export { ToastProvider } from './ToastProvider';
@@ -0,0 +1,110 @@
+import { useCallback, useState, type UIEvent } from 'react';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type SortDescriptor = {
+  key: string;
+  direction: SortDirection;
+};
+
+/** Cycles a column through ascending, descending and unsorted. */
+export const nextSort = (current: SortDescriptor | null, key: string): SortDescriptor | null => {
+  if (current?.key !== key) return { key, direction: 'asc' };
+  return current.direction === 'asc' ? { key, direction: 'desc' } : null;
+};
+
+type SortValue = string | number | null | undefined;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export const sortRows = <T>(
+  rows: T[],
+  sort: SortDescriptor | null,
+  sortValue: ((row: T) => SortValue) | undefined,
+) => {
+  if (!sort || !sortValue) return rows;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const left = sortValue(a);
+    const right = sortValue(b);
+    if (left === right) return 0;
+    if (left === null || left === undefined) return 1;
+    if (right === null || right === undefined) return -1;
+    const result =
+      typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : collator.compare(String(left), String(right));
+    return result * factor;
+  });
+};
+
+const COLUMNS_KEY_PREFIX = 'saas_table_columns:';
+
+const loadHiddenColumns = (tableId: string | undefined) => {
+  if (!tableId) return new Set<string>();
+  try {
+    const raw = localStorage.getItem(`${COLUMNS_KEY_PREFIX}${tableId}`);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return new Set(Array.isArray(parsed) ? parsed.filter((key) => typeof key === 'string') : []);
+  } catch {
+    return new Set<string>();
+  }
+};
+
+/** Hidden column keys for a table, remembered in localStorage when the table has an id. */
+export function useColumnVisibility(tableId: string | undefined) {
+  const [hidden, setHidden] = useState(() => loadHiddenColumns(tableId));
+
+  const toggleColumn = useCallback(
+    (key: string) => {
+      const next = new Set(hidden);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      setHidden(next);
+      if (!tableId) return;
+      try {
+        localStorage.setItem(`${COLUMNS_KEY_PREFIX}${tableId}`, JSON.stringify([...next]));
+      } catch {
+        // Storage full or disabled: the choice still applies until the page reloads.
+      }
+    },
+    [hidden, tableId],
+  );
+
+  return { hidden, toggleColumn };
+}
+
+const OVERSCAN_ROWS = 8;
+
+/** Windowing for fixed-height rows inside a scroll container of known height. */
+export function useVirtualRows({
+  count,
+  rowHeight,
+  viewportHeight,
+  enabled,
+}: {
+  count: number;
+  rowHeight: number;
+  viewportHeight: number;
+  enabled: boolean;
+}) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  if (!enabled) {
+    return { start: 0, end: count, paddingTop: 0, paddingBottom: 0, onScroll: undefined };
+  }
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN_ROWS);
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+    onScroll,
+  };
+}
@@ -0,0 +1,41 @@
+import { createContext, useContext, type ReactNode } from 'react';
+import type { ToastVariant } from './Toast';
+
+export type ToastAction = {
+  label: string;
+  onAction: () => void;
+};
+
+export type ToastOptions = {
+  title: string;
+  message?: ReactNode;
+  variant?: ToastVariant;
+  /** Milliseconds until the toast closes itself, paused while hovered or focused; 0 keeps it open. */
+  duration?: number;
+  action?: ToastAction;
+  /** Runs when the toast closes without its action being taken: timed out or dismissed. */
+  onClose?: () => void;
+};
+
+export type ErrorToastOptions = Omit<ToastOptions, 'message' | 'variant' | 'action' | 'onClose'> & {
+  /** Offered as a "Retry" action when the error is one that retrying can fix. */
+  retry?: () => void;
+};
+
+export type ToastApi = {
+  /** Queues a toast and returns its id. */
+  show: (options: ToastOptions) => number;
+  /** Queues an error toast whose message comes from the shared error normalizer. */
+  showError: (error: unknown, options: ErrorToastOptions) => number;
+  dismiss: (id: number) => void;
+};
+
+export const ToastContext = createContext<ToastApi | null>(null);
+
+export function useToast() {
+  const toast = useContext(ToastContext);
+  if (!toast) {
+    throw new Error('useToast must be used within ToastProvider');
+  }
+  return toast;
+}
@@ -0,0 +1,216 @@
+import { useMemo, useState, type KeyboardEvent } from 'react';
+import { Button, Select } from '../components/ui';
+import { getSessionUser } from '../auth/session';
+import { usePermissions } from '../auth/permissions';
+import { useI18n, type MessageKey } from '../i18n/i18n';
+import { dashboardWidgets, getAvailableWidgets } from './registry';
+import { clearLayout, getDefaultLayout, loadLayout, moveLayoutItem, saveLayout } from './layout';
+import type { DashboardLayoutItem, WidgetSize } from './types';
+
+const sizeOptions: { labelKey: MessageKey; value: WidgetSize }[] = [
+  { labelKey: 'dashboard.size.small', value: 'small' },
+  { labelKey: 'dashboard.size.medium', value: 'medium' },
+  { labelKey: 'dashboard.size.large', value: 'large' },
+];
+
+export function DashboardPage() {
+  const { t } = useI18n();
+  const sessionUser = getSessionUser();
+  const username = sessionUser?.username ?? 'anonymous';
+  const { permissions } = usePermissions();
+  const availableWidgets = useMemo(() => getAvailableWidgets(permissions), [permissions]);
+  const [layout, setLayout] = useState<DashboardLayoutItem[]>(() =>
+    loadLayout(username, dashboardWidgets),
+  );
+  const [isEditing, setIsEditing] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  const widgetsById = useMemo(
+    () => new Map(availableWidgets.map((widget) => [widget.id, widget])),
+    [availableWidgets],
+  );
+  const visibleLayout = layout.filter((item) => widgetsById.has(item.id));
+  const hiddenWidgets = availableWidgets.filter(
+    (widget) => !layout.some((item) => item.id === widget.id),
+  );
+
+  const updateLayout = (next: DashboardLayoutItem[]) => {
+    setLayout(next);
+    saveLayout(username, next);
+  };
+
+  const moveWidget = (id: string, toIndex: number) => {
+    const next = moveLayoutItem(layout, id, toIndex);
+    if (next === layout) return;
+    updateLayout(next);
+    const widget = widgetsById.get(id);
+    setAnnouncement(
+      t('dashboard.moved', {
+        title: widget ? t(widget.titleKey) : id,
+        position: next.findIndex((item) => item.id === id) + 1,
+      }),
+    );
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>, id: string) => {
+    const index = layout.findIndex((item) => item.id === id);
+    if (event.key === 'ArrowUp' || event.key === 'ArrowLeft') {
+      event.preventDefault();
+      moveWidget(id, index - 1);
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowRight') {
+      event.preventDefault();
+      moveWidget(id, index + 1);
+    } else if (event.key === 'Home') {
+      event.preventDefault();
+      moveWidget(id, 0);
+    } else if (event.key === 'End') {
+      event.preventDefault();
+      moveWidget(id, layout.length - 1);
+    }
+  };
+
+  return (
+    <section className="page">
+      <div className="dashboard-header">
+        <div>
+          <h1>{t('dashboard.title')}</h1>
+          <p>{t('dashboard.subtitle')}</p>
+        </div>
+        <div className="dashboard-actions">
+          {isEditing ? (
+            <>
+              <Select
+                label={t('dashboard.addWidget')}
+                value=""
+                options={[
+                  {
+                    label: hiddenWidgets.length
+                      ? t('dashboard.chooseWidget')
+                      : t('dashboard.allWidgetsAdded'),
+                    value: '',
+                  },
+                  ...hiddenWidgets.map((widget) => ({
+                    label: t(widget.titleKey),
+                    value: widget.id,
+                  })),
+                ]}
+                disabled={hiddenWidgets.length === 0}
+                onChange={(event) => {
+                  const widget = widgetsById.get(event.target.value);
+                  if (!widget) return;
+                  updateLayout([...layout, { id: widget.id, size: widget.defaultSize }]);
+                }}
+              />
+              <Button
+                variant="ghost"
+                type="button"
+                onClick={() => {
+                  clearLayout(username);
+                  setLayout(getDefaultLayout(dashboardWidgets));
+                }}
+              >
+                {t('dashboard.resetLayout')}
+              </Button>
+            </>
+          ) : null}
+          <Button
+            variant={isEditing ? 'primary' : 'secondary'}
+            type="button"
+            onClick={() => setIsEditing((current) => !current)}
+          >
+            {isEditing ? t('dashboard.done') : t('dashboard.customize')}
+          </Button>
+        </div>
+      </div>
+
+      {isEditing ? <p className="dashboard-hint">{t('dashboard.hint')}</p> : null}
+
+      <div className="dashboard-grid">
+        {visibleLayout.map((item) => {
+          const widget = widgetsById.get(item.id)!;
+          const WidgetComponent = widget.component;
+          const title = t(widget.titleKey);
+          return (
+            <div
+              key={item.id}
+              className={[
+                'dashboard-widget',
+                `dashboard-widget--${item.size}`,
+                draggingId === item.id ? 'dashboard-widget--dragging' : '',
+              ]
+                .filter(Boolean)
+                .join(' ')}
+              draggable={isEditing}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                setDraggingId(item.id);
+              }}
+              onDragEnd={() => setDraggingId(null)}
+              onDragOver={(event) => {
+                if (!draggingId) return;
+                event.preventDefault();
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (!draggingId || draggingId === item.id) return;
+                moveWidget(
+                  draggingId,
+                  layout.findIndex((entry) => entry.id === item.id),
+                );
+                setDraggingId(null);
+              }}
+            >
+              {isEditing ? (
+                <div className="dashboard-widget-toolbar">
+                  <button
+                    type="button"
+                    className="dashboard-widget-handle"
+                    aria-label={t('dashboard.move', { title })}
+                    title={t('dashboard.moveHint')}
+                    onKeyDown={(event) => handleKeyDown(event, item.id)}
+                  >
+                    ⠿
+                  </button>
+                  <Select
+                    aria-label={t('dashboard.size', { title })}
+                    value={item.size}
+                    options={sizeOptions.map(({ labelKey, value }) => ({
+                      label: t(labelKey),
+                      value,
+                    }))}
+                    onChange={(event) =>
+                      updateLayout(
+                        layout.map((entry) =>
+                          entry.id === item.id
+                            ? { ...entry, size: event.target.value as WidgetSize }
+                            : entry,
+                        ),
+                      )
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    type="button"
+                    onClick={() => updateLayout(layout.filter((entry) => entry.id !== item.id))}
+                  >
+                    {t('dashboard.remove')}
+                  </Button>
+                </div>
+              ) : null}
+              <WidgetComponent />
+            </div>
+          );
+        })}
+      </div>
+
+      {visibleLayout.length === 0 ? (
+        <div className="ui-emptystate">{t('dashboard.empty')}</div>
+      ) : null}
+
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,35 @@
+import type { PropsWithChildren } from 'react';
+import { Link } from 'react-router-dom';
+import { errorMessage } from '../api/errors';
+import { Button } from '../components/ui';
+import { useI18n } from '../i18n/i18n';
+
+type KpiCardProps = PropsWithChildren<{
+  title: string;
+  isLoading: boolean;
+  error: unknown;
+  onRetry: () => void;
+  link?: { to: string; label: string };
+}>;
+
+export function KpiCard({ title, isLoading, error, onRetry, link, children }: KpiCardProps) {
+  const { t } = useI18n();
+  return (
+    <div className="kpi-card">
+      <div className="kpi-card-header">
+        <span className="kpi-card-title">{title}</span>
+        {link ? <Link to={link.to}>{link.label}</Link> : null}
+      </div>
+      {isLoading ? <div className="kpi-card-placeholder">{t('dashboard.loading')}</div> : null}
+      {!isLoading && error ? (
+        <div className="kpi-card-error">
+          <span className="form-error">{errorMessage(error)}</span>
+          <Button variant="ghost" type="button" onClick={onRetry}>
+            {t('common.retry')}
+          </Button>
+        </div>
+      ) : null}
+      {!isLoading && !error ? children : null}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { DashboardLayoutItem, DashboardWidget, WidgetSize } from './types';
+
+const STORAGE_KEY = 'saas_dashboard_layout';
+const widgetSizes: WidgetSize[] = ['small', 'medium', 'large'];
+
+const getStorageKey = (username: string) => `${STORAGE_KEY}:${username}`;
+
+const isLayoutItem = (value: unknown): value is DashboardLayoutItem => {
+  const item = value as Partial<DashboardLayoutItem> | null;
+  return typeof item?.id === 'string' && widgetSizes.includes(item.size as WidgetSize);
+};
+
+export const getDefaultLayout = (widgets: DashboardWidget[]): DashboardLayoutItem[] =>
+  widgets.map((widget) => ({ id: widget.id, size: widget.defaultSize }));
+
+export const loadLayout = (username: string, widgets: DashboardWidget[]) => {
+  const raw = localStorage.getItem(getStorageKey(username));
+  if (!raw) return getDefaultLayout(widgets);
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return getDefaultLayout(widgets);
+    const known = new Set(widgets.map((widget) => widget.id));
+    return parsed.filter(isLayoutItem).filter((item) => known.has(item.id));
+  } catch {
+    return getDefaultLayout(widgets);
+  }
+};
+
+export const saveLayout = (username: string, layout: DashboardLayoutItem[]) => {
+  localStorage.setItem(getStorageKey(username), JSON.stringify(layout));
+};
+
+export const clearLayout = (username: string) => {
+  localStorage.removeItem(getStorageKey(username));
+};
+
+export const moveLayoutItem = (layout: DashboardLayoutItem[], id: string, toIndex: number) => {
+  const fromIndex = layout.findIndex((item) => item.id === id);
+  if (fromIndex === -1) return layout;
+  const boundedIndex = Math.max(0, Math.min(layout.length - 1, toIndex));
+  if (boundedIndex === fromIndex) return layout;
+  const next = [...layout];
+  const [item] = next.splice(fromIndex, 1);
+  next.splice(boundedIndex, 0, item);
+  return next;
+};
@@ -0,0 +1,16 @@
+import { hasPermission } from '../auth/permissions';
+import type { DashboardWidget } from './types';
+
+// Each domain module contributes widgets through a sibling `widgets.ts` exporting `widgets`.
+const widgetModules = import.meta.glob<{ widgets: DashboardWidget[] }>('../*/widgets.ts', {
+  eager: true,
+});
+
+export const dashboardWidgets: DashboardWidget[] = Object.values(widgetModules)
+  .flatMap((module) => module.widgets)
+  .sort((a, b) => a.defaultOrder - b.defaultOrder);
+
+export const getAvailableWidgets = (permissions: string[]) =>
+  dashboardWidgets.filter(
+    (widget) => !widget.permission || hasPermission(permissions, widget.permission),
+  );
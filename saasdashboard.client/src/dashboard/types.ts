@@ -0,0 +1,20 @@
+import type { ComponentType } from 'react';
+import type { PermissionKey } from '../auth/permissions';
+import type { MessageKey } from '../i18n/i18n';
+
+export type WidgetSize = 'small' | 'medium' | 'large';
+
+export type DashboardWidget = {
+  id: string;
+  titleKey: MessageKey;
+  descriptionKey: MessageKey;
+  defaultSize: WidgetSize;
+  defaultOrder: number;
+  permission?: PermissionKey;
+  component: ComponentType;
+};
+
+export type DashboardLayoutItem = {
+  id: string;
+  size: WidgetSize;
+};
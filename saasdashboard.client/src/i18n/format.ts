@@ -0,0 +1,99 @@
+import type { DateFormat } from '../preferences/preferences';
+import type { Locale } from './locales';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const dateOptions: Record<Exclude<DateFormat, 'iso'>, Intl.DateTimeFormatOptions> = {
+  medium: { month: 'short', day: 'numeric', year: 'numeric' },
+  numeric: { month: '2-digit', day: '2-digit', year: 'numeric' },
+};
+
+const timeOptions: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
+// Intl constructors are slow enough to show up in long tables, so each configuration is built once.
+const formatters = new Map<
+  string,
+  Intl.DateTimeFormat | Intl.NumberFormat | Intl.RelativeTimeFormat
+>();
+
+const cached = <T extends Intl.DateTimeFormat | Intl.NumberFormat | Intl.RelativeTimeFormat>(
+  key: string,
+  create: () => T,
+): T => {
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = create();
+    formatters.set(key, formatter);
+  }
+  return formatter as T;
+};
+
+const dateTimeFormat = (locale: Locale, options: Intl.DateTimeFormatOptions) =>
+  cached(
+    `date:${locale}:${JSON.stringify(options)}`,
+    () => new Intl.DateTimeFormat(locale, options),
+  );
+
+const numberFormat = (locale: Locale, options: Intl.NumberFormatOptions = {}) =>
+  cached(
+    `number:${locale}:${JSON.stringify(options)}`,
+    () => new Intl.NumberFormat(locale, options),
+  );
+
+const toDate = (value: string | Date) => (value instanceof Date ? value : new Date(value));
+
+export const formatDate = (value: string | Date, format: DateFormat, locale: Locale) => {
+  const date = toDate(value);
+  return format === 'iso'
+    ? isoDate(date)
+    : dateTimeFormat(locale, dateOptions[format]).format(date);
+};
+
+export const formatDateTime = (value: string | Date, format: DateFormat, locale: Locale) => {
+  const date = toDate(value);
+  return format === 'iso'
+    ? `${isoDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+    : dateTimeFormat(locale, { ...dateOptions[format], ...timeOptions }).format(date);
+};
+
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions) =>
+  numberFormat(locale, options).format(value);
+
+/** Falls back to "XYZ 12.00" for currency codes the browser does not know. */
+export const formatCurrency = (amount: number, currency: string, locale: Locale) => {
+  try {
+    return numberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    const fixed = formatNumber(amount, locale, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+    return `${currency} ${fixed}`;
+  }
+};
+
+const relativeUnits: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+  ['second', 1],
+];
+
+/** "3 hours ago", "in 2 days", "yesterday": the largest unit that fits the distance from `now`. */
+export const formatRelativeTime = (value: string | Date, locale: Locale, now = Date.now()) => {
+  const seconds = (toDate(value).getTime() - now) / 1000;
+  const [unit, size] =
+    relativeUnits.find(([, unitSeconds]) => Math.abs(seconds) >= unitSeconds) ??
+    relativeUnits[relativeUnits.length - 1];
+  const formatter = cached(
+    `relative:${locale}`,
+    () => new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }),
+  );
+  return formatter.format(Math.round(seconds / size), unit);
+};
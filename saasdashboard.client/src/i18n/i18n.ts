@@ -0,0 +1,46 @@
+import { useMemo } from 'react';
+import { getPreferences, usePreferences, type DateFormat } from '../preferences/preferences';
+import {
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  formatRelativeTime,
+} from './format';
+import { formatMessage, type MessageValues } from './icu';
+import type { Locale } from './locales';
+import { de } from './messages/de';
+import { en, type MessageKey, type Messages } from './messages/en';
+import { es } from './messages/es';
+
+const catalogs: Record<Locale, Messages> = { en, de, es };
+
+export type I18n = ReturnType<typeof createI18n>;
+
+/** Translation and formatting bound to one locale and the user's date format. */
+export const createI18n = (locale: Locale, dateFormat: DateFormat) => ({
+  locale,
+  t: (key: MessageKey, values: MessageValues = {}) =>
+    formatMessage(catalogs[locale][key] ?? en[key], values, locale),
+  formatDate: (value: string | Date) => formatDate(value, dateFormat, locale),
+  formatDateTime: (value: string | Date) => formatDateTime(value, dateFormat, locale),
+  formatRelativeTime: (value: string | Date, now?: number) =>
+    formatRelativeTime(value, locale, now),
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+    formatNumber(value, locale, options),
+  formatCurrency: (amount: number, currency: string) => formatCurrency(amount, currency, locale),
+});
+
+/** `t` in the signed-in user's language, for code outside React such as error normalization. */
+export const translate = (key: MessageKey, values?: MessageValues) => {
+  const { locale, dateFormat } = getPreferences();
+  return createI18n(locale, dateFormat).t(key, values);
+};
+
+/** Stable until the user changes language or date format, so it can be a memo dependency. */
+export function useI18n() {
+  const { locale, dateFormat } = usePreferences();
+  return useMemo(() => createI18n(locale, dateFormat), [locale, dateFormat]);
+}
+
+export type { MessageKey };
@@ -0,0 +1,180 @@
+import { formatNumber } from './format';
+import type { Locale } from './locales';
+
+/**
+ * A small ICU MessageFormat subset: `{name}`, `{name, number}`, `{name, plural, ...}` with
+ * `=n` exact matches and `#`, and `{name, select, ...}`. Apostrophes quote the syntax
+ * characters, so `'{'` is a literal brace and `''` a literal apostrophe.
+ */
+export type MessageValues = Record<string, string | number>;
+
+type MessageNode =
+  | string
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; format?: 'number' }
+  | { type: 'plural'; name: string; ordinal: boolean; options: Record<string, MessageNode[]> }
+  | { type: 'select'; name: string; options: Record<string, MessageNode[]> };
+
+const SYNTAX_CHARACTERS = '{}#';
+
+const parse = (source: string): MessageNode[] => {
+  let index = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid message "${source}" at ${index}: ${reason}`);
+  };
+
+  const skipWhitespace = () => {
+    while (/\s/.test(source[index] ?? '')) index += 1;
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (source[index] !== char) fail(`expected "${char}"`);
+    index += 1;
+  };
+
+  const readWord = () => {
+    skipWhitespace();
+    const start = index;
+    while (index < source.length && !/[\s,{}]/.test(source[index])) index += 1;
+    if (start === index) fail('expected a name');
+    return source.slice(start, index);
+  };
+
+  const parseOptions = (inPlural: boolean) => {
+    const options: Record<string, MessageNode[]> = {};
+    expect(',');
+    skipWhitespace();
+    while (source[index] !== '}') {
+      if (index >= source.length) fail('unterminated options');
+      const key = readWord();
+      expect('{');
+      options[key] = parseNodes(inPlural);
+      expect('}');
+      skipWhitespace();
+    }
+    if (!options.other) fail('missing "other" option');
+    return options;
+  };
+
+  const parseArgument = (): MessageNode => {
+    expect('{');
+    const name = readWord();
+    skipWhitespace();
+    let node: MessageNode = { type: 'argument', name };
+    if (source[index] === ',') {
+      index += 1;
+      const format = readWord();
+      if (format === 'number') {
+        node = { type: 'argument', name, format };
+      } else if (format === 'plural' || format === 'selectordinal') {
+        node = {
+          type: 'plural',
+          name,
+          ordinal: format === 'selectordinal',
+          options: parseOptions(true),
+        };
+      } else if (format === 'select') {
+        node = { type: 'select', name, options: parseOptions(false) };
+      } else {
+        fail(`unsupported format "${format}"`);
+      }
+    }
+    expect('}');
+    return node;
+  };
+
+  function parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push(text);
+      text = '';
+    };
+
+    while (index < source.length) {
+      const char = source[index];
+      if (char === "'" && source[index + 1] === "'") {
+        text += "'";
+        index += 2;
+      } else if (char === "'" && SYNTAX_CHARACTERS.includes(source[index + 1] ?? '')) {
+        const end = source.indexOf("'", index + 1);
+        text += source.slice(index + 1, end === -1 ? source.length : end);
+        index = end === -1 ? source.length : end + 1;
+      } else if (char === '{') {
+        flush();
+        nodes.push(parseArgument());
+      } else if (char === '}') {
+        break;
+      } else if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ type: 'pound' });
+        index += 1;
+      } else {
+        text += char;
+        index += 1;
+      }
+    }
+
+    flush();
+    return nodes;
+  }
+
+  const nodes = parseNodes(false);
+  if (index < source.length) fail('unexpected "}"');
+  return nodes;
+};
+
+const parsed = new Map<string, MessageNode[]>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const pluralCategory = (value: number, locale: Locale, ordinal: boolean) => {
+  const key = `${locale}:${ordinal}`;
+  let rules = pluralRules.get(key);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale, { type: ordinal ? 'ordinal' : 'cardinal' });
+    pluralRules.set(key, rules);
+  }
+  return rules.select(value);
+};
+
+const render = (
+  nodes: MessageNode[],
+  values: MessageValues,
+  locale: Locale,
+  pluralValue?: number,
+): string =>
+  nodes
+    .map((node) => {
+      if (typeof node === 'string') return node;
+      if (node.type === 'pound')
+        return pluralValue === undefined ? '#' : formatNumber(pluralValue, locale);
+
+      const value = values[node.name];
+      if (node.type === 'argument') {
+        if (value === undefined) return `{${node.name}}`;
+        return typeof value === 'number' || node.format === 'number'
+          ? formatNumber(Number(value), locale)
+          : value;
+      }
+      if (node.type === 'plural') {
+        const count = Number(value);
+        const branch =
+          node.options[`=${count}`] ??
+          node.options[pluralCategory(count, locale, node.ordinal)] ??
+          node.options.other;
+        return render(branch, values, locale, count);
+      }
+      return render(node.options[String(value)] ?? node.options.other, values, locale, pluralValue);
+    })
+    .join('');
+
+export const formatMessage = (message: string, values: MessageValues, locale: Locale) => {
+  let nodes = parsed.get(message);
+  if (!nodes) {
+    nodes = parse(message);
+    parsed.set(message, nodes);
+  }
+  return render(nodes, values, locale);
+};
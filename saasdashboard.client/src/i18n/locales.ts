@@ -0,0 +1,22 @@
+export const locales = ['en', 'de', 'es'] as const;
+
+export type Locale = (typeof locales)[number];
+
+/** Each language is listed in its own language so it can be found whatever the current locale. */
+export const localeLabels: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  es: 'Español',
+};
+
+const isLocale = (value: string): value is Locale => (locales as readonly string[]).includes(value);
+
+/** The first browser language we have a catalog for, matched on the language subtag. */
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages;
+  for (const language of languages) {
+    const base = language.split('-')[0].toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+};
@@ -0,0 +1,547 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+  'common.previous': 'Zurück',
+  'common.next': 'Weiter',
+  'common.save': 'Speichern',
+  'common.saving': 'Wird gespeichert…',
+  'common.edit': 'Bearbeiten',
+  'common.rename': 'Umbenennen',
+  'common.delete': 'Löschen',
+  'common.download': 'Herunterladen',
+  'common.search': 'Suche',
+  'common.searchByUsername': 'Nach Benutzername suchen',
+  'common.pageSize': 'Einträge pro Seite',
+  'common.perPage': '{size} / Seite',
+  'common.username': 'Benutzername',
+  'common.role': 'Rolle',
+  'common.organization': 'Organisation',
+  'common.team': 'Team',
+  'common.user': 'Benutzer',
+  'common.yes': 'Ja',
+  'common.no': 'Nein',
+  'common.actionFailed': 'Aktion fehlgeschlagen',
+  'common.showing': '{start}–{end} von {total}',
+  'common.pageOf': 'Seite {page} von {pages}',
+  'common.teamCount': '{count, plural, one {# Team} other {# Teams}}',
+  'common.userCount': '{count, plural, one {# Benutzer} other {# Benutzer}}',
+  'common.cancel': 'Abbrechen',
+  'common.name': 'Name',
+  'common.password': 'Passwort',
+  'common.close': 'Schließen',
+  'common.retry': 'Erneut versuchen',
+
+  'confirm.cancel': 'Abbrechen',
+  'confirm.confirm': 'Bestätigen',
+  'confirm.typeToConfirm': 'Geben Sie „{text}“ zur Bestätigung ein',
+
+  'toast.region': 'Benachrichtigungen',
+  'toast.dismiss': 'Schließen',
+  'toast.retry': 'Erneut versuchen',
+  'toast.undo': 'Rückgängig',
+  'toast.cancel': 'Abbrechen',
+  'toast.progress': '{percent} % · {loaded} von {total}',
+
+  'errors.timeout': 'Der Server hat zu lange nicht geantwortet.',
+  'errors.requestFailed': 'Anfrage fehlgeschlagen ({status}).',
+  'errors.network': 'Der Server ist nicht erreichbar. Prüfen Sie Ihre Verbindung.',
+  'errors.unknown': 'Etwas ist schiefgelaufen.',
+
+  'conflict.title': '{name} wurde von jemand anderem geändert',
+  'conflict.message':
+    'Der Datensatz wurde gespeichert, während Sie ihn bearbeitet haben. Wählen Sie für jedes abweichende Feld den Wert, der erhalten bleiben soll, oder übernehmen Sie eine Version vollständig.',
+  'conflict.noDifferences':
+    'Der Datensatz wurde gespeichert, während Sie ihn bearbeitet haben, aber keines der hier bearbeitbaren Felder weicht ab. Speichern Sie, um Ihre Änderungen darauf anzuwenden.',
+  'conflict.field': 'Feld',
+  'conflict.yours': 'Ihre Version',
+  'conflict.theirs': 'Gespeicherte Version',
+  'conflict.merge': 'Ausgewählte Werte speichern',
+  'conflict.overwrite': 'Mit meiner Version überschreiben',
+  'conflict.discard': 'Meine Änderungen verwerfen',
+
+  'nav.dashboard': 'Dashboard',
+  'nav.users': 'Benutzer',
+  'nav.organizations': 'Organisationen',
+  'nav.roles': 'Rollen',
+  'nav.audit': 'Audit-Protokoll',
+  'nav.billing': 'Abrechnung',
+  'nav.settings': 'Einstellungen',
+  'nav.profile': 'Profil',
+  'nav.login': 'Anmeldung',
+
+  'topbar.overview': 'Übersicht',
+  'topbar.commands': 'Befehle',
+  'topbar.darkMode': 'Dunkles Design',
+  'topbar.lightMode': 'Helles Design',
+  'topbar.profile': 'Profil',
+  'topbar.logout': 'Abmelden',
+
+  'profile.language': 'Sprache',
+  'profile.languageHelp':
+    'Bestimmt auch, wie Datumsangaben, Zahlen und Beträge geschrieben werden.',
+  'profile.title': 'Profil',
+  'profile.subtitle':
+    'Ihr Konto, Ihr Passwort, Ihre angemeldeten Sitzungen und Ihre Anzeigeeinstellungen.',
+  'profile.account': 'Konto',
+  'profile.permissions': 'Berechtigungen',
+  'profile.noPermissions': 'Keine',
+  'profile.changePassword': 'Passwort ändern',
+  'profile.currentPassword': 'Aktuelles Passwort',
+  'profile.newPassword': 'Neues Passwort',
+  'profile.confirmPassword': 'Neues Passwort bestätigen',
+  'profile.passwordLength': '{min} bis 64 Zeichen.',
+  'profile.passwordChanged': 'Passwort geändert',
+  'profile.otherSessionsSignedOut': 'Andere Sitzungen wurden abgemeldet.',
+  'profile.sessions': 'Aktive Sitzungen',
+  'profile.signOutOthers': 'Andere Sitzungen abmelden',
+  'profile.signOutOthersTitle': 'Andere Sitzungen abmelden?',
+  'profile.signOutOthersMessage':
+    '{count, plural, one {# andere Sitzung wird} other {# andere Sitzungen werden}} abgemeldet. Dieses Gerät bleibt angemeldet.',
+  'profile.signOut': 'Abmelden',
+  'profile.signedOutOthers': 'Von allen anderen Sitzungen abgemeldet',
+  'profile.device': 'Gerät',
+  'profile.thisDevice': ' (dieses Gerät)',
+  'profile.unknownDevice': 'Unbekanntes Gerät',
+  'profile.browser': 'Browser',
+  'profile.browserOn': '{browser} unter {os}',
+  'profile.signedIn': 'Angemeldet',
+  'profile.lastActive': 'Zuletzt aktiv',
+  'profile.expires': 'Läuft ab',
+  'profile.loadingSessions': 'Sitzungen werden geladen…',
+  'profile.noSessions': 'Keine aktiven Sitzungen.',
+  'profile.preferences': 'Einstellungen',
+  'profile.theme': 'Design',
+  'profile.light': 'Hell',
+  'profile.dark': 'Dunkel',
+  'profile.density': 'Dichte',
+  'profile.density.comfortable': 'Komfortabel',
+  'profile.density.compact': 'Kompakt',
+  'profile.dateFormat': 'Datumsformat',
+  'profile.landingPage': 'Standard-Startseite',
+  'profile.landingPageHelp': 'Wird nach der Anmeldung geöffnet.',
+  'profile.pageSize': 'Standard-Seitengröße',
+  'profile.pageSizeHelp': 'Gilt für seitenweise Tabellen, sofern ein Link keine eigene festlegt.',
+
+  'users.title': 'Benutzer',
+  'users.subtitle': 'Teammitglieder, Rollen und Zugriffe verwalten.',
+  'users.export': 'Exportieren',
+  'users.import': 'CSV importieren',
+  'users.new': 'Neuer Benutzer',
+  'users.allRoles': 'Alle Rollen',
+  'users.allOrganizations': 'Alle Organisationen',
+  'users.allTeams': 'Alle Teams',
+  'users.loadFailed': 'Benutzer konnten nicht geladen werden',
+  'users.noneFound': 'Keine Benutzer gefunden.',
+  'users.loading': 'Benutzer werden geladen…',
+  'users.empty': 'Keine Benutzer',
+  'users.bulkActions': 'Sammelaktionen',
+  'users.selected': '{count, plural, other {# ausgewählt}}',
+  'users.clearSelection': 'Auswahl aufheben',
+  'users.createTitle': 'Benutzer anlegen',
+  'users.editTitle': 'Benutzer bearbeiten',
+  'users.deleteTitle': '{username} löschen?',
+  'users.deleteMessage':
+    'Der Benutzer wird entfernt. Das lässt sich einige Sekunden lang rückgängig machen.',
+  'users.deleted': '{username} gelöscht',
+  'users.usernamePlaceholder': 'erika.mustermann',
+  'users.noTeams': 'Keine Teams verfügbar',
+  'users.createTeamFirst': 'Legen Sie zuerst ein Team für diese Organisation an.',
+  'users.resetPassword': 'Passwort zurücksetzen',
+  'users.keepPassword': 'Leer lassen, um das aktuelle Passwort zu behalten.',
+  'users.create': 'Benutzer erstellen',
+  'users.saveChanges': 'Änderungen speichern',
+
+  'audit.title': 'Audit-Protokoll & Aktivität',
+  'audit.subtitle': 'Aktionen über Benutzer und Systeme hinweg nachverfolgen.',
+  'audit.exportCsv': 'CSV exportieren',
+  'audit.exporting': 'Audit-Protokoll wird exportiert',
+  'audit.exportFailed': 'Export fehlgeschlagen',
+  'audit.loadFailed': 'Audit-Protokoll konnte nicht geladen werden',
+  'audit.time': 'Zeit',
+  'audit.action': 'Aktion',
+  'audit.searchAction': 'Nach Aktion suchen',
+  'audit.from': 'Von',
+  'audit.to': 'Bis',
+  'audit.noneFound': 'Keine Einträge gefunden.',
+  'audit.loading': 'Audit-Protokoll wird geladen…',
+  'audit.empty': 'Keine Einträge',
+
+  'organizations.title': 'Organisationen & Teams',
+  'organizations.subtitle': 'Organisationen und Teams mit verschachtelter Teammitgliedschaft.',
+  'organizations.new': 'Neue Organisation',
+  'organizations.loadFailed': 'Organisationen konnten nicht geladen werden',
+  'organizations.empty': 'Noch keine Organisationen.',
+  'organizations.deleteTitle': '{name} löschen?',
+  'organizations.deleteMessage': 'Das lässt sich einige Sekunden lang rückgängig machen.',
+  'organizations.deleteOrgImpact':
+    'Diese Organisation hat noch {teams} und {users}. Entfernen Sie diese zuerst, sonst wird das Löschen abgelehnt.',
+  'organizations.deleteTeamImpact':
+    '{count, plural, one {# Benutzer ist} other {# Benutzer sind}} noch in diesem Team. Weisen Sie sie zuerst neu zu, sonst wird das Löschen abgelehnt.',
+  'organizations.deleted': '{name} gelöscht',
+  'organizations.teams': 'Teams',
+  'organizations.newTeam': 'Neues Team',
+  'organizations.noTeams': 'Noch keine Teams.',
+  'organizations.teamMembers': 'Teammitglieder',
+  'organizations.membersOf': 'Mitglieder von {team}',
+  'organizations.noMembers': 'Diesem Team sind keine Benutzer zugeordnet.',
+  'organizations.selectTeam': 'Wählen Sie ein Team aus.',
+  'organizations.selectOrganization': 'Wählen Sie eine Organisation aus, um Details zu sehen.',
+  'organizations.renameTitle': 'Organisation umbenennen',
+  'organizations.editTeam': 'Team bearbeiten',
+  'organizations.name': 'Name der Organisation',
+  'organizations.teamName': 'Teamname',
+
+  'billing.orgTitle': 'Abrechnung der Organisation',
+  'billing.orgSubtitle': 'Organisation für Abrechnung, Tarife und Rechnungen auswählen.',
+  'billing.title': 'Abrechnung & Tarife',
+  'billing.subtitle': 'Tarifauswahl, Nutzungsübersicht und Abonnementstatus.',
+  'billing.cycle': 'Abrechnungszeitraum',
+  'billing.monthly': 'Monatliche Abrechnung',
+  'billing.yearly': 'Jährliche Abrechnung',
+  'billing.summaryFailed': 'Abrechnungsübersicht konnte nicht geladen werden',
+  'billing.plansFailed': 'Tarife konnten nicht geladen werden',
+  'billing.status': 'Status:',
+  'billing.cancelsAtPeriodEnd': '(endet mit Ablauf des Zeitraums)',
+  'billing.currentPlanName': 'Aktueller Tarif: {plan}',
+  'billing.renewal': 'Verlängerung: {date} · Zeitraum: {cycle}',
+  'billing.popular': 'Beliebt',
+  'billing.perYear': '/ Jahr',
+  'billing.perMonth': '/ Monat',
+  'billing.currentPlan': 'Aktueller Tarif',
+  'billing.selectPlan': 'Tarif wählen',
+  'billing.perk.seats': '{count, plural, one {Bis zu # Platz} other {Bis zu # Plätze}}',
+  'billing.perk.unlimitedSeats': 'Unbegrenzte Plätze',
+  'billing.perk.basicAnalytics': 'Grundlegende Analysen',
+  'billing.perk.advancedAnalytics': 'Erweiterte Analysen',
+  'billing.perk.communitySupport': 'Community-Support',
+  'billing.perk.prioritySupport': 'Priorisierter Support',
+  'billing.perk.customRoles': 'Eigene Rollen',
+  'billing.perk.dedicatedCsm': 'Persönlicher Kundenbetreuer',
+  'billing.perk.customLimits': 'Individuelle Limits',
+  'billing.perk.standardSupport': 'Standard-Support',
+  'billing.usageSummary': 'Nutzungsübersicht',
+  'billing.periodEnds': 'Zeitraum endet am {date}',
+  'billing.seats': 'Plätze',
+  'billing.storage': 'Speicher (GB)',
+  'billing.apiCalls': 'API-Aufrufe',
+  'billing.paymentMethods': 'Zahlungsmethoden',
+  'billing.addMethod': 'Methode hinzufügen',
+  'billing.paymentMethodsFailed': 'Zahlungsmethoden konnten nicht geladen werden',
+  'billing.noPaymentMethods': 'Noch keine Zahlungsmethoden.',
+  'billing.method': 'Methode',
+  'billing.expires': 'Gültig bis',
+  'billing.default': 'Standard',
+  'billing.invoiceHistory': 'Rechnungsverlauf',
+  'billing.invoicesFailed': 'Rechnungen konnten nicht geladen werden',
+  'billing.noInvoices': 'Noch keine Rechnungen.',
+  'billing.invoice': 'Rechnung',
+  'billing.period': 'Zeitraum',
+  'billing.amount': 'Betrag',
+  'billing.downloadingInvoice': 'Rechnung {number} wird heruntergeladen',
+  'billing.downloadFailed': 'Download fehlgeschlagen',
+  'billing.updateFailed': 'Abrechnung konnte nicht aktualisiert werden',
+  'billing.addPaymentMethod': 'Zahlungsmethode hinzufügen',
+  'billing.cardBrand': 'Kartenanbieter',
+  'billing.last4': 'Letzte 4 Ziffern',
+  'billing.expMonth': 'Ablaufmonat',
+  'billing.expYear': 'Ablaufjahr',
+  'billing.setDefault': 'Als Standard festlegen',
+  'billing.saveMethod': 'Methode speichern',
+
+  'modal.close': 'Schließen',
+
+  'table.columns': 'Spalten',
+  'table.empty': 'Keine Daten vorhanden.',
+  'table.selectAll': 'Alle Zeilen dieser Seite auswählen',
+  'table.selectRow': 'Zeile auswählen',
+
+  'unsaved.title': 'Nicht gespeicherte Änderungen verwerfen?',
+  'unsaved.keepEditing': 'Weiter bearbeiten',
+  'unsaved.discard': 'Änderungen verwerfen',
+  'unsaved.body':
+    'Sie haben nicht gespeicherte Änderungen. Wenn Sie die Seite jetzt verlassen, gehen sie verloren.',
+
+  'idle.title': 'Sind Sie noch da?',
+  'idle.signOut': 'Jetzt abmelden',
+  'idle.stay': 'Angemeldet bleiben',
+  'idle.body':
+    'Sie waren eine Weile inaktiv. Zu Ihrer Sicherheit werden Sie in {seconds, plural, one {# Sekunde} other {# Sekunden}} abgemeldet.',
+  'idle.signedOut': 'Sie wurden nach längerer Inaktivität abgemeldet.',
+
+  'savedViews.toolbar': 'Gespeicherte Ansichten',
+  'savedViews.default': ' (Standard)',
+  'savedViews.save': 'Ansicht speichern',
+  'savedViews.manage': 'Ansichten verwalten ({count})',
+  'savedViews.storeFailed': 'Die gespeicherten Ansichten konnten nicht gesichert werden.',
+  'savedViews.saveTitle': 'Aktuelle Ansicht speichern',
+  'savedViews.namePlaceholder': 'Admins bei Acme',
+  'savedViews.nameRequired': 'Name ist erforderlich.',
+  'savedViews.nameTaken': 'Eine Ansicht mit diesem Namen existiert bereits.',
+  'savedViews.pin': 'In der Seitenkopfzeile anheften',
+  'savedViews.openByDefault': 'Diese Ansicht standardmäßig öffnen',
+  'savedViews.viewName': 'Name der Ansicht',
+  'savedViews.apply': 'Anwenden',
+  'savedViews.pinAction': 'Anheften',
+  'savedViews.unpin': 'Lösen',
+  'savedViews.setDefault': 'Als Standard festlegen',
+  'savedViews.clearDefault': 'Standard entfernen',
+  'savedViews.deleteTitle': 'Die Ansicht „{name}“ löschen?',
+
+  'roles.title': 'Berechtigungen & Rollen',
+  'roles.subtitle': 'Verwalten Sie den Zugriff der Rollen über eine Berechtigungsmatrix.',
+  'roles.new': 'Neue Rolle',
+  'roles.edit': 'Rolle bearbeiten',
+  'roles.editHelp': 'Berechtigungen und Rollendetails aktualisieren.',
+  'roles.newHelp': 'Legen Sie eine neue Rolle an.',
+  'roles.loadFailed': 'Rollen konnten nicht geladen werden',
+  'roles.permissionsLoadFailed': 'Berechtigungen konnten nicht geladen werden',
+  'roles.permissionCount': '{count, plural, one {# Berechtigung} other {# Berechtigungen}}',
+  'roles.empty': 'Noch keine Rollen.',
+  'roles.deleteTitle': '{name} löschen?',
+  'roles.deleteMessage': 'Sie können dies einige Sekunden lang rückgängig machen.',
+  'roles.deleteImpact':
+    '{count, plural, one {# Benutzer hat} other {# Benutzer haben}} diese Rolle und {count, plural, one {muss} other {müssen}} zuerst neu zugewiesen werden, sonst wird das Löschen abgelehnt.',
+  'roles.deleted': '{name} gelöscht',
+  'roles.deleteFailed': 'Rolle konnte nicht gelöscht werden',
+  'roles.name': 'Rollenname',
+  'roles.description': 'Beschreibung',
+  'roles.permissions': 'Berechtigungen',
+  'roles.permissionsRequired': 'Wählen Sie mindestens eine Berechtigung aus.',
+  'roles.updated': 'Rolle aktualisiert',
+  'roles.created': 'Rolle erstellt',
+  'roles.saveChanges': 'Änderungen speichern',
+  'roles.create': 'Rolle erstellen',
+
+  'import.title': 'Benutzer aus CSV importieren',
+  'import.file': 'CSV-Datei',
+  'import.hint':
+    'Erwartete Spalten: username, role, organization, team, password. Organisationen und Teams können per Name oder ID angegeben werden.',
+  'import.needsRows': 'Die Datei benötigt eine Kopfzeile und mindestens einen Benutzer.',
+  'import.tooManyRows': 'Importieren Sie höchstens {max} Benutzer auf einmal.',
+  'import.unreadable': 'Die Datei konnte nicht als CSV gelesen werden.',
+  'import.notMapped': 'Nicht zugeordnet',
+  'import.column': 'Spalte {number}',
+  'import.row': 'Zeile',
+  'import.status': 'Status',
+  'import.imported': 'Importiert',
+  'import.ready': 'Bereit',
+  'import.waiting': 'Wartend',
+  'import.downloadReport': 'Fehlerbericht herunterladen',
+  'import.stop': 'Nach diesem Stapel anhalten',
+  'import.submit': '{count, plural, one {# Benutzer} other {# Benutzer}} importieren',
+  'import.previewSummary': '{ready} bereit, {invalid} mit Fehlern.',
+  'import.progressSummary':
+    '{imported} importiert, {failed} fehlgeschlagen{busy, select, true { bisher} other {}}.',
+  'import.mapMissing': ' Ordnen Sie {fields} zu, um fortzufahren.',
+  'import.errorsOnly': 'Nur Zeilen mit Fehlern',
+  'import.noRows': 'Keine Zeilen vorhanden.',
+  'import.unknownOrganization': 'Unbekannte Organisation „{value}“.',
+  'import.unknownRole': 'Unbekannte Rolle „{value}“.',
+  'import.unknownTeam': 'Das Team „{value}“ existiert nicht in {organization}.',
+  'import.duplicate': 'Duplikat von Zeile {line}.',
+
+  'validation.usernameMin': 'Der Benutzername muss mindestens 3 Zeichen lang sein.',
+  'validation.usernameMax': 'Der Benutzername darf höchstens 32 Zeichen lang sein.',
+  'validation.usernameChars':
+    'Verwenden Sie Buchstaben, Ziffern, Punkte, Bindestriche oder Unterstriche.',
+  'validation.roleRequired': 'Rolle ist erforderlich.',
+  'validation.organizationRequired': 'Organisation ist erforderlich.',
+  'validation.teamRequired': 'Team ist erforderlich.',
+  'validation.passwordMin': 'Das Passwort muss mindestens {min} Zeichen lang sein.',
+  'validation.passwordMax': 'Das Passwort ist zu lang.',
+  'validation.passwordUppercase': 'Das Passwort muss einen Großbuchstaben enthalten.',
+  'validation.passwordNumber': 'Das Passwort muss eine Ziffer enthalten.',
+  'validation.passwordSymbol': 'Das Passwort muss ein Sonderzeichen enthalten.',
+  'validation.currentPasswordRequired': 'Das aktuelle Passwort ist erforderlich.',
+  'validation.passwordsMismatch': 'Die Passwörter stimmen nicht überein.',
+  'validation.passwordUnchanged': 'Das neue Passwort muss sich vom aktuellen unterscheiden.',
+
+  'export.title': 'Benutzer exportieren',
+  'export.cancel': 'Export abbrechen',
+  'export.submit': 'Exportieren',
+  'export.rows': 'Zeilen',
+  'export.filtered': 'Alle Benutzer, die den aktuellen Filtern entsprechen ({count})',
+  'export.selected': 'Nur ausgewählte Benutzer ({count})',
+  'export.format': 'Format',
+  'export.progressLabel': 'Exportfortschritt',
+  'export.progress': '{loaded} von {total} Benutzern abgerufen',
+  'export.userId': 'Benutzer-ID',
+  'export.organizationId': 'Organisations-ID',
+  'export.teamId': 'Team-ID',
+
+  'bulk.role': 'Rolle ändern',
+  'bulk.move': 'In Team verschieben',
+  'bulk.resetPassword': 'Passwörter zurücksetzen',
+  'bulk.delete': 'Benutzer löschen',
+  'bulk.title': '{action} ({count} ausgewählt)',
+  'bulk.status.pending': 'Wartend',
+  'bulk.status.running': 'In Arbeit…',
+  'bulk.status.success': 'Erledigt',
+  'bulk.status.failed': 'Fehlgeschlagen',
+  'bulk.status.skipped': 'Übersprungen',
+  'bulk.alreadyRole': 'Bereits {role}.',
+  'bulk.alreadyInTeam': 'Bereits in diesem Team.',
+  'bulk.willDelete':
+    '{count, plural, one {# Benutzer wird} other {# Benutzer werden}} endgültig gelöscht.',
+  'bulk.willResetPassword':
+    '{count, plural, one {# Benutzer erhält} other {# Benutzer erhalten}} ein neues temporäres Passwort.',
+  'bulk.willUpdate':
+    '{count, plural, one {# Benutzer wird} other {# Benutzer werden}} aktualisiert.',
+  'bulk.willSkip': ' {count} stimmen bereits überein und werden übersprungen.',
+  'bulk.andMore': 'und {count} weitere',
+  'bulk.copyPasswords': 'Passwörter kopieren',
+  'bulk.closeKeepFailed': 'Schließen und fehlgeschlagene ausgewählt lassen',
+  'bulk.newRole': 'Neue Rolle',
+  'bulk.noTeams': 'Keine Teams verfügbar',
+  'bulk.processing': '{done} von {total} werden verarbeitet…',
+  'bulk.result': '{succeeded} erfolgreich, {failed} fehlgeschlagen, {skipped} übersprungen.',
+
+  'search.users': 'Benutzer',
+  'search.organizations': 'Organisationen',
+  'search.teams': 'Teams',
+  'search.roles': 'Rollen',
+  'search.placeholder': 'Suchen… ({shortcut})',
+  'search.searching': 'Suche läuft…',
+  'search.noResults': 'Keine Ergebnisse.',
+  'search.shortcut': 'Benutzer, Organisationen, Teams und Rollen durchsuchen',
+
+  'palette.title': 'Befehlspalette',
+  'palette.placeholder': 'Seiten, Aktionen, Benutzer, Organisationen suchen…',
+  'palette.pages': 'Seiten',
+  'palette.actions': 'Aktionen',
+  'palette.createUser': 'Benutzer erstellen',
+  'palette.addPaymentMethod': 'Zahlungsmethode hinzufügen',
+  'palette.exportAudit': 'Audit-CSV exportieren',
+  'palette.darkMode': 'Dunkles Design einschalten',
+  'palette.lightMode': 'Helles Design einschalten',
+  'palette.shortcuts': 'Tastenkürzel anzeigen',
+  'palette.open': 'Befehlspalette öffnen',
+  'palette.noMatches': 'Keine passenden Befehle.',
+
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.global': 'Überall',
+  'shortcuts.page': 'Auf dieser Seite',
+
+  'dashboard.title': 'Dashboard',
+  'dashboard.subtitle': 'Ein schneller Überblick über Ihr Produkt, Ihre Benutzer und Ihren Umsatz.',
+  'dashboard.size.small': 'Klein',
+  'dashboard.size.medium': 'Mittel',
+  'dashboard.size.large': 'Groß',
+  'dashboard.addWidget': 'Widget hinzufügen',
+  'dashboard.chooseWidget': 'Widget auswählen',
+  'dashboard.allWidgetsAdded': 'Alle Widgets hinzugefügt',
+  'dashboard.resetLayout': 'Layout zurücksetzen',
+  'dashboard.done': 'Fertig',
+  'dashboard.customize': 'Anpassen',
+  'dashboard.hint':
+    'Ziehen Sie Widgets, um sie neu anzuordnen, oder fokussieren Sie einen Griff und verwenden Sie die Pfeiltasten.',
+  'dashboard.move': '{title} verschieben',
+  'dashboard.moveHint': 'Zum Verschieben ziehen oder Pfeiltasten verwenden',
+  'dashboard.moved': '{title} an Position {position} verschoben.',
+  'dashboard.size': 'Größe von {title}',
+  'dashboard.remove': 'Entfernen',
+  'dashboard.empty': 'Keine Widgets auf Ihrem Dashboard. Fügen Sie über „Anpassen“ welche hinzu.',
+  'dashboard.loading': 'Wird geladen…',
+  'dashboard.manage': 'Verwalten',
+
+  'widgets.totalUsers': 'Benutzer gesamt',
+  'widgets.totalUsersDescription': 'Anzahl der Benutzer in allen Organisationen.',
+  'widgets.acrossOrganizations': 'In allen Organisationen',
+  'widgets.organizations': 'Organisationen',
+  'widgets.organizationsDescription': 'Organisationen und Teams im Arbeitsbereich.',
+  'widgets.recentActivity': 'Letzte Aktivität',
+  'widgets.recentActivityDescription': 'Die letzten 10 Audit-Ereignisse.',
+  'widgets.allLogs': 'Alle Protokolle',
+  'widgets.noActivity': 'Noch keine Aktivität.',
+  'widgets.currentPlan': 'Aktueller Tarif',
+  'widgets.currentPlanDescription': 'Abonnement und Nutzung im Verhältnis zu den Tariflimits.',
+  'widgets.planUsage': '{percent} % der Tariflimits genutzt',
+  'widgets.unpaidInvoices': 'Offene Rechnungen',
+  'widgets.unpaidInvoicesDescription': 'Rechnungen, die noch offen sind.',
+  'widgets.view': 'Anzeigen',
+  'widgets.allPaid': 'Alle Rechnungen sind bezahlt.',
+  'widgets.outstanding': '{amounts} offen',
+
+  'notifications.title': 'Benachrichtigungen',
+  'notifications.unread': '{count} ungelesen',
+  'notifications.markAllRead': 'Alle als gelesen markieren',
+  'notifications.markRead': 'Als gelesen markieren',
+  'notifications.loadFailed':
+    'Einige Benachrichtigungen konnten nicht geladen werden. Neuer Versuch…',
+  'notifications.loading': 'Benachrichtigungen werden geladen…',
+  'notifications.empty': 'Sie sind auf dem neuesten Stand.',
+  'notifications.kind.activity': 'Aktivität',
+  'notifications.kind.billing': 'Abrechnung',
+  'notifications.kind.usage': 'Nutzung',
+  'notifications.kind.session': 'Sitzung',
+  'notifications.by': 'Von {user}',
+  'notifications.subscriptionStatus': 'Abonnementstatus: {status}',
+  'notifications.subscriptionBody':
+    'Aktualisieren Sie die Zahlungsmethode für {organization}, um den Tarif {plan} zu behalten.',
+  'notifications.invoiceFailed': 'Zahlung für Rechnung {number} fehlgeschlagen',
+  'notifications.invoiceBody': '{amount} war am {date} fällig.',
+  'notifications.meter.seats': 'Plätze',
+  'notifications.meter.storage': 'Speicher',
+  'notifications.meter.apiCalls': 'API-Aufrufe',
+  'notifications.usageTitle': '{meter} bei {percent} % des Tariflimits',
+  'notifications.usageBody': '{organization} hat {used} von {limit} genutzt.',
+  'notifications.sessionTitle': 'Ihre Sitzung läuft bald ab',
+  'notifications.sessionBody':
+    'Sie werden in etwa {minutes, plural, one {# Minute} other {# Minuten}} abgemeldet.',
+
+  'settings.title': 'Einstellungen',
+  'settings.subtitle': 'Konfigurieren Sie Arbeitsbereich und Abrechnung.',
+  'settings.sections': 'Einstellungsbereiche',
+  'settings.tab.general': 'Allgemein',
+  'settings.tab.users': 'Neue Benutzer',
+  'settings.tab.security': 'Passwortrichtlinie',
+  'settings.tab.billing': 'Rechnungskontakt',
+  'settings.tab.danger': 'Gefahrenbereich',
+  'settings.unsaved': 'Nicht gespeicherte Änderungen',
+  'settings.discard': 'Verwerfen',
+  'settings.saveChanges': 'Änderungen speichern',
+  'settings.nameMin': 'Der Name muss mindestens 2 Zeichen lang sein.',
+  'settings.nameMax': 'Der Name darf höchstens 64 Zeichen lang sein.',
+  'settings.nameInvalid': 'Der Name ist ungültig.',
+  'settings.emailInvalid': 'Geben Sie eine gültige E-Mail-Adresse ein.',
+  'settings.renamed': 'Organisation umbenannt',
+  'settings.defaultRole': 'Standardrolle für neue Benutzer',
+  'settings.defaultRoleHelp':
+    'Im Formular „Benutzer erstellen“ vorausgewählt und für importierte Zeilen ohne Rolle verwendet.',
+  'settings.firstRole': 'Erste Rolle der Liste',
+  'settings.defaultRoleSaved': 'Standardrolle gespeichert',
+  'settings.minLength': 'Mindestlänge',
+  'settings.minLengthRange': 'Die Mindestlänge muss zwischen {min} und {max} liegen.',
+  'settings.minLengthHelp':
+    'Gilt, wenn Benutzer erstellt, bearbeitet oder importiert werden oder ihr Passwort ändern.',
+  'settings.requireUppercase': 'Großbuchstaben verlangen',
+  'settings.requireNumber': 'Ziffer verlangen',
+  'settings.requireSymbol': 'Sonderzeichen verlangen',
+  'settings.passwordPolicySaved': 'Passwortrichtlinie gespeichert',
+  'settings.billingEmail': 'E-Mail-Adresse für die Abrechnung',
+  'settings.billingEmailHelp':
+    'Erhält Rechnungen und Zahlungshinweise. Leer lassen, um den Kontoinhaber zu verwenden.',
+  'settings.billingContactSaved': 'Rechnungskontakt gespeichert',
+  'settings.deleteWarning':
+    'Das Löschen von {name} ist endgültig. Teams müssen zuerst gelöscht und Benutzer neu zugewiesen werden.',
+  'settings.deleting': 'Wird gelöscht…',
+  'settings.deleteOrganization': 'Organisation löschen',
+  'settings.loadingOrganization': 'Organisation wird geladen…',
+  'settings.noOrganization': 'Keine Organisation verfügbar.',
+  'settings.loading': 'Einstellungen werden geladen…',
+  'settings.notLoaded': 'Die Einstellungen sind noch nicht geladen.',
+  'settings.loadFailed': 'Einstellungen konnten nicht geladen werden',
+
+  'login.loadingSession': 'Sitzung wird geladen…',
+  'login.title': 'Anmelden',
+  'login.subtitle': 'Melden Sie sich an, um auf Ihr Dashboard zuzugreifen.',
+  'login.usernamePlaceholder': 'admin oder user',
+  'login.demoCredentials': 'Demo-Zugangsdaten: admin / admin, user / user',
+  'login.submit': 'Weiter',
+  'login.invalidCredentials': 'Ungültiger Benutzername oder ungültiges Passwort.',
+  'login.failed':
+    'Anmeldung fehlgeschlagen. Prüfen Sie Ihre Zugangsdaten und versuchen Sie es erneut.',
+
+  'notFound.title': 'Seite nicht gefunden',
+  'notFound.backToDashboard': 'Zurück zum Dashboard',
+};
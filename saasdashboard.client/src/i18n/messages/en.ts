@@ -0,0 +1,540 @@
+/** The source catalog; other locales must translate every key, which `Messages` enforces. */
+export const en = {
+  'common.previous': 'Previous',
+  'common.next': 'Next',
+  'common.save': 'Save',
+  'common.saving': 'Saving…',
+  'common.edit': 'Edit',
+  'common.rename': 'Rename',
+  'common.delete': 'Delete',
+  'common.download': 'Download',
+  'common.search': 'Search',
+  'common.searchByUsername': 'Search by username',
+  'common.pageSize': 'Page size',
+  'common.perPage': '{size} / page',
+  'common.username': 'Username',
+  'common.role': 'Role',
+  'common.organization': 'Organization',
+  'common.team': 'Team',
+  'common.user': 'User',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.actionFailed': 'Action failed',
+  'common.showing': 'Showing {start}-{end} of {total}',
+  'common.pageOf': 'Page {page} of {pages}',
+  'common.teamCount': '{count, plural, one {# team} other {# teams}}',
+  'common.userCount': '{count, plural, one {# user} other {# users}}',
+  'common.cancel': 'Cancel',
+  'common.name': 'Name',
+  'common.password': 'Password',
+  'common.close': 'Close',
+  'common.retry': 'Retry',
+
+  'confirm.cancel': 'Cancel',
+  'confirm.confirm': 'Confirm',
+  'confirm.typeToConfirm': 'Type "{text}" to confirm',
+
+  'toast.region': 'Notifications',
+  'toast.dismiss': 'Dismiss',
+  'toast.retry': 'Retry',
+  'toast.undo': 'Undo',
+  'toast.cancel': 'Cancel',
+  'toast.progress': '{percent}% · {loaded} of {total}',
+
+  'errors.timeout': 'The server took too long to respond.',
+  'errors.requestFailed': 'Request failed ({status}).',
+  'errors.network': 'Unable to reach the server. Check your connection.',
+  'errors.unknown': 'Something went wrong.',
+
+  'conflict.title': '{name} was changed by someone else',
+  'conflict.message':
+    'It was saved while you were editing. Pick the value to keep for each field that differs, or keep one version as a whole.',
+  'conflict.noDifferences':
+    'It was saved while you were editing, but none of the fields you can edit here differ. Save to apply your changes on top.',
+  'conflict.field': 'Field',
+  'conflict.yours': 'Your version',
+  'conflict.theirs': 'Saved version',
+  'conflict.merge': 'Save selected values',
+  'conflict.overwrite': 'Overwrite with mine',
+  'conflict.discard': 'Discard my changes',
+
+  'nav.dashboard': 'Dashboard',
+  'nav.users': 'Users',
+  'nav.organizations': 'Organizations',
+  'nav.roles': 'Roles',
+  'nav.audit': 'Audit logs',
+  'nav.billing': 'Billing',
+  'nav.settings': 'Settings',
+  'nav.profile': 'Profile',
+  'nav.login': 'Login',
+
+  'topbar.overview': 'Overview',
+  'topbar.commands': 'Commands',
+  'topbar.darkMode': 'Dark mode',
+  'topbar.lightMode': 'Light mode',
+  'topbar.profile': 'Profile',
+  'topbar.logout': 'Logout',
+
+  'profile.language': 'Language',
+  'profile.languageHelp': 'Also sets how dates, numbers and amounts are written.',
+  'profile.title': 'Profile',
+  'profile.subtitle': 'Your account, password, signed-in sessions and display preferences.',
+  'profile.account': 'Account',
+  'profile.permissions': 'Permissions',
+  'profile.noPermissions': 'None',
+  'profile.changePassword': 'Change password',
+  'profile.currentPassword': 'Current password',
+  'profile.newPassword': 'New password',
+  'profile.confirmPassword': 'Confirm new password',
+  'profile.passwordLength': '{min} to 64 characters.',
+  'profile.passwordChanged': 'Password changed',
+  'profile.otherSessionsSignedOut': 'Other sessions were signed out.',
+  'profile.sessions': 'Active sessions',
+  'profile.signOutOthers': 'Sign out other sessions',
+  'profile.signOutOthersTitle': 'Sign out other sessions?',
+  'profile.signOutOthersMessage':
+    '{count, plural, one {# other session} other {# other sessions}} will be signed out. This device stays signed in.',
+  'profile.signOut': 'Sign out',
+  'profile.signedOutOthers': 'Signed out of all other sessions',
+  'profile.device': 'Device',
+  'profile.thisDevice': ' (this device)',
+  'profile.unknownDevice': 'Unknown device',
+  'profile.browser': 'Browser',
+  'profile.browserOn': '{browser} on {os}',
+  'profile.signedIn': 'Signed in',
+  'profile.lastActive': 'Last active',
+  'profile.expires': 'Expires',
+  'profile.loadingSessions': 'Loading sessions…',
+  'profile.noSessions': 'No active sessions.',
+  'profile.preferences': 'Preferences',
+  'profile.theme': 'Theme',
+  'profile.light': 'Light',
+  'profile.dark': 'Dark',
+  'profile.density': 'Density',
+  'profile.density.comfortable': 'Comfortable',
+  'profile.density.compact': 'Compact',
+  'profile.dateFormat': 'Date format',
+  'profile.landingPage': 'Default landing page',
+  'profile.landingPageHelp': 'Opened after you sign in.',
+  'profile.pageSize': 'Default page size',
+  'profile.pageSizeHelp': 'Used by paged tables unless a link sets one.',
+
+  'users.title': 'Users',
+  'users.subtitle': 'Manage team members, roles, and access.',
+  'users.export': 'Export',
+  'users.import': 'Import CSV',
+  'users.new': 'New user',
+  'users.allRoles': 'All roles',
+  'users.allOrganizations': 'All organizations',
+  'users.allTeams': 'All teams',
+  'users.loadFailed': 'Unable to load users',
+  'users.noneFound': 'No users found.',
+  'users.loading': 'Loading users…',
+  'users.empty': 'No users',
+  'users.bulkActions': 'Bulk actions',
+  'users.selected': '{count, plural, other {# selected}}',
+  'users.clearSelection': 'Clear selection',
+  'users.createTitle': 'Create user',
+  'users.editTitle': 'Edit user',
+  'users.deleteTitle': 'Delete {username}?',
+  'users.deleteMessage': 'The user will be removed. You can undo this for a few seconds.',
+  'users.deleted': 'Deleted {username}',
+  'users.usernamePlaceholder': 'jane.doe',
+  'users.noTeams': 'No teams available',
+  'users.createTeamFirst': 'Create a team for this organization first.',
+  'users.resetPassword': 'Reset password',
+  'users.keepPassword': 'Leave blank to keep current password.',
+  'users.create': 'Create user',
+  'users.saveChanges': 'Save changes',
+
+  'audit.title': 'Audit logs & activity',
+  'audit.subtitle': 'Track actions across users and systems.',
+  'audit.exportCsv': 'Export CSV',
+  'audit.exporting': 'Exporting audit logs',
+  'audit.exportFailed': 'Export failed',
+  'audit.loadFailed': 'Unable to load audit logs',
+  'audit.time': 'Time',
+  'audit.action': 'Action',
+  'audit.searchAction': 'Search by action',
+  'audit.from': 'From',
+  'audit.to': 'To',
+  'audit.noneFound': 'No audit logs found.',
+  'audit.loading': 'Loading audit logs…',
+  'audit.empty': 'No audit logs',
+
+  'organizations.title': 'Organizations & teams',
+  'organizations.subtitle': 'Organizations and teams with nested team membership.',
+  'organizations.new': 'New organization',
+  'organizations.loadFailed': 'Unable to load organizations',
+  'organizations.empty': 'No organizations yet.',
+  'organizations.deleteTitle': 'Delete {name}?',
+  'organizations.deleteMessage': 'You can undo this for a few seconds.',
+  'organizations.deleteOrgImpact':
+    'This organization still has {teams} and {users}. Remove them first or the delete will be refused.',
+  'organizations.deleteTeamImpact':
+    '{count, plural, one {# user is} other {# users are}} still on this team. Reassign them first or the delete will be refused.',
+  'organizations.deleted': 'Deleted {name}',
+  'organizations.teams': 'Teams',
+  'organizations.newTeam': 'New team',
+  'organizations.noTeams': 'No teams yet.',
+  'organizations.teamMembers': 'Team members',
+  'organizations.membersOf': '{team} members',
+  'organizations.noMembers': 'No users assigned to this team.',
+  'organizations.selectTeam': 'Select a team.',
+  'organizations.selectOrganization': 'Select an organization to see details.',
+  'organizations.renameTitle': 'Rename organization',
+  'organizations.editTeam': 'Edit team',
+  'organizations.name': 'Organization name',
+  'organizations.teamName': 'Team name',
+
+  'billing.orgTitle': 'Organization billing',
+  'billing.orgSubtitle': 'Choose the organization to manage billing, plans, and invoices.',
+  'billing.title': 'Billing & plans',
+  'billing.subtitle': 'Plan selector, usage summary, and subscription status.',
+  'billing.cycle': 'Billing cycle',
+  'billing.monthly': 'Monthly billing',
+  'billing.yearly': 'Yearly billing',
+  'billing.summaryFailed': 'Unable to load billing summary',
+  'billing.plansFailed': 'Unable to load plans',
+  'billing.status': 'Status:',
+  'billing.cancelsAtPeriodEnd': '(cancels at period end)',
+  'billing.currentPlanName': 'Current plan: {plan}',
+  'billing.renewal': 'Renewal: {date} · Cycle: {cycle}',
+  'billing.popular': 'Popular',
+  'billing.perYear': '/ year',
+  'billing.perMonth': '/ month',
+  'billing.currentPlan': 'Current plan',
+  'billing.selectPlan': 'Select plan',
+  'billing.perk.seats': '{count, plural, one {Up to # seat} other {Up to # seats}}',
+  'billing.perk.unlimitedSeats': 'Unlimited seats',
+  'billing.perk.basicAnalytics': 'Basic analytics',
+  'billing.perk.advancedAnalytics': 'Advanced analytics',
+  'billing.perk.communitySupport': 'Community support',
+  'billing.perk.prioritySupport': 'Priority support',
+  'billing.perk.customRoles': 'Custom roles',
+  'billing.perk.dedicatedCsm': 'Dedicated CSM',
+  'billing.perk.customLimits': 'Custom limits',
+  'billing.perk.standardSupport': 'Standard support',
+  'billing.usageSummary': 'Usage summary',
+  'billing.periodEnds': 'Period ends {date}',
+  'billing.seats': 'Seats',
+  'billing.storage': 'Storage (GB)',
+  'billing.apiCalls': 'API calls',
+  'billing.paymentMethods': 'Payment methods',
+  'billing.addMethod': 'Add method',
+  'billing.paymentMethodsFailed': 'Unable to load payment methods',
+  'billing.noPaymentMethods': 'No payment methods yet.',
+  'billing.method': 'Method',
+  'billing.expires': 'Expires',
+  'billing.default': 'Default',
+  'billing.invoiceHistory': 'Invoice history',
+  'billing.invoicesFailed': 'Unable to load invoices',
+  'billing.noInvoices': 'No invoices yet.',
+  'billing.invoice': 'Invoice',
+  'billing.period': 'Period',
+  'billing.amount': 'Amount',
+  'billing.downloadingInvoice': 'Downloading invoice {number}',
+  'billing.downloadFailed': 'Download failed',
+  'billing.updateFailed': 'Billing update failed',
+  'billing.addPaymentMethod': 'Add payment method',
+  'billing.cardBrand': 'Card brand',
+  'billing.last4': 'Last 4 digits',
+  'billing.expMonth': 'Exp month',
+  'billing.expYear': 'Exp year',
+  'billing.setDefault': 'Set as default',
+  'billing.saveMethod': 'Save method',
+
+  'modal.close': 'Close',
+
+  'table.columns': 'Columns',
+  'table.empty': 'No data available.',
+  'table.selectAll': 'Select all rows on this page',
+  'table.selectRow': 'Select row',
+
+  'unsaved.title': 'Discard unsaved changes?',
+  'unsaved.keepEditing': 'Keep editing',
+  'unsaved.discard': 'Discard changes',
+  'unsaved.body': 'You have unsaved changes. Leaving now discards them.',
+
+  'idle.title': 'Are you still there?',
+  'idle.signOut': 'Sign out now',
+  'idle.stay': 'Stay signed in',
+  'idle.body':
+    'You have been inactive for a while. For your security you will be signed out in {seconds, plural, one {# second} other {# seconds}}.',
+  'idle.signedOut': 'You were signed out after a period of inactivity.',
+
+  'savedViews.toolbar': 'Saved views',
+  'savedViews.default': ' (default)',
+  'savedViews.save': 'Save view',
+  'savedViews.manage': 'Manage views ({count})',
+  'savedViews.storeFailed': 'Saved views could not be stored.',
+  'savedViews.saveTitle': 'Save current view',
+  'savedViews.namePlaceholder': 'Admins in Acme',
+  'savedViews.nameRequired': 'Name is required.',
+  'savedViews.nameTaken': 'A view with this name already exists.',
+  'savedViews.pin': 'Pin to the page header',
+  'savedViews.openByDefault': 'Open this view by default',
+  'savedViews.viewName': 'View name',
+  'savedViews.apply': 'Apply',
+  'savedViews.pinAction': 'Pin',
+  'savedViews.unpin': 'Unpin',
+  'savedViews.setDefault': 'Set as default',
+  'savedViews.clearDefault': 'Clear default',
+  'savedViews.deleteTitle': 'Delete the view "{name}"?',
+
+  'roles.title': 'Permissions & roles',
+  'roles.subtitle': 'Manage role access with a permissions matrix.',
+  'roles.new': 'New role',
+  'roles.edit': 'Edit role',
+  'roles.editHelp': 'Update permissions and role details.',
+  'roles.newHelp': 'Define a new role.',
+  'roles.loadFailed': 'Unable to load roles',
+  'roles.permissionsLoadFailed': 'Unable to load permissions',
+  'roles.permissionCount': '{count, plural, one {# permission} other {# permissions}}',
+  'roles.empty': 'No roles yet.',
+  'roles.deleteTitle': 'Delete {name}?',
+  'roles.deleteMessage': 'You can undo this for a few seconds.',
+  'roles.deleteImpact':
+    '{count, plural, one {# user has} other {# users have}} this role and must be reassigned first, or the delete will be refused.',
+  'roles.deleted': 'Deleted {name}',
+  'roles.deleteFailed': 'Unable to delete role',
+  'roles.name': 'Role name',
+  'roles.description': 'Description',
+  'roles.permissions': 'Permissions',
+  'roles.permissionsRequired': 'Select at least one permission.',
+  'roles.updated': 'Role updated',
+  'roles.created': 'Role created',
+  'roles.saveChanges': 'Save changes',
+  'roles.create': 'Create role',
+
+  'import.title': 'Import users from CSV',
+  'import.file': 'CSV file',
+  'import.hint':
+    'Expected columns: username, role, organization, team, password. Organizations and teams can be given by name or id.',
+  'import.needsRows': 'The file needs a header row and at least one user.',
+  'import.tooManyRows': 'Import at most {max} users at a time.',
+  'import.unreadable': 'The file could not be read as CSV.',
+  'import.notMapped': 'Not mapped',
+  'import.column': 'Column {number}',
+  'import.row': 'Row',
+  'import.status': 'Status',
+  'import.imported': 'Imported',
+  'import.ready': 'Ready',
+  'import.waiting': 'Waiting',
+  'import.downloadReport': 'Download error report',
+  'import.stop': 'Stop after this batch',
+  'import.submit': 'Import {count, plural, one {# user} other {# users}}',
+  'import.previewSummary': '{ready} ready, {invalid} with errors.',
+  'import.progressSummary':
+    '{imported} imported, {failed} failed{busy, select, true { so far} other {}}.',
+  'import.mapMissing': ' Map {fields} to continue.',
+  'import.errorsOnly': 'Only rows with errors',
+  'import.noRows': 'No rows to show.',
+  'import.unknownOrganization': 'Unknown organization "{value}".',
+  'import.unknownRole': 'Unknown role "{value}".',
+  'import.unknownTeam': 'Team "{value}" does not exist in {organization}.',
+  'import.duplicate': 'Duplicate of line {line}.',
+
+  'validation.usernameMin': 'Username must be at least 3 characters.',
+  'validation.usernameMax': 'Username must be at most 32 characters.',
+  'validation.usernameChars': 'Use letters, numbers, dots, dashes, or underscores.',
+  'validation.roleRequired': 'Role is required.',
+  'validation.organizationRequired': 'Organization is required.',
+  'validation.teamRequired': 'Team is required.',
+  'validation.passwordMin': 'Password must be at least {min} characters.',
+  'validation.passwordMax': 'Password is too long.',
+  'validation.passwordUppercase': 'Password must contain an uppercase letter.',
+  'validation.passwordNumber': 'Password must contain a number.',
+  'validation.passwordSymbol': 'Password must contain a symbol.',
+  'validation.currentPasswordRequired': 'Current password is required.',
+  'validation.passwordsMismatch': 'Passwords do not match.',
+  'validation.passwordUnchanged': 'New password must be different from the current password.',
+
+  'export.title': 'Export users',
+  'export.cancel': 'Cancel export',
+  'export.submit': 'Export',
+  'export.rows': 'Rows',
+  'export.filtered': 'All users matching the current filters ({count})',
+  'export.selected': 'Only selected users ({count})',
+  'export.format': 'Format',
+  'export.progressLabel': 'Export progress',
+  'export.progress': 'Fetched {loaded} of {total} users',
+  'export.userId': 'User id',
+  'export.organizationId': 'Organization id',
+  'export.teamId': 'Team id',
+
+  'bulk.role': 'Change role',
+  'bulk.move': 'Move to team',
+  'bulk.resetPassword': 'Reset passwords',
+  'bulk.delete': 'Delete users',
+  'bulk.title': '{action} ({count} selected)',
+  'bulk.status.pending': 'Waiting',
+  'bulk.status.running': 'Working…',
+  'bulk.status.success': 'Done',
+  'bulk.status.failed': 'Failed',
+  'bulk.status.skipped': 'Skipped',
+  'bulk.alreadyRole': 'Already {role}.',
+  'bulk.alreadyInTeam': 'Already in this team.',
+  'bulk.willDelete': '{count, plural, one {# user} other {# users}} will be permanently deleted.',
+  'bulk.willResetPassword':
+    '{count, plural, one {# user} other {# users}} will get a new temporary password.',
+  'bulk.willUpdate': '{count, plural, one {# user} other {# users}} will be updated.',
+  'bulk.willSkip': ' {count} already match and will be skipped.',
+  'bulk.andMore': 'and {count} more',
+  'bulk.copyPasswords': 'Copy passwords',
+  'bulk.closeKeepFailed': 'Close and keep failed selected',
+  'bulk.newRole': 'New role',
+  'bulk.noTeams': 'No teams available',
+  'bulk.processing': 'Processing {done} of {total}…',
+  'bulk.result': '{succeeded} succeeded, {failed} failed, {skipped} skipped.',
+
+  'search.users': 'Users',
+  'search.organizations': 'Organizations',
+  'search.teams': 'Teams',
+  'search.roles': 'Roles',
+  'search.placeholder': 'Search… ({shortcut})',
+  'search.searching': 'Searching…',
+  'search.noResults': 'No results.',
+  'search.shortcut': 'Search users, organizations, teams and roles',
+
+  'palette.title': 'Command palette',
+  'palette.placeholder': 'Search pages, actions, users, organizations…',
+  'palette.pages': 'Pages',
+  'palette.actions': 'Actions',
+  'palette.createUser': 'Create user',
+  'palette.addPaymentMethod': 'Add payment method',
+  'palette.exportAudit': 'Export audit CSV',
+  'palette.darkMode': 'Toggle dark mode',
+  'palette.lightMode': 'Toggle light mode',
+  'palette.shortcuts': 'Show keyboard shortcuts',
+  'palette.open': 'Open the command palette',
+  'palette.noMatches': 'No matching commands.',
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.global': 'Everywhere',
+  'shortcuts.page': 'On this page',
+
+  'dashboard.title': 'Dashboard',
+  'dashboard.subtitle': 'Quick snapshot of your product, users, and revenue.',
+  'dashboard.size.small': 'Small',
+  'dashboard.size.medium': 'Medium',
+  'dashboard.size.large': 'Large',
+  'dashboard.addWidget': 'Add widget',
+  'dashboard.chooseWidget': 'Choose a widget',
+  'dashboard.allWidgetsAdded': 'All widgets added',
+  'dashboard.resetLayout': 'Reset layout',
+  'dashboard.done': 'Done',
+  'dashboard.customize': 'Customize',
+  'dashboard.hint': 'Drag widgets to reorder them, or focus a handle and use the arrow keys.',
+  'dashboard.move': 'Move {title}',
+  'dashboard.moveHint': 'Drag or use arrow keys to move',
+  'dashboard.moved': '{title} moved to position {position}.',
+  'dashboard.size': '{title} size',
+  'dashboard.remove': 'Remove',
+  'dashboard.empty': 'No widgets on your dashboard. Use Customize to add some.',
+  'dashboard.loading': 'Loading…',
+  'dashboard.manage': 'Manage',
+
+  'widgets.totalUsers': 'Total users',
+  'widgets.totalUsersDescription': 'Number of users across all organizations.',
+  'widgets.acrossOrganizations': 'Across all organizations',
+  'widgets.organizations': 'Organizations',
+  'widgets.organizationsDescription': 'Organizations and teams in the workspace.',
+  'widgets.recentActivity': 'Recent activity',
+  'widgets.recentActivityDescription': 'The last 10 audit events.',
+  'widgets.allLogs': 'All logs',
+  'widgets.noActivity': 'No activity yet.',
+  'widgets.currentPlan': 'Current plan',
+  'widgets.currentPlanDescription': 'Subscription plan and usage against plan limits.',
+  'widgets.planUsage': '{percent}% of plan limits used',
+  'widgets.unpaidInvoices': 'Unpaid invoices',
+  'widgets.unpaidInvoicesDescription': 'Invoices that are still outstanding.',
+  'widgets.view': 'View',
+  'widgets.allPaid': 'All invoices are paid.',
+  'widgets.outstanding': '{amounts} outstanding',
+
+  'notifications.title': 'Notifications',
+  'notifications.unread': '{count} unread',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.markRead': 'Mark as read',
+  'notifications.loadFailed': 'Some notifications could not be loaded. Retrying…',
+  'notifications.loading': 'Loading notifications…',
+  'notifications.empty': 'You are all caught up.',
+  'notifications.kind.activity': 'Activity',
+  'notifications.kind.billing': 'Billing',
+  'notifications.kind.usage': 'Usage',
+  'notifications.kind.session': 'Session',
+  'notifications.by': 'By {user}',
+  'notifications.subscriptionStatus': 'Subscription is {status}',
+  'notifications.subscriptionBody':
+    'Update the payment method for {organization} to keep the {plan} plan.',
+  'notifications.invoiceFailed': 'Payment failed for invoice {number}',
+  'notifications.invoiceBody': '{amount} was due {date}.',
+  'notifications.meter.seats': 'Seats',
+  'notifications.meter.storage': 'Storage',
+  'notifications.meter.apiCalls': 'API calls',
+  'notifications.usageTitle': '{meter} at {percent}% of the plan limit',
+  'notifications.usageBody': '{organization} has used {used} of {limit}.',
+  'notifications.sessionTitle': 'Your session is about to expire',
+  'notifications.sessionBody':
+    'You will be signed out in about {minutes, plural, one {# minute} other {# minutes}}.',
+
+  'settings.title': 'Settings',
+  'settings.subtitle': 'Configure workspace preferences and billing.',
+  'settings.sections': 'Settings sections',
+  'settings.tab.general': 'General',
+  'settings.tab.users': 'New users',
+  'settings.tab.security': 'Password policy',
+  'settings.tab.billing': 'Billing contact',
+  'settings.tab.danger': 'Danger zone',
+  'settings.unsaved': 'Unsaved changes',
+  'settings.discard': 'Discard',
+  'settings.saveChanges': 'Save changes',
+  'settings.nameMin': 'Name must be at least 2 characters.',
+  'settings.nameMax': 'Name must be at most 64 characters.',
+  'settings.nameInvalid': 'Name is invalid.',
+  'settings.emailInvalid': 'Enter a valid email address.',
+  'settings.renamed': 'Organization renamed',
+  'settings.defaultRole': 'Default role for new users',
+  'settings.defaultRoleHelp':
+    'Preselected in the create user form and used for imported rows without a role.',
+  'settings.firstRole': 'First role in the list',
+  'settings.defaultRoleSaved': 'Default role saved',
+  'settings.minLength': 'Minimum length',
+  'settings.minLengthRange': 'Minimum length must be between {min} and {max}.',
+  'settings.minLengthHelp':
+    'Applies when users are created, edited, imported or change their password.',
+  'settings.requireUppercase': 'Require an uppercase letter',
+  'settings.requireNumber': 'Require a number',
+  'settings.requireSymbol': 'Require a symbol',
+  'settings.passwordPolicySaved': 'Password policy saved',
+  'settings.billingEmail': 'Billing contact email',
+  'settings.billingEmailHelp':
+    'Receives invoices and payment notices. Leave empty to use the account owner.',
+  'settings.billingContactSaved': 'Billing contact saved',
+  'settings.deleteWarning':
+    'Deleting {name} is permanent. Teams must be deleted and users reassigned first.',
+  'settings.deleting': 'Deleting…',
+  'settings.deleteOrganization': 'Delete organization',
+  'settings.loadingOrganization': 'Loading organization…',
+  'settings.noOrganization': 'No organization available.',
+  'settings.loading': 'Loading settings…',
+  'settings.notLoaded': 'Settings have not loaded yet.',
+  'settings.loadFailed': 'Unable to load settings',
+
+  'login.loadingSession': 'Loading session…',
+  'login.title': 'Login',
+  'login.subtitle': 'Sign in to access your dashboard.',
+  'login.usernamePlaceholder': 'admin or user',
+  'login.demoCredentials': 'Demo credentials: admin / admin, user / user',
+  'login.submit': 'Continue',
+  'login.invalidCredentials': 'Invalid username or password.',
+  'login.failed': 'Login failed. Check credentials and try again.',
+
+  'notFound.title': 'Page not found',
+  'notFound.backToDashboard': 'Go back to Dashboard',
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
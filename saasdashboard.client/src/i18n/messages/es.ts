@@ -0,0 +1,542 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  'common.previous': 'Anterior',
+  'common.next': 'Siguiente',
+  'common.save': 'Guardar',
+  'common.saving': 'Guardando…',
+  'common.edit': 'Editar',
+  'common.rename': 'Renombrar',
+  'common.delete': 'Eliminar',
+  'common.download': 'Descargar',
+  'common.search': 'Buscar',
+  'common.searchByUsername': 'Buscar por nombre de usuario',
+  'common.pageSize': 'Tamaño de página',
+  'common.perPage': '{size} / página',
+  'common.username': 'Nombre de usuario',
+  'common.role': 'Rol',
+  'common.organization': 'Organización',
+  'common.team': 'Equipo',
+  'common.user': 'Usuario',
+  'common.yes': 'Sí',
+  'common.no': 'No',
+  'common.actionFailed': 'La acción falló',
+  'common.showing': 'Mostrando {start}-{end} de {total}',
+  'common.pageOf': 'Página {page} de {pages}',
+  'common.teamCount': '{count, plural, one {# equipo} other {# equipos}}',
+  'common.userCount': '{count, plural, one {# usuario} other {# usuarios}}',
+  'common.cancel': 'Cancelar',
+  'common.name': 'Nombre',
+  'common.password': 'Contraseña',
+  'common.close': 'Cerrar',
+  'common.retry': 'Reintentar',
+
+  'confirm.cancel': 'Cancelar',
+  'confirm.confirm': 'Confirmar',
+  'confirm.typeToConfirm': 'Escribe «{text}» para confirmar',
+
+  'toast.region': 'Notificaciones',
+  'toast.dismiss': 'Descartar',
+  'toast.retry': 'Reintentar',
+  'toast.undo': 'Deshacer',
+  'toast.cancel': 'Cancelar',
+  'toast.progress': '{percent} % · {loaded} de {total}',
+
+  'errors.timeout': 'El servidor tardó demasiado en responder.',
+  'errors.requestFailed': 'La solicitud falló ({status}).',
+  'errors.network': 'No se puede conectar con el servidor. Revisa tu conexión.',
+  'errors.unknown': 'Algo salió mal.',
+
+  'conflict.title': 'Otra persona cambió {name}',
+  'conflict.message':
+    'Se guardó mientras lo editabas. Elige qué valor conservar en cada campo que difiere o conserva una de las dos versiones tal cual.',
+  'conflict.noDifferences':
+    'Se guardó mientras lo editabas, pero ninguno de los campos que puedes editar aquí difiere. Guarda para aplicar tus cambios encima.',
+  'conflict.field': 'Campo',
+  'conflict.yours': 'Tu versión',
+  'conflict.theirs': 'Versión guardada',
+  'conflict.merge': 'Guardar valores seleccionados',
+  'conflict.overwrite': 'Sobrescribir con la mía',
+  'conflict.discard': 'Descartar mis cambios',
+
+  'nav.dashboard': 'Panel',
+  'nav.users': 'Usuarios',
+  'nav.organizations': 'Organizaciones',
+  'nav.roles': 'Roles',
+  'nav.audit': 'Registros de auditoría',
+  'nav.billing': 'Facturación',
+  'nav.settings': 'Configuración',
+  'nav.profile': 'Perfil',
+  'nav.login': 'Inicio de sesión',
+
+  'topbar.overview': 'Resumen',
+  'topbar.commands': 'Comandos',
+  'topbar.darkMode': 'Modo oscuro',
+  'topbar.lightMode': 'Modo claro',
+  'topbar.profile': 'Perfil',
+  'topbar.logout': 'Cerrar sesión',
+
+  'profile.language': 'Idioma',
+  'profile.languageHelp': 'También define cómo se escriben las fechas, los números y los importes.',
+  'profile.title': 'Perfil',
+  'profile.subtitle':
+    'Tu cuenta, tu contraseña, tus sesiones iniciadas y tus preferencias de visualización.',
+  'profile.account': 'Cuenta',
+  'profile.permissions': 'Permisos',
+  'profile.noPermissions': 'Ninguno',
+  'profile.changePassword': 'Cambiar contraseña',
+  'profile.currentPassword': 'Contraseña actual',
+  'profile.newPassword': 'Contraseña nueva',
+  'profile.confirmPassword': 'Confirma la contraseña nueva',
+  'profile.passwordLength': 'De {min} a 64 caracteres.',
+  'profile.passwordChanged': 'Contraseña cambiada',
+  'profile.otherSessionsSignedOut': 'Se han cerrado las demás sesiones.',
+  'profile.sessions': 'Sesiones activas',
+  'profile.signOutOthers': 'Cerrar las demás sesiones',
+  'profile.signOutOthersTitle': '¿Cerrar las demás sesiones?',
+  'profile.signOutOthersMessage':
+    'Se {count, plural, one {cerrará # sesión más} other {cerrarán # sesiones más}}. Este dispositivo seguirá con la sesión iniciada.',
+  'profile.signOut': 'Cerrar sesión',
+  'profile.signedOutOthers': 'Se han cerrado todas las demás sesiones',
+  'profile.device': 'Dispositivo',
+  'profile.thisDevice': ' (este dispositivo)',
+  'profile.unknownDevice': 'Dispositivo desconocido',
+  'profile.browser': 'Navegador',
+  'profile.browserOn': '{browser} en {os}',
+  'profile.signedIn': 'Inicio de sesión',
+  'profile.lastActive': 'Última actividad',
+  'profile.expires': 'Caduca',
+  'profile.loadingSessions': 'Cargando sesiones…',
+  'profile.noSessions': 'No hay sesiones activas.',
+  'profile.preferences': 'Preferencias',
+  'profile.theme': 'Tema',
+  'profile.light': 'Claro',
+  'profile.dark': 'Oscuro',
+  'profile.density': 'Densidad',
+  'profile.density.comfortable': 'Cómoda',
+  'profile.density.compact': 'Compacta',
+  'profile.dateFormat': 'Formato de fecha',
+  'profile.landingPage': 'Página de inicio predeterminada',
+  'profile.landingPageHelp': 'Se abre al iniciar sesión.',
+  'profile.pageSize': 'Tamaño de página predeterminado',
+  'profile.pageSizeHelp': 'Se usa en las tablas paginadas salvo que un enlace indique otro.',
+
+  'users.title': 'Usuarios',
+  'users.subtitle': 'Gestiona miembros del equipo, roles y accesos.',
+  'users.export': 'Exportar',
+  'users.import': 'Importar CSV',
+  'users.new': 'Nuevo usuario',
+  'users.allRoles': 'Todos los roles',
+  'users.allOrganizations': 'Todas las organizaciones',
+  'users.allTeams': 'Todos los equipos',
+  'users.loadFailed': 'No se pudieron cargar los usuarios',
+  'users.noneFound': 'No se encontraron usuarios.',
+  'users.loading': 'Cargando usuarios…',
+  'users.empty': 'Sin usuarios',
+  'users.bulkActions': 'Acciones masivas',
+  'users.selected': '{count, plural, one {# seleccionado} other {# seleccionados}}',
+  'users.clearSelection': 'Borrar selección',
+  'users.createTitle': 'Crear usuario',
+  'users.editTitle': 'Editar usuario',
+  'users.deleteTitle': '¿Eliminar a {username}?',
+  'users.deleteMessage': 'El usuario se eliminará. Puedes deshacerlo durante unos segundos.',
+  'users.deleted': 'Se eliminó {username}',
+  'users.usernamePlaceholder': 'juana.perez',
+  'users.noTeams': 'No hay equipos disponibles',
+  'users.createTeamFirst': 'Primero crea un equipo para esta organización.',
+  'users.resetPassword': 'Restablecer contraseña',
+  'users.keepPassword': 'Déjalo en blanco para mantener la contraseña actual.',
+  'users.create': 'Crear usuario',
+  'users.saveChanges': 'Guardar cambios',
+
+  'audit.title': 'Registros de auditoría y actividad',
+  'audit.subtitle': 'Sigue las acciones de usuarios y sistemas.',
+  'audit.exportCsv': 'Exportar CSV',
+  'audit.exporting': 'Exportando registros de auditoría',
+  'audit.exportFailed': 'La exportación falló',
+  'audit.loadFailed': 'No se pudieron cargar los registros de auditoría',
+  'audit.time': 'Hora',
+  'audit.action': 'Acción',
+  'audit.searchAction': 'Buscar por acción',
+  'audit.from': 'Desde',
+  'audit.to': 'Hasta',
+  'audit.noneFound': 'No se encontraron registros.',
+  'audit.loading': 'Cargando registros de auditoría…',
+  'audit.empty': 'Sin registros',
+
+  'organizations.title': 'Organizaciones y equipos',
+  'organizations.subtitle': 'Organizaciones y equipos con membresía anidada.',
+  'organizations.new': 'Nueva organización',
+  'organizations.loadFailed': 'No se pudieron cargar las organizaciones',
+  'organizations.empty': 'Todavía no hay organizaciones.',
+  'organizations.deleteTitle': '¿Eliminar {name}?',
+  'organizations.deleteMessage': 'Puedes deshacerlo durante unos segundos.',
+  'organizations.deleteOrgImpact':
+    'Esta organización todavía tiene {teams} y {users}. Elimínalos primero o se rechazará la eliminación.',
+  'organizations.deleteTeamImpact':
+    '{count, plural, one {# usuario sigue} other {# usuarios siguen}} en este equipo. Reasígnalos primero o se rechazará la eliminación.',
+  'organizations.deleted': 'Se eliminó {name}',
+  'organizations.teams': 'Equipos',
+  'organizations.newTeam': 'Nuevo equipo',
+  'organizations.noTeams': 'Todavía no hay equipos.',
+  'organizations.teamMembers': 'Miembros del equipo',
+  'organizations.membersOf': 'Miembros de {team}',
+  'organizations.noMembers': 'No hay usuarios asignados a este equipo.',
+  'organizations.selectTeam': 'Selecciona un equipo.',
+  'organizations.selectOrganization': 'Selecciona una organización para ver los detalles.',
+  'organizations.renameTitle': 'Renombrar organización',
+  'organizations.editTeam': 'Editar equipo',
+  'organizations.name': 'Nombre de la organización',
+  'organizations.teamName': 'Nombre del equipo',
+
+  'billing.orgTitle': 'Facturación de la organización',
+  'billing.orgSubtitle':
+    'Elige la organización cuya facturación, planes y facturas quieres gestionar.',
+  'billing.title': 'Facturación y planes',
+  'billing.subtitle': 'Selector de planes, resumen de uso y estado de la suscripción.',
+  'billing.cycle': 'Ciclo de facturación',
+  'billing.monthly': 'Facturación mensual',
+  'billing.yearly': 'Facturación anual',
+  'billing.summaryFailed': 'No se pudo cargar el resumen de facturación',
+  'billing.plansFailed': 'No se pudieron cargar los planes',
+  'billing.status': 'Estado:',
+  'billing.cancelsAtPeriodEnd': '(se cancela al final del periodo)',
+  'billing.currentPlanName': 'Plan actual: {plan}',
+  'billing.renewal': 'Renovación: {date} · Ciclo: {cycle}',
+  'billing.popular': 'Popular',
+  'billing.perYear': '/ año',
+  'billing.perMonth': '/ mes',
+  'billing.currentPlan': 'Plan actual',
+  'billing.selectPlan': 'Elegir plan',
+  'billing.perk.seats': '{count, plural, one {Hasta # puesto} other {Hasta # puestos}}',
+  'billing.perk.unlimitedSeats': 'Puestos ilimitados',
+  'billing.perk.basicAnalytics': 'Analítica básica',
+  'billing.perk.advancedAnalytics': 'Analítica avanzada',
+  'billing.perk.communitySupport': 'Soporte de la comunidad',
+  'billing.perk.prioritySupport': 'Soporte prioritario',
+  'billing.perk.customRoles': 'Roles personalizados',
+  'billing.perk.dedicatedCsm': 'Gestor de cuenta dedicado',
+  'billing.perk.customLimits': 'Límites personalizados',
+  'billing.perk.standardSupport': 'Soporte estándar',
+  'billing.usageSummary': 'Resumen de uso',
+  'billing.periodEnds': 'El periodo termina el {date}',
+  'billing.seats': 'Puestos',
+  'billing.storage': 'Almacenamiento (GB)',
+  'billing.apiCalls': 'Llamadas a la API',
+  'billing.paymentMethods': 'Métodos de pago',
+  'billing.addMethod': 'Añadir método',
+  'billing.paymentMethodsFailed': 'No se pudieron cargar los métodos de pago',
+  'billing.noPaymentMethods': 'Todavía no hay métodos de pago.',
+  'billing.method': 'Método',
+  'billing.expires': 'Caduca',
+  'billing.default': 'Predeterminado',
+  'billing.invoiceHistory': 'Historial de facturas',
+  'billing.invoicesFailed': 'No se pudieron cargar las facturas',
+  'billing.noInvoices': 'Todavía no hay facturas.',
+  'billing.invoice': 'Factura',
+  'billing.period': 'Periodo',
+  'billing.amount': 'Importe',
+  'billing.downloadingInvoice': 'Descargando la factura {number}',
+  'billing.downloadFailed': 'La descarga falló',
+  'billing.updateFailed': 'No se pudo actualizar la facturación',
+  'billing.addPaymentMethod': 'Añadir método de pago',
+  'billing.cardBrand': 'Marca de la tarjeta',
+  'billing.last4': 'Últimos 4 dígitos',
+  'billing.expMonth': 'Mes de caducidad',
+  'billing.expYear': 'Año de caducidad',
+  'billing.setDefault': 'Establecer como predeterminado',
+  'billing.saveMethod': 'Guardar método',
+
+  'modal.close': 'Cerrar',
+
+  'table.columns': 'Columnas',
+  'table.empty': 'No hay datos.',
+  'table.selectAll': 'Seleccionar todas las filas de esta página',
+  'table.selectRow': 'Seleccionar fila',
+
+  'unsaved.title': '¿Descartar los cambios sin guardar?',
+  'unsaved.keepEditing': 'Seguir editando',
+  'unsaved.discard': 'Descartar cambios',
+  'unsaved.body': 'Tienes cambios sin guardar. Si sales ahora, se descartarán.',
+
+  'idle.title': '¿Sigues ahí?',
+  'idle.signOut': 'Cerrar sesión ahora',
+  'idle.stay': 'Mantener la sesión',
+  'idle.body':
+    'Llevas un rato inactivo. Por tu seguridad, cerraremos tu sesión en {seconds, plural, one {# segundo} other {# segundos}}.',
+  'idle.signedOut': 'Se cerró tu sesión tras un periodo de inactividad.',
+
+  'savedViews.toolbar': 'Vistas guardadas',
+  'savedViews.default': ' (predeterminada)',
+  'savedViews.save': 'Guardar vista',
+  'savedViews.manage': 'Gestionar vistas ({count})',
+  'savedViews.storeFailed': 'No se pudieron guardar las vistas.',
+  'savedViews.saveTitle': 'Guardar la vista actual',
+  'savedViews.namePlaceholder': 'Administradores de Acme',
+  'savedViews.nameRequired': 'El nombre es obligatorio.',
+  'savedViews.nameTaken': 'Ya existe una vista con este nombre.',
+  'savedViews.pin': 'Fijar en la cabecera de la página',
+  'savedViews.openByDefault': 'Abrir esta vista por defecto',
+  'savedViews.viewName': 'Nombre de la vista',
+  'savedViews.apply': 'Aplicar',
+  'savedViews.pinAction': 'Fijar',
+  'savedViews.unpin': 'Desfijar',
+  'savedViews.setDefault': 'Establecer como predeterminada',
+  'savedViews.clearDefault': 'Quitar predeterminada',
+  'savedViews.deleteTitle': '¿Eliminar la vista «{name}»?',
+
+  'roles.title': 'Permisos y roles',
+  'roles.subtitle': 'Gestiona el acceso de los roles con una matriz de permisos.',
+  'roles.new': 'Nuevo rol',
+  'roles.edit': 'Editar rol',
+  'roles.editHelp': 'Actualiza los permisos y los datos del rol.',
+  'roles.newHelp': 'Define un rol nuevo.',
+  'roles.loadFailed': 'No se pudieron cargar los roles',
+  'roles.permissionsLoadFailed': 'No se pudieron cargar los permisos',
+  'roles.permissionCount': '{count, plural, one {# permiso} other {# permisos}}',
+  'roles.empty': 'Todavía no hay roles.',
+  'roles.deleteTitle': '¿Eliminar {name}?',
+  'roles.deleteMessage': 'Puedes deshacerlo durante unos segundos.',
+  'roles.deleteImpact':
+    '{count, plural, one {# usuario tiene} other {# usuarios tienen}} este rol y hay que reasignarlos antes; si no, se rechazará la eliminación.',
+  'roles.deleted': '{name} eliminado',
+  'roles.deleteFailed': 'No se pudo eliminar el rol',
+  'roles.name': 'Nombre del rol',
+  'roles.description': 'Descripción',
+  'roles.permissions': 'Permisos',
+  'roles.permissionsRequired': 'Selecciona al menos un permiso.',
+  'roles.updated': 'Rol actualizado',
+  'roles.created': 'Rol creado',
+  'roles.saveChanges': 'Guardar cambios',
+  'roles.create': 'Crear rol',
+
+  'import.title': 'Importar usuarios desde CSV',
+  'import.file': 'Archivo CSV',
+  'import.hint':
+    'Columnas esperadas: username, role, organization, team, password. Las organizaciones y los equipos pueden indicarse por nombre o por id.',
+  'import.needsRows': 'El archivo necesita una fila de cabecera y al menos un usuario.',
+  'import.tooManyRows': 'Importa como máximo {max} usuarios a la vez.',
+  'import.unreadable': 'No se pudo leer el archivo como CSV.',
+  'import.notMapped': 'Sin asignar',
+  'import.column': 'Columna {number}',
+  'import.row': 'Fila',
+  'import.status': 'Estado',
+  'import.imported': 'Importado',
+  'import.ready': 'Listo',
+  'import.waiting': 'En espera',
+  'import.downloadReport': 'Descargar el informe de errores',
+  'import.stop': 'Detener tras este lote',
+  'import.submit': 'Importar {count, plural, one {# usuario} other {# usuarios}}',
+  'import.previewSummary': '{ready} listos, {invalid} con errores.',
+  'import.progressSummary':
+    '{imported} importados, {failed} con error{busy, select, true { hasta ahora} other {}}.',
+  'import.mapMissing': ' Asigna {fields} para continuar.',
+  'import.errorsOnly': 'Solo filas con errores',
+  'import.noRows': 'No hay filas que mostrar.',
+  'import.unknownOrganization': 'Organización desconocida «{value}».',
+  'import.unknownRole': 'Rol desconocido «{value}».',
+  'import.unknownTeam': 'El equipo «{value}» no existe en {organization}.',
+  'import.duplicate': 'Duplicado de la línea {line}.',
+
+  'validation.usernameMin': 'El nombre de usuario debe tener al menos 3 caracteres.',
+  'validation.usernameMax': 'El nombre de usuario puede tener como máximo 32 caracteres.',
+  'validation.usernameChars': 'Usa letras, números, puntos, guiones o guiones bajos.',
+  'validation.roleRequired': 'El rol es obligatorio.',
+  'validation.organizationRequired': 'La organización es obligatoria.',
+  'validation.teamRequired': 'El equipo es obligatorio.',
+  'validation.passwordMin': 'La contraseña debe tener al menos {min} caracteres.',
+  'validation.passwordMax': 'La contraseña es demasiado larga.',
+  'validation.passwordUppercase': 'La contraseña debe contener una letra mayúscula.',
+  'validation.passwordNumber': 'La contraseña debe contener un número.',
+  'validation.passwordSymbol': 'La contraseña debe contener un símbolo.',
+  'validation.currentPasswordRequired': 'La contraseña actual es obligatoria.',
+  'validation.passwordsMismatch': 'Las contraseñas no coinciden.',
+  'validation.passwordUnchanged': 'La contraseña nueva debe ser distinta de la actual.',
+
+  'export.title': 'Exportar usuarios',
+  'export.cancel': 'Cancelar la exportación',
+  'export.submit': 'Exportar',
+  'export.rows': 'Filas',
+  'export.filtered': 'Todos los usuarios que coinciden con los filtros actuales ({count})',
+  'export.selected': 'Solo los usuarios seleccionados ({count})',
+  'export.format': 'Formato',
+  'export.progressLabel': 'Progreso de la exportación',
+  'export.progress': 'Obtenidos {loaded} de {total} usuarios',
+  'export.userId': 'Id de usuario',
+  'export.organizationId': 'Id de organización',
+  'export.teamId': 'Id de equipo',
+
+  'bulk.role': 'Cambiar rol',
+  'bulk.move': 'Mover a un equipo',
+  'bulk.resetPassword': 'Restablecer contraseñas',
+  'bulk.delete': 'Eliminar usuarios',
+  'bulk.title': '{action} ({count} seleccionados)',
+  'bulk.status.pending': 'En espera',
+  'bulk.status.running': 'Procesando…',
+  'bulk.status.success': 'Hecho',
+  'bulk.status.failed': 'Error',
+  'bulk.status.skipped': 'Omitido',
+  'bulk.alreadyRole': 'Ya es {role}.',
+  'bulk.alreadyInTeam': 'Ya está en este equipo.',
+  'bulk.willDelete':
+    '{count, plural, one {Se eliminará # usuario} other {Se eliminarán # usuarios}} de forma permanente.',
+  'bulk.willResetPassword':
+    '{count, plural, one {# usuario recibirá} other {# usuarios recibirán}} una contraseña temporal nueva.',
+  'bulk.willUpdate':
+    '{count, plural, one {Se actualizará # usuario} other {Se actualizarán # usuarios}}.',
+  'bulk.willSkip': ' {count} ya coinciden y se omitirán.',
+  'bulk.andMore': 'y {count} más',
+  'bulk.copyPasswords': 'Copiar contraseñas',
+  'bulk.closeKeepFailed': 'Cerrar y mantener seleccionados los fallidos',
+  'bulk.newRole': 'Rol nuevo',
+  'bulk.noTeams': 'No hay equipos disponibles',
+  'bulk.processing': 'Procesando {done} de {total}…',
+  'bulk.result': '{succeeded} correctos, {failed} con error, {skipped} omitidos.',
+
+  'search.users': 'Usuarios',
+  'search.organizations': 'Organizaciones',
+  'search.teams': 'Equipos',
+  'search.roles': 'Roles',
+  'search.placeholder': 'Buscar… ({shortcut})',
+  'search.searching': 'Buscando…',
+  'search.noResults': 'Sin resultados.',
+  'search.shortcut': 'Buscar usuarios, organizaciones, equipos y roles',
+
+  'palette.title': 'Paleta de comandos',
+  'palette.placeholder': 'Buscar páginas, acciones, usuarios, organizaciones…',
+  'palette.pages': 'Páginas',
+  'palette.actions': 'Acciones',
+  'palette.createUser': 'Crear usuario',
+  'palette.addPaymentMethod': 'Añadir método de pago',
+  'palette.exportAudit': 'Exportar el CSV de auditoría',
+  'palette.darkMode': 'Activar el modo oscuro',
+  'palette.lightMode': 'Activar el modo claro',
+  'palette.shortcuts': 'Mostrar atajos de teclado',
+  'palette.open': 'Abrir la paleta de comandos',
+  'palette.noMatches': 'No hay comandos que coincidan.',
+
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.global': 'En todas partes',
+  'shortcuts.page': 'En esta página',
+
+  'dashboard.title': 'Panel',
+  'dashboard.subtitle': 'Un vistazo rápido a tu producto, tus usuarios y tus ingresos.',
+  'dashboard.size.small': 'Pequeño',
+  'dashboard.size.medium': 'Mediano',
+  'dashboard.size.large': 'Grande',
+  'dashboard.addWidget': 'Añadir widget',
+  'dashboard.chooseWidget': 'Elige un widget',
+  'dashboard.allWidgetsAdded': 'Todos los widgets añadidos',
+  'dashboard.resetLayout': 'Restablecer el diseño',
+  'dashboard.done': 'Listo',
+  'dashboard.customize': 'Personalizar',
+  'dashboard.hint':
+    'Arrastra los widgets para reordenarlos, o enfoca un asa y usa las flechas del teclado.',
+  'dashboard.move': 'Mover {title}',
+  'dashboard.moveHint': 'Arrastra o usa las flechas para mover',
+  'dashboard.moved': '{title} movido a la posición {position}.',
+  'dashboard.size': 'Tamaño de {title}',
+  'dashboard.remove': 'Quitar',
+  'dashboard.empty': 'No hay widgets en tu panel. Usa Personalizar para añadir alguno.',
+  'dashboard.loading': 'Cargando…',
+  'dashboard.manage': 'Gestionar',
+
+  'widgets.totalUsers': 'Usuarios totales',
+  'widgets.totalUsersDescription': 'Número de usuarios de todas las organizaciones.',
+  'widgets.acrossOrganizations': 'En todas las organizaciones',
+  'widgets.organizations': 'Organizaciones',
+  'widgets.organizationsDescription': 'Organizaciones y equipos del espacio de trabajo.',
+  'widgets.recentActivity': 'Actividad reciente',
+  'widgets.recentActivityDescription': 'Los últimos 10 eventos de auditoría.',
+  'widgets.allLogs': 'Todos los registros',
+  'widgets.noActivity': 'Todavía no hay actividad.',
+  'widgets.currentPlan': 'Plan actual',
+  'widgets.currentPlanDescription': 'Plan de suscripción y uso frente a los límites del plan.',
+  'widgets.planUsage': '{percent} % de los límites del plan usado',
+  'widgets.unpaidInvoices': 'Facturas pendientes',
+  'widgets.unpaidInvoicesDescription': 'Facturas que siguen pendientes de pago.',
+  'widgets.view': 'Ver',
+  'widgets.allPaid': 'Todas las facturas están pagadas.',
+  'widgets.outstanding': '{amounts} pendientes',
+
+  'notifications.title': 'Notificaciones',
+  'notifications.unread': '{count} sin leer',
+  'notifications.markAllRead': 'Marcar todo como leído',
+  'notifications.markRead': 'Marcar como leído',
+  'notifications.loadFailed': 'No se pudieron cargar algunas notificaciones. Reintentando…',
+  'notifications.loading': 'Cargando notificaciones…',
+  'notifications.empty': 'Estás al día.',
+  'notifications.kind.activity': 'Actividad',
+  'notifications.kind.billing': 'Facturación',
+  'notifications.kind.usage': 'Uso',
+  'notifications.kind.session': 'Sesión',
+  'notifications.by': 'Por {user}',
+  'notifications.subscriptionStatus': 'Estado de la suscripción: {status}',
+  'notifications.subscriptionBody':
+    'Actualiza el método de pago de {organization} para mantener el plan {plan}.',
+  'notifications.invoiceFailed': 'Falló el pago de la factura {number}',
+  'notifications.invoiceBody': '{amount} vencía el {date}.',
+  'notifications.meter.seats': 'Puestos',
+  'notifications.meter.storage': 'Almacenamiento',
+  'notifications.meter.apiCalls': 'Llamadas a la API',
+  'notifications.usageTitle': '{meter} al {percent} % del límite del plan',
+  'notifications.usageBody': '{organization} ha usado {used} de {limit}.',
+  'notifications.sessionTitle': 'Tu sesión está a punto de caducar',
+  'notifications.sessionBody':
+    'Se cerrará tu sesión en unos {minutes, plural, one {# minuto} other {# minutos}}.',
+
+  'settings.title': 'Ajustes',
+  'settings.subtitle': 'Configura las preferencias del espacio de trabajo y la facturación.',
+  'settings.sections': 'Secciones de ajustes',
+  'settings.tab.general': 'General',
+  'settings.tab.users': 'Usuarios nuevos',
+  'settings.tab.security': 'Política de contraseñas',
+  'settings.tab.billing': 'Contacto de facturación',
+  'settings.tab.danger': 'Zona de peligro',
+  'settings.unsaved': 'Cambios sin guardar',
+  'settings.discard': 'Descartar',
+  'settings.saveChanges': 'Guardar cambios',
+  'settings.nameMin': 'El nombre debe tener al menos 2 caracteres.',
+  'settings.nameMax': 'El nombre puede tener como máximo 64 caracteres.',
+  'settings.nameInvalid': 'El nombre no es válido.',
+  'settings.emailInvalid': 'Introduce una dirección de correo válida.',
+  'settings.renamed': 'Organización renombrada',
+  'settings.defaultRole': 'Rol predeterminado para usuarios nuevos',
+  'settings.defaultRoleHelp':
+    'Se preselecciona al crear usuarios y se usa en las filas importadas sin rol.',
+  'settings.firstRole': 'Primer rol de la lista',
+  'settings.defaultRoleSaved': 'Rol predeterminado guardado',
+  'settings.minLength': 'Longitud mínima',
+  'settings.minLengthRange': 'La longitud mínima debe estar entre {min} y {max}.',
+  'settings.minLengthHelp':
+    'Se aplica al crear, editar o importar usuarios y cuando cambian su contraseña.',
+  'settings.requireUppercase': 'Exigir una letra mayúscula',
+  'settings.requireNumber': 'Exigir un número',
+  'settings.requireSymbol': 'Exigir un símbolo',
+  'settings.passwordPolicySaved': 'Política de contraseñas guardada',
+  'settings.billingEmail': 'Correo de contacto de facturación',
+  'settings.billingEmailHelp':
+    'Recibe las facturas y los avisos de pago. Déjalo vacío para usar el titular de la cuenta.',
+  'settings.billingContactSaved': 'Contacto de facturación guardado',
+  'settings.deleteWarning':
+    'Eliminar {name} es permanente. Antes hay que eliminar los equipos y reasignar a los usuarios.',
+  'settings.deleting': 'Eliminando…',
+  'settings.deleteOrganization': 'Eliminar organización',
+  'settings.loadingOrganization': 'Cargando organización…',
+  'settings.noOrganization': 'No hay ninguna organización disponible.',
+  'settings.loading': 'Cargando ajustes…',
+  'settings.notLoaded': 'Los ajustes todavía no se han cargado.',
+  'settings.loadFailed': 'No se pudieron cargar los ajustes',
+
+  'login.loadingSession': 'Cargando sesión…',
+  'login.title': 'Iniciar sesión',
+  'login.subtitle': 'Inicia sesión para acceder a tu panel.',
+  'login.usernamePlaceholder': 'admin o user',
+  'login.demoCredentials': 'Credenciales de demostración: admin / admin, user / user',
+  'login.submit': 'Continuar',
+  'login.invalidCredentials': 'Usuario o contraseña no válidos.',
+  'login.failed': 'No se pudo iniciar sesión. Revisa tus credenciales e inténtalo de nuevo.',
+
+  'notFound.title': 'Página no encontrada',
+  'notFound.backToDashboard': 'Volver al panel',
+};
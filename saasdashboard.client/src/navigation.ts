@@ -0,0 +1,30 @@
+import type { PermissionKey } from './auth/permissions';
+import type { MessageKey } from './i18n/i18n';
+
+export const routeLabelKeys: Record<string, MessageKey> = {
+  '/': 'nav.dashboard',
+  '/users': 'nav.users',
+  '/organizations': 'nav.organizations',
+  '/roles': 'nav.roles',
+  '/audit': 'nav.audit',
+  '/billing': 'nav.billing',
+  '/settings': 'nav.settings',
+  '/profile': 'nav.profile',
+  '/login': 'nav.login',
+};
+
+export type NavigationItem = {
+  to: string;
+  labelKey: MessageKey;
+  permission?: PermissionKey;
+};
+
+export const navigationItems: NavigationItem[] = [
+  { to: '/', labelKey: 'nav.dashboard' },
+  { to: '/users', labelKey: 'nav.users', permission: 'users.view' },
+  { to: '/organizations', labelKey: 'nav.organizations', permission: 'organizations.view' },
+  { to: '/roles', labelKey: 'nav.roles', permission: 'roles.manage' },
+  { to: '/audit', labelKey: 'nav.audit', permission: 'audit.view' },
+  { to: '/billing', labelKey: 'nav.billing', permission: 'billing.view' },
+  { to: '/settings', labelKey: 'nav.settings', permission: 'settings.manage' },
+];
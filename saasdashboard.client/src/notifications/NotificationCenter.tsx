@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '../components/ui';
+import { useI18n, type MessageKey } from '../i18n/i18n';
+import type { AppNotification } from './types';
+import { useNotifications } from './useNotifications';
+
+const kindLabelKeys: Record<AppNotification['kind'], MessageKey> = {
+  activity: 'notifications.kind.activity',
+  billing: 'notifications.kind.billing',
+  usage: 'notifications.kind.usage',
+  session: 'notifications.kind.session',
+};
+
+/** Topbar button with the unread count and the drawer listing notifications. */
+export function NotificationCenter() {
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const { t, formatDateTime, formatRelativeTime } = useI18n();
+  const { notifications, unreadCount, isRead, isLoading, hasError, markRead, markAllRead } =
+    useNotifications();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  const openNotification = (notification: AppNotification) => {
+    markRead(notification.id);
+    if (notification.href) {
+      setIsOpen(false);
+      navigate(notification.href);
+    }
+  };
+
+  return (
+    <>
+      <button
+        className="ghost-button"
+        type="button"
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((current) => !current)}
+      >
+        {t('notifications.title')}
+        {unreadCount > 0 ? (
+          <span
+            className="notification-badge"
+            aria-label={t('notifications.unread', { count: unreadCount })}
+          >
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        ) : null}
+      </button>
+      {isOpen ? (
+        <div className="notification-overlay" role="presentation" onClick={() => setIsOpen(false)}>
+          <aside
+            className="notification-drawer"
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('notifications.title')}
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="notification-drawer-header">
+              <strong>{t('notifications.title')}</strong>
+              <div className="notification-drawer-actions">
+                <Button
+                  variant="ghost"
+                  type="button"
+                  disabled={unreadCount === 0}
+                  onClick={markAllRead}
+                >
+                  {t('notifications.markAllRead')}
+                </Button>
+                <Button variant="ghost" type="button" onClick={() => setIsOpen(false)}>
+                  {t('common.close')}
+                </Button>
+              </div>
+            </div>
+            {hasError ? <p className="form-error">{t('notifications.loadFailed')}</p> : null}
+            {notifications.length === 0 ? (
+              <p className="notification-empty">
+                {isLoading ? t('notifications.loading') : t('notifications.empty')}
+              </p>
+            ) : (
+              <ul className="notification-list">
+                {notifications.map((notification) => {
+                  const read = isRead(notification.id);
+                  return (
+                    <li
+                      key={notification.id}
+                      className={read ? 'notification-item' : 'notification-item is-unread'}
+                    >
+                      <button
+                        type="button"
+                        className="notification-item-main"
+                        onClick={() => openNotification(notification)}
+                      >
+                        <span
+                          className="notification-item-meta"
+                          title={formatDateTime(notification.createdAt)}
+                        >
+                          {t(kindLabelKeys[notification.kind])} ·{' '}
+                          {formatRelativeTime(notification.createdAt)}
+                        </span>
+                        <span className="notification-item-title">{notification.title}</span>
+                        {notification.body ? (
+                          <span className="notification-item-body">{notification.body}</span>
+                        ) : null}
+                      </button>
+                      {read ? null : (
+                        <Button
+                          variant="ghost"
+                          type="button"
+                          onClick={() => markRead(notification.id)}
+                        >
+                          {t('notifications.markRead')}
+                        </Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </aside>
+        </div>
+      ) : null}
+    </>
+  );
+}
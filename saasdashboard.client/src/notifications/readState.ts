@@ -0,0 +1,20 @@
+const STORAGE_KEY = 'saas_notifications_read';
+// Ids of notifications that no longer show up are dropped oldest first.
+const MAX_READ_IDS = 500;
+
+const getStorageKey = (username: string) => `${STORAGE_KEY}:${username}`;
+
+export const loadReadIds = (username: string) => {
+  const raw = localStorage.getItem(getStorageKey(username));
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveReadIds = (username: string, ids: string[]) => {
+  localStorage.setItem(getStorageKey(username), JSON.stringify(ids.slice(-MAX_READ_IDS)));
+};
@@ -0,0 +1,133 @@
+import type { AuditLogItem } from '../audit/types';
+import type { BillingSummary, Invoice, UsageSummary } from '../billing/types';
+import type { I18n, MessageKey } from '../i18n/i18n';
+import type { AppNotification } from './types';
+
+/** Usage at or above this share of a plan limit raises a notification. */
+export const USAGE_WARNING_RATIO = 0.9;
+/** How long before an idle or non-renewable session ends the user is warned. */
+export const SESSION_NOTICE_MS = 5 * 60_000;
+
+const FAILED_PAYMENT_PATTERN = /failed|past.?due|unpaid|overdue/i;
+
+/** Audit entries about the user made by someone else, e.g. "Updated user alice". */
+export const auditNotifications = (
+  items: AuditLogItem[],
+  username: string,
+  i18n: I18n,
+): AppNotification[] =>
+  items
+    .filter((item) => item.user !== username && item.action.endsWith(` ${username}`))
+    .map((item) => ({
+      id: `audit:${item.id}`,
+      kind: 'activity',
+      title: item.action,
+      body: i18n.t('notifications.by', { user: item.user }),
+      createdAt: item.time,
+      href: `/audit?user=${encodeURIComponent(item.user)}`,
+    }));
+
+export const paymentNotifications = (
+  summary: BillingSummary | undefined,
+  invoices: Invoice[],
+  i18n: I18n,
+): AppNotification[] => [
+  ...(summary && FAILED_PAYMENT_PATTERN.test(summary.status)
+    ? [
+        {
+          id: `billing:subscription:${summary.organizationId}:${summary.status}`,
+          kind: 'billing' as const,
+          title: i18n.t('notifications.subscriptionStatus', {
+            status: summary.status.toLowerCase(),
+          }),
+          body: i18n.t('notifications.subscriptionBody', {
+            organization: summary.organizationName,
+            plan: summary.currentPlan.name,
+          }),
+          createdAt: summary.currentPeriodStart,
+          href: '/billing',
+        },
+      ]
+    : []),
+  ...invoices
+    .filter((invoice) => FAILED_PAYMENT_PATTERN.test(invoice.status))
+    .map((invoice) => ({
+      id: `billing:invoice:${invoice.id}:${invoice.status}`,
+      kind: 'billing' as const,
+      title: i18n.t('notifications.invoiceFailed', { number: invoice.number }),
+      body: i18n.t('notifications.invoiceBody', {
+        amount: i18n.formatCurrency(invoice.amount, invoice.currency),
+        date: i18n.formatDate(invoice.dueAt),
+      }),
+      createdAt: invoice.dueAt,
+      href: '/billing',
+    })),
+];
+
+export const usageNotifications = (
+  summary: BillingSummary | undefined,
+  i18n: I18n,
+): AppNotification[] => {
+  if (!summary) return [];
+  const usage: UsageSummary = summary.usage;
+  const meters: { key: string; labelKey: MessageKey; used: number; limit: number }[] = [
+    {
+      key: 'seats',
+      labelKey: 'notifications.meter.seats',
+      used: usage.seatsUsed,
+      limit: usage.seatsLimit,
+    },
+    {
+      key: 'storage',
+      labelKey: 'notifications.meter.storage',
+      used: usage.storageUsedGb,
+      limit: usage.storageLimitGb,
+    },
+    {
+      key: 'api-calls',
+      labelKey: 'notifications.meter.apiCalls',
+      used: usage.apiCallsUsed,
+      limit: usage.apiCallsLimit,
+    },
+  ];
+
+  return meters
+    .filter((meter) => meter.limit > 0 && meter.used / meter.limit >= USAGE_WARNING_RATIO)
+    .map((meter) => {
+      const percent = Math.round((meter.used / meter.limit) * 100);
+      return {
+        // Keyed by billing period so the warning comes back next period.
+        id: `usage:${summary.organizationId}:${meter.key}:${summary.currentPeriodStart}`,
+        kind: 'usage',
+        title: i18n.t('notifications.usageTitle', { meter: i18n.t(meter.labelKey), percent }),
+        body: i18n.t('notifications.usageBody', {
+          organization: summary.organizationName,
+          used: i18n.formatNumber(meter.used),
+          limit: i18n.formatNumber(meter.limit),
+        }),
+        createdAt: summary.currentPeriodStart,
+        href: '/billing',
+      };
+    });
+};
+
+/** `expiresAt` is the earliest of the idle timeout and a token that can no longer be renewed. */
+export const sessionNotifications = (
+  expiresAt: number | null,
+  now: number,
+  i18n: I18n,
+): AppNotification[] => {
+  if (expiresAt === null) return [];
+  const remaining = expiresAt - now;
+  if (remaining <= 0 || remaining > SESSION_NOTICE_MS) return [];
+  const minutes = Math.max(1, Math.round(remaining / 60_000));
+  return [
+    {
+      id: `session:${expiresAt}`,
+      kind: 'session',
+      title: i18n.t('notifications.sessionTitle'),
+      body: i18n.t('notifications.sessionBody', { minutes }),
+      createdAt: new Date(expiresAt - SESSION_NOTICE_MS).toISOString(),
+    },
+  ];
+};
@@ -0,0 +1,11 @@
+export type NotificationKind = 'activity' | 'billing' | 'usage' | 'session';
+
+export type AppNotification = {
+  /** Stable across polls so read state survives refetches. */
+  id: string;
+  kind: NotificationKind;
+  title: string;
+  body?: string;
+  createdAt: string;
+  href?: string;
+};
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getAuditLogs } from '../audit/api';
+import { readLastActivity } from '../auth/activity';
+import { sessionConfig } from '../auth/config';
+import { usePermissions } from '../auth/permissions';
+import { getAccessTokenExpiry, getRefreshToken, getSessionUser } from '../auth/session';
+import { getBillingSummary, getInvoices } from '../billing/api';
+import { useI18n } from '../i18n/i18n';
+import { loadReadIds, saveReadIds } from './readState';
+import {
+  auditNotifications,
+  paymentNotifications,
+  sessionNotifications,
+  usageNotifications,
+} from './sources';
+import type { AppNotification } from './types';
+import { queryKeys } from '../api/queryKeys';
+
+const POLL_INTERVAL_MS = 60_000;
+const MAX_POLL_INTERVAL_MS = 15 * 60_000;
+const SESSION_CHECK_MS = 15_000;
+const AUDIT_PAGE_SIZE = 20;
+
+/** Doubles the polling interval after every consecutive failure, up to the maximum. */
+const backoffInterval = (failures: number) =>
+  Math.min(MAX_POLL_INTERVAL_MS, POLL_INTERVAL_MS * 2 ** failures);
+
+const readSessionExpiry = () => {
+  const idleExpiry = readLastActivity() + sessionConfig.idleTimeoutMs;
+  // Without a refresh token the access token cannot be renewed and ends the session.
+  const tokenExpiry = getRefreshToken() ? null : getAccessTokenExpiry();
+  return tokenExpiry ? Math.min(idleExpiry, tokenExpiry) : idleExpiry;
+};
+
+const checkSession = () => ({ expiresAt: readSessionExpiry(), now: Date.now() });
+
+/**
+ * Notifications for the signed-in user: audit entries about them, failed payments, usage near
+ * plan limits and an expiring session. Sources poll with exponential backoff on errors; React
+ * Query skips interval refetches while the tab is hidden and refetches when it is focused again.
+ */
+export function useNotifications() {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const i18n = useI18n();
+  const username = getSessionUser()?.username ?? 'anonymous';
+  const readKey = queryKeys.notificationReads(username);
+  const failures = useRef(new Map<string, number>());
+  const [sessionCheck, setSessionCheck] = useState(checkSession);
+
+  const poll = async <T>(source: string, load: () => Promise<T>) => {
+    try {
+      const result = await load();
+      failures.current.delete(source);
+      return result;
+    } catch (error) {
+      failures.current.set(source, (failures.current.get(source) ?? 0) + 1);
+      throw error;
+    }
+  };
+
+  const pollOptions = (source: string) => ({
+    retry: false,
+    refetchInterval: () => backoffInterval(failures.current.get(source) ?? 0),
+    refetchIntervalInBackground: false,
+  });
+
+  const auditQuery = useQuery({
+    queryKey: queryKeys.auditLogs.notifications(username),
+    queryFn: ({ signal }) =>
+      poll('audit', () =>
+        getAuditLogs({ action: username, page: 1, pageSize: AUDIT_PAGE_SIZE }, { signal }),
+      ),
+    enabled: can('audit.view'),
+    ...pollOptions('audit'),
+  });
+  const summaryQuery = useQuery({
+    queryKey: queryKeys.billing.summary(),
+    queryFn: ({ signal }) => poll('summary', () => getBillingSummary(undefined, { signal })),
+    enabled: can('billing.view'),
+    ...pollOptions('summary'),
+  });
+  const invoicesQuery = useQuery({
+    queryKey: queryKeys.billing.invoices(),
+    queryFn: ({ signal }) => poll('invoices', () => getInvoices(undefined, { signal })),
+    enabled: can('billing.view'),
+    ...pollOptions('invoices'),
+  });
+  const readQuery = useQuery({
+    queryKey: readKey,
+    queryFn: () => loadReadIds(username),
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    const check = () => {
+      if (!document.hidden) setSessionCheck(checkSession());
+    };
+    const interval = window.setInterval(check, SESSION_CHECK_MS);
+    document.addEventListener('visibilitychange', check);
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', check);
+    };
+  }, []);
+
+  const notifications: AppNotification[] = [
+    ...sessionNotifications(sessionCheck.expiresAt, sessionCheck.now, i18n),
+    ...paymentNotifications(summaryQuery.data, invoicesQuery.data ?? [], i18n),
+    ...usageNotifications(summaryQuery.data, i18n),
+    ...auditNotifications(auditQuery.data?.items ?? [], username, i18n),
+  ].sort((left, right) => Date.parse(right.createdAt) - Date.parse(left.createdAt));
+
+  const readIds = new Set(readQuery.data ?? []);
+  const unreadCount = notifications.filter((item) => !readIds.has(item.id)).length;
+
+  const markRead = (ids: string[]) => {
+    const unread = ids.filter((id) => !readIds.has(id));
+    if (!unread.length) return;
+    const next = [...(readQuery.data ?? []), ...unread];
+    saveReadIds(username, next);
+    queryClient.setQueryData(readKey, next);
+  };
+
+  return {
+    notifications,
+    unreadCount,
+    isRead: (id: string) => readIds.has(id),
+    isLoading: auditQuery.isLoading || summaryQuery.isLoading || invoicesQuery.isLoading,
+    hasError: Boolean(auditQuery.error || summaryQuery.error || invoicesQuery.error),
+    markRead: (id: string) => markRead([id]),
+    markAllRead: () => markRead(notifications.map((item) => item.id)),
+  };
+}
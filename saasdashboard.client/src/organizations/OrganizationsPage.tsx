@@ -1,21 +1,43 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { ApiError } from '../api/client';
-import { Button, Input, Modal, Select, Table, Toast } from '../components/ui';
+import { errorMessage } from '../api/errors';
+import { applyOptimistic, writeCache, type OptimisticChange } from '../api/optimistic';
+import { queryKeys } from '../api/queryKeys';
+import { useUndoableMutation } from '../api/useUndoableMutation';
+import {
+  Button,
+  Input,
+  Modal,
+  Select,
+  Table,
+  Toast,
+  useConfirm,
+  type TableColumn,
+} from '../components/ui';
 import { createOrganization, createTeam, deleteOrganization, deleteTeam, getOrganizations, updateOrganization, updateTeam } from './api';
-import type { Organization, Team } from './types';
-import { getUsers } from '../users/api';
+import {
+  insertCachedOrganization,
+  insertCachedTeam,
+  removeCachedOrganization,
+  removeCachedTeam,
+  renameCachedOrganization,
+  renameCachedTeam,
+} from './cache';
+import type { Organization, OrganizationSummary, Team, TeamSummary } from './types';
+import { getUsers, type UserSortKey, type UsersQuery } from '../users/api';
+import { renameCachedUsersOrganization, renameCachedUsersTeam } from '../users/cache';
 import type { User } from '../users/types';
+import { RequirePermission } from '../auth/RequirePermission';
+import { urlParam, useUrlState } from '../urlState';
+import { useI18n } from '../i18n/i18n';
+import { pageSizes, usePageSizeParam } from '../preferences/preferences';
 
-const parseError = (error: unknown) => {
-  if (error instanceof ApiError) {
-    const message = (error.payload as { message?: string } | undefined)?.message;
-    return message ?? `Request failed (${error.status}).`;
-  }
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return 'Something went wrong.';
+const organizationsUrlParams = {
+  org: urlParam.string(),
+  team: urlParam.string(),
+  search: urlParam.string(),
+  page: urlParam.integer(1, { min: 1 }),
+  sort: urlParam.sort(['username', 'role']),
 };
 
 type OrgModalState = { mode: 'create' } | { mode: 'edit'; organization: Organization };
@@ -23,153 +45,188 @@ type TeamModalState = { mode: 'create' } | { mode: 'edit'; team: Team };
 
 export function OrganizationsPage() {
   const queryClient = useQueryClient();
-  const [selectedOrgId, setSelectedOrgId] = useState<string | null>(null);
-  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
-  const [memberSearchInput, setMemberSearchInput] = useState('');
-  const [memberSearch, setMemberSearch] = useState('');
-  const [memberPage, setMemberPage] = useState(1);
-  const [memberPageSize, setMemberPageSize] = useState(10);
+  const { t } = useI18n();
+  const confirm = useConfirm();
+  const pageSizeParam = usePageSizeParam();
+  const urlParams = useMemo(
+    () => ({ ...organizationsUrlParams, pageSize: pageSizeParam }),
+    [pageSizeParam],
+  );
+  const [view, setView] = useUrlState(urlParams);
+  const {
+    search: memberSearch,
+    page: memberPage,
+    pageSize: memberPageSize,
+    sort: memberSort,
+  } = view;
+  const [memberSearchInput, setMemberSearchInput] = useState(memberSearch);
+  const [syncedMemberSearch, setSyncedMemberSearch] = useState(memberSearch);
   const [orgModal, setOrgModal] = useState<OrgModalState | null>(null);
   const [teamModal, setTeamModal] = useState<TeamModalState | null>(null);
   const [orgName, setOrgName] = useState('');
   const [teamName, setTeamName] = useState('');
   const [orgError, setOrgError] = useState<string | null>(null);
   const [teamError, setTeamError] = useState<string | null>(null);
-  const [orgToast, setOrgToast] = useState<string | null>(null);
 
   const organizationsQuery = useQuery({
-    queryKey: ['organizations', 'withTeams'],
-    queryFn: () => getOrganizations(true),
+    queryKey: queryKeys.organizations.list(true),
+    queryFn: ({ signal }) => getOrganizations(true, { signal }),
   });
 
   const organizations = organizationsQuery.data ?? [];
-  const selectedOrg = organizations.find((org) => org.id === selectedOrgId) ?? null;
+  // Until the URL names an organization or team, the first one is shown without writing it back.
+  const selectedOrg = organizations.find((org) => org.id === view.org) ?? organizations[0] ?? null;
+  const selectedOrgId = selectedOrg?.id ?? null;
   const teams = selectedOrg?.teams ?? [];
-  const selectedTeam = teams.find((team) => team.id === selectedTeamId) ?? null;
+  const selectedTeam = teams.find((team) => team.id === view.team) ?? teams[0] ?? null;
+  const selectedTeamId = selectedTeam?.id ?? null;
 
-  useEffect(() => {
-    if (!selectedOrgId && organizations.length > 0) {
-      setSelectedOrgId(organizations[0].id);
-    }
-  }, [organizations, selectedOrgId]);
-
-  useEffect(() => {
-    if (!selectedOrg) {
-      setSelectedTeamId(null);
-      return;
-    }
-    if (!selectedTeamId || !teams.some((team) => team.id === selectedTeamId)) {
-      setSelectedTeamId(teams[0]?.id ?? null);
-    }
-  }, [selectedOrg, selectedTeamId, teams]);
+  if (syncedMemberSearch !== memberSearch) {
+    setSyncedMemberSearch(memberSearch);
+    if (memberSearchInput.trim() !== memberSearch) setMemberSearchInput(memberSearch);
+  }
 
   useEffect(() => {
+    const next = memberSearchInput.trim();
+    if (next === memberSearch) return;
     const handle = window.setTimeout(() => {
-      setMemberSearch(memberSearchInput.trim());
+      setView({ search: next, page: 1 }, { replace: true });
     }, 400);
     return () => window.clearTimeout(handle);
-  }, [memberSearchInput]);
-
-  useEffect(() => {
-    setMemberPage(1);
-  }, [selectedTeamId, memberSearch, memberPageSize]);
+  }, [memberSearch, memberSearchInput, setView]);
 
+  const membersRequest: UsersQuery = {
+    page: memberPage,
+    pageSize: memberPageSize,
+    search: memberSearch || undefined,
+    teamId: selectedTeamId ?? undefined,
+    sortBy: memberSort?.key as UserSortKey | undefined,
+    sortDirection: memberSort?.direction,
+  };
   const usersQuery = useQuery({
-    queryKey: ['users', 'team', selectedTeamId, memberSearch, memberPage, memberPageSize],
-    queryFn: () =>
-      getUsers({
-        page: memberPage,
-        pageSize: memberPageSize,
-        search: memberSearch || undefined,
-        teamId: selectedTeamId ?? undefined,
-      }),
+    queryKey: queryKeys.users.list(membersRequest),
+    queryFn: ({ signal }) => getUsers(membersRequest, { signal }),
     enabled: Boolean(selectedTeamId),
     placeholderData: (previous) => previous,
   });
 
   const createOrgMutation = useMutation({
     mutationFn: createOrganization,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+    onSuccess: (organization) => {
+      writeCache(queryClient, [insertCachedOrganization(organization)]);
       setOrgModal(null);
     },
-    onError: (error) => setOrgError(parseError(error)),
+    onError: (error) => setOrgError(errorMessage(error)),
   });
 
-  const updateOrgMutation = useMutation({
-    mutationFn: ({ id, name }: { id: string; name: string }) => updateOrganization(id, { name }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+  // Renames show at once, users listed with the old name included, and stay until the server answers.
+  const updateOrgMutation = useMutation<
+    OrganizationSummary,
+    unknown,
+    { id: string; name: string },
+    OptimisticChange
+  >({
+    mutationFn: ({ id, name }) => updateOrganization(id, { name }),
+    onMutate: ({ id, name }) =>
+      applyOptimistic(queryClient, [
+        renameCachedOrganization(id, name),
+        renameCachedUsersOrganization(id, name),
+      ]),
+    onSuccess: (organization, _variables, change) => {
+      change.settle();
+      writeCache(queryClient, [
+        renameCachedOrganization(organization.id, organization.name),
+        renameCachedUsersOrganization(organization.id, organization.name),
+      ]);
       setOrgModal(null);
     },
-    onError: (error) => setOrgError(parseError(error)),
+    onError: (error, _variables, change) => {
+      change?.rollback();
+      setOrgError(errorMessage(error));
+    },
   });
 
-  const deleteOrgMutation = useMutation({
-    mutationFn: deleteOrganization,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
-      setSelectedOrgId(null);
-    },
-    onError: (error) => {
-      const message = parseError(error);
-      setOrgError(message);
-      setOrgToast(message);
-    },
+  // The URL may keep naming a deleted organization or team; the page then shows the first one.
+  const deleteOrgMutation = useUndoableMutation({
+    mutationFn: (org: Organization) => deleteOrganization(org.id),
+    optimistic: (org) => [removeCachedOrganization(org.id)],
+    message: (org) => t('organizations.deleted', { name: org.name }),
+    errorTitle: t('common.actionFailed'),
+    invalidates: [queryKeys.organizations.all, queryKeys.users.all],
   });
 
   const createTeamMutation = useMutation({
     mutationFn: ({ organizationId, name }: { organizationId: string; name: string }) =>
       createTeam(organizationId, { name }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+    onSuccess: (team, { organizationId }) => {
+      writeCache(queryClient, [insertCachedTeam(organizationId, team)]);
+      // Lists fetched without teams still carry the team count.
+      void queryClient.invalidateQueries({
+        queryKey: queryKeys.organizations.all,
+        refetchType: 'none',
+      });
       setTeamModal(null);
     },
-    onError: (error) => setTeamError(parseError(error)),
+    onError: (error) => setTeamError(errorMessage(error)),
   });
 
-  const updateTeamMutation = useMutation({
-    mutationFn: ({ id, name }: { id: string; name: string }) => updateTeam(id, { name }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+  const updateTeamMutation = useMutation<
+    TeamSummary,
+    unknown,
+    { id: string; name: string },
+    OptimisticChange
+  >({
+    mutationFn: ({ id, name }) => updateTeam(id, { name }),
+    onMutate: ({ id, name }) =>
+      applyOptimistic(queryClient, [renameCachedTeam(id, name), renameCachedUsersTeam(id, name)]),
+    onSuccess: (team, _variables, change) => {
+      change.settle();
+      writeCache(queryClient, [
+        renameCachedTeam(team.id, team.name),
+        renameCachedUsersTeam(team.id, team.name),
+      ]);
       setTeamModal(null);
     },
-    onError: (error) => setTeamError(parseError(error)),
+    onError: (error, _variables, change) => {
+      change?.rollback();
+      setTeamError(errorMessage(error));
+    },
   });
 
-  const deleteTeamMutation = useMutation({
-    mutationFn: deleteTeam,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
-      setSelectedTeamId(null);
-    },
-    onError: (error) => setTeamError(parseError(error)),
+  const deleteTeamMutation = useUndoableMutation({
+    mutationFn: (team: Team) => deleteTeam(team.id),
+    optimistic: (team) => [removeCachedTeam(team.id)],
+    message: (team) => t('organizations.deleted', { name: team.name }),
+    errorTitle: t('common.actionFailed'),
+    invalidates: [queryKeys.organizations.all, queryKeys.users.all],
   });
 
-  const userColumns = useMemo(
+  const userColumns = useMemo<TableColumn<User>[]>(
     () => [
       {
         key: 'username',
-        header: 'Username',
+        sortable: true,
+        header: t('common.username'),
         render: (user: User) => user.username,
       },
       {
         key: 'role',
-        header: 'Role',
+        sortable: true,
+        header: t('common.role'),
         render: (user: User) => user.role,
       },
       {
         key: 'organization',
-        header: 'Organization',
+        header: t('common.organization'),
         render: (user: User) => user.organizationName,
       },
       {
         key: 'team',
-        header: 'Team',
+        header: t('common.team'),
         render: (user: User) => user.teamName,
       },
     ],
-    [],
+    [t],
   );
 
   const memberTotalCount = usersQuery.data?.totalCount ?? 0;
@@ -181,37 +238,34 @@ export function OrganizationsPage() {
   useEffect(() => {
     if (!usersQuery.data) return;
     if (memberSafePage !== memberPage) {
-      setMemberPage(memberSafePage);
+      setView({ page: memberSafePage }, { replace: true });
     }
-  }, [memberPage, memberSafePage, usersQuery.data]);
+  }, [memberPage, memberSafePage, setView, usersQuery.data]);
 
   return (
     <section className="page">
       <div className="organizations-header">
         <div>
-          <h1>Organizations & teams</h1>
-          <p>Organizacije i timovi with nested team membership.</p>
+          <h1>{t('organizations.title')}</h1>
+          <p>{t('organizations.subtitle')}</p>
         </div>
-        <Button
-          type="button"
-          onClick={() => {
-            setOrgError(null);
-            setOrgName('');
-            setOrgModal({ mode: 'create' });
-          }}
-        >
-          New organization
-        </Button>
+        <RequirePermission permission="organizations.manage">
+          <Button
+            type="button"
+            onClick={() => {
+              setOrgError(null);
+              setOrgName('');
+              setOrgModal({ mode: 'create' });
+            }}
+          >
+            {t('organizations.new')}
+          </Button>
+        </RequirePermission>
       </div>
 
       {organizationsQuery.isError ? (
-        <Toast title="Unable to load organizations" variant="error">
-          <span>{parseError(organizationsQuery.error)}</span>
-        </Toast>
-      ) : null}
-      {orgToast ? (
-        <Toast title="Action failed" variant="error" onClose={() => setOrgToast(null)}>
-          <span>{orgToast}</span>
+        <Toast title={t('organizations.loadFailed')} variant="error">
+          <span>{errorMessage(organizationsQuery.error)}</span>
         </Toast>
       ) : null}
 
@@ -224,15 +278,16 @@ export function OrganizationsPage() {
               className={['org-item', org.id === selectedOrgId ? 'org-item--active' : '']
                 .filter(Boolean)
                 .join(' ')}
-              onClick={() => setSelectedOrgId(org.id)}
+              onClick={() => setView({ org: org.id, team: '', page: 1 })}
             >
               <div className="org-item-title">{org.name}</div>
               <div className="org-item-meta">
-                {org.teamCount} teams · {org.userCount} users
+                {t('common.teamCount', { count: org.teamCount })} ·{' '}
+                {t('common.userCount', { count: org.userCount })}
               </div>
             </button>
           ))}
-          {organizations.length === 0 ? <div className="org-empty">No organizations yet.</div> : null}
+          {organizations.length === 0 ? <div className="org-empty">{t('organizations.empty')}</div> : null}
         </div>
 
         <div className="organizations-detail">
@@ -241,48 +296,68 @@ export function OrganizationsPage() {
               <div className="org-detail-header">
                 <div>
                   <h2>{selectedOrg.name}</h2>
-                  <p>{selectedOrg.teamCount} teams · {selectedOrg.userCount} users</p>
+                  <p>
+                    {t('common.teamCount', { count: selectedOrg.teamCount })} ·{' '}
+                    {t('common.userCount', { count: selectedOrg.userCount })}
+                  </p>
                 </div>
                 <div className="org-detail-actions">
+                  <RequirePermission permission="organizations.manage">
+                    <Button
+                      variant="secondary"
+                      type="button"
+                      onClick={() => {
+                        setOrgError(null);
+                        setOrgName(selectedOrg.name);
+                        setOrgModal({ mode: 'edit', organization: selectedOrg });
+                      }}
+                    >
+                      {t('common.rename')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      type="button"
+                      onClick={async () => {
+                        const inUse = selectedOrg.teamCount > 0 || selectedOrg.userCount > 0;
+                        const confirmed = await confirm({
+                          title: t('organizations.deleteTitle', { name: selectedOrg.name }),
+                          message: t('organizations.deleteMessage'),
+                          impact: inUse
+                            ? t('organizations.deleteOrgImpact', {
+                                teams: t('common.teamCount', { count: selectedOrg.teamCount }),
+                                users: t('common.userCount', { count: selectedOrg.userCount }),
+                              })
+                            : undefined,
+                          confirmLabel: t('common.delete'),
+                          tone: 'danger',
+                          requireText: selectedOrg.name,
+                        });
+                        if (confirmed) {
+                          deleteOrgMutation.mutate(selectedOrg);
+                        }
+                      }}
+                    >
+                      {t('common.delete')}
+                    </Button>
+                  </RequirePermission>
+                </div>
+              </div>
+
+              <div className="org-teams-header">
+                <h3>{t('organizations.teams')}</h3>
+                <RequirePermission permission="organizations.manage">
                   <Button
                     variant="secondary"
                     type="button"
                     onClick={() => {
-                      setOrgError(null);
-                      setOrgName(selectedOrg.name);
-                      setOrgModal({ mode: 'edit', organization: selectedOrg });
+                      setTeamError(null);
+                      setTeamName('');
+                      setTeamModal({ mode: 'create' });
                     }}
                   >
-                    Rename
+                    {t('organizations.newTeam')}
                   </Button>
-                  <Button
-                    variant="ghost"
-                    type="button"
-                    onClick={() => {
-                      const confirmed = window.confirm(`Delete ${selectedOrg.name}?`);
-                      if (confirmed) {
-                        deleteOrgMutation.mutate(selectedOrg.id);
-                      }
-                    }}
-                  >
-                    Delete
-                  </Button>
-                </div>
-              </div>
-
-              <div className="org-teams-header">
-                <h3>Teams</h3>
-                <Button
-                  variant="secondary"
-                  type="button"
-                  onClick={() => {
-                    setTeamError(null);
-                    setTeamName('');
-                    setTeamModal({ mode: 'create' });
-                  }}
-                >
-                  New team
-                </Button>
+                </RequirePermission>
               </div>
 
               <div className="org-teams">
@@ -293,104 +368,134 @@ export function OrganizationsPage() {
                       .filter(Boolean)
                       .join(' ')}
                   >
-                    <button type="button" onClick={() => setSelectedTeamId(team.id)}>
+                    <button type="button" onClick={() => setView({ team: team.id, page: 1 })}>
                       <div className="team-item-title">{team.name}</div>
-                      <div className="team-item-meta">{team.userCount} users</div>
+                      <div className="team-item-meta">
+                        {t('common.userCount', { count: team.userCount })}
+                      </div>
                     </button>
                     <div className="team-item-actions">
-                      <Button
-                        variant="ghost"
-                        type="button"
-                        onClick={() => {
-                          setTeamError(null);
-                          setTeamName(team.name);
-                          setTeamModal({ mode: 'edit', team });
-                        }}
-                      >
-                        Edit
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        type="button"
-                        onClick={() => {
-                          const confirmed = window.confirm(`Delete ${team.name}?`);
-                          if (confirmed) {
-                            deleteTeamMutation.mutate(team.id);
-                          }
-                        }}
-                      >
-                        Delete
-                      </Button>
+                      <RequirePermission permission="organizations.manage">
+                        <Button
+                          variant="ghost"
+                          type="button"
+                          onClick={() => {
+                            setTeamError(null);
+                            setTeamName(team.name);
+                            setTeamModal({ mode: 'edit', team });
+                          }}
+                        >
+                          {t('common.edit')}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          type="button"
+                          onClick={async () => {
+                            const confirmed = await confirm({
+                              title: t('organizations.deleteTitle', { name: team.name }),
+                              message: t('organizations.deleteMessage'),
+                              impact: team.userCount
+                                ? t('organizations.deleteTeamImpact', { count: team.userCount })
+                                : undefined,
+                              confirmLabel: t('common.delete'),
+                              tone: 'danger',
+                            });
+                            if (confirmed) {
+                              deleteTeamMutation.mutate(team);
+                            }
+                          }}
+                        >
+                          {t('common.delete')}
+                        </Button>
+                      </RequirePermission>
                     </div>
                   </div>
                 ))}
-                {teams.length === 0 ? <div className="org-empty">No teams yet.</div> : null}
+                {teams.length === 0 ? <div className="org-empty">{t('organizations.noTeams')}</div> : null}
               </div>
 
               <div className="org-users">
                 <div className="org-users-header">
-                  <h3>{selectedTeam ? `${selectedTeam.name} members` : 'Team members'}</h3>
+                  <h3>
+                    {selectedTeam
+                      ? t('organizations.membersOf', { team: selectedTeam.name })
+                      : t('organizations.teamMembers')}
+                  </h3>
                 </div>
                 <div className="org-users-controls">
                   <Input
-                    label="Search"
-                    placeholder="Search by username"
+                    label={t('common.search')}
+                    placeholder={t('common.searchByUsername')}
                     value={memberSearchInput}
                     onChange={(event) => setMemberSearchInput(event.target.value)}
                   />
                   <Select
-                    label="Page size"
+                    label={t('common.pageSize')}
                     value={String(memberPageSize)}
-                    options={[
-                      { label: '10 / page', value: '10' },
-                      { label: '20 / page', value: '20' },
-                      { label: '50 / page', value: '50' },
-                    ]}
-                    onChange={(event) => setMemberPageSize(Number(event.target.value))}
+                    options={pageSizes.map((size) => ({
+                      label: t('common.perPage', { size }),
+                      value: String(size),
+                    }))}
+                    onChange={(event) => setView({ pageSize: Number(event.target.value), page: 1 })}
                   />
                 </div>
                 <div className="org-users-summary">
                   <span>
                     {memberTotalCount === 0
-                      ? 'No users found.'
-                      : `Showing ${memberRangeStart}-${memberRangeEnd} of ${memberTotalCount}`}
+                      ? t('users.noneFound')
+                      : t('common.showing', {
+                          start: memberRangeStart,
+                          end: memberRangeEnd,
+                          total: memberTotalCount,
+                        })}
+                  </span>
+                  <span>
+                    {t('common.pageOf', { page: memberSafePage, pages: memberTotalPages })}
                   </span>
-                  <span>Page {memberSafePage} of {memberTotalPages}</span>
                 </div>
                 <Table
+                  tableId="organization-members"
                   columns={userColumns}
                   data={usersQuery.data?.items ?? []}
-                  emptyMessage={selectedTeam ? 'No users assigned to this team.' : 'Select a team.'}
+                  rowKey={(user) => user.id}
+                  sort={memberSort}
+                  sortMode="server"
+                  onSortChange={(next) => setView({ sort: next, page: 1 })}
+                  emptyMessage={
+                    selectedTeam ? t('organizations.noMembers') : t('organizations.selectTeam')
+                  }
                 />
                 <div className="org-users-pagination">
                   <Button
                     variant="secondary"
                     type="button"
                     disabled={memberSafePage <= 1 || usersQuery.isLoading}
-                    onClick={() => setMemberPage((current) => Math.max(1, current - 1))}
+                    onClick={() => setView({ page: Math.max(1, memberSafePage - 1) })}
                   >
-                    Previous
+                    {t('common.previous')}
                   </Button>
                   <Button
                     variant="secondary"
                     type="button"
                     disabled={memberSafePage >= memberTotalPages || usersQuery.isLoading}
-                    onClick={() => setMemberPage((current) => Math.min(memberTotalPages, current + 1))}
+                    onClick={() => setView({ page: Math.min(memberTotalPages, memberSafePage + 1) })}
                   >
-                    Next
+                    {t('common.next')}
                   </Button>
                 </div>
               </div>
             </>
           ) : (
-            <div className="org-empty">Select an organization to see details.</div>
+            <div className="org-empty">{t('organizations.selectOrganization')}</div>
           )}
         </div>
       </div>
 
       <Modal
         isOpen={Boolean(orgModal)}
-        title={orgModal?.mode === 'edit' ? 'Rename organization' : 'New organization'}
+        title={
+          orgModal?.mode === 'edit' ? t('organizations.renameTitle') : t('organizations.new')
+        }
         onClose={() => {
           setOrgModal(null);
           setOrgError(null);
@@ -398,7 +503,7 @@ export function OrganizationsPage() {
       >
         <div className="org-form">
           <Input
-            label="Organization name"
+            label={t('organizations.name')}
             value={orgName}
             onChange={(event) => setOrgName(event.target.value)}
             error={orgError ?? undefined}
@@ -416,7 +521,7 @@ export function OrganizationsPage() {
                 }
               }}
             >
-              Save
+              {t('common.save')}
             </Button>
           </div>
         </div>
@@ -424,7 +529,7 @@ export function OrganizationsPage() {
 
       <Modal
         isOpen={Boolean(teamModal)}
-        title={teamModal?.mode === 'edit' ? 'Edit team' : 'New team'}
+        title={teamModal?.mode === 'edit' ? t('organizations.editTeam') : t('organizations.newTeam')}
         onClose={() => {
           setTeamModal(null);
           setTeamError(null);
@@ -432,7 +537,7 @@ export function OrganizationsPage() {
       >
         <div className="org-form">
           <Input
-            label="Team name"
+            label={t('organizations.teamName')}
             value={teamName}
             onChange={(event) => setTeamName(event.target.value)}
             error={teamError ?? undefined}
@@ -451,7 +556,7 @@ export function OrganizationsPage() {
                 }
               }}
             >
-              Save
+              {t('common.save')}
             </Button>
           </div>
         </div>
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { KpiCard } from '../dashboard/KpiCard';
+import { useI18n } from '../i18n/i18n';
+import { getOrganizations } from './api';
+import { queryKeys } from '../api/queryKeys';
+
+export function OrganizationsWidget() {
+  const { t, formatNumber } = useI18n();
+  const organizationsQuery = useQuery({
+    queryKey: queryKeys.organizations.list(true),
+    queryFn: ({ signal }) => getOrganizations(true, { signal }),
+  });
+
+  const organizations = organizationsQuery.data ?? [];
+  const teamCount = organizations.reduce((total, org) => total + org.teamCount, 0);
+
+  return (
+    <KpiCard
+      title={t('widgets.organizations')}
+      isLoading={organizationsQuery.isLoading}
+      error={organizationsQuery.error}
+      onRetry={() => organizationsQuery.refetch()}
+      link={{ to: '/organizations', label: t('dashboard.manage') }}
+    >
+      <div className="kpi-card-value">{formatNumber(organizations.length)}</div>
+      <div className="kpi-card-meta">{t('common.teamCount', { count: teamCount })}</div>
+    </KpiCard>
+  );
+}
@@ -1,5 +1,11 @@
-import { apiRequest } from '../api/client';
-import type { Organization, OrganizationDetail, TeamSummary } from './types';
+import { apiRequest, type ApiCallOptions } from '../api/client';
+import { z } from 'zod';
+import {
+  organizationDetailSchema,
+  organizationSchema,
+  organizationSummarySchema,
+  teamSummarySchema,
+} from './types';
 
 export type OrganizationPayload = {
   name: string;
@@ -9,25 +15,33 @@ export type TeamPayload = {
   name: string;
 };
 
-export const getOrganizations = (includeTeams = false) => {
+export const getOrganizations = (includeTeams = false, options?: ApiCallOptions) => {
   const params = new URLSearchParams();
   if (includeTeams) {
     params.set('includeTeams', 'true');
   }
   const path = params.toString() ? `/api/organizations?${params.toString()}` : '/api/organizations';
-  return apiRequest<Organization[]>(path);
+  return apiRequest(path, { ...options, schema: z.array(organizationSchema) });
 };
 
-export const getOrganization = (id: string) => {
-  return apiRequest<OrganizationDetail>(`/api/organizations/${id}`);
+export const getOrganization = (id: string, options?: ApiCallOptions) => {
+  return apiRequest(`/api/organizations/${id}`, { ...options, schema: organizationDetailSchema });
 };
 
 export const createOrganization = (payload: OrganizationPayload) => {
-  return apiRequest<Organization>(`/api/organizations`, { method: 'POST', body: payload });
+  return apiRequest(`/api/organizations`, {
+    method: 'POST',
+    body: payload,
+    schema: organizationSummarySchema,
+  });
 };
 
 export const updateOrganization = (id: string, payload: OrganizationPayload) => {
-  return apiRequest<Organization>(`/api/organizations/${id}`, { method: 'PUT', body: payload });
+  return apiRequest(`/api/organizations/${id}`, {
+    method: 'PUT',
+    body: payload,
+    schema: organizationSummarySchema,
+  });
 };
 
 export const deleteOrganization = (id: string) => {
@@ -35,11 +49,15 @@ export const deleteOrganization = (id: string) => {
 };
 
 export const createTeam = (organizationId: string, payload: TeamPayload) => {
-  return apiRequest<TeamSummary>(`/api/organizations/${organizationId}/teams`, { method: 'POST', body: payload });
+  return apiRequest(`/api/organizations/${organizationId}/teams`, {
+    method: 'POST',
+    body: payload,
+    schema: teamSummarySchema,
+  });
 };
 
 export const updateTeam = (id: string, payload: TeamPayload) => {
-  return apiRequest<TeamSummary>(`/api/organizations/teams/${id}`, { method: 'PUT', body: payload });
+  return apiRequest(`/api/organizations/teams/${id}`, { method: 'PUT', body: payload, schema: teamSummarySchema });
 };
 
 export const deleteTeam = (id: string) => {
@@ -0,0 +1,88 @@
+import { cacheUpdate } from '../api/optimistic';
+import { queryKeys } from '../api/queryKeys';
+import type { Organization, OrganizationSummary, Team, TeamSummary } from './types';
+
+// The server lists organizations and teams by name with an ordinal comparison.
+const byName = (left: { name: string }, right: { name: string }) =>
+  left.name === right.name ? 0 : left.name < right.name ? -1 : 1;
+
+/** Every cached organization list, with or without teams. */
+const updateCachedOrganizations = (update: (organizations: Organization[]) => Organization[]) =>
+  cacheUpdate(queryKeys.organizations.lists(), update);
+
+const updateCachedOrganization = (
+  id: string,
+  patch: (organization: Organization) => Organization,
+) =>
+  updateCachedOrganizations((organizations) =>
+    organizations.map((organization) =>
+      organization.id === id ? patch(organization) : organization,
+    ),
+  );
+
+// Lists fetched without teams have none to update.
+const updateCachedTeams = (update: (teams: Team[], organization: Organization) => Team[]) =>
+  updateCachedOrganizations((organizations) =>
+    organizations.map((organization) => {
+      if (!organization.teams) return organization;
+      const teams = update(organization.teams, organization);
+      return teams === organization.teams
+        ? organization
+        : {
+            ...organization,
+            teams,
+            teamCount: organization.teamCount + teams.length - organization.teams.length,
+          };
+    }),
+  );
+
+export const insertCachedOrganization = (summary: OrganizationSummary) =>
+  updateCachedOrganizations((organizations) =>
+    organizations.some((organization) => organization.id === summary.id)
+      ? organizations
+      : [...organizations, { ...summary, teamCount: 0, userCount: 0, teams: [] }].sort(byName),
+  );
+
+export const renameCachedOrganization = (id: string, name: string) =>
+  updateCachedOrganizations((organizations) =>
+    organizations
+      .map((organization) => (organization.id === id ? { ...organization, name } : organization))
+      .sort(byName),
+  );
+
+export const removeCachedOrganization = (id: string) =>
+  updateCachedOrganizations((organizations) =>
+    organizations.filter((organization) => organization.id !== id),
+  );
+
+export const insertCachedTeam = (organizationId: string, summary: TeamSummary) =>
+  updateCachedTeams((teams, organization) =>
+    organization.id !== organizationId || teams.some((team) => team.id === summary.id)
+      ? teams
+      : [...teams, { ...summary, userCount: 0 }].sort(byName),
+  );
+
+export const renameCachedTeam = (id: string, name: string) =>
+  updateCachedTeams((teams) =>
+    teams.some((team) => team.id === id)
+      ? teams.map((team) => (team.id === id ? { ...team, name } : team)).sort(byName)
+      : teams,
+  );
+
+export const removeCachedTeam = (id: string) =>
+  updateCachedTeams((teams) =>
+    teams.some((team) => team.id === id) ? teams.filter((team) => team.id !== id) : teams,
+  );
+
+/** Adds `count`, negative to subtract, to the user counts of an organization and one of its teams. */
+export const countCachedMembers = (
+  membership: { organizationId: string; teamId: string },
+  count: number,
+) =>
+  updateCachedOrganization(membership.organizationId, (organization) => ({
+    ...organization,
+    userCount: organization.userCount + count,
+    teams: organization.teams?.map((team) =>
+      team.id === membership.teamId ? { ...team, userCount: team.userCount + count } : team,
+    ),
+  }));
@@ -1,24 +1,41 @@
-export type Team = {
-  id: string;
-  name: string;
-  userCount: number;
-};
-
-export type TeamSummary = {
-  id: string;
-  name: string;
-};
-
-export type Organization = {
-  id: string;
-  name: string;
-  teamCount: number;
-  userCount: number;
-  teams?: Team[] | null;
-};
-
-export type OrganizationDetail = {
-  id: string;
-  name: string;
-  teams: Team[];
-};
+import { z } from 'zod';
+
+export const teamSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  userCount: z.number(),
+});
+
+export const teamSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const organizationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  teamCount: z.number(),
+  userCount: z.number(),
+  teams: z.array(teamSchema).nullish(),
+});
+
+export const organizationSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export const organizationDetailSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  teams: z.array(teamSchema),
+});
+
+export type Team = z.infer<typeof teamSchema>;
+
+export type TeamSummary = z.infer<typeof teamSummarySchema>;
+
+export type Organization = z.infer<typeof organizationSchema>;
+
+export type OrganizationSummary = z.infer<typeof organizationSummarySchema>;
+
+export type OrganizationDetail = z.infer<typeof organizationDetailSchema>;
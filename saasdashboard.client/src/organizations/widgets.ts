@@ -0,0 +1,14 @@
+import type { DashboardWidget } from '../dashboard/types';
+import { OrganizationsWidget } from './OrganizationsWidget';
+
+export const widgets: DashboardWidget[] = [
+  {
+    id: 'organizations.summary',
+    titleKey: 'widgets.organizations',
+    descriptionKey: 'widgets.organizationsDescription',
+    defaultSize: 'small',
+    defaultOrder: 20,
+    permission: 'organizations.view',
+    component: OrganizationsWidget,
+  },
+];
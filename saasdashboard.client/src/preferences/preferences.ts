@@ -0,0 +1,100 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { z } from 'zod';
+import { getSessionUser, onSessionChange } from '../auth/session';
+import { detectLocale, locales } from '../i18n/locales';
+import { navigationItems } from '../navigation';
+import { urlParam } from '../urlState';
+
+export const densities = ['comfortable', 'compact'] as const;
+export const dateFormats = ['medium', 'numeric', 'iso'] as const;
+export const pageSizes = [10, 20, 50] as const;
+
+export type Density = (typeof densities)[number];
+export type DateFormat = (typeof dateFormats)[number];
+
+const preferencesSchema = z.object({
+  locale: z.enum(locales).catch(detectLocale),
+  density: z.enum(densities).catch('comfortable'),
+  dateFormat: z.enum(dateFormats).catch('medium'),
+  landingPage: z
+    .string()
+    .refine((path) => navigationItems.some((item) => item.to === path))
+    .catch('/'),
+  pageSize: z
+    .number()
+    .refine((size) => (pageSizes as readonly number[]).includes(size))
+    .catch(10),
+});
+
+export type Preferences = z.infer<typeof preferencesSchema>;
+
+const STORAGE_KEY = 'saas_preferences';
+const PREFERENCES_EVENT = 'saas:preferences';
+
+const getStorageKey = () => `${STORAGE_KEY}:${getSessionUser()?.username ?? 'anonymous'}`;
+
+const parsePreferences = (raw: string | null): Preferences => {
+  try {
+    return preferencesSchema.parse(raw ? JSON.parse(raw) : {});
+  } catch {
+    return preferencesSchema.parse({});
+  }
+};
+
+/** Preferences of the signed-in user, for code that runs outside React such as login redirects. */
+export const getPreferences = () => parsePreferences(localStorage.getItem(getStorageKey()));
+
+export const updatePreferences = (patch: Partial<Preferences>) => {
+  localStorage.setItem(getStorageKey(), JSON.stringify({ ...getPreferences(), ...patch }));
+  window.dispatchEvent(new Event(PREFERENCES_EVENT));
+};
+
+const subscribe = (onChange: () => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === getStorageKey()) onChange();
+  };
+  const unsubscribeSession = onSessionChange(onChange);
+  window.addEventListener(PREFERENCES_EVENT, onChange);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    unsubscribeSession();
+    window.removeEventListener(PREFERENCES_EVENT, onChange);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
+
+const getSnapshot = () => localStorage.getItem(getStorageKey());
+
+/** Per-user display preferences; updates in one tab reach the others through `storage` events. */
+export function usePreferences() {
+  const raw = useSyncExternalStore(subscribe, getSnapshot);
+  return useMemo(() => parsePreferences(raw), [raw]);
+}
+
+/**
+ * The `pageSize` search parameter. A URL without one opens at the user's preferred size, which is
+ * then written into the URL, so a shared link shows the same page size to everyone.
+ */
+export function usePageSizeParam() {
+  const { pageSize } = usePreferences();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const isMissing = !searchParams.has('pageSize');
+
+  useEffect(() => {
+    if (!isMissing) return;
+    setSearchParams(
+      (current) => {
+        const next = new URLSearchParams(current);
+        next.set('pageSize', String(pageSize));
+        return next;
+      },
+      { replace: true },
+    );
+  }, [isMissing, pageSize, setSearchParams]);
+
+  return useMemo(
+    () => ({ ...urlParam.integer(pageSize, { allowed: pageSizes }), keepDefault: true }),
+    [pageSize],
+  );
+}
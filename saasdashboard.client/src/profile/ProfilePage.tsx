@@ -0,0 +1,342 @@
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { errorMessage } from '../api/errors';
+import { getSessionOrganizationId, getSessionUser } from '../auth/session';
+import { usePermissions } from '../auth/permissions';
+import {
+  Button,
+  Input,
+  Select,
+  Table,
+  useConfirm,
+  useToast,
+  type TableColumn,
+} from '../components/ui';
+import { navigationItems } from '../navigation';
+import { formatDate } from '../i18n/format';
+import { useI18n, type I18n, type MessageKey } from '../i18n/i18n';
+import { localeLabels, locales, type Locale } from '../i18n/locales';
+import {
+  dateFormats,
+  densities,
+  pageSizes,
+  updatePreferences,
+  usePreferences,
+  type DateFormat,
+  type Density,
+} from '../preferences/preferences';
+import { useTheme, type ThemeMode } from '../theme';
+import { changePassword, getSessions, revokeOtherSessions } from './api';
+import { useWorkspaceSettings } from '../settings/useWorkspaceSettings';
+import { changePasswordSchemaFor, type ChangePasswordValues, type Session } from './types';
+import { queryKeys } from '../api/queryKeys';
+
+/** Date format options are labelled with this date written in each format. */
+const sampleDate = new Date(2026, 9, 18);
+
+const densityLabelKeys: Record<Density, MessageKey> = {
+  comfortable: 'profile.density.comfortable',
+  compact: 'profile.density.compact',
+};
+
+const describeUserAgent = (userAgent: string | null | undefined, t: I18n['t']) => {
+  if (!userAgent) return t('profile.unknownDevice');
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Firefox\//.test(userAgent)
+      ? 'Firefox'
+      : /Chrome\//.test(userAgent)
+        ? 'Chrome'
+        : /Safari\//.test(userAgent)
+          ? 'Safari'
+          : t('profile.browser');
+  const os = /Windows/.test(userAgent)
+    ? 'Windows'
+    : /iPhone|iPad/.test(userAgent)
+      ? 'iOS'
+      : /Mac OS X/.test(userAgent)
+        ? 'macOS'
+        : /Android/.test(userAgent)
+          ? 'Android'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : null;
+  return os ? t('profile.browserOn', { browser, os }) : browser;
+};
+
+const emptyPasswordForm: ChangePasswordValues = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+};
+
+function ChangePasswordForm({ onChanged }: { onChanged: () => void }) {
+  const { t } = useI18n();
+  const [formError, setFormError] = useState<string | null>(null);
+  const { settingsFor } = useWorkspaceSettings();
+  const { passwordPolicy } = settingsFor(getSessionOrganizationId() ?? '');
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ChangePasswordValues>({
+    resolver: zodResolver(changePasswordSchemaFor(passwordPolicy)),
+    defaultValues: emptyPasswordForm,
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: changePassword,
+    onSuccess: () => {
+      reset(emptyPasswordForm);
+      onChanged();
+    },
+    onError: (error) => setFormError(errorMessage(error)),
+  });
+
+  return (
+    <form
+      className="profile-form"
+      onSubmit={handleSubmit(({ currentPassword, newPassword }) => {
+        setFormError(null);
+        passwordMutation.mutate({ currentPassword, newPassword });
+      })}
+    >
+      <Input
+        label={t('profile.currentPassword')}
+        type="password"
+        autoComplete="current-password"
+        error={errors.currentPassword?.message}
+        {...register('currentPassword')}
+      />
+      <Input
+        label={t('profile.newPassword')}
+        type="password"
+        autoComplete="new-password"
+        helperText={t('profile.passwordLength', { min: passwordPolicy.minLength })}
+        error={errors.newPassword?.message}
+        {...register('newPassword')}
+      />
+      <Input
+        label={t('profile.confirmPassword')}
+        type="password"
+        autoComplete="new-password"
+        error={errors.confirmPassword?.message}
+        {...register('confirmPassword')}
+      />
+      {formError ? <p className="form-error">{formError}</p> : null}
+      <div className="profile-form-actions">
+        <Button type="submit" disabled={passwordMutation.isPending}>
+          {passwordMutation.isPending ? t('common.saving') : t('profile.changePassword')}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function ProfilePage() {
+  const queryClient = useQueryClient();
+  const confirm = useConfirm();
+  const toast = useToast();
+  const { permissions, can } = usePermissions();
+  const { mode, setTheme } = useTheme();
+  const preferences = usePreferences();
+  const i18n = useI18n();
+  const user = getSessionUser();
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+
+  const sessionsQuery = useQuery({
+    queryKey: queryKeys.auth.sessions(),
+    queryFn: ({ signal }) => getSessions({ signal }),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeOtherSessions,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.auth.sessions() });
+      toast.show({ title: i18n.t('profile.signedOutOthers'), variant: 'success' });
+    },
+    onError: (error) => setSessionsError(errorMessage(error)),
+  });
+
+  const sessions = sessionsQuery.data ?? [];
+  const otherSessions = sessions.filter((session) => !session.isCurrent).length;
+  const landingOptions = navigationItems
+    .filter((item) => !item.permission || can(item.permission))
+    .map((item) => ({ label: i18n.t(item.labelKey), value: item.to }));
+
+  const sessionColumns = useMemo<TableColumn<Session>[]>(
+    () => [
+      {
+        key: 'device',
+        header: i18n.t('profile.device'),
+        render: (session) => (
+          <span title={session.userAgent ?? undefined}>
+            {describeUserAgent(session.userAgent, i18n.t)}
+            {session.isCurrent ? (
+              <span className="profile-current">{i18n.t('profile.thisDevice')}</span>
+            ) : null}
+          </span>
+        ),
+      },
+      {
+        key: 'createdAt',
+        header: i18n.t('profile.signedIn'),
+        render: (session) => i18n.formatDateTime(session.createdAt),
+      },
+      {
+        key: 'lastUsedAt',
+        header: i18n.t('profile.lastActive'),
+        render: (session) => i18n.formatDateTime(session.lastUsedAt),
+      },
+      {
+        key: 'expiresAt',
+        header: i18n.t('profile.expires'),
+        render: (session) => i18n.formatDateTime(session.expiresAt),
+      },
+    ],
+    [i18n],
+  );
+
+  return (
+    <section className="page">
+      <div>
+        <h1>{i18n.t('profile.title')}</h1>
+        <p>{i18n.t('profile.subtitle')}</p>
+      </div>
+
+      <div className="profile-grid">
+        <div className="billing-card">
+          <div className="billing-card-header">
+            <strong>{i18n.t('profile.account')}</strong>
+          </div>
+          <dl className="profile-details">
+            <dt>{i18n.t('common.username')}</dt>
+            <dd>{user?.username ?? '—'}</dd>
+            <dt>{i18n.t('common.role')}</dt>
+            <dd>{user?.role ?? '—'}</dd>
+            <dt>{i18n.t('profile.permissions')}</dt>
+            <dd>{permissions.length ? permissions.join(', ') : i18n.t('profile.noPermissions')}</dd>
+          </dl>
+        </div>
+
+        <div className="billing-card">
+          <div className="billing-card-header">
+            <strong>{i18n.t('profile.changePassword')}</strong>
+          </div>
+          <ChangePasswordForm
+            onChanged={() => {
+              queryClient.invalidateQueries({ queryKey: queryKeys.auth.sessions() });
+              toast.show({
+                title: i18n.t('profile.passwordChanged'),
+                message: i18n.t('profile.otherSessionsSignedOut'),
+                variant: 'success',
+              });
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="billing-card">
+        <div className="billing-card-header">
+          <strong>{i18n.t('profile.sessions')}</strong>
+          <Button
+            variant="ghost"
+            type="button"
+            disabled={otherSessions === 0 || revokeMutation.isPending}
+            onClick={async () => {
+              setSessionsError(null);
+              const confirmed = await confirm({
+                title: i18n.t('profile.signOutOthersTitle'),
+                message: i18n.t('profile.signOutOthersMessage', { count: otherSessions }),
+                confirmLabel: i18n.t('profile.signOut'),
+              });
+              if (confirmed) {
+                revokeMutation.mutate();
+              }
+            }}
+          >
+            {i18n.t('profile.signOutOthers')}
+          </Button>
+        </div>
+        {sessionsQuery.error ? (
+          <p className="form-error">{errorMessage(sessionsQuery.error)}</p>
+        ) : null}
+        {sessionsError ? <p className="form-error">{sessionsError}</p> : null}
+        <Table
+          columns={sessionColumns}
+          data={sessions}
+          rowKey={(session) => session.id}
+          emptyMessage={
+            sessionsQuery.isLoading
+              ? i18n.t('profile.loadingSessions')
+              : i18n.t('profile.noSessions')
+          }
+        />
+      </div>
+
+      <div className="billing-card">
+        <div className="billing-card-header">
+          <strong>{i18n.t('profile.preferences')}</strong>
+        </div>
+        <div className="profile-preferences">
+          <Select
+            label={i18n.t('profile.language')}
+            helperText={i18n.t('profile.languageHelp')}
+            value={preferences.locale}
+            options={locales.map((locale) => ({ label: localeLabels[locale], value: locale }))}
+            onChange={(event) => updatePreferences({ locale: event.target.value as Locale })}
+          />
+          <Select
+            label={i18n.t('profile.theme')}
+            value={mode}
+            options={[
+              { label: i18n.t('profile.light'), value: 'light' },
+              { label: i18n.t('profile.dark'), value: 'dark' },
+            ]}
+            onChange={(event) => setTheme(event.target.value as ThemeMode)}
+          />
+          <Select
+            label={i18n.t('profile.density')}
+            value={preferences.density}
+            options={densities.map((density) => ({
+              label: i18n.t(densityLabelKeys[density]),
+              value: density,
+            }))}
+            onChange={(event) => updatePreferences({ density: event.target.value as Density })}
+          />
+          <Select
+            label={i18n.t('profile.dateFormat')}
+            value={preferences.dateFormat}
+            options={dateFormats.map((format) => ({
+              label: formatDate(sampleDate, format, i18n.locale),
+              value: format,
+            }))}
+            onChange={(event) =>
+              updatePreferences({ dateFormat: event.target.value as DateFormat })
+            }
+          />
+          <Select
+            label={i18n.t('profile.landingPage')}
+            helperText={i18n.t('profile.landingPageHelp')}
+            value={preferences.landingPage}
+            options={landingOptions}
+            onChange={(event) => updatePreferences({ landingPage: event.target.value })}
+          />
+          <Select
+            label={i18n.t('profile.pageSize')}
+            helperText={i18n.t('profile.pageSizeHelp')}
+            value={String(preferences.pageSize)}
+            options={pageSizes.map((size) => ({
+              label: i18n.t('common.perPage', { size }),
+              value: String(size),
+            }))}
+            onChange={(event) => updatePreferences({ pageSize: Number(event.target.value) })}
+          />
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { apiRequest, type ApiCallOptions } from '../api/client';
+import { sessionSchema } from './types';
+
+export const getSessions = (options?: ApiCallOptions) =>
+  apiRequest('/api/auth/sessions', { ...options, schema: z.array(sessionSchema) });
+
+export const revokeOtherSessions = () =>
+  apiRequest<void>('/api/auth/sessions/revoke-others', { method: 'POST' });
+
+export const changePassword = (payload: { currentPassword: string; newPassword: string }) =>
+  apiRequest<void>('/api/auth/change-password', { method: 'POST', body: payload });
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { translate } from '../i18n/i18n';
+import type { PasswordPolicy } from '../settings/types';
+import { localizedError, passwordPolicyIssues, passwordSchema } from '../users/schemas';
+
+export const sessionSchema = z.object({
+  id: z.string(),
+  userAgent: z.string().nullish(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  expiresAt: z.string(),
+  isCurrent: z.boolean(),
+});
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, localizedError('validation.currentPasswordRequired')),
+    newPassword: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.newPassword === values.confirmPassword, {
+    error: () => translate('validation.passwordsMismatch'),
+    path: ['confirmPassword'],
+  })
+  .refine((values) => values.newPassword !== values.currentPassword, {
+    error: () => translate('validation.passwordUnchanged'),
+    path: ['newPassword'],
+  });
+
+/** Adds the password policy of the user's own organization to `changePasswordSchema`. */
+export const changePasswordSchemaFor = (policy: PasswordPolicy) =>
+  changePasswordSchema.superRefine((values, ctx) =>
+    passwordPolicyIssues(values.newPassword, policy).forEach((message) =>
+      ctx.addIssue({ code: 'custom', message, path: ['newPassword'] }),
+    ),
+  );
+
+export type Session = z.infer<typeof sessionSchema>;
+
+export type ChangePasswordValues = z.infer<typeof changePasswordSchema>;
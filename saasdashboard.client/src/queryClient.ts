@@ -3,7 +3,8 @@ import { QueryClient } from '@tanstack/react-query';
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      retry: 2,
+      // apiRequest already retries failed GETs; retrying here too would multiply the attempts.
+      retry: false,
       staleTime: 30_000,
     },
   },
@@ -1,38 +1,99 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { ApiError } from '../api/client';
-import { Button, Input, Modal, Toast } from '../components/ui';
-import { createRole, deleteRole, getPermissions, getRoles, updateRole } from './api';
-import type { Permission, Role } from './types';
+import { useSearchParams } from 'react-router-dom';
+import { conflictingVersion } from '../api/concurrency';
+import { errorMessage } from '../api/errors';
+import { applyOptimistic, writeCache, type OptimisticChange } from '../api/optimistic';
+import { queryKeys } from '../api/queryKeys';
+import { useUndoableMutation } from '../api/useUndoableMutation';
+import {
+  Button,
+  chooseValue,
+  ConflictDialog,
+  diffField,
+  Input,
+  Modal,
+  Toast,
+  useConfirm,
+  useToast,
+  type ConflictChoices,
+} from '../components/ui';
+import { createRole, deleteRole, getPermissions, getRoles, updateRole, type RolePayload } from './api';
+import { insertCachedRole, patchCachedRole, removeCachedRole, replaceCachedRole } from './cache';
+import { roleSchema, type Permission, type Role } from './types';
+import { getSessionUser, refreshSession } from '../auth/session';
+import { getUsers } from '../users/api';
+import { useI18n } from '../i18n/i18n';
 
-const parseError = (error: unknown) => {
-  if (error instanceof ApiError) {
-    const message = (error.payload as { message?: string } | undefined)?.message;
-    return message ?? `Request failed (${error.status}).`;
+// Only shown as impact text, so a failed lookup just leaves it out.
+const countRoleUsers = async (role: string) => {
+  try {
+    const result = await getUsers({ role, page: 1, pageSize: 1 });
+    return result.totalCount;
+  } catch {
+    return 0;
   }
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return 'Something went wrong.';
 };
 
+type EditedRole = Required<RolePayload>;
+
+/** An edit the server refused because `current` was saved after `role` was opened for editing. */
+type RoleConflict = {
+  role: Role;
+  payload: EditedRole;
+  current: Role;
+};
+
+const samePermissions = (left: string[], right: string[]) =>
+  left.length === right.length && left.every((key) => right.includes(key));
+
+const mergeRole = ({ payload, current }: RoleConflict, choices: ConflictChoices): EditedRole => ({
+  name: chooseValue(choices, 'name', payload.name, current.name),
+  description: chooseValue(choices, 'description', payload.description, current.description),
+  permissionKeys: chooseValue(
+    choices,
+    'permissions',
+    payload.permissionKeys,
+    current.permissionKeys,
+  ),
+});
+
 export function RolesPage() {
   const queryClient = useQueryClient();
-  const [selectedRoleId, setSelectedRoleId] = useState<string | null>(null);
+  const confirm = useConfirm();
+  const toast = useToast();
+  const { t } = useI18n();
+  const [searchParams] = useSearchParams();
+  const linkedRoleId = searchParams.get('role');
+  const [selectedRoleId, setSelectedRoleId] = useState<string | null>(linkedRoleId);
+  const [syncedLinkedRoleId, setSyncedLinkedRoleId] = useState(linkedRoleId);
   const [isCreatingRole, setIsCreatingRole] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [roleName, setRoleName] = useState('');
   const [roleDescription, setRoleDescription] = useState('');
   const [rolePermissions, setRolePermissions] = useState<string[]>([]);
   const [roleError, setRoleError] = useState<string | null>(null);
-  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  // Kept as opened: a refetch while editing must not move the version the save is checked against.
+  const [editedRole, setEditedRole] = useState<Role | null>(null);
+  const [roleConflict, setRoleConflict] = useState<RoleConflict | null>(null);
 
-  const rolesQuery = useQuery({ queryKey: ['roles'], queryFn: getRoles });
-  const permissionsQuery = useQuery({ queryKey: ['permissions'], queryFn: getPermissions });
+  const rolesQuery = useQuery({
+    queryKey: queryKeys.roles.list(),
+    queryFn: ({ signal }) => getRoles({ signal }),
+  });
+  const permissionsQuery = useQuery({
+    queryKey: queryKeys.roles.permissions(),
+    queryFn: ({ signal }) => getPermissions({ signal }),
+  });
 
   const roles = rolesQuery.data ?? [];
   const permissions = permissionsQuery.data ?? [];
-  const selectedRole = roles.find((role) => role.id === selectedRoleId) ?? null;
+
+  // Search results link to `?role=<id>`, including while this page is already open.
+  if (linkedRoleId !== syncedLinkedRoleId) {
+    setSyncedLinkedRoleId(linkedRoleId);
+    if (linkedRoleId) setSelectedRoleId(linkedRoleId);
+  }
 
   useEffect(() => {
     if (!selectedRoleId && roles.length > 0 && !isCreatingRole) {
@@ -40,14 +101,6 @@ export function RolesPage() {
     }
   }, [roles, selectedRoleId, isCreatingRole]);
 
-  useEffect(() => {
-    if (!selectedRole) return;
-    setIsCreatingRole(false);
-    setRoleName(selectedRole.name);
-    setRoleDescription(selectedRole.description);
-    setRolePermissions(selectedRole.permissionKeys);
-  }, [selectedRole]);
-
   const groupedPermissions = useMemo(() => {
     const groups: Record<string, Permission[]> = {};
     for (const permission of permissions) {
@@ -66,39 +119,110 @@ export function RolesPage() {
 
   const createMutation = useMutation({
     mutationFn: createRole,
-    onSuccess: async (role, variables) => {
-      await queryClient.refetchQueries({ queryKey: ['roles'] });
-      const rolesData = queryClient.getQueryData<Role[]>(['roles']) ?? [];
-      const match =
-        role?.id ??
-        rolesData.find((item) => item.name.trim().toLowerCase() === variables.name.trim().toLowerCase())?.id ??
-        null;
-      setSelectedRoleId(match);
+    onSuccess: (role) => {
+      writeCache(queryClient, [insertCachedRole(role)]);
+      setSelectedRoleId(role.id);
       setIsCreatingRole(false);
       setIsModalOpen(false);
     },
-    onError: (error) => setRoleError(parseError(error)),
+    onError: (error) => setRoleError(errorMessage(error)),
   });
 
-  const updateMutation = useMutation({
-    mutationFn: ({ id, payload }: { id: string; payload: { name: string; description: string; permissionKeys: string[] } }) =>
-      updateRole(id, payload),
-    onSuccess: async () => {
-      await queryClient.refetchQueries({ queryKey: ['roles'] });
+  const updateMutation = useMutation<
+    Role,
+    unknown,
+    { role: Role; payload: EditedRole },
+    OptimisticChange
+  >({
+    mutationFn: ({ role, payload }) => updateRole(role.id, payload, role.version),
+    onMutate: ({ role, payload }) =>
+      applyOptimistic(queryClient, [
+        patchCachedRole(role.id, (cached) => ({ ...cached, ...payload })),
+      ]),
+    onSuccess: async (role, { role: previous }, change) => {
+      change.settle();
+      writeCache(queryClient, [replaceCachedRole(role)]);
+      if (previous.name === getSessionUser()?.role) {
+        await refreshSession();
+      }
+      // Users carry the role by name.
+      if (previous.name !== role.name) {
+        void queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+      }
       setIsModalOpen(false);
     },
-    onError: (error) => setRoleError(parseError(error)),
+    onError: (_error, _variables, change) => change?.rollback(),
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: deleteRole,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['roles'] });
-      setSelectedRoleId(null);
-      setIsCreatingRole(false);
-      setIsModalOpen(false);
-    },
-    onError: (error) => setRoleError(parseError(error)),
+  const openRole = (role: Role) => {
+    setRoleError(null);
+    setIsCreatingRole(false);
+    setSelectedRoleId(role.id);
+    setEditedRole(role);
+    setRoleName(role.name);
+    setRoleDescription(role.description);
+    setRolePermissions(role.permissionKeys);
+    setIsModalOpen(true);
+  };
+
+  // Saving from the conflict dialog goes against the role it showed, so a newer save conflicts again.
+  const saveRole = async (role: Role, payload: EditedRole) => {
+    setRoleError(null);
+    try {
+      await updateMutation.mutateAsync({ role, payload });
+      setRoleConflict(null);
+      toast.show({ title: t('roles.updated'), variant: 'success' });
+    } catch (error) {
+      const current = conflictingVersion(error, roleSchema);
+      if (current) {
+        writeCache(queryClient, [replaceCachedRole(current)]);
+        setRoleConflict({ role, payload, current });
+        return;
+      }
+      setRoleConflict(null);
+      setRoleError(errorMessage(error));
+    }
+  };
+
+  const permissionLabels = (keys: string[]) =>
+    keys
+      .map((key) => permissions.find((permission) => permission.key === key)?.label ?? key)
+      .sort((a, b) => a.localeCompare(b))
+      .join(', ');
+
+  const conflictFields = ({ role, payload, current }: RoleConflict) => [
+    ...diffField({
+      key: 'name',
+      label: t('roles.name'),
+      base: role.name,
+      yours: payload.name,
+      theirs: current.name,
+    }),
+    ...diffField({
+      key: 'description',
+      label: t('roles.description'),
+      base: role.description,
+      yours: payload.description,
+      theirs: current.description,
+    }),
+    ...diffField({
+      key: 'permissions',
+      label: t('roles.permissions'),
+      base: role.permissionKeys,
+      yours: payload.permissionKeys,
+      theirs: current.permissionKeys,
+      format: permissionLabels,
+      isEqual: samePermissions,
+    }),
+  ];
+
+  const deleteMutation = useUndoableMutation({
+    mutationFn: (role: Role) => deleteRole(role.id, role.version),
+    optimistic: (role) => [removeCachedRole(role.id)],
+    message: (role) => t('roles.deleted', { name: role.name }),
+    errorTitle: t('roles.deleteFailed'),
+    invalidates: [queryKeys.roles.all],
+    onCommitted: (role) => setSelectedRoleId((current) => (current === role.id ? null : current)),
   });
 
   const togglePermission = (key: string) => {
@@ -111,29 +235,29 @@ export function RolesPage() {
     <section className="page">
       <div className="roles-header">
         <div>
-          <h1>Permissions & roles</h1>
-          <p>Manage role access with a permissions matrix.</p>
+          <h1>{t('roles.title')}</h1>
+          <p>{t('roles.subtitle')}</p>
         </div>
         <Button
           type="button"
           onClick={() => {
             setRoleError(null);
-            setToastMessage(null);
             setRoleName('');
             setRoleDescription('');
             setRolePermissions([]);
             setSelectedRoleId(null);
+            setEditedRole(null);
             setIsCreatingRole(true);
             setIsModalOpen(true);
           }}
         >
-          New role
+          {t('roles.new')}
         </Button>
       </div>
 
       {rolesQuery.isError ? (
-        <Toast title="Unable to load roles" variant="error">
-          <span>{parseError(rolesQuery.error)}</span>
+        <Toast title={t('roles.loadFailed')} variant="error">
+          <span>{errorMessage(rolesQuery.error)}</span>
         </Toast>
       ) : null}
 
@@ -149,45 +273,48 @@ export function RolesPage() {
               <button
                 type="button"
                 className="role-item"
-                onClick={() => {
-                  setRoleError(null);
-                  setToastMessage(null);
-                  setIsCreatingRole(false);
-                  setSelectedRoleId(role.id);
-                  setIsModalOpen(true);
-                }}
+                onClick={() => openRole(role)}
               >
                 <div className="role-item-title">{role.name}</div>
-                <div className="role-item-meta">{role.permissionKeys.length} permissions</div>
+                <div className="role-item-meta">
+                  {t('roles.permissionCount', { count: role.permissionKeys.length })}
+                </div>
               </button>
               <div className="role-item-actions">
                 <Button
                   variant="ghost"
                   type="button"
-                  disabled={deleteMutation.isPending}
-                  onClick={() => {
-                    if (deleteMutation.isPending) return;
-                    const confirmed = window.confirm(`Delete ${role.name}?`);
+                  onClick={async () => {
+                    const userCount = await countRoleUsers(role.name);
+                    const confirmed = await confirm({
+                      title: t('roles.deleteTitle', { name: role.name }),
+                      message: t('roles.deleteMessage'),
+                      impact: userCount
+                        ? t('roles.deleteImpact', { count: userCount })
+                        : undefined,
+                      confirmLabel: t('common.delete'),
+                      tone: 'danger',
+                    });
                     if (confirmed) {
-                      deleteMutation.mutate(role.id);
+                      deleteMutation.mutate(role);
                     }
                   }}
                 >
-                  Delete
+                  {t('common.delete')}
                 </Button>
               </div>
             </div>
           ))}
-          {roles.length === 0 ? <div className="role-empty">No roles yet.</div> : null}
+          {roles.length === 0 ? <div className="role-empty">{t('roles.empty')}</div> : null}
         </div>
 
         <div className="roles-detail" />
       </div>
       <Modal
         isOpen={isModalOpen}
-        title={selectedRole ? 'Edit role' : 'New role'}
+        title={editedRole ? t('roles.edit') : t('roles.new')}
         onClose={() => {
-          if (createMutation.isPending || updateMutation.isPending || deleteMutation.isPending) return;
+          if (createMutation.isPending || updateMutation.isPending) return;
           setIsModalOpen(false);
           setIsCreatingRole(false);
           setRoleError(null);
@@ -195,28 +322,28 @@ export function RolesPage() {
       >
         <div className="role-detail-header">
           <div>
-            <h2>{selectedRole ? 'Edit role' : 'New role'}</h2>
-            <p>{selectedRole ? 'Update permissions and role details.' : 'Define a new role.'}</p>
+            <h2>{editedRole ? t('roles.edit') : t('roles.new')}</h2>
+            <p>{editedRole ? t('roles.editHelp') : t('roles.newHelp')}</p>
           </div>
         </div>
 
         <div className="role-form-inline">
           <Input
-            label="Role name"
+            label={t('roles.name')}
             value={roleName}
             onChange={(event) => setRoleName(event.target.value)}
-            error={roleError === 'Select at least one permission.' ? undefined : roleError ?? undefined}
+            error={roleError === t('roles.permissionsRequired') ? undefined : roleError ?? undefined}
           />
           <Input
-            label="Description"
+            label={t('roles.description')}
             value={roleDescription}
             onChange={(event) => setRoleDescription(event.target.value)}
           />
         </div>
 
         {permissionsQuery.isError ? (
-          <Toast title="Unable to load permissions" variant="error">
-            <span>{parseError(permissionsQuery.error)}</span>
+          <Toast title={t('roles.permissionsLoadFailed')} variant="error">
+            <span>{errorMessage(permissionsQuery.error)}</span>
           </Toast>
         ) : null}
 
@@ -255,9 +382,8 @@ export function RolesPage() {
             }
             onClick={async () => {
               setRoleError(null);
-              setToastMessage(null);
-              if (rolePermissions.length === 0) {
-                setRoleError('Select at least one permission.');
+                if (rolePermissions.length === 0) {
+                setRoleError(t('roles.permissionsRequired'));
                 return;
               }
               const payload = {
@@ -265,32 +391,47 @@ export function RolesPage() {
                 description: roleDescription.trim(),
                 permissionKeys: rolePermissions,
               };
+              if (editedRole) {
+                await saveRole(editedRole, payload);
+                return;
+              }
               try {
-                if (selectedRole) {
-                  await updateMutation.mutateAsync({ id: selectedRole.id, payload });
-                  setToastMessage('Role updated.');
-                  return;
-                }
                 await createMutation.mutateAsync(payload);
-                setToastMessage('Role created.');
+                toast.show({ title: t('roles.created'), variant: 'success' });
               } catch (error) {
-                setRoleError(parseError(error));
+                setRoleError(errorMessage(error));
               }
             }}
           >
             {createMutation.isPending || updateMutation.isPending
-              ? 'Saving…'
-              : selectedRole
-                ? 'Save changes'
-                : 'Create role'}
+              ? t('common.saving')
+              : editedRole
+                ? t('roles.saveChanges')
+                : t('roles.create')}
           </Button>
           {roleError ? <span className="form-error">{roleError}</span> : null}
         </div>
       </Modal>
-      {toastMessage ? (
-        <Toast title="Success" onClose={() => setToastMessage(null)}>
-          <span>{toastMessage}</span>
-        </Toast>
+
+      {roleConflict ? (
+        <ConflictDialog
+          key={roleConflict.current.version}
+          name={roleConflict.current.name}
+          fields={conflictFields(roleConflict)}
+          isSaving={updateMutation.isPending}
+          onMerge={(choices) =>
+            void saveRole(roleConflict.current, mergeRole(roleConflict, choices))
+          }
+          onOverwrite={() => void saveRole(roleConflict.current, roleConflict.payload)}
+          onDiscard={() => {
+            setRoleConflict(null);
+            setIsModalOpen(false);
+            setRoleError(null);
+          }}
+          onClose={() => {
+            if (!updateMutation.isPending) setRoleConflict(null);
+          }}
+        />
       ) : null}
     </section>
   );
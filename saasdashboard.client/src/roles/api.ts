@@ -1,5 +1,7 @@
-import { apiRequest } from '../api/client';
-import type { Permission, Role } from './types';
+import { apiRequest, type ApiCallOptions } from '../api/client';
+import { ifMatch } from '../api/concurrency';
+import { z } from 'zod';
+import { permissionSchema, roleSchema } from './types';
 
 export type RolePayload = {
   name: string;
@@ -7,15 +9,22 @@ export type RolePayload = {
   permissionKeys: string[];
 };
 
-export const getRoles = () => apiRequest<Role[]>('/api/roles');
+export const getRoles = (options?: ApiCallOptions) =>
+  apiRequest('/api/roles', { ...options, schema: z.array(roleSchema) });
 
-export const getPermissions = () => apiRequest<Permission[]>('/api/roles/permissions');
+export const getPermissions = (options?: ApiCallOptions) =>
+  apiRequest('/api/roles/permissions', { ...options, schema: z.array(permissionSchema) });
 
 export const createRole = (payload: RolePayload) =>
-  apiRequest<Role>('/api/roles', { method: 'POST', body: payload });
+  apiRequest('/api/roles', { method: 'POST', body: payload, schema: roleSchema });
 
-export const updateRole = (id: string, payload: RolePayload) =>
-  apiRequest<Role>(`/api/roles/${id}`, { method: 'PUT', body: payload });
+export const updateRole = (id: string, payload: RolePayload, version: string) =>
+  apiRequest(`/api/roles/${id}`, {
+    method: 'PUT',
+    body: payload,
+    headers: ifMatch(version),
+    schema: roleSchema,
+  });
 
-export const deleteRole = (id: string) =>
-  apiRequest<void>(`/api/roles/${id}`, { method: 'DELETE' });
+export const deleteRole = (id: string, version: string) =>
+  apiRequest<void>(`/api/roles/${id}`, { method: 'DELETE', headers: ifMatch(version) });
@@ -0,0 +1,25 @@
+import { cacheUpdate } from '../api/optimistic';
+import { queryKeys } from '../api/queryKeys';
+import type { Role } from './types';
+
+// The server lists roles by name with an ordinal comparison.
+const byName = (left: Role, right: Role) =>
+  left.name === right.name ? 0 : left.name < right.name ? -1 : 1;
+
+const updateCachedRoles = (update: (roles: Role[]) => Role[]) =>
+  cacheUpdate(queryKeys.roles.list(), update);
+
+export const patchCachedRole = (id: string, patch: (role: Role) => Role) =>
+  updateCachedRoles((roles) =>
+    roles.map((role) => (role.id === id ? patch(role) : role)).sort(byName),
+  );
+
+export const replaceCachedRole = (role: Role) => patchCachedRole(role.id, () => role);
+
+export const insertCachedRole = (role: Role) =>
+  updateCachedRoles((roles) =>
+    roles.some((item) => item.id === role.id) ? roles : [...roles, role].sort(byName),
+  );
+
+export const removeCachedRole = (id: string) =>
+  updateCachedRoles((roles) => roles.filter((role) => role.id !== id));
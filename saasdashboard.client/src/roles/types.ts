@@ -1,13 +1,21 @@
-export type Permission = {
-  id: string;
-  key: string;
-  label: string;
-  description: string;
-};
-
-export type Role = {
-  id: string;
-  name: string;
-  description: string;
-  permissionKeys: string[];
-};
+import { z } from 'zod';
+
+export const permissionSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  label: z.string(),
+  description: z.string(),
+});
+
+export const roleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  permissionKeys: z.array(z.string()),
+  /** Moves on when the permissions alone change, too. */
+  version: z.string(),
+});
+
+export type Permission = z.infer<typeof permissionSchema>;
+
+export type Role = z.infer<typeof roleSchema>;
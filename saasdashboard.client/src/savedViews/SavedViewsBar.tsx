@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Button, Input, Modal, useConfirm } from '../components/ui';
+import { useI18n } from '../i18n/i18n';
+import { sameFilters, useSavedViews } from './useSavedViews';
+import type { SavedViewScope } from './types';
+
+type SavedViewsBarProps = {
+  scope: SavedViewScope;
+  /** The filters currently applied on the page, without the page number. */
+  filters: Record<string, unknown>;
+  onApply: (filters: Record<string, unknown>, options: { replace: boolean }) => void;
+};
+
+export function SavedViewsBar({ scope, filters, onApply }: SavedViewsBarProps) {
+  const { t } = useI18n();
+  const [searchParams] = useSearchParams();
+  const savedViews = useSavedViews(scope);
+  const confirm = useConfirm();
+  const { views, defaultView, isLoaded } = savedViews;
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [isManageOpen, setIsManageOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [pinned, setPinned] = useState(true);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const defaultChecked = useRef(false);
+
+  // A link that already carries filters wins over the default view.
+  useEffect(() => {
+    if (!isLoaded || defaultChecked.current) return;
+    defaultChecked.current = true;
+    if (defaultView && searchParams.toString() === '') {
+      onApply(defaultView.filters, { replace: true });
+    }
+  }, [defaultView, isLoaded, onApply, searchParams]);
+
+  const activeView = views.find((view) => sameFilters(view.filters, filters)) ?? null;
+  const pinnedViews = views.filter((view) => view.pinned);
+
+  const isNameTaken = (value: string, exceptId?: string) =>
+    views.some(
+      (view) => view.id !== exceptId && view.name.toLowerCase() === value.trim().toLowerCase(),
+    );
+
+  const openSave = () => {
+    setName('');
+    setPinned(true);
+    setMakeDefault(false);
+    setNameError(null);
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setNameError(t('savedViews.nameRequired'));
+      return;
+    }
+    if (isNameTaken(trimmed)) {
+      setNameError(t('savedViews.nameTaken'));
+      return;
+    }
+    savedViews.createView({ name: trimmed, filters, pinned, isDefault: makeDefault });
+    setIsSaveOpen(false);
+  };
+
+  const handleRename = (event: FormEvent) => {
+    event.preventDefault();
+    if (!renaming) return;
+    const trimmed = renaming.name.trim();
+    if (!trimmed || isNameTaken(trimmed, renaming.id)) return;
+    savedViews.renameView(renaming.id, trimmed);
+    setRenaming(null);
+  };
+
+  return (
+    <div className="saved-views" role="toolbar" aria-label={t('savedViews.toolbar')}>
+      {pinnedViews.map((view) => (
+        <Button
+          key={view.id}
+          variant={view.id === activeView?.id ? 'secondary' : 'ghost'}
+          type="button"
+          aria-pressed={view.id === activeView?.id}
+          onClick={() => onApply(view.filters, { replace: false })}
+        >
+          {view.name}
+          {view.isDefault ? (
+            <span className="saved-views-default">{t('savedViews.default')}</span>
+          ) : null}
+        </Button>
+      ))}
+      <Button variant="ghost" type="button" disabled={Boolean(activeView)} onClick={openSave}>
+        {t('savedViews.save')}
+      </Button>
+      {views.length ? (
+        <Button variant="ghost" type="button" onClick={() => setIsManageOpen(true)}>
+          {t('savedViews.manage', { count: views.length })}
+        </Button>
+      ) : null}
+      {savedViews.error ? <span className="form-error">{t('savedViews.storeFailed')}</span> : null}
+
+      <Modal
+        isOpen={isSaveOpen}
+        title={t('savedViews.saveTitle')}
+        onClose={() => setIsSaveOpen(false)}
+        actions={
+          <>
+            <Button variant="ghost" type="button" onClick={() => setIsSaveOpen(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" form={`saved-view-form-${scope}`}>
+              {t('savedViews.save')}
+            </Button>
+          </>
+        }
+      >
+        <form id={`saved-view-form-${scope}`} className="users-form" onSubmit={handleSave}>
+          <Input
+            label={t('common.name')}
+            placeholder={t('savedViews.namePlaceholder')}
+            value={name}
+            error={nameError ?? undefined}
+            autoFocus
+            onChange={(event) => {
+              setName(event.target.value);
+              setNameError(null);
+            }}
+          />
+          <label className="saved-views-option">
+            <input
+              type="checkbox"
+              checked={pinned}
+              onChange={(event) => setPinned(event.target.checked)}
+            />
+            {t('savedViews.pin')}
+          </label>
+          <label className="saved-views-option">
+            <input
+              type="checkbox"
+              checked={makeDefault}
+              onChange={(event) => setMakeDefault(event.target.checked)}
+            />
+            {t('savedViews.openByDefault')}
+          </label>
+        </form>
+      </Modal>
+
+      <Modal
+        isOpen={isManageOpen}
+        title={t('savedViews.toolbar')}
+        onClose={() => {
+          setIsManageOpen(false);
+          setRenaming(null);
+        }}
+      >
+        <ul className="saved-views-list">
+          {views.map((view) => (
+            <li key={view.id}>
+              {renaming?.id === view.id ? (
+                <form className="saved-views-rename" onSubmit={handleRename}>
+                  <Input
+                    aria-label={t('savedViews.viewName')}
+                    value={renaming.name}
+                    autoFocus
+                    error={
+                      isNameTaken(renaming.name, view.id) ? t('savedViews.nameTaken') : undefined
+                    }
+                    onChange={(event) => setRenaming({ id: view.id, name: event.target.value })}
+                  />
+                  <Button type="submit">{t('common.save')}</Button>
+                  <Button variant="ghost" type="button" onClick={() => setRenaming(null)}>
+                    {t('common.cancel')}
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <span className="saved-views-name">
+                    {view.name}
+                    {view.isDefault ? (
+                      <span className="saved-views-default">{t('savedViews.default')}</span>
+                    ) : null}
+                  </span>
+                  <div className="saved-views-actions">
+                    <Button
+                      variant="ghost"
+                      type="button"
+                      onClick={() => {
+                        onApply(view.filters, { replace: false });
+                        setIsManageOpen(false);
+                      }}
+                    >
+                      {t('savedViews.apply')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      type="button"
+                      onClick={() => setRenaming({ id: view.id, name: view.name })}
+                    >
+                      {t('common.rename')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      type="button"
+                      onClick={() => savedViews.togglePinned(view.id)}
+                    >
+                      {view.pinned ? t('savedViews.unpin') : t('savedViews.pinAction')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      type="button"
+                      onClick={() => savedViews.toggleDefault(view.id)}
+                    >
+                      {view.isDefault ? t('savedViews.clearDefault') : t('savedViews.setDefault')}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      type="button"
+                      onClick={async () => {
+                        const confirmed = await confirm({
+                          title: t('savedViews.deleteTitle', { name: view.name }),
+                          confirmLabel: t('common.delete'),
+                          tone: 'danger',
+                        });
+                        if (confirmed) {
+                          savedViews.deleteView(view.id);
+                        }
+                      }}
+                    >
+                      {t('common.delete')}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { createAdapterSlot } from '../storageAdapter';
+import { savedViewSchema, type SavedView, type SavedViewScope } from './types';
+
+/** Where saved views live, per user and page. */
+export type SavedViewsStorage = {
+  load: (username: string, scope: SavedViewScope) => Promise<SavedView[]>;
+  save: (username: string, scope: SavedViewScope, views: SavedView[]) => Promise<void>;
+};
+
+const STORAGE_KEY = 'saas_saved_views';
+
+const getStorageKey = (username: string, scope: SavedViewScope) =>
+  `${STORAGE_KEY}:${username}:${scope}`;
+
+export const localSavedViewsStorage: SavedViewsStorage = {
+  load: async (username, scope) => {
+    const raw = localStorage.getItem(getStorageKey(username, scope));
+    if (!raw) return [];
+    try {
+      const parsed = z.array(savedViewSchema).safeParse(JSON.parse(raw));
+      return parsed.success ? parsed.data : [];
+    } catch {
+      return [];
+    }
+  },
+  save: async (username, scope, views) => {
+    localStorage.setItem(getStorageKey(username, scope), JSON.stringify(views));
+  },
+};
+
+const slot = createAdapterSlot<SavedViewsStorage>(localSavedViewsStorage);
+
+export const configureSavedViewsStorage = slot.configure;
+
+export const getSavedViewsStorage = slot.get;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const savedViewSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** The page's filter object, as read from its URL state, without the current page number. */
+  filters: z.record(z.string(), z.unknown()),
+  pinned: z.boolean(),
+  isDefault: z.boolean(),
+  createdAt: z.string(),
+});
+
+export type SavedView = z.infer<typeof savedViewSchema>;
+
+/** Pages that can save views; each keeps its own list. */
+export type SavedViewScope = 'users' | 'audit-logs';
@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getSessionUser } from '../auth/session';
+import { getSavedViewsStorage } from './storage';
+import type { SavedView, SavedViewScope } from './types';
+import { queryKeys } from '../api/queryKeys';
+
+export type NewSavedView = Pick<SavedView, 'name' | 'filters' | 'pinned' | 'isDefault'>;
+
+const withoutDefault = (views: SavedView[]) => views.map((view) => ({ ...view, isDefault: false }));
+
+/** Compares filter objects by value so a view is recognised no matter how it was reached. */
+export const sameFilters = (left: Record<string, unknown>, right: Record<string, unknown>) =>
+  [...new Set([...Object.keys(left), ...Object.keys(right)])].every(
+    (key) => JSON.stringify(left[key] ?? null) === JSON.stringify(right[key] ?? null),
+  );
+
+export function useSavedViews(scope: SavedViewScope) {
+  const queryClient = useQueryClient();
+  const username = getSessionUser()?.username ?? 'anonymous';
+  const queryKey = queryKeys.savedViews(username, scope);
+
+  const viewsQuery = useQuery({
+    queryKey,
+    queryFn: () => getSavedViewsStorage().load(username, scope),
+    staleTime: Infinity,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (next: SavedView[]) => getSavedViewsStorage().save(username, scope, next),
+    onMutate: (next) => queryClient.setQueryData(queryKey, next),
+    onError: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const views = viewsQuery.data ?? [];
+  const update = (change: (current: SavedView[]) => SavedView[]) =>
+    saveMutation.mutate(change(views));
+
+  return {
+    views,
+    isLoaded: viewsQuery.isFetched,
+    defaultView: views.find((view) => view.isDefault) ?? null,
+    error: saveMutation.error,
+    createView: (input: NewSavedView) =>
+      update((current) => [
+        ...(input.isDefault ? withoutDefault(current) : current),
+        { ...input, id: crypto.randomUUID(), createdAt: new Date().toISOString() },
+      ]),
+    renameView: (id: string, name: string) =>
+      update((current) => current.map((view) => (view.id === id ? { ...view, name } : view))),
+    togglePinned: (id: string) =>
+      update((current) =>
+        current.map((view) => (view.id === id ? { ...view, pinned: !view.pinned } : view)),
+      ),
+    /** Makes `id` the only default view, or clears the default when `id` already is it. */
+    toggleDefault: (id: string) =>
+      update((current) =>
+        current.map((view) => ({ ...view, isDefault: view.id === id && !view.isDefault })),
+      ),
+    deleteView: (id: string) => update((current) => current.filter((view) => view.id !== id)),
+  };
+}
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatShortcut } from '../commands/registry';
+import { useShortcut } from '../commands/useShortcut';
+import { useI18n } from '../i18n/i18n';
+import { useEntitySearch, type EntityResult } from './useEntitySearch';
+
+const RESULTS_PER_GROUP = 5;
+
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [input, setInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useShortcut('/', t('search.shortcut'), () => inputRef.current?.focus(), { scope: 'global' });
+
+  useEffect(() => {
+    const handle = window.setTimeout(() => {
+      setSearch(input.trim());
+    }, 400);
+    return () => window.clearTimeout(handle);
+  }, [input]);
+
+  const { results, isFetching } = useEntitySearch(search, RESULTS_PER_GROUP);
+  const isSearching = input.trim() !== search || isFetching;
+  const active = Math.min(activeIndex, results.length - 1);
+  const showResults = isOpen && input.trim().length > 0;
+
+  const open = (result: EntityResult | undefined) => {
+    if (!result) return;
+    navigate(result.to);
+    setIsOpen(false);
+    setInput('');
+    inputRef.current?.blur();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      setIsOpen(true);
+      if (!results.length) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((active + step + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      open(results[active]);
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="global-search">
+      <input
+        ref={inputRef}
+        className="ui-input"
+        type="search"
+        role="combobox"
+        aria-label={t('common.search')}
+        aria-expanded={showResults}
+        aria-controls="global-search-results"
+        aria-activedescendant={
+          showResults && results[active] ? `search-${results[active].id}` : undefined
+        }
+        placeholder={t('search.placeholder', { shortcut: formatShortcut('/') })}
+        value={input}
+        onChange={(event) => {
+          setInput(event.target.value);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {showResults ? (
+        <ul id="global-search-results" className="global-search-results" role="listbox">
+          {results.map((result, index) => (
+            <li key={result.id} role="presentation">
+              {index === 0 || results[index - 1].group !== result.group ? (
+                <div className="global-search-group" role="presentation">
+                  {t(result.group)}
+                </div>
+              ) : null}
+              <div
+                id={`search-${result.id}`}
+                role="option"
+                aria-selected={index === active}
+                className={index === active ? 'global-search-item is-active' : 'global-search-item'}
+                // Keep focus in the input so the blur handler does not close the list first.
+                onMouseDown={(event) => event.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => open(result)}
+              >
+                <span>{result.label}</span>
+                {result.detail ? <span className="global-search-hint">{result.detail}</span> : null}
+              </div>
+            </li>
+          ))}
+          {results.length === 0 ? (
+            <li className="global-search-empty" role="presentation">
+              {isSearching ? t('search.searching') : t('search.noResults')}
+            </li>
+          ) : null}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
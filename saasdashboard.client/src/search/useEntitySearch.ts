@@ -0,0 +1,94 @@
+import { useQuery } from '@tanstack/react-query';
+import { usePermissions } from '../auth/permissions';
+import { fuzzyFilter } from '../commands/fuzzy';
+import { getOrganizations } from '../organizations/api';
+import { getRoles } from '../roles/api';
+import { getUsers } from '../users/api';
+import { queryKeys } from '../api/queryKeys';
+
+export type EntityResult = {
+  id: string;
+  group: 'search.users' | 'search.organizations' | 'search.teams' | 'search.roles';
+  label: string;
+  detail?: string;
+  /** Opens the entity itself rather than a list filtered down to it. */
+  to: string;
+};
+
+/**
+ * Users, organizations, teams and roles matching `search`, up to `limit` of each, for the topbar
+ * search and the command palette. Users are searched on the server; the rest are matched locally.
+ */
+export function useEntitySearch(search: string, limit = 5) {
+  const { can } = usePermissions();
+  const hasSearch = search.length > 0;
+  const canManageUsers = can('users.manage');
+
+  const usersRequest = { page: 1, pageSize: limit, search };
+  const usersQuery = useQuery({
+    queryKey: queryKeys.users.list(usersRequest),
+    queryFn: ({ signal }) => getUsers(usersRequest, { signal }),
+    enabled: hasSearch && can('users.view'),
+  });
+  const organizationsQuery = useQuery({
+    queryKey: queryKeys.organizations.list(true),
+    queryFn: ({ signal }) => getOrganizations(true, { signal }),
+    enabled: hasSearch && can('organizations.view'),
+  });
+  const rolesQuery = useQuery({
+    queryKey: queryKeys.roles.list(),
+    queryFn: ({ signal }) => getRoles({ signal }),
+    enabled: hasSearch && can('roles.manage'),
+  });
+
+  const organizations = organizationsQuery.data ?? [];
+  const results: EntityResult[] = hasSearch
+    ? [
+        ...(usersQuery.data?.items ?? []).map((user) => ({
+          id: `user:${user.id}`,
+          group: 'search.users' as const,
+          label: user.username,
+          detail: `${user.organizationName} / ${user.teamName}`,
+          // Only managers have an edit dialog to open; everyone else gets the list narrowed to the user.
+          to: canManageUsers
+            ? `/users?user=${encodeURIComponent(user.id)}`
+            : `/users?search=${encodeURIComponent(user.username)}`,
+        })),
+        ...fuzzyFilter(organizations, search, (org) => org.name)
+          .slice(0, limit)
+          .map((org) => ({
+            id: `organization:${org.id}`,
+            group: 'search.organizations' as const,
+            label: org.name,
+            to: `/organizations?org=${encodeURIComponent(org.id)}`,
+          })),
+        ...fuzzyFilter(
+          organizations.flatMap((org) => (org.teams ?? []).map((team) => ({ org, team }))),
+          search,
+          ({ team }) => team.name,
+        )
+          .slice(0, limit)
+          .map(({ org, team }) => ({
+            id: `team:${team.id}`,
+            group: 'search.teams' as const,
+            label: team.name,
+            detail: org.name,
+            to: `/organizations?org=${encodeURIComponent(org.id)}&team=${encodeURIComponent(team.id)}`,
+          })),
+        ...fuzzyFilter(rolesQuery.data ?? [], search, (role) => role.name)
+          .slice(0, limit)
+          .map((role) => ({
+            id: `role:${role.id}`,
+            group: 'search.roles' as const,
+            label: role.name,
+            detail: role.description,
+            to: `/roles?role=${encodeURIComponent(role.id)}`,
+          })),
+      ]
+    : [];
+
+  return {
+    results,
+    isFetching: usersQuery.isFetching || organizationsQuery.isFetching || rolesQuery.isFetching,
+  };
+}
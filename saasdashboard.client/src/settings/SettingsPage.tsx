@@ -0,0 +1,490 @@
+import { useState, type FormEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { z } from 'zod';
+import { errorMessage } from '../api/errors';
+import { usePermissions } from '../auth/permissions';
+import { getSessionOrganizationId } from '../auth/session';
+import { Button, Input, Select, Toast, useToast } from '../components/ui';
+import { useI18n, type MessageKey } from '../i18n/i18n';
+import { deleteOrganization, getOrganizations, updateOrganization } from '../organizations/api';
+import type { Organization } from '../organizations/types';
+import { getRoles } from '../roles/api';
+import { localizedError } from '../users/schemas';
+import { urlParam, useUrlState } from '../urlState';
+import { UnsavedChangesGuard } from './UnsavedChangesGuard';
+import type { PasswordPolicy, WorkspaceSettings } from './types';
+import { useWorkspaceSettings } from './useWorkspaceSettings';
+import { queryKeys } from '../api/queryKeys';
+
+const settingsTabs = ['general', 'users', 'security', 'billing', 'danger'] as const;
+
+type SettingsTab = (typeof settingsTabs)[number];
+
+const tabLabelKeys: Record<SettingsTab, MessageKey> = {
+  general: 'settings.tab.general',
+  users: 'settings.tab.users',
+  security: 'settings.tab.security',
+  billing: 'settings.tab.billing',
+  danger: 'settings.tab.danger',
+};
+
+/** Tabs that change the organization itself rather than its workspace settings. */
+const organizationTabs: SettingsTab[] = ['general', 'danger'];
+
+const settingsUrlParams = {
+  org: urlParam.string(),
+  tab: urlParam.oneOf(settingsTabs, 'general'),
+};
+
+const organizationNameSchema = z
+  .string()
+  .trim()
+  .min(2, localizedError('settings.nameMin'))
+  .max(64, localizedError('settings.nameMax'));
+
+const billingEmailSchema = z.union([
+  z.literal(''),
+  z.email(localizedError('settings.emailInvalid')),
+]);
+
+type TabProps = {
+  organization: Organization;
+  onSaved: (message: string) => void;
+};
+
+type SettingsTabProps = TabProps & {
+  settings: WorkspaceSettings;
+  onSave: (patch: Partial<WorkspaceSettings>) => Promise<void>;
+};
+
+function TabActions({
+  isDirty,
+  isSaving,
+  onDiscard,
+}: {
+  isDirty: boolean;
+  isSaving: boolean;
+  onDiscard: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="settings-actions">
+      {isDirty ? <span className="settings-dirty">{t('settings.unsaved')}</span> : null}
+      <Button variant="ghost" type="button" disabled={!isDirty || isSaving} onClick={onDiscard}>
+        {t('settings.discard')}
+      </Button>
+      <Button type="submit" disabled={!isDirty || isSaving}>
+        {isSaving ? t('common.saving') : t('settings.saveChanges')}
+      </Button>
+    </div>
+  );
+}
+
+function GeneralTab({ organization, onSaved }: TabProps) {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(organization.name);
+  const [error, setError] = useState<string | null>(null);
+  const isDirty = name.trim() !== organization.name;
+
+  const renameMutation = useMutation({
+    mutationFn: (nextName: string) => updateOrganization(organization.id, { name: nextName }),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all });
+      onSaved(t('settings.renamed'));
+    },
+    onError: (mutationError) => setError(errorMessage(mutationError)),
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const result = organizationNameSchema.safeParse(name);
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? t('settings.nameInvalid'));
+      return;
+    }
+    setError(null);
+    renameMutation.mutate(result.data);
+  };
+
+  return (
+    <form className="settings-form" onSubmit={handleSubmit}>
+      <UnsavedChangesGuard when={isDirty} />
+      <Input
+        label={t('organizations.name')}
+        value={name}
+        error={error ?? undefined}
+        onChange={(event) => {
+          setName(event.target.value);
+          setError(null);
+        }}
+      />
+      <p className="settings-hint">
+        {t('common.teamCount', { count: organization.teamCount })} ·{' '}
+        {t('common.userCount', { count: organization.userCount })}
+      </p>
+      <TabActions
+        isDirty={isDirty}
+        isSaving={renameMutation.isPending}
+        onDiscard={() => {
+          setName(organization.name);
+          setError(null);
+        }}
+      />
+    </form>
+  );
+}
+
+function DefaultRoleTab({ settings, onSave, onSaved }: SettingsTabProps) {
+  const { t } = useI18n();
+  const [defaultRole, setDefaultRole] = useState(settings.defaultRole);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const rolesQuery = useQuery({
+    queryKey: queryKeys.roles.list(),
+    queryFn: ({ signal }) => getRoles({ signal }),
+  });
+  const isDirty = defaultRole !== settings.defaultRole;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave({ defaultRole });
+      onSaved(t('settings.defaultRoleSaved'));
+    } catch (saveError) {
+      setError(errorMessage(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="settings-form" onSubmit={handleSubmit}>
+      <UnsavedChangesGuard when={isDirty} />
+      <Select
+        label={t('settings.defaultRole')}
+        helperText={t('settings.defaultRoleHelp')}
+        value={defaultRole}
+        options={[
+          { label: t('settings.firstRole'), value: '' },
+          ...(rolesQuery.data ?? []).map((role) => ({ label: role.name, value: role.name })),
+        ]}
+        onChange={(event) => setDefaultRole(event.target.value)}
+      />
+      {rolesQuery.error ? <p className="form-error">{errorMessage(rolesQuery.error)}</p> : null}
+      {error ? <p className="form-error">{error}</p> : null}
+      <TabActions
+        isDirty={isDirty}
+        isSaving={isSaving}
+        onDiscard={() => setDefaultRole(settings.defaultRole)}
+      />
+    </form>
+  );
+}
+
+function PasswordPolicyTab({ settings, onSave, onSaved }: SettingsTabProps) {
+  const { t } = useI18n();
+  const [policy, setPolicy] = useState<PasswordPolicy>(settings.passwordPolicy);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const saved = settings.passwordPolicy;
+  const isDirty = (Object.keys(policy) as (keyof PasswordPolicy)[]).some(
+    (key) => policy[key] !== saved[key],
+  );
+  const minLengthError =
+    Number.isInteger(policy.minLength) && policy.minLength >= 6 && policy.minLength <= 64
+      ? null
+      : t('settings.minLengthRange', { min: 6, max: 64 });
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (minLengthError) return;
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSave({ passwordPolicy: policy });
+      onSaved(t('settings.passwordPolicySaved'));
+    } catch (saveError) {
+      setError(errorMessage(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggle = (
+    key: 'requireUppercase' | 'requireNumber' | 'requireSymbol',
+    labelKey: MessageKey,
+  ) => (
+    <label className="settings-option">
+      <input
+        type="checkbox"
+        checked={policy[key]}
+        onChange={(event) => setPolicy({ ...policy, [key]: event.target.checked })}
+      />
+      {t(labelKey)}
+    </label>
+  );
+
+  return (
+    <form className="settings-form" onSubmit={handleSubmit}>
+      <UnsavedChangesGuard when={isDirty} />
+      <Input
+        label={t('settings.minLength')}
+        type="number"
+        min={6}
+        max={64}
+        value={String(policy.minLength)}
+        error={minLengthError ?? undefined}
+        helperText={t('settings.minLengthHelp')}
+        onChange={(event) => setPolicy({ ...policy, minLength: Number(event.target.value) })}
+      />
+      {toggle('requireUppercase', 'settings.requireUppercase')}
+      {toggle('requireNumber', 'settings.requireNumber')}
+      {toggle('requireSymbol', 'settings.requireSymbol')}
+      {error ? <p className="form-error">{error}</p> : null}
+      <TabActions isDirty={isDirty} isSaving={isSaving} onDiscard={() => setPolicy(saved)} />
+    </form>
+  );
+}
+
+function BillingContactTab({ settings, onSave, onSaved }: SettingsTabProps) {
+  const { t } = useI18n();
+  const [billingEmail, setBillingEmail] = useState(settings.billingEmail);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const isDirty = billingEmail.trim() !== settings.billingEmail;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const result = billingEmailSchema.safeParse(billingEmail.trim());
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? t('settings.emailInvalid'));
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave({ billingEmail: result.data });
+      onSaved(t('settings.billingContactSaved'));
+    } catch (saveError) {
+      setError(errorMessage(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="settings-form" onSubmit={handleSubmit}>
+      <UnsavedChangesGuard when={isDirty} />
+      <Input
+        label={t('settings.billingEmail')}
+        type="email"
+        placeholder="billing@example.com"
+        helperText={t('settings.billingEmailHelp')}
+        value={billingEmail}
+        error={error ?? undefined}
+        onChange={(event) => {
+          setBillingEmail(event.target.value);
+          setError(null);
+        }}
+      />
+      <TabActions
+        isDirty={isDirty}
+        isSaving={isSaving}
+        onDiscard={() => {
+          setBillingEmail(settings.billingEmail);
+          setError(null);
+        }}
+      />
+    </form>
+  );
+}
+
+function DangerZoneTab({
+  organization,
+  onDeleted,
+}: {
+  organization: Organization;
+  onDeleted: () => void;
+}) {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteOrganization(organization.id),
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all });
+      onDeleted();
+    },
+    onError: (mutationError) => setError(errorMessage(mutationError)),
+  });
+
+  return (
+    <form
+      className="settings-form settings-danger"
+      onSubmit={(event) => {
+        event.preventDefault();
+        setError(null);
+        deleteMutation.mutate();
+      }}
+    >
+      <p>{t('settings.deleteWarning', { name: organization.name })}</p>
+      <Input
+        label={t('confirm.typeToConfirm', { text: organization.name })}
+        value={confirmation}
+        autoComplete="off"
+        onChange={(event) => setConfirmation(event.target.value)}
+      />
+      {error ? <p className="form-error">{error}</p> : null}
+      <div className="settings-actions">
+        <Button
+          variant="danger"
+          type="submit"
+          disabled={confirmation !== organization.name || deleteMutation.isPending}
+        >
+          {deleteMutation.isPending ? t('settings.deleting') : t('settings.deleteOrganization')}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function SettingsPage() {
+  const { can } = usePermissions();
+  const canManageOrganizations = can('organizations.manage');
+  const [view, setView] = useUrlState(settingsUrlParams);
+  const toast = useToast();
+  const { t } = useI18n();
+  const workspaceSettings = useWorkspaceSettings();
+
+  const organizationsQuery = useQuery({
+    queryKey: queryKeys.organizations.list(false),
+    queryFn: ({ signal }) => getOrganizations(false, { signal }),
+    enabled: can('organizations.view'),
+  });
+
+  const organizations = organizationsQuery.data ?? [];
+  const sessionOrganizationId = getSessionOrganizationId();
+  const organization =
+    organizations.find((org) => org.id === view.org) ??
+    organizations.find((org) => org.id === sessionOrganizationId) ??
+    organizations[0] ??
+    null;
+  const tabs = settingsTabs.filter(
+    (tab) => canManageOrganizations || !organizationTabs.includes(tab),
+  );
+  const activeTab = tabs.includes(view.tab) ? view.tab : tabs[0];
+
+  const showSaved = (message: string) => toast.show({ title: message, variant: 'success' });
+
+  const settingsProps = organization
+    ? {
+        organization,
+        settings: workspaceSettings.settingsFor(organization.id),
+        onSave: async (patch: Partial<WorkspaceSettings>) => {
+          await workspaceSettings.saveSettings(organization.id, patch);
+        },
+        onSaved: showSaved,
+      }
+    : null;
+
+  return (
+    <section className="page">
+      <div className="roles-header">
+        <div>
+          <h1>{t('settings.title')}</h1>
+          <p>{t('settings.subtitle')}</p>
+        </div>
+        {organizations.length > 1 ? (
+          <Select
+            label={t('common.organization')}
+            value={organization?.id ?? ''}
+            options={organizations.map((org) => ({ label: org.name, value: org.id }))}
+            onChange={(event) => setView({ org: event.target.value })}
+          />
+        ) : null}
+      </div>
+
+      {organizationsQuery.error ? (
+        <Toast title={t('organizations.loadFailed')} variant="error">
+          <span>{errorMessage(organizationsQuery.error)}</span>
+        </Toast>
+      ) : null}
+
+      <div className="settings-tabs" role="tablist" aria-label={t('settings.sections')}>
+        {tabs.map((tab) => (
+          <button
+            key={tab}
+            type="button"
+            role="tab"
+            id={`settings-tab-${tab}`}
+            aria-selected={tab === activeTab}
+            aria-controls="settings-panel"
+            className={tab === activeTab ? 'settings-tab is-active' : 'settings-tab'}
+            onClick={() => setView({ tab })}
+          >
+            {t(tabLabelKeys[tab])}
+          </button>
+        ))}
+      </div>
+
+      <div
+        className="billing-card"
+        id="settings-panel"
+        role="tabpanel"
+        aria-labelledby={`settings-tab-${activeTab}`}
+      >
+        {!organization || !settingsProps ? (
+          <p className="settings-hint">
+            {organizationsQuery.isLoading
+              ? t('settings.loadingOrganization')
+              : t('settings.noOrganization')}
+          </p>
+        ) : workspaceSettings.error ? (
+          <Toast
+            title={t('settings.loadFailed')}
+            variant="error"
+            actions={
+              <Button
+                variant="secondary"
+                type="button"
+                onClick={() => void workspaceSettings.retry()}
+              >
+                {t('common.retry')}
+              </Button>
+            }
+          >
+            <span>{errorMessage(workspaceSettings.error)}</span>
+          </Toast>
+        ) : !workspaceSettings.isLoaded ? (
+          <p className="settings-hint">{t('settings.loading')}</p>
+        ) : (
+          // Keyed by organization so switching organizations starts from its saved values.
+          <div key={organization.id}>
+            {activeTab === 'general' ? (
+              <GeneralTab organization={organization} onSaved={showSaved} />
+            ) : null}
+            {activeTab === 'users' ? <DefaultRoleTab {...settingsProps} /> : null}
+            {activeTab === 'security' ? <PasswordPolicyTab {...settingsProps} /> : null}
+            {activeTab === 'billing' ? <BillingContactTab {...settingsProps} /> : null}
+            {activeTab === 'danger' ? (
+              <DangerZoneTab
+                organization={organization}
+                onDeleted={() => {
+                  setView({ org: '', tab: 'general' }, { replace: true });
+                  toast.show({
+                    title: t('organizations.deleted', { name: organization.name }),
+                    variant: 'success',
+                  });
+                }}
+              />
+            ) : null}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+import { Button, Modal } from '../components/ui';
+import { useI18n } from '../i18n/i18n';
+
+/**
+ * Asks before leaving while `when` is true: in-app navigation, including tab and organization
+ * switches that change the query string, shows a dialog; closing or reloading the tab uses the
+ * browser prompt. Being signed out is never blocked.
+ */
+export function UnsavedChangesGuard({ when }: { when: boolean }) {
+  const { t } = useI18n();
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      when &&
+      nextLocation.pathname !== '/login' &&
+      (currentLocation.pathname !== nextLocation.pathname ||
+        currentLocation.search !== nextLocation.search),
+  );
+
+  useEffect(() => {
+    if (!when) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [when]);
+
+  return (
+    <Modal
+      isOpen={blocker.state === 'blocked'}
+      title={t('unsaved.title')}
+      onClose={() => blocker.reset?.()}
+      actions={
+        <>
+          <Button variant="ghost" type="button" onClick={() => blocker.reset?.()}>
+            {t('unsaved.keepEditing')}
+          </Button>
+          <Button type="button" onClick={() => blocker.proceed?.()}>
+            {t('unsaved.discard')}
+          </Button>
+        </>
+      }
+    >
+      <p>{t('unsaved.body')}</p>
+    </Modal>
+  );
+}
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { apiRequest, type ApiCallOptions } from '../api/client';
+import { organizationWorkspaceSettingsSchema, type WorkspaceSettings } from './types';
+
+export const getWorkspaceSettings = (options?: ApiCallOptions) => {
+  return apiRequest('/api/workspace-settings', {
+    ...options,
+    schema: z.array(organizationWorkspaceSettingsSchema),
+  });
+};
+
+export const updateWorkspaceSettings = (organizationId: string, settings: WorkspaceSettings) => {
+  return apiRequest(`/api/workspace-settings/${organizationId}`, {
+    method: 'PUT',
+    body: settings,
+    schema: organizationWorkspaceSettingsSchema,
+  });
+};
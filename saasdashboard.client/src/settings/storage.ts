@@ -0,0 +1,27 @@
+import { createAdapterSlot } from '../storageAdapter';
+import { getWorkspaceSettings, updateWorkspaceSettings } from './api';
+import type { WorkspaceSettings } from './types';
+
+/** Where workspace settings live, keyed by organization id. */
+export type WorkspaceSettingsStorage = {
+  load: () => Promise<Record<string, WorkspaceSettings>>;
+  save: (organizationId: string, settings: WorkspaceSettings) => Promise<void>;
+};
+
+export const serverWorkspaceSettingsStorage: WorkspaceSettingsStorage = {
+  load: async () => {
+    const items = await getWorkspaceSettings();
+    return Object.fromEntries(
+      items.map(({ organizationId, ...settings }) => [organizationId, settings]),
+    );
+  },
+  save: async (organizationId, settings) => {
+    await updateWorkspaceSettings(organizationId, settings);
+  },
+};
+
+const slot = createAdapterSlot<WorkspaceSettingsStorage>(serverWorkspaceSettingsStorage);
+
+export const configureWorkspaceSettingsStorage = slot.configure;
+
+export const getWorkspaceSettingsStorage = slot.get;
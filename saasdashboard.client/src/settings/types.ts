@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(6).max(64),
+  requireUppercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+});
+
+export const workspaceSettingsSchema = z.object({
+  /** Role preselected when creating or importing users; empty means the first role. */
+  defaultRole: z.string(),
+  passwordPolicy: passwordPolicySchema,
+  billingEmail: z.string(),
+});
+
+/** The server lists every organization, with defaults for the ones that never saved settings. */
+export const organizationWorkspaceSettingsSchema = workspaceSettingsSchema.extend({
+  organizationId: z.string(),
+});
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+
+export type WorkspaceSettings = z.infer<typeof workspaceSettingsSchema>;
+
+/** What the server applies to organizations that never saved settings; also used until they load. */
+export const defaultWorkspaceSettings: WorkspaceSettings = {
+  defaultRole: '',
+  passwordPolicy: {
+    minLength: 6,
+    requireUppercase: false,
+    requireNumber: false,
+    requireSymbol: false,
+  },
+  billingEmail: '',
+};
@@ -0,0 +1,53 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { translate } from '../i18n/i18n';
+import { getWorkspaceSettingsStorage } from './storage';
+import { defaultWorkspaceSettings, type WorkspaceSettings } from './types';
+import { queryKeys } from '../api/queryKeys';
+
+const queryKey = queryKeys.workspaceSettings();
+
+/** Settings of every organization, with defaults filled in for the ones never configured. */
+export function useWorkspaceSettings() {
+  const queryClient = useQueryClient();
+
+  const settingsQuery = useQuery({
+    queryKey,
+    queryFn: () => getWorkspaceSettingsStorage().load(),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({
+      organizationId,
+      settings,
+    }: {
+      organizationId: string;
+      settings: WorkspaceSettings;
+    }) => getWorkspaceSettingsStorage().save(organizationId, settings),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const settings = settingsQuery.data;
+  const settingsFor = useCallback(
+    (organizationId: string): WorkspaceSettings =>
+      settings?.[organizationId] ?? defaultWorkspaceSettings,
+    [settings],
+  );
+
+  return {
+    settingsFor,
+    isLoaded: settingsQuery.isSuccess,
+    error: settingsQuery.error,
+    retry: () => settingsQuery.refetch(),
+    isSaving: saveMutation.isPending,
+    // The patch is merged into the loaded settings; before they load it would overwrite the
+    // organization's other settings with the defaults.
+    saveSettings: async (organizationId: string, patch: Partial<WorkspaceSettings>) => {
+      if (!settingsQuery.isSuccess) throw new Error(translate('settings.notLoaded'));
+      await saveMutation.mutateAsync({
+        organizationId,
+        settings: { ...settingsFor(organizationId), ...patch },
+      });
+    },
+  };
+}
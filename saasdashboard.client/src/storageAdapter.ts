@@ -0,0 +1,16 @@
+/**
+ * Persistence for one feature. Every method is async so a server-backed adapter can replace the
+ * localStorage one without touching the pages.
+ */
+export type StorageAdapter = Record<string, (...args: never[]) => Promise<unknown>>;
+
+/** Holds a feature's current adapter, starting from `fallback` until `configure` swaps it. */
+export const createAdapterSlot = <A extends StorageAdapter>(fallback: A) => {
+  let adapter = fallback;
+  return {
+    get: () => adapter,
+    configure: (next: A) => {
+      adapter = next;
+    },
+  };
+};
@@ -0,0 +1,129 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { SortDescriptor } from './components/ui';
+
+/**
+ * One search parameter: its value when absent or invalid, how to read it back from the URL,
+ * and how to write it. `parse` returns `undefined` to reject a value.
+ */
+export type UrlParam<T> = {
+  defaultValue: T;
+  parse(raw: string): T | undefined;
+  serialize(value: T): string;
+  /** Write the value even when it equals the default, for defaults that differ between users. */
+  keepDefault?: boolean;
+};
+
+type UrlParams = Record<string, UrlParam<unknown>>;
+
+export type UrlStateValues<P extends UrlParams> = {
+  [K in keyof P]: P[K] extends UrlParam<infer T> ? T : never;
+};
+
+export type UrlStateUpdate<P extends UrlParams> =
+  | Partial<UrlStateValues<P>>
+  | ((current: UrlStateValues<P>) => Partial<UrlStateValues<P>>);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const urlParam = {
+  string: (defaultValue = ''): UrlParam<string> => ({
+    defaultValue,
+    parse: (raw) => raw,
+    serialize: (value) => value,
+  }),
+  integer: (
+    defaultValue: number,
+    {
+      min = -Infinity,
+      max = Infinity,
+      allowed,
+    }: { min?: number; max?: number; allowed?: readonly number[] } = {},
+  ): UrlParam<number> => ({
+    defaultValue,
+    parse: (raw) => {
+      const value = Number(raw);
+      if (!Number.isInteger(value) || value < min || value > max) return undefined;
+      return allowed && !allowed.includes(value) ? undefined : value;
+    },
+    serialize: String,
+  }),
+  oneOf: <T extends string>(values: readonly T[], defaultValue: T): UrlParam<T> => ({
+    defaultValue,
+    parse: (raw) => values.find((value) => value === raw),
+    serialize: (value) => value,
+  }),
+  /** Calendar date as `yyyy-mm-dd`, the format `<input type="date">` reads and writes. */
+  date: (defaultValue = ''): UrlParam<string> => ({
+    defaultValue,
+    parse: (raw) =>
+      raw === '' || (DATE_PATTERN.test(raw) && !Number.isNaN(Date.parse(raw))) ? raw : undefined,
+    serialize: (value) => value,
+  }),
+  /** `key:asc` or `key:desc`; an empty value means the user explicitly cleared the sort. */
+  sort: (
+    keys: readonly string[],
+    defaultValue: SortDescriptor | null = null,
+  ): UrlParam<SortDescriptor | null> => ({
+    defaultValue,
+    parse: (raw) => {
+      if (raw === '') return null;
+      const [key, direction] = raw.split(':');
+      if (!keys.includes(key) || (direction !== 'asc' && direction !== 'desc')) return undefined;
+      return { key, direction };
+    },
+    serialize: (value) => (value ? `${value.key}:${value.direction}` : ''),
+  }),
+};
+
+const readState = <P extends UrlParams>(searchParams: URLSearchParams, params: P) =>
+  Object.fromEntries(
+    Object.entries(params).map(([name, param]) => {
+      const raw = searchParams.get(name);
+      const value = raw === null ? undefined : param.parse(raw);
+      return [name, value === undefined ? param.defaultValue : value];
+    }),
+  ) as UrlStateValues<P>;
+
+export const urlDefaults = <P extends UrlParams>(params: P) =>
+  Object.fromEntries(
+    Object.entries(params).map(([name, param]) => [name, param.defaultValue]),
+  ) as UrlStateValues<P>;
+
+/**
+ * Typed page state kept in the query string so views survive reloads and can be shared.
+ * Values equal to their default are left out of the URL unless the parameter sets `keepDefault`,
+ * parameters this hook does not know about are preserved, and back/forward navigation simply
+ * re-reads the URL.
+ *
+ * `params` must be stable: define it at module level or memoize it, since a new object on every
+ * render re-parses the URL.
+ */
+export function useUrlState<P extends UrlParams>(params: P) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const state = useMemo(() => readState(searchParams, params), [params, searchParams]);
+
+  const setState = useCallback(
+    (update: UrlStateUpdate<P>, { replace = false }: { replace?: boolean } = {}) =>
+      setSearchParams(
+        (current) => {
+          const patch = typeof update === 'function' ? update(readState(current, params)) : update;
+          const next = new URLSearchParams(current);
+          Object.entries(patch).forEach(([name, value]) => {
+            const param: UrlParam<unknown> | undefined = params[name];
+            if (!param || value === undefined) return;
+            const serialized = param.serialize(value);
+            const isDefault = serialized === param.serialize(param.defaultValue);
+            if (isDefault && !param.keepDefault) next.delete(name);
+            else next.set(name, serialized);
+          });
+          return next;
+        },
+        { replace },
+      ),
+    [params, setSearchParams],
+  );
+
+  return [state, setState] as const;
+}
@@ -0,0 +1,242 @@
+import { useMemo, useState } from 'react';
+import { errorMessage } from '../api/errors';
+import { Button, Modal, Select } from '../components/ui';
+import { useI18n, type MessageKey } from '../i18n/i18n';
+import type { Organization } from '../organizations/types';
+import { useWorkspaceSettings } from '../settings/useWorkspaceSettings';
+import {
+  applyBulkAction,
+  bulkActionLabelKeys,
+  planBulkAction,
+  runWithConcurrency,
+  type BulkAction,
+  type BulkRow,
+  type BulkRowStatus,
+} from './bulk';
+import type { User } from './types';
+
+const statusLabelKeys: Record<BulkRowStatus, MessageKey> = {
+  pending: 'bulk.status.pending',
+  running: 'bulk.status.running',
+  success: 'bulk.status.success',
+  failed: 'bulk.status.failed',
+  skipped: 'bulk.status.skipped',
+};
+
+const SUMMARY_PREVIEW = 5;
+
+type BulkActionDialogProps = {
+  action: BulkAction;
+  users: User[];
+  roleOptions: { label: string; value: string }[];
+  organizations: Organization[];
+  /** Called once after every row has settled, so the page can refresh its queries a single time. */
+  onFinished: () => void;
+  /** Receives the users that failed so the page can keep them selected for a retry. */
+  onClose: (failedUsers: User[]) => void;
+};
+
+export function BulkActionDialog({
+  action,
+  users,
+  roleOptions,
+  organizations,
+  onFinished,
+  onClose,
+}: BulkActionDialogProps) {
+  const { t } = useI18n();
+  const [phase, setPhase] = useState<'confirm' | 'running' | 'done'>('confirm');
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [role, setRole] = useState(roleOptions[0]?.value ?? '');
+  const [organizationId, setOrganizationId] = useState(organizations[0]?.id ?? '');
+  const [pickedTeamId, setTeamId] = useState('');
+  const { settingsFor } = useWorkspaceSettings();
+
+  const teamOptions = useMemo(
+    () =>
+      (organizations.find((org) => org.id === organizationId)?.teams ?? []).map((team) => ({
+        label: team.name,
+        value: team.id,
+      })),
+    [organizationId, organizations],
+  );
+  const teamId = teamOptions.some((option) => option.value === pickedTeamId)
+    ? pickedTeamId
+    : (teamOptions[0]?.value ?? '');
+
+  const target = { role, organizationId, teamId };
+  const plan = planBulkAction(action, users, target);
+  const affectedCount = plan.filter((row) => row.status === 'pending').length;
+  const isTargetMissing = (action === 'role' && !role) || (action === 'move' && !teamId);
+
+  const counts = rows.reduce<Record<BulkRowStatus, number>>(
+    (result, row) => ({ ...result, [row.status]: result[row.status] + 1 }),
+    { pending: 0, running: 0, success: 0, failed: 0, skipped: 0 },
+  );
+  const failedUsers = rows.filter((row) => row.status === 'failed').map((row) => row.user);
+
+  const updateRow = (index: number, patch: Partial<BulkRow>) =>
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const run = async () => {
+    setRows(plan);
+    setPhase('running');
+    await runWithConcurrency(plan, async (row, index) => {
+      if (row.status === 'skipped') return;
+      updateRow(index, { status: 'running' });
+      try {
+        const detail = await applyBulkAction(
+          action,
+          row.user,
+          target,
+          settingsFor(row.user.organizationId).passwordPolicy,
+        );
+        updateRow(index, { status: 'success', message: detail });
+      } catch (error) {
+        updateRow(index, { status: 'failed', message: errorMessage(error) });
+      }
+    });
+    setPhase('done');
+    onFinished();
+  };
+
+  const copyPasswords = () => {
+    const lines = rows
+      .filter((row) => row.status === 'success' && row.message)
+      .map((row) => `${row.user.username}\t${row.message}`);
+    void navigator.clipboard?.writeText(lines.join('\n'));
+  };
+
+  const renderSummary = () => {
+    const preview = plan.filter((row) => row.status === 'pending').slice(0, SUMMARY_PREVIEW);
+    const remaining = affectedCount - preview.length;
+    const skipped = users.length - affectedCount;
+    return (
+      <div className="users-bulk-summary">
+        <p>
+          {t(
+            action === 'delete'
+              ? 'bulk.willDelete'
+              : action === 'reset-password'
+                ? 'bulk.willResetPassword'
+                : 'bulk.willUpdate',
+            { count: affectedCount },
+          )}
+          {skipped > 0 ? t('bulk.willSkip', { count: skipped }) : ''}
+        </p>
+        {preview.length ? (
+          <ul>
+            {preview.map((row) => (
+              <li key={row.user.id}>{row.user.username}</li>
+            ))}
+            {remaining > 0 ? <li>{t('bulk.andMore', { count: remaining })}</li> : null}
+          </ul>
+        ) : null}
+      </div>
+    );
+  };
+
+  const actions =
+    phase === 'confirm' ? (
+      <>
+        <Button variant="ghost" type="button" onClick={() => onClose([])}>
+          {t('common.cancel')}
+        </Button>
+        <Button
+          type="button"
+          disabled={affectedCount === 0 || isTargetMissing}
+          onClick={() => void run()}
+        >
+          {t(bulkActionLabelKeys[action])}
+        </Button>
+      </>
+    ) : (
+      <>
+        {action === 'reset-password' && counts.success > 0 ? (
+          <Button variant="secondary" type="button" onClick={copyPasswords}>
+            {t('bulk.copyPasswords')}
+          </Button>
+        ) : null}
+        <Button type="button" disabled={phase === 'running'} onClick={() => onClose(failedUsers)}>
+          {failedUsers.length ? t('bulk.closeKeepFailed') : t('common.close')}
+        </Button>
+      </>
+    );
+
+  return (
+    <Modal
+      isOpen
+      title={t('bulk.title', { action: t(bulkActionLabelKeys[action]), count: users.length })}
+      onClose={() => {
+        if (phase === 'running') return;
+        onClose(phase === 'done' ? failedUsers : []);
+      }}
+      actions={actions}
+    >
+      {phase === 'confirm' ? (
+        <div className="users-form">
+          {action === 'role' ? (
+            <Select
+              label={t('bulk.newRole')}
+              value={role}
+              options={roleOptions}
+              onChange={(event) => setRole(event.target.value)}
+            />
+          ) : null}
+          {action === 'move' ? (
+            <>
+              <Select
+                label={t('common.organization')}
+                value={organizationId}
+                options={organizations.map((org) => ({ label: org.name, value: org.id }))}
+                onChange={(event) => setOrganizationId(event.target.value)}
+              />
+              <Select
+                label={t('common.team')}
+                value={teamId}
+                options={
+                  teamOptions.length ? teamOptions : [{ label: t('bulk.noTeams'), value: '' }]
+                }
+                disabled={!teamOptions.length}
+                onChange={(event) => setTeamId(event.target.value)}
+              />
+            </>
+          ) : null}
+          {renderSummary()}
+        </div>
+      ) : (
+        <div className="users-bulk-progress">
+          <p aria-live="polite">
+            {phase === 'running'
+              ? t('bulk.processing', {
+                  done: counts.success + counts.failed,
+                  total: affectedCount,
+                })
+              : t('bulk.result', {
+                  succeeded: counts.success,
+                  failed: counts.failed,
+                  skipped: counts.skipped,
+                })}
+          </p>
+          <ul className="users-bulk-rows">
+            {rows.map((row) => (
+              <li key={row.user.id} className={`users-bulk-row users-bulk-row--${row.status}`}>
+                <span>{row.user.username}</span>
+                <span>{t(statusLabelKeys[row.status])}</span>
+                {row.message ? (
+                  <span className="users-bulk-row-message">
+                    {action === 'reset-password' && row.status === 'success' ? (
+                      <code>{row.message}</code>
+                    ) : (
+                      row.message
+                    )}
+                  </span>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Modal>
+  );
+}
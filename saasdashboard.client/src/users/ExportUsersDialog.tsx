@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { isAbortError, saveBlob } from '../api/client';
+import { errorMessage } from '../api/errors';
+import { Button, Modal, Select } from '../components/ui';
+import { useI18n } from '../i18n/i18n';
+import type { UsersQuery } from './api';
+import {
+  buildUsersExport,
+  defaultExportColumnKeys,
+  exportColumns,
+  fetchAllUsers,
+  type ExportFormat,
+} from './exportUsers';
+import type { User } from './types';
+
+const formatOptions = [
+  { label: 'CSV (.csv)', value: 'csv' },
+  { label: 'Excel (.xlsx)', value: 'xlsx' },
+];
+
+type ExportUsersDialogProps = {
+  filters: Omit<UsersQuery, 'page' | 'pageSize'>;
+  /** Matching user count for the active filters, shown before the export starts. */
+  filteredCount: number;
+  selectedUsers: User[];
+  onClose: () => void;
+};
+
+export function ExportUsersDialog({
+  filters,
+  filteredCount,
+  selectedUsers,
+  onClose,
+}: ExportUsersDialogProps) {
+  const { t } = useI18n();
+  const [scope, setScope] = useState<'filtered' | 'selected'>(
+    selectedUsers.length ? 'selected' : 'filtered',
+  );
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columnKeys, setColumnKeys] = useState<string[]>(defaultExportColumnKeys);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const isExporting = progress !== null;
+
+  const toggleColumn = (key: string) =>
+    setColumnKeys((current) =>
+      current.includes(key) ? current.filter((item) => item !== key) : [...current, key],
+    );
+
+  const runExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    try {
+      let users = selectedUsers;
+      if (scope === 'filtered') {
+        setProgress({ loaded: 0, total: filteredCount });
+        users = await fetchAllUsers(filters, {
+          signal: controller.signal,
+          onProgress: (loaded, total) => setProgress({ loaded, total }),
+        });
+      }
+      const blob = buildUsersExport(users, columnKeys, format);
+      saveBlob({ blob, filename: `users-${new Date().toISOString().slice(0, 10)}.${format}` });
+      onClose();
+    } catch (err) {
+      if (!controller.signal.aborted && !isAbortError(err)) {
+        setError(errorMessage(err));
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const percent = progress?.total ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <Modal
+      isOpen
+      title={t('export.title')}
+      onClose={() => {
+        controllerRef.current?.abort();
+        onClose();
+      }}
+      actions={
+        isExporting ? (
+          <Button variant="ghost" type="button" onClick={() => controllerRef.current?.abort()}>
+            {t('export.cancel')}
+          </Button>
+        ) : (
+          <>
+            <Button variant="ghost" type="button" onClick={onClose}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              type="button"
+              disabled={columnKeys.length === 0}
+              onClick={() => void runExport()}
+            >
+              {t('export.submit')}
+            </Button>
+          </>
+        )
+      }
+    >
+      <div className="users-form">
+        <fieldset className="users-export-fieldset" disabled={isExporting}>
+          <legend className="ui-label">{t('export.rows')}</legend>
+          <label>
+            <input
+              type="radio"
+              name="export-scope"
+              checked={scope === 'filtered'}
+              onChange={() => setScope('filtered')}
+            />
+            {t('export.filtered', { count: filteredCount })}
+          </label>
+          <label>
+            <input
+              type="radio"
+              name="export-scope"
+              checked={scope === 'selected'}
+              disabled={selectedUsers.length === 0}
+              onChange={() => setScope('selected')}
+            />
+            {t('export.selected', { count: selectedUsers.length })}
+          </label>
+        </fieldset>
+
+        <Select
+          label={t('export.format')}
+          value={format}
+          options={formatOptions}
+          disabled={isExporting}
+          onChange={(event) => setFormat(event.target.value as ExportFormat)}
+        />
+
+        <fieldset className="users-export-fieldset users-export-columns" disabled={isExporting}>
+          <legend className="ui-label">{t('table.columns')}</legend>
+          {exportColumns.map((column) => (
+            <label key={column.key}>
+              <input
+                type="checkbox"
+                checked={columnKeys.includes(column.key)}
+                onChange={() => toggleColumn(column.key)}
+              />
+              {t(column.labelKey)}
+            </label>
+          ))}
+        </fieldset>
+
+        {progress ? (
+          <div className="ui-toast-progress" aria-live="polite">
+            <progress max={100} value={percent} aria-label={t('export.progressLabel')} />
+            <span>{t('export.progress', progress)}</span>
+          </div>
+        ) : null}
+        {error ? <p className="form-error">{error}</p> : null}
+      </div>
+    </Modal>
+  );
+}
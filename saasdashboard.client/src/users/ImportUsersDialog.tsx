@@ -0,0 +1,288 @@
+import { useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { saveBlob } from '../api/client';
+import { errorMessage } from '../api/errors';
+import { Button, Modal, Select, Table } from '../components/ui';
+import { parseCsv } from '../csv';
+import { useI18n } from '../i18n/i18n';
+import type { Organization } from '../organizations/types';
+import type { Role } from '../roles/types';
+import { useWorkspaceSettings } from '../settings/useWorkspaceSettings';
+import { createUser } from './api';
+import { runInBatches } from './bulk';
+import {
+  buildErrorReport,
+  guessMapping,
+  importFields,
+  MAX_IMPORT_ROWS,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportRow,
+} from './importUsers';
+
+type ImportStatus = { state: 'success' } | { state: 'failed'; error: string };
+
+type ImportUsersDialogProps = {
+  organizations: Organization[];
+  roles: Role[];
+  /** Called once after the last batch so the page refreshes its queries a single time. */
+  onFinished: () => void;
+  onClose: () => void;
+};
+
+export function ImportUsersDialog({
+  organizations,
+  roles,
+  onFinished,
+  onClose,
+}: ImportUsersDialogProps) {
+  const { t } = useI18n();
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [phase, setPhase] = useState<'preview' | 'importing' | 'done'>('preview');
+  const [statuses, setStatuses] = useState<Map<number, ImportStatus>>(() => new Map());
+  const controllerRef = useRef<AbortController | null>(null);
+  const { settingsFor } = useWorkspaceSettings();
+
+  const headers = useMemo(() => csvRows[0] ?? [], [csvRows]);
+  const importRows = useMemo(
+    () =>
+      mapping
+        ? validateImportRows(csvRows.slice(1), mapping, organizations, roles, settingsFor)
+        : [],
+    [csvRows, mapping, organizations, roles, settingsFor],
+  );
+  const validRows = importRows.filter((row) => row.payload);
+  const invalidRows = importRows.filter((row) => !row.payload);
+  const missingFields = mapping
+    ? importFields.filter((field) => mapping[field.key] === null).map((field) => t(field.labelKey))
+    : [];
+
+  const succeeded = [...statuses.values()].filter((status) => status.state === 'success').length;
+  const failures = [
+    ...invalidRows.map((row) => ({ row, error: row.errors.join(' ') })),
+    ...importRows.flatMap((row) => {
+      const status = statuses.get(row.line);
+      return status?.state === 'failed' ? [{ row, error: status.error }] : [];
+    }),
+  ].sort((a, b) => a.row.line - b.row.line);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setFileError(null);
+    setStatuses(new Map());
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setFileError(t('import.needsRows'));
+        return;
+      }
+      if (rows.length - 1 > MAX_IMPORT_ROWS) {
+        setFileError(t('import.tooManyRows', { max: MAX_IMPORT_ROWS }));
+        return;
+      }
+      setFileName(file.name);
+      setCsvRows(rows);
+      setMapping(guessMapping(rows[0]));
+    } catch {
+      setFileError(t('import.unreadable'));
+    }
+  };
+
+  const runImport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPhase('importing');
+    await runInBatches(
+      validRows,
+      async (row: ImportRow) => {
+        try {
+          await createUser(row.payload!);
+          setStatuses((current) => new Map(current).set(row.line, { state: 'success' }));
+        } catch (error) {
+          setStatuses((current) =>
+            new Map(current).set(row.line, { state: 'failed', error: errorMessage(error) }),
+          );
+        }
+      },
+      { signal: controller.signal },
+    );
+    controllerRef.current = null;
+    setPhase('done');
+    onFinished();
+  };
+
+  const downloadReport = () => {
+    saveBlob({
+      blob: buildErrorReport(headers, failures),
+      filename: `${fileName.replace(/\.csv$/i, '') || 'users'}-import-errors.csv`,
+    });
+  };
+
+  const columnOptions = [
+    { label: t('import.notMapped'), value: '' },
+    ...headers.map((header, index) => ({
+      label: header || t('import.column', { number: index + 1 }),
+      value: String(index),
+    })),
+  ];
+
+  const previewColumns = [
+    { key: 'line', header: t('import.row'), render: (row: ImportRow) => row.line },
+    ...importFields
+      .filter((field) => field.key !== 'password')
+      .map((field) => ({
+        key: field.key,
+        header: t(field.labelKey),
+        render: (row: ImportRow) => {
+          const column = mapping?.[field.key];
+          return column === null || column === undefined ? '' : (row.values[column] ?? '');
+        },
+      })),
+    {
+      key: 'status',
+      header: t('import.status'),
+      render: (row: ImportRow) => {
+        const status = statuses.get(row.line);
+        // Long rows are truncated once the preview is windowed, so keep the full reason in a tooltip.
+        if (!row.payload) {
+          const message = row.errors.join(' ');
+          return (
+            <span className="form-error" title={message}>
+              {message}
+            </span>
+          );
+        }
+        if (status?.state === 'failed') {
+          return (
+            <span className="form-error" title={status.error}>
+              {status.error}
+            </span>
+          );
+        }
+        if (status?.state === 'success') return t('import.imported');
+        return phase === 'preview' ? t('import.ready') : t('import.waiting');
+      },
+    },
+  ];
+
+  const isBusy = phase === 'importing';
+  const visibleRows = showErrorsOnly
+    ? importRows.filter((row) => !row.payload || statuses.get(row.line)?.state === 'failed')
+    : importRows;
+
+  return (
+    <Modal
+      isOpen
+      size="wide"
+      title={t('import.title')}
+      onClose={() => {
+        if (isBusy) return;
+        onClose();
+      }}
+      actions={
+        <>
+          {failures.length && phase !== 'importing' ? (
+            <Button variant="secondary" type="button" onClick={downloadReport}>
+              {t('import.downloadReport')}
+            </Button>
+          ) : null}
+          {phase === 'importing' ? (
+            <Button variant="ghost" type="button" onClick={() => controllerRef.current?.abort()}>
+              {t('import.stop')}
+            </Button>
+          ) : null}
+          {phase === 'preview' ? (
+            <Button
+              type="button"
+              disabled={!validRows.length || missingFields.length > 0}
+              onClick={() => void runImport()}
+            >
+              {t('import.submit', { count: validRows.length })}
+            </Button>
+          ) : (
+            <Button type="button" disabled={isBusy} onClick={onClose}>
+              {t('common.close')}
+            </Button>
+          )}
+        </>
+      }
+    >
+      {phase === 'preview' ? (
+        <div className="users-import-file">
+          <label className="ui-field">
+            <span className="ui-label">{t('import.file')}</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(event) => void handleFile(event)}
+            />
+          </label>
+          <p className="users-import-hint">{t('import.hint')}</p>
+          {fileError ? <p className="form-error">{fileError}</p> : null}
+        </div>
+      ) : null}
+
+      {mapping && phase === 'preview' ? (
+        <div className="users-import-mapping">
+          {importFields.map((field) => (
+            <Select
+              key={field.key}
+              label={t(field.labelKey)}
+              value={mapping[field.key] === null ? '' : String(mapping[field.key])}
+              options={columnOptions}
+              onChange={(event) =>
+                setMapping({
+                  ...mapping,
+                  [field.key]: event.target.value === '' ? null : Number(event.target.value),
+                })
+              }
+            />
+          ))}
+        </div>
+      ) : null}
+
+      {mapping ? (
+        <>
+          <div className="users-summary">
+            <span aria-live="polite">
+              {phase === 'preview'
+                ? t('import.previewSummary', {
+                    ready: validRows.length,
+                    invalid: invalidRows.length,
+                  })
+                : t('import.progressSummary', {
+                    imported: succeeded,
+                    failed: failures.length,
+                    busy: String(isBusy),
+                  })}
+              {missingFields.length
+                ? t('import.mapMissing', { fields: missingFields.join(', ') })
+                : ''}
+            </span>
+            <label className="users-import-toggle">
+              <input
+                type="checkbox"
+                checked={showErrorsOnly}
+                onChange={(event) => setShowErrorsOnly(event.target.checked)}
+              />
+              {t('import.errorsOnly')}
+            </label>
+          </div>
+          <Table
+            columns={previewColumns}
+            data={visibleRows}
+            rowKey={(row) => String(row.line)}
+            maxHeight={360}
+            rowHeight={44}
+            emptyMessage={t('import.noRows')}
+          />
+        </>
+      ) : null}
+    </Modal>
+  );
+}
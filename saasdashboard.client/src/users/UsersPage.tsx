@@ -1,59 +1,92 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm, useWatch } from 'react-hook-form';
-import { ApiError } from '../api/client';
-import { Button, Input, Modal, Select, Table, Toast } from '../components/ui';
-import { createUser, deleteUser, getUsers, updateUser } from './api';
-import type { User, UserRole } from './types';
+import { conflictingVersion } from '../api/concurrency';
+import { errorMessage } from '../api/errors';
+import { applyOptimistic, writeCache, type CacheUpdate, type OptimisticChange } from '../api/optimistic';
+import { queryKeys } from '../api/queryKeys';
+import { useUndoableMutation } from '../api/useUndoableMutation';
+import {
+  Button,
+  chooseValue,
+  ConflictDialog,
+  diffField,
+  Input,
+  Modal,
+  Select,
+  Table,
+  Toast,
+  useConfirm,
+  type ConflictChoices,
+  type TableColumn,
+} from '../components/ui';
+import { createUser, deleteUser, getUser, getUsers, updateUser, type UserSortKey, type UsersQuery } from './api';
+import { BulkActionDialog } from './BulkActionDialog';
+import { ExportUsersDialog } from './ExportUsersDialog';
+import { ImportUsersDialog } from './ImportUsersDialog';
+import { bulkActionLabelKeys, type BulkAction } from './bulk';
+import {
+  createSchema,
+  editSchema,
+  withPasswordPolicy,
+  type CreateFormValues,
+  type EditFormValues,
+  type UserFormValues,
+} from './schemas';
+import { insertCachedUser, patchCachedUser, removeCachedUser, replaceCachedUser } from './cache';
+import { userSchema, type User, type UserRole } from './types';
 import { getOrganizations } from '../organizations/api';
+import { countCachedMembers } from '../organizations/cache';
 import type { Organization } from '../organizations/types';
 import { getRoles } from '../roles/api';
+import { usePermissions } from '../auth/permissions';
+import { RequirePermission } from '../auth/RequirePermission';
+import { usePageCommand, useShortcut } from '../commands/useShortcut';
+import { SavedViewsBar } from '../savedViews/SavedViewsBar';
+import { urlDefaults, urlParam, useUrlState } from '../urlState';
+import { useI18n } from '../i18n/i18n';
+import { pageSizes, usePageSizeParam } from '../preferences/preferences';
+import type { PasswordPolicy } from '../settings/types';
+import { useWorkspaceSettings } from '../settings/useWorkspaceSettings';
+
+const usersUrlParams = {
+  search: urlParam.string(),
+  role: urlParam.string('all'),
+  organization: urlParam.string('all'),
+  team: urlParam.string('all'),
+  page: urlParam.integer(1, { min: 1 }),
+  sort: urlParam.sort(['username', 'role', 'organization', 'team']),
+  /** A user to open in the edit dialog; search results link here. */
+  user: urlParam.string(),
+};
 
-const roleOptionsDefault = [{ label: 'All roles', value: 'all' }];
-
-const pageSizeOptions = [
-  { label: '10 / page', value: '10' },
-  { label: '20 / page', value: '20' },
-  { label: '50 / page', value: '50' },
-];
-
-const usernameSchema = z
-  .string()
-  .trim()
-  .min(3, 'Username must be at least 3 characters.')
-  .max(32, 'Username must be at most 32 characters.')
-  .regex(/^[a-zA-Z0-9._-]+$/, 'Use letters, numbers, dots, dashes, or underscores.');
-
-const roleSchema = z.string().min(1, 'Role is required.');
-const organizationSchema = z.string().min(1, 'Organization is required.');
-const teamSchema = z.string().min(1, 'Team is required.');
-
-const passwordOptionalSchema = z.preprocess(
-  (value) => (value === '' ? undefined : value),
-  z.string().min(6, 'Password must be at least 6 characters.').max(64, 'Password is too long.').optional(),
-);
-
-const createSchema = z.object({
-  username: usernameSchema,
-  role: roleSchema,
-  organizationId: organizationSchema,
-  teamId: teamSchema,
-  password: z.string().min(6, 'Password must be at least 6 characters.').max(64, 'Password is too long.'),
-});
+/** An edit the server refused because `current` was saved after `user` was loaded for editing. */
+type EditConflict = {
+  user: User;
+  payload: EditFormValues;
+  current: User;
+};
 
-const editSchema = z.object({
-  username: usernameSchema,
-  role: roleSchema,
-  organizationId: organizationSchema,
-  teamId: teamSchema,
-  password: passwordOptionalSchema,
+type Placement = Pick<User, 'organizationId' | 'organizationName' | 'teamId' | 'teamName'>;
+
+// A team only exists within its organization, so the two are compared and picked together.
+const placementField = (placement: Placement) => ({
+  id: `${placement.organizationId}/${placement.teamId}`,
+  name: `${placement.organizationName} / ${placement.teamName}`,
 });
 
-type CreateFormValues = z.infer<typeof createSchema>;
-type EditFormValues = z.infer<typeof editSchema>;
-type UserFormValues = CreateFormValues | EditFormValues;
+const mergeEdit = ({ payload, current }: EditConflict, choices: ConflictChoices): EditFormValues => ({
+  ...payload,
+  username: chooseValue(choices, 'username', payload.username, current.username),
+  role: chooseValue(choices, 'role', payload.role, current.role),
+  ...chooseValue(
+    choices,
+    'placement',
+    { organizationId: payload.organizationId, teamId: payload.teamId },
+    { organizationId: current.organizationId, teamId: current.teamId },
+  ),
+});
 
 type UserFormProps = {
   mode: 'create' | 'edit';
@@ -62,11 +95,25 @@ type UserFormProps = {
   formError?: string | null;
   roleOptions: { label: string; value: string }[];
   organizations: Organization[];
+  passwordPolicyFor: (organizationId: string) => PasswordPolicy;
   onSubmit: (values: UserFormValues) => void;
 };
 
-function UserForm({ mode, defaultValues, isSaving, formError, roleOptions, organizations, onSubmit }: UserFormProps) {
-  const schema = mode === 'create' ? createSchema : editSchema;
+function UserForm({
+  mode,
+  defaultValues,
+  isSaving,
+  formError,
+  roleOptions,
+  organizations,
+  passwordPolicyFor,
+  onSubmit,
+}: UserFormProps) {
+  const { t } = useI18n();
+  const schema =
+    mode === 'create'
+      ? withPasswordPolicy(createSchema, passwordPolicyFor)
+      : withPasswordPolicy(editSchema, passwordPolicyFor);
   const formId = `user-form-${mode}`;
   const {
     control,
@@ -111,40 +158,40 @@ function UserForm({ mode, defaultValues, isSaving, formError, roleOptions, organ
 
   const isBusy = isSubmitting || isSaving;
   const hasTeams = teamOptions.length > 0;
-  const teamSelectOptions = hasTeams ? teamOptions : [{ label: 'No teams available', value: '' }];
+  const teamSelectOptions = hasTeams ? teamOptions : [{ label: t('users.noTeams'), value: '' }];
 
   return (
     <form id={formId} className="users-form" onSubmit={handleSubmit(onSubmit)}>
       <Input
-        label="Username"
-        placeholder="jane.doe"
+        label={t('common.username')}
+        placeholder={t('users.usernamePlaceholder')}
         error={errors.username?.message}
         {...register('username')}
       />
       {formError ? <p className="form-error users-form-error">{formError}</p> : null}
       <Select
-        label="Role"
+        label={t('common.role')}
         options={roleOptions.filter((option) => option.value !== 'all')}
         error={errors.role?.message}
         {...register('role')}
       />
       <Select
-        label="Organization"
+        label={t('common.organization')}
         options={organizations.map((org) => ({ label: org.name, value: org.id }))}
         error={errors.organizationId?.message}
         {...register('organizationId')}
       />
       <Select
-        label="Team"
+        label={t('common.team')}
         options={teamSelectOptions}
         error={errors.teamId?.message}
-        helperText={hasTeams ? undefined : 'Create a team for this organization first.'}
+        helperText={hasTeams ? undefined : t('users.createTeamFirst')}
         disabled={!hasTeams}
         {...register('teamId')}
       />
       <Input
-        label={mode === 'create' ? 'Password' : 'Reset password'}
-        helperText={mode === 'create' ? undefined : 'Leave blank to keep current password.'}
+        label={mode === 'create' ? t('common.password') : t('users.resetPassword')}
+        helperText={mode === 'create' ? undefined : t('users.keepPassword')}
         error={errors.password?.message}
         type="password"
         autoComplete="new-password"
@@ -152,53 +199,98 @@ function UserForm({ mode, defaultValues, isSaving, formError, roleOptions, organ
       />
       <div className="users-form-actions">
         <Button type="submit" disabled={isBusy}>
-          {isBusy ? 'Saving…' : mode === 'create' ? 'Create user' : 'Save changes'}
+          {isBusy
+            ? t('common.saving')
+            : mode === 'create'
+              ? t('users.create')
+              : t('users.saveChanges')}
         </Button>
       </div>
     </form>
   );
 }
 
-const parseError = (error: unknown) => {
-  if (error instanceof ApiError) {
-    const message = (error.payload as { message?: string } | undefined)?.message;
-    return message ?? `Request failed (${error.status}).`;
-  }
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return 'Something went wrong.';
-};
-
 export function UsersPage() {
   const queryClient = useQueryClient();
-  const [searchInput, setSearchInput] = useState('');
-  const [search, setSearch] = useState('');
-  const [roleFilter, setRoleFilter] = useState<'all' | string>('all');
-  const [organizationFilter, setOrganizationFilter] = useState<'all' | string>('all');
-  const [teamFilter, setTeamFilter] = useState<'all' | string>('all');
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(10);
-  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const { can } = usePermissions();
+  const canManageUsers = can('users.manage');
+  const { t } = useI18n();
+  const confirm = useConfirm();
+  const pageSizeParam = usePageSizeParam();
+  const urlParams = useMemo(() => ({ ...usersUrlParams, pageSize: pageSizeParam }), [pageSizeParam]);
+  const [filters, setFilters] = useUrlState(urlParams);
+  const {
+    search,
+    role: roleFilter,
+    organization: organizationFilter,
+    team: teamFilter,
+    page,
+    pageSize,
+    sort,
+    user: linkedUserId,
+  } = filters;
+  const viewFilters = useMemo(
+    () => ({
+      search,
+      role: roleFilter,
+      organization: organizationFilter,
+      team: teamFilter,
+      pageSize,
+      sort,
+    }),
+    [organizationFilter, pageSize, roleFilter, search, sort, teamFilter],
+  );
+  const applyView = useCallback(
+    (saved: Record<string, unknown>, { replace }: { replace: boolean }) =>
+      setFilters({ ...urlDefaults(urlParams), ...saved, page: 1 }, { replace }),
+    [setFilters, urlParams],
+  );
+  const [searchInput, setSearchInput] = useState(search);
+  const [syncedSearch, setSyncedSearch] = useState(search);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [openedLinkedUserId, setOpenedLinkedUserId] = useState('');
+  const [editConflict, setEditConflict] = useState<EditConflict | null>(null);
   const [createError, setCreateError] = useState<string | null>(null);
   const [updateError, setUpdateError] = useState<string | null>(null);
+  const [selectedUsers, setSelectedUsers] = useState<Map<string, User>>(() => new Map());
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const organizationsQuery = useQuery({
-    queryKey: ['organizations', 'withTeams'],
-    queryFn: () => getOrganizations(true),
+    queryKey: queryKeys.organizations.list(true),
+    queryFn: ({ signal }) => getOrganizations(true, { signal }),
   });
   const rolesQuery = useQuery({
-    queryKey: ['roles'],
-    queryFn: getRoles,
+    queryKey: queryKeys.roles.list(),
+    queryFn: ({ signal }) => getRoles({ signal }),
+  });
+
+  const linkedUserQuery = useQuery({
+    queryKey: queryKeys.users.detail(linkedUserId),
+    queryFn: ({ signal }) => getUser(linkedUserId, { signal }),
+    enabled: canManageUsers && linkedUserId !== '',
   });
 
+  // Open a linked user once it loads, including when a search result links here while the page is open.
+  const linkedUser = linkedUserQuery.data;
+  const loadedLinkedUserId = linkedUser?.id === linkedUserId ? linkedUserId : '';
+  if (loadedLinkedUserId !== openedLinkedUserId) {
+    setOpenedLinkedUserId(loadedLinkedUserId);
+    if (linkedUser && loadedLinkedUserId) setEditingUser(linkedUser);
+  }
+
   const organizations = organizationsQuery.data ?? [];
   const roles = rolesQuery.data ?? [];
   const defaultOrganizationId = organizations[0]?.id ?? '';
   const defaultTeamId = organizations[0]?.teams?.[0]?.id ?? '';
-  const defaultRoleName = roles[0]?.name ?? 'User';
+  const { settingsFor } = useWorkspaceSettings();
+  const configuredRole = settingsFor(defaultOrganizationId).defaultRole;
+  const defaultRoleName = roles.some((role) => role.name === configuredRole)
+    ? configuredRole
+    : (roles[0]?.name ?? 'User');
+  const passwordPolicyFor = (organizationId: string) => settingsFor(organizationId).passwordPolicy;
 
   const createDefaultValues = useMemo<UserFormValues>(
     () => ({
@@ -221,20 +313,27 @@ export function UsersPage() {
     };
   }, [editingUser]);
 
+  // Back/forward navigation changes the URL underneath the search box.
+  if (syncedSearch !== search) {
+    setSyncedSearch(search);
+    if (searchInput.trim() !== search) setSearchInput(search);
+  }
+
   useEffect(() => {
+    const next = searchInput.trim();
+    if (next === search) return;
     const handle = window.setTimeout(() => {
-      setSearch(searchInput.trim());
+      setFilters({ search: next, page: 1 }, { replace: true });
     }, 400);
     return () => window.clearTimeout(handle);
-  }, [searchInput]);
-
-  useEffect(() => {
-    setPage(1);
-  }, [search, roleFilter, pageSize, organizationFilter, teamFilter]);
+  }, [search, searchInput, setFilters]);
 
   const organizationOptions = useMemo(
-    () => [{ label: 'All organizations', value: 'all' }, ...organizations.map((org) => ({ label: org.name, value: org.id }))],
-    [organizations],
+    () => [
+      { label: t('users.allOrganizations'), value: 'all' },
+      ...organizations.map((org) => ({ label: org.name, value: org.id })),
+    ],
+    [organizations, t],
   );
 
   const teamOptions = useMemo(() => {
@@ -242,94 +341,184 @@ export function UsersPage() {
       const allTeams = organizations.flatMap((org) =>
         org.teams?.map((team) => ({ label: `${org.name} / ${team.name}`, value: team.id })) ?? [],
       );
-      return [{ label: 'All teams', value: 'all' }, ...allTeams];
+      return [{ label: t('users.allTeams'), value: 'all' }, ...allTeams];
     }
 
     const org = organizations.find((item) => item.id === organizationFilter);
     const teams = org?.teams?.map((team) => ({ label: team.name, value: team.id })) ?? [];
-    return [{ label: 'All teams', value: 'all' }, ...teams];
-  }, [organizationFilter, organizations]);
+    return [{ label: t('users.allTeams'), value: 'all' }, ...teams];
+  }, [organizationFilter, organizations, t]);
 
   const roleOptions = useMemo(() => {
     const roleItems = roles.map((role) => ({ label: role.name, value: role.name }));
-    return [...roleOptionsDefault, ...roleItems];
-  }, [roles]);
+    return [{ label: t('users.allRoles'), value: 'all' }, ...roleItems];
+  }, [roles, t]);
 
   useEffect(() => {
-    if (teamFilter === 'all') return;
+    if (teamFilter === 'all' || !organizationsQuery.data) return;
     if (!teamOptions.some((option) => option.value === teamFilter)) {
-      setTeamFilter('all');
+      setFilters({ team: 'all' }, { replace: true });
     }
-  }, [teamFilter, teamOptions]);
+  }, [organizationsQuery.data, setFilters, teamFilter, teamOptions]);
 
-  const queryKey = useMemo(
-    () => [
-      'users',
-      {
-        page,
-        pageSize,
-        search,
-        role: roleFilter,
-        organizationId: organizationFilter,
-        teamId: teamFilter,
-      },
-    ],
-    [page, pageSize, search, roleFilter, organizationFilter, teamFilter],
+  const usersRequest = useMemo<UsersQuery>(
+    () => ({
+      page,
+      pageSize,
+      search: search || undefined,
+      role: roleFilter === 'all' ? undefined : roleFilter,
+      organizationId: organizationFilter === 'all' ? undefined : organizationFilter,
+      teamId: teamFilter === 'all' ? undefined : teamFilter,
+      sortBy: sort?.key as UserSortKey | undefined,
+      sortDirection: sort?.direction,
+    }),
+    [page, pageSize, search, roleFilter, organizationFilter, teamFilter, sort],
   );
 
   const usersQuery = useQuery({
-    queryKey,
-    queryFn: () =>
-      getUsers({
-        page,
-        pageSize,
-        search: search || undefined,
-        role: roleFilter === 'all' ? undefined : roleFilter,
-        organizationId: organizationFilter === 'all' ? undefined : organizationFilter,
-        teamId: teamFilter === 'all' ? undefined : teamFilter,
-      }),
+    queryKey: queryKeys.users.list(usersRequest),
+    queryFn: ({ signal }) => getUsers(usersRequest, { signal }),
     placeholderData: (previous) => previous,
   });
 
+  // Other filters and pages may now list the user differently; they refetch when next shown.
+  const markUsersStale = () => {
+    void queryClient.invalidateQueries({ queryKey: queryKeys.users.all, refetchType: 'none' });
+    void queryClient.invalidateQueries({
+      queryKey: queryKeys.organizations.all,
+      refetchType: 'none',
+    });
+  };
+
   const createMutation = useMutation({
     mutationFn: createUser,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['users'] });
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+    onSuccess: (user) => {
+      writeCache(queryClient, [
+        insertCachedUser(queryKeys.users.list(usersRequest), user),
+        countCachedMembers(user, 1),
+      ]);
+      markUsersStale();
       setIsCreateOpen(false);
       setCreateError(null);
     },
   });
 
-  const updateMutation = useMutation({
-    mutationFn: ({ id, payload }: { id: string; payload: EditFormValues }) => updateUser(id, payload),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['users'] });
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
-      setEditingUser(null);
-      setUpdateError(null);
+  const closeEdit = () => {
+    setEditingUser(null);
+    setUpdateError(null);
+    if (linkedUserId) setFilters({ user: '' }, { replace: true });
+  };
+
+  const updateMutation = useMutation<
+    User,
+    unknown,
+    { user: User; payload: EditFormValues },
+    OptimisticChange
+  >({
+    mutationFn: ({ user, payload }) => updateUser(user.id, payload, user.version),
+    onMutate: ({ user, payload }) => {
+      const organization = organizations.find((item) => item.id === payload.organizationId);
+      const team = organization?.teams?.find((item) => item.id === payload.teamId);
+      const updates: CacheUpdate[] = [
+        patchCachedUser(user.id, (cached) => ({
+          ...cached,
+          username: payload.username,
+          role: payload.role,
+          organizationId: payload.organizationId,
+          organizationName: organization?.name ?? cached.organizationName,
+          teamId: payload.teamId,
+          teamName: team?.name ?? cached.teamName,
+        })),
+      ];
+      if (user.organizationId !== payload.organizationId || user.teamId !== payload.teamId) {
+        updates.push(countCachedMembers(user, -1), countCachedMembers(payload, 1));
+      }
+      return applyOptimistic(queryClient, updates);
     },
+    onSuccess: (user, _variables, change) => {
+      change.settle();
+      writeCache(queryClient, [replaceCachedUser(user)]);
+      markUsersStale();
+      closeEdit();
+    },
+    onError: (_error, _variables, change) => change?.rollback(),
   });
 
-  const deleteMutation = useMutation({
-    mutationFn: deleteUser,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['users'] });
-      queryClient.invalidateQueries({ queryKey: ['organizations'] });
-    },
-    onError: (error) => setToastMessage(parseError(error)),
+  // Saving from the conflict dialog goes against the record it showed, so a newer save conflicts again.
+  const saveEdit = async (user: User, payload: EditFormValues) => {
+    setUpdateError(null);
+    try {
+      await updateMutation.mutateAsync({ user, payload });
+      setEditConflict(null);
+    } catch (error) {
+      const current = conflictingVersion(error, userSchema);
+      if (current) {
+        writeCache(queryClient, [replaceCachedUser(current)]);
+        setEditConflict({ user, payload, current });
+        return;
+      }
+      setEditConflict(null);
+      setUpdateError(errorMessage(error));
+    }
+  };
+
+  const conflictFields = ({ user, payload, current }: EditConflict) => {
+    const organization = organizations.find((item) => item.id === payload.organizationId);
+    const team = organization?.teams?.find((item) => item.id === payload.teamId);
+    return [
+      ...diffField({
+        key: 'username',
+        label: t('common.username'),
+        base: user.username,
+        yours: payload.username,
+        theirs: current.username,
+      }),
+      ...diffField({
+        key: 'role',
+        label: t('common.role'),
+        base: user.role,
+        yours: payload.role,
+        theirs: current.role,
+      }),
+      ...diffField({
+        key: 'placement',
+        label: `${t('common.organization')} / ${t('common.team')}`,
+        base: placementField(user),
+        yours: placementField({
+          organizationId: payload.organizationId,
+          organizationName: organization?.name ?? '',
+          teamId: payload.teamId,
+          teamName: team?.name ?? '',
+        }),
+        theirs: placementField(current),
+        format: (placement) => placement.name,
+        isEqual: (left, right) => left.id === right.id,
+      }),
+    ];
+  };
+
+  const deleteMutation = useUndoableMutation({
+    mutationFn: (user: User) => deleteUser(user.id, user.version),
+    optimistic: (user) => [removeCachedUser(user.id), countCachedMembers(user, -1)],
+    message: (user) => t('users.deleted', { username: user.username }),
+    errorTitle: t('common.actionFailed'),
+    invalidates: [queryKeys.users.all, queryKeys.organizations.all],
   });
 
   const totalCount = usersQuery.data?.totalCount ?? 0;
+  // Selected users are copies from when they were picked; bulk writes need the newest version.
+  const bulkUsers = [...selectedUsers.values()].map(
+    (user) => usersQuery.data?.items.find((item) => item.id === user.id) ?? user,
+  );
   const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
   const safePage = Math.min(page, totalPages);
 
   useEffect(() => {
     if (!usersQuery.data) return;
     if (safePage !== page) {
-      setPage(safePage);
+      setFilters({ page: safePage }, { replace: true });
     }
-  }, [page, safePage, usersQuery.data]);
+  }, [page, safePage, setFilters, usersQuery.data]);
 
   useEffect(() => {
     if (!editingUser) {
@@ -337,149 +526,219 @@ export function UsersPage() {
     }
   }, [editingUser]);
 
-  const listItems = usersQuery.data?.items ?? [];
+  const listItems = useMemo(() => usersQuery.data?.items ?? [], [usersQuery.data]);
   const rangeStart = totalCount === 0 ? 0 : (safePage - 1) * pageSize + 1;
   const rangeEnd = Math.min(totalCount, safePage * pageSize);
 
-  const columns = useMemo(
+  const openCreate = () => {
+    setCreateError(null);
+    createMutation.reset();
+    setIsCreateOpen(true);
+  };
+
+  usePageCommand('users.create', openCreate, canManageUsers);
+  useShortcut('n', t('users.new'), openCreate, { enabled: canManageUsers });
+
+  const selectedKeys = useMemo(() => new Set(selectedUsers.keys()), [selectedUsers]);
+
+  // The table reports keys only; users from earlier pages stay in the map so bulk actions still see them.
+  const changeSelection = (keys: Set<string>) =>
+    setSelectedUsers((current) => {
+      const next = new Map<string, User>();
+      keys.forEach((key) => {
+        const user = current.get(key) ?? listItems.find((item) => item.id === key);
+        if (user) next.set(key, user);
+      });
+      return next;
+    });
+
+  const columns = useMemo<TableColumn<User>[]>(
     () => [
       {
         key: 'username',
-        header: 'Username',
+        sortable: true,
+        header: t('common.username'),
         render: (user: User) => user.username,
       },
       {
         key: 'role',
-        header: 'Role',
+        sortable: true,
+        header: t('common.role'),
         render: (user: User) => user.role,
       },
       {
         key: 'organization',
-        header: 'Organization',
+        sortable: true,
+        header: t('common.organization'),
         render: (user: User) => user.organizationName,
       },
       {
         key: 'team',
-        header: 'Team',
+        sortable: true,
+        header: t('common.team'),
         render: (user: User) => user.teamName,
       },
       {
         key: 'actions',
         header: '',
+        hideable: false,
         render: (user: User) => (
           <div className="users-row-actions">
             <Button variant="ghost" type="button" onClick={() => setEditingUser(user)}>
-              Edit
+              {t('common.edit')}
             </Button>
             <Button
               variant="ghost"
               type="button"
-              onClick={() => {
-                if (deleteMutation.isPending) return;
-                const confirmed = window.confirm(`Delete ${user.username}? This cannot be undone.`);
+              onClick={async () => {
+                const confirmed = await confirm({
+                  title: t('users.deleteTitle', { username: user.username }),
+                  message: t('users.deleteMessage'),
+                  confirmLabel: t('common.delete'),
+                  tone: 'danger',
+                });
                 if (confirmed) {
-                  deleteMutation.mutate(user.id);
+                  deleteMutation.mutate(user);
                 }
               }}
             >
-              Delete
+              {t('common.delete')}
             </Button>
           </div>
         ),
       },
-    ],
-    [deleteMutation],
+    ].filter((column) => canManageUsers || column.key !== 'actions'),
+    [canManageUsers, confirm, deleteMutation, t],
   );
 
   return (
     <section className="page">
       <div className="users-header">
         <div>
-          <h1>Users</h1>
-          <p>Manage team members, roles, and access.</p>
+          <h1>{t('users.title')}</h1>
+          <p>{t('users.subtitle')}</p>
+          <SavedViewsBar scope="users" filters={viewFilters} onApply={applyView} />
+        </div>
+        <div className="users-header-actions">
+          <Button variant="secondary" type="button" onClick={() => setIsExportOpen(true)}>
+            {t('users.export')}
+          </Button>
+          <RequirePermission permission="users.manage">
+            <Button variant="secondary" type="button" onClick={() => setIsImportOpen(true)}>
+              {t('users.import')}
+            </Button>
+            <Button type="button" onClick={openCreate}>
+              {t('users.new')}
+            </Button>
+          </RequirePermission>
         </div>
-        <Button
-          type="button"
-          onClick={() => {
-            setCreateError(null);
-            createMutation.reset();
-            setIsCreateOpen(true);
-          }}
-        >
-          New user
-        </Button>
       </div>
 
       <div className="users-filters">
         <Input
-          label="Search"
-          placeholder="Search by username"
+          label={t('common.search')}
+          placeholder={t('common.searchByUsername')}
           value={searchInput}
           onChange={(event) => setSearchInput(event.target.value)}
         />
         <Select
-          label="Role"
+          label={t('common.role')}
           value={roleFilter}
           options={roleOptions}
-          onChange={(event) => setRoleFilter(event.target.value)}
+          onChange={(event) => setFilters({ role: event.target.value, page: 1 })}
         />
         <Select
-          label="Organization"
+          label={t('common.organization')}
           value={organizationFilter}
           options={organizationOptions}
-          onChange={(event) => setOrganizationFilter(event.target.value)}
+          onChange={(event) => setFilters({ organization: event.target.value, page: 1 })}
         />
         <Select
-          label="Team"
+          label={t('common.team')}
           value={teamFilter}
           options={teamOptions}
-          onChange={(event) => setTeamFilter(event.target.value)}
+          onChange={(event) => setFilters({ team: event.target.value, page: 1 })}
         />
         <Select
-          label="Page size"
+          label={t('common.pageSize')}
           value={String(pageSize)}
-          options={pageSizeOptions}
-          onChange={(event) => setPageSize(Number(event.target.value))}
+          options={pageSizes.map((size) => ({
+            label: t('common.perPage', { size }),
+            value: String(size),
+          }))}
+          onChange={(event) => setFilters({ pageSize: Number(event.target.value), page: 1 })}
         />
       </div>
 
       {usersQuery.isError ? (
-        <Toast title="Unable to load users" variant="error" onClose={() => usersQuery.refetch()}>
-          <span>{parseError(usersQuery.error)}</span>
+        <Toast title={t('users.loadFailed')} variant="error" onClose={() => usersQuery.refetch()}>
+          <span>{errorMessage(usersQuery.error)}</span>
         </Toast>
       ) : null}
 
       <div className="users-summary">
         <span>
-          {totalCount === 0 ? 'No users found.' : `Showing ${rangeStart}-${rangeEnd} of ${totalCount}`}
+          {totalCount === 0
+            ? t('users.noneFound')
+            : t('common.showing', { start: rangeStart, end: rangeEnd, total: totalCount })}
         </span>
-        <span>Page {safePage} of {totalPages}</span>
+        <span>{t('common.pageOf', { page: safePage, pages: totalPages })}</span>
       </div>
 
-      <Table columns={columns} data={listItems} emptyMessage={usersQuery.isLoading ? 'Loading users…' : 'No users'} />
+      {canManageUsers && selectedUsers.size > 0 ? (
+        <div className="users-bulk-bar" role="toolbar" aria-label={t('users.bulkActions')}>
+          <span>{t('users.selected', { count: selectedUsers.size })}</span>
+          {(Object.keys(bulkActionLabelKeys) as BulkAction[]).map((action) => (
+            <Button
+              key={action}
+              variant={action === 'delete' ? 'ghost' : 'secondary'}
+              type="button"
+              onClick={() => setBulkAction(action)}
+            >
+              {t(bulkActionLabelKeys[action])}
+            </Button>
+          ))}
+          <Button variant="ghost" type="button" onClick={() => setSelectedUsers(new Map())}>
+            {t('users.clearSelection')}
+          </Button>
+        </div>
+      ) : null}
+
+      <Table
+        tableId="users"
+        columns={columns}
+        data={listItems}
+        rowKey={(user) => user.id}
+        sort={sort}
+        sortMode="server"
+        onSortChange={(next) => setFilters({ sort: next, page: 1 })}
+        selectedKeys={canManageUsers ? selectedKeys : undefined}
+        onSelectionChange={canManageUsers ? changeSelection : undefined}
+        emptyMessage={usersQuery.isLoading ? t('users.loading') : t('users.empty')}
+      />
 
       <div className="users-pagination">
         <Button
           variant="secondary"
           type="button"
           disabled={safePage <= 1 || usersQuery.isLoading}
-          onClick={() => setPage((current) => Math.max(1, current - 1))}
+          onClick={() => setFilters({ page: Math.max(1, safePage - 1) })}
         >
-          Previous
+          {t('common.previous')}
         </Button>
         <Button
           variant="secondary"
           type="button"
           disabled={safePage >= totalPages || usersQuery.isLoading}
-          onClick={() => setPage((current) => Math.min(totalPages, current + 1))}
+          onClick={() => setFilters({ page: Math.min(totalPages, safePage + 1) })}
         >
-          Next
+          {t('common.next')}
         </Button>
       </div>
 
       <Modal
         isOpen={isCreateOpen}
-        title="Create user"
+        title={t('users.createTitle')}
         onClose={() => {
           if (createMutation.isPending) return;
           setIsCreateOpen(false);
@@ -493,12 +752,13 @@ export function UsersPage() {
           defaultValues={createDefaultValues}
           roleOptions={roleOptions}
           organizations={organizations}
+          passwordPolicyFor={passwordPolicyFor}
           onSubmit={async (values) => {
             setCreateError(null);
             try {
               await createMutation.mutateAsync(values as CreateFormValues);
             } catch (error) {
-              setCreateError(parseError(error));
+              setCreateError(errorMessage(error));
             }
           }}
         />
@@ -506,11 +766,9 @@ export function UsersPage() {
 
       <Modal
         isOpen={Boolean(editingUser)}
-        title="Edit user"
+        title={t('users.editTitle')}
         onClose={() => {
-          if (updateMutation.isPending) return;
-          setEditingUser(null);
-          setUpdateError(null);
+          if (!updateMutation.isPending) closeEdit();
         }}
       >
         {editingUser ? (
@@ -521,22 +779,75 @@ export function UsersPage() {
             defaultValues={editDefaultValues ?? createDefaultValues}
             roleOptions={roleOptions}
             organizations={organizations}
-            onSubmit={async (values) => {
-              setUpdateError(null);
-              try {
-                await updateMutation.mutateAsync({ id: editingUser.id, payload: values as EditFormValues });
-              } catch (error) {
-                setUpdateError(parseError(error));
-              }
-            }}
+            passwordPolicyFor={passwordPolicyFor}
+            onSubmit={(values) => void saveEdit(editingUser, values as EditFormValues)}
           />
         ) : null}
       </Modal>
 
-      {toastMessage ? (
-        <Toast title="Action failed" variant="error" onClose={() => setToastMessage(null)}>
-          <span>{toastMessage}</span>
-        </Toast>
+      {editConflict ? (
+        <ConflictDialog
+          key={editConflict.current.version}
+          name={editConflict.current.username}
+          fields={conflictFields(editConflict)}
+          isSaving={updateMutation.isPending}
+          onMerge={(choices) =>
+            void saveEdit(editConflict.current, mergeEdit(editConflict, choices))
+          }
+          onOverwrite={() => void saveEdit(editConflict.current, editConflict.payload)}
+          onDiscard={() => {
+            setEditConflict(null);
+            closeEdit();
+          }}
+          onClose={() => {
+            if (!updateMutation.isPending) setEditConflict(null);
+          }}
+        />
+      ) : null}
+
+      {bulkAction ? (
+        <BulkActionDialog
+          action={bulkAction}
+          users={bulkUsers}
+          roleOptions={roleOptions.filter((option) => option.value !== 'all')}
+          organizations={organizations}
+          onFinished={() => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+            queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all });
+          }}
+          onClose={(failedUsers) => {
+            setBulkAction(null);
+            setSelectedUsers(new Map(failedUsers.map((user) => [user.id, user])));
+          }}
+        />
+      ) : null}
+
+      {isExportOpen ? (
+        <ExportUsersDialog
+          filters={{
+            search: search || undefined,
+            role: roleFilter === 'all' ? undefined : roleFilter,
+            organizationId: organizationFilter === 'all' ? undefined : organizationFilter,
+            teamId: teamFilter === 'all' ? undefined : teamFilter,
+            sortBy: sort?.key as UserSortKey | undefined,
+            sortDirection: sort?.direction,
+          }}
+          filteredCount={totalCount}
+          selectedUsers={[...selectedUsers.values()]}
+          onClose={() => setIsExportOpen(false)}
+        />
+      ) : null}
+
+      {isImportOpen ? (
+        <ImportUsersDialog
+          organizations={organizations}
+          roles={roles}
+          onFinished={() => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+            queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all });
+          }}
+          onClose={() => setIsImportOpen(false)}
+        />
       ) : null}
     </section>
   );
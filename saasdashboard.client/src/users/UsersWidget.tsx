@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { KpiCard } from '../dashboard/KpiCard';
+import { useI18n } from '../i18n/i18n';
+import { getUsers } from './api';
+import { queryKeys } from '../api/queryKeys';
+
+// Only the total is shown; the one item fetched is not.
+const totalQuery = { page: 1, pageSize: 1 };
+
+export function UsersWidget() {
+  const { t, formatNumber } = useI18n();
+  const usersQuery = useQuery({
+    queryKey: queryKeys.users.list(totalQuery),
+    queryFn: ({ signal }) => getUsers(totalQuery, { signal }),
+  });
+
+  return (
+    <KpiCard
+      title={t('widgets.totalUsers')}
+      isLoading={usersQuery.isLoading}
+      error={usersQuery.error}
+      onRetry={() => usersQuery.refetch()}
+      link={{ to: '/users', label: t('dashboard.manage') }}
+    >
+      <div className="kpi-card-value">
+        {usersQuery.data ? formatNumber(usersQuery.data.totalCount) : null}
+      </div>
+      <div className="kpi-card-meta">{t('widgets.acrossOrganizations')}</div>
+    </KpiCard>
+  );
+}
@@ -1,5 +1,6 @@
-import { apiRequest } from '../api/client';
-import type { PagedResponse, User, UserRole } from './types';
+import { apiRequest, type ApiCallOptions } from '../api/client';
+import { ifMatch } from '../api/concurrency';
+import { pagedResponseSchema, userSchema, type UserRole } from './types';
 
 export type UsersQuery = {
   page: number;
@@ -8,8 +9,12 @@ export type UsersQuery = {
   role?: UserRole;
   organizationId?: string;
   teamId?: string;
+  sortBy?: UserSortKey;
+  sortDirection?: 'asc' | 'desc';
 };
 
+export type UserSortKey = 'username' | 'role' | 'organization' | 'team';
+
 export type CreateUserPayload = {
   username: string;
   role: UserRole;
@@ -26,7 +31,7 @@ export type UpdateUserPayload = {
   teamId: string;
 };
 
-export const getUsers = (query: UsersQuery) => {
+export const getUsers = (query: UsersQuery, options?: ApiCallOptions) => {
   const params = new URLSearchParams();
   params.set('page', String(query.page));
   params.set('pageSize', String(query.pageSize));
@@ -42,27 +47,38 @@ export const getUsers = (query: UsersQuery) => {
   if (query.teamId) {
     params.set('teamId', query.teamId);
   }
+  if (query.sortBy) {
+    params.set('sortBy', query.sortBy);
+    params.set('sortDirection', query.sortDirection ?? 'asc');
+  }
 
   const path = `/api/users?${params.toString()}`;
-  return apiRequest<PagedResponse<User>>(path);
+  return apiRequest(path, { ...options, schema: pagedResponseSchema(userSchema) });
 };
 
+export const getUser = (id: string, options?: ApiCallOptions) =>
+  apiRequest(`/api/users/${id}`, { ...options, schema: userSchema });
+
 export const createUser = (payload: CreateUserPayload) => {
-  return apiRequest<User>('/api/users', {
+  return apiRequest('/api/users', {
     method: 'POST',
     body: payload,
+    schema: userSchema,
   });
 };
 
-export const updateUser = (id: string, payload: UpdateUserPayload) => {
-  return apiRequest<User>(`/api/users/${id}`, {
+export const updateUser = (id: string, payload: UpdateUserPayload, version: string) => {
+  return apiRequest(`/api/users/${id}`, {
     method: 'PUT',
     body: payload,
+    headers: ifMatch(version),
+    schema: userSchema,
   });
 };
 
-export const deleteUser = (id: string) => {
+export const deleteUser = (id: string, version: string) => {
   return apiRequest<void>(`/api/users/${id}`, {
     method: 'DELETE',
+    headers: ifMatch(version),
   });
 };
@@ -0,0 +1,151 @@
+import { translate, type MessageKey } from '../i18n/i18n';
+import type { PasswordPolicy } from '../settings/types';
+import { deleteUser, updateUser } from './api';
+import type { User } from './types';
+
+export type BulkAction = 'role' | 'move' | 'reset-password' | 'delete';
+
+export type BulkTarget = {
+  role: string;
+  organizationId: string;
+  teamId: string;
+};
+
+export type BulkRowStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+
+export type BulkRow = {
+  user: User;
+  status: BulkRowStatus;
+  message?: string;
+};
+
+export const bulkActionLabelKeys: Record<BulkAction, MessageKey> = {
+  role: 'bulk.role',
+  move: 'bulk.move',
+  'reset-password': 'bulk.resetPassword',
+  delete: 'bulk.delete',
+};
+
+// Look-alike characters such as 0/O and 1/l are left out, since these passwords get read out or retyped.
+const PASSWORD_CHARACTER_SETS = [
+  'ABCDEFGHJKLMNPQRSTUVWXYZ',
+  'abcdefghijkmnpqrstuvwxyz',
+  '23456789',
+  '!#$%&*+-=?@_',
+];
+
+const randomIndex = (length: number) => crypto.getRandomValues(new Uint32Array(1))[0] % length;
+
+/**
+ * A random password that meets any password policy: it is at least as long as the policy asks
+ * and holds a character from every set, whichever of them the policy requires.
+ */
+export const generateTemporaryPassword = (policy: PasswordPolicy) => {
+  const length = Math.max(16, policy.minLength);
+  const alphabet = PASSWORD_CHARACTER_SETS.join('');
+  const characters = [
+    ...PASSWORD_CHARACTER_SETS.map((set) => set[randomIndex(set.length)]),
+    ...Array.from(
+      { length: length - PASSWORD_CHARACTER_SETS.length },
+      () => alphabet[randomIndex(alphabet.length)],
+    ),
+  ];
+  // Shuffle so the guaranteed characters do not always lead.
+  for (let index = characters.length - 1; index > 0; index -= 1) {
+    const other = randomIndex(index + 1);
+    [characters[index], characters[other]] = [characters[other], characters[index]];
+  }
+  return characters.join('');
+};
+
+/** Builds the initial rows for a bulk action, marking users the action would not change as skipped. */
+export const planBulkAction = (action: BulkAction, users: User[], target: BulkTarget): BulkRow[] =>
+  users.map((user) => {
+    if (action === 'role' && user.role === target.role) {
+      return {
+        user,
+        status: 'skipped',
+        message: translate('bulk.alreadyRole', { role: target.role }),
+      };
+    }
+    if (action === 'move' && user.teamId === target.teamId) {
+      return { user, status: 'skipped', message: translate('bulk.alreadyInTeam') };
+    }
+    return { user, status: 'pending' };
+  });
+
+/**
+ * Applies the action to one user. Resolves to a detail worth showing in the report, if any.
+ * `passwordPolicy` is that of the user's organization, which generated passwords must meet.
+ */
+export const applyBulkAction = async (
+  action: BulkAction,
+  user: User,
+  target: BulkTarget,
+  passwordPolicy: PasswordPolicy,
+): Promise<string | undefined> => {
+  const payload = {
+    username: user.username,
+    role: user.role,
+    organizationId: user.organizationId,
+    teamId: user.teamId,
+  };
+
+  switch (action) {
+    case 'role':
+      await updateUser(user.id, { ...payload, role: target.role }, user.version);
+      return undefined;
+    case 'move':
+      await updateUser(
+        user.id,
+        { ...payload, organizationId: target.organizationId, teamId: target.teamId },
+        user.version,
+      );
+      return undefined;
+    case 'reset-password': {
+      const password = generateTemporaryPassword(passwordPolicy);
+      await updateUser(user.id, { ...payload, password }, user.version);
+      return password;
+    }
+    case 'delete':
+      await deleteUser(user.id, user.version);
+      return undefined;
+  }
+};
+
+/** Runs `worker` over `items` with at most `concurrency` calls in flight. */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<void>,
+  concurrency = 4,
+) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+/** Runs `worker` over `items` in fixed-size batches with a pause in between; stops early once `signal` aborts. */
+export const runInBatches = async <T>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<void>,
+  {
+    batchSize = 5,
+    pauseMs = 250,
+    signal,
+  }: { batchSize?: number; pauseMs?: number; signal?: AbortSignal } = {},
+) => {
+  for (let start = 0; start < items.length; start += batchSize) {
+    if (signal?.aborted) return;
+    const batch = items.slice(start, start + batchSize);
+    await Promise.all(batch.map((item, offset) => worker(item, start + offset)));
+    if (start + batchSize < items.length && pauseMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, pauseMs));
+    }
+  }
+};
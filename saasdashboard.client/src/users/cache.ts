@@ -0,0 +1,43 @@
+import type { QueryKey } from '@tanstack/react-query';
+import { cacheUpdate } from '../api/optimistic';
+import { queryKeys } from '../api/queryKeys';
+import type { PagedResponse, User } from './types';
+
+const updateCachedPages = (update: (page: PagedResponse<User>) => PagedResponse<User>) =>
+  cacheUpdate(queryKeys.users.lists(), update);
+
+const updateCachedUsers = (update: (user: User) => User) =>
+  updateCachedPages((page) => ({ ...page, items: page.items.map(update) }));
+
+export const patchCachedUser = (id: string, patch: (user: User) => User) =>
+  updateCachedUsers((user) => (user.id === id ? patch(user) : user));
+
+/** Puts the server's copy of a user in place of the cached one, wherever it is listed. */
+export const replaceCachedUser = (user: User) => patchCachedUser(user.id, () => user);
+
+export const removeCachedUser = (id: string) =>
+  updateCachedPages((page) =>
+    page.items.some((user) => user.id === id)
+      ? {
+          ...page,
+          items: page.items.filter((user) => user.id !== id),
+          totalCount: page.totalCount - 1,
+        }
+      : page,
+  );
+
+/** Adds a created user to the top of one page; where it belongs is left to the next fetch. */
+export const insertCachedUser = (queryKey: QueryKey, user: User) =>
+  cacheUpdate<PagedResponse<User>>(queryKey, (page) =>
+    page.items.some((item) => item.id === user.id)
+      ? page
+      : { ...page, items: [user, ...page.items], totalCount: page.totalCount + 1 },
+  );
+
+export const renameCachedUsersOrganization = (organizationId: string, name: string) =>
+  updateCachedUsers((user) =>
+    user.organizationId === organizationId ? { ...user, organizationName: name } : user,
+  );
+
+export const renameCachedUsersTeam = (teamId: string, name: string) =>
+  updateCachedUsers((user) => (user.teamId === teamId ? { ...user, teamName: name } : user));
@@ -0,0 +1,73 @@
+import { csvBlob } from '../csv';
+import type { MessageKey } from '../i18n/i18n';
+import { xlsxBlob } from '../xlsx';
+import { getUsers, type UsersQuery } from './api';
+import type { User } from './types';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportColumn = {
+  key: string;
+  /** The file header; it stays English so an export can be imported again. */
+  label: string;
+  labelKey: MessageKey;
+  value: (user: User) => string;
+};
+
+export const exportColumns: ExportColumn[] = [
+  {
+    key: 'username',
+    label: 'Username',
+    labelKey: 'common.username',
+    value: (user) => user.username,
+  },
+  { key: 'role', label: 'Role', labelKey: 'common.role', value: (user) => user.role },
+  {
+    key: 'organization',
+    label: 'Organization',
+    labelKey: 'common.organization',
+    value: (user) => user.organizationName,
+  },
+  { key: 'team', label: 'Team', labelKey: 'common.team', value: (user) => user.teamName },
+  { key: 'id', label: 'User id', labelKey: 'export.userId', value: (user) => user.id },
+  {
+    key: 'organizationId',
+    label: 'Organization id',
+    labelKey: 'export.organizationId',
+    value: (user) => user.organizationId,
+  },
+  { key: 'teamId', label: 'Team id', labelKey: 'export.teamId', value: (user) => user.teamId },
+];
+
+export const defaultExportColumnKeys = ['username', 'role', 'organization', 'team'];
+
+// The users endpoint caps page size at 100.
+const EXPORT_PAGE_SIZE = 100;
+
+/** Pages through `getUsers` with the given filters until every matching user has been fetched. */
+export const fetchAllUsers = async (
+  filters: Omit<UsersQuery, 'page' | 'pageSize'>,
+  {
+    signal,
+    onProgress,
+  }: { signal?: AbortSignal; onProgress?: (loaded: number, total: number) => void } = {},
+) => {
+  const users: User[] = [];
+  for (let page = 1; ; page += 1) {
+    const response = await getUsers({ ...filters, page, pageSize: EXPORT_PAGE_SIZE }, { signal });
+    users.push(...response.items);
+    onProgress?.(users.length, response.totalCount);
+    if (response.items.length < EXPORT_PAGE_SIZE || users.length >= response.totalCount) {
+      return users;
+    }
+  }
+};
+
+export const buildUsersExport = (users: User[], columnKeys: string[], format: ExportFormat) => {
+  const columns = exportColumns.filter((column) => columnKeys.includes(column.key));
+  const rows = [
+    columns.map((column) => column.label),
+    ...users.map((user) => columns.map((column) => column.value(user))),
+  ];
+  return format === 'xlsx' ? xlsxBlob('Users', rows) : csvBlob(rows);
+};
@@ -0,0 +1,158 @@
+import { csvBlob } from '../csv';
+import { translate, type MessageKey } from '../i18n/i18n';
+import type { Organization } from '../organizations/types';
+import type { Role } from '../roles/types';
+import type { CreateUserPayload } from './api';
+import type { WorkspaceSettings } from '../settings/types';
+import { createSchema, withPasswordPolicy } from './schemas';
+
+export type ImportField = 'username' | 'role' | 'organization' | 'team' | 'password';
+
+export const importFields: { key: ImportField; labelKey: MessageKey; aliases: string[] }[] = [
+  {
+    key: 'username',
+    labelKey: 'common.username',
+    aliases: ['username', 'user', 'login', 'user name'],
+  },
+  { key: 'role', labelKey: 'common.role', aliases: ['role', 'role name'] },
+  {
+    key: 'organization',
+    labelKey: 'common.organization',
+    aliases: ['organization', 'organisation', 'org', 'organizationid', 'organizationname'],
+  },
+  { key: 'team', labelKey: 'common.team', aliases: ['team', 'teamid', 'teamname'] },
+  {
+    key: 'password',
+    labelKey: 'common.password',
+    aliases: ['password', 'initial password', 'temp password'],
+  },
+];
+
+/** Column index per field; `null` when the field is not mapped to any column. */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type ImportRow = {
+  /** Row number in the file with the header as row 1, so it matches what spreadsheets show. */
+  line: number;
+  values: string[];
+  payload: CreateUserPayload | null;
+  errors: string[];
+};
+
+export const MAX_IMPORT_ROWS = 1000;
+
+const normalize = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, '');
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalize);
+  return Object.fromEntries(
+    importFields.map(({ key, aliases }) => {
+      const index = normalized.findIndex((header) =>
+        aliases.some((alias) => normalize(alias) === header),
+      );
+      return [key, index >= 0 ? index : null];
+    }),
+  ) as ColumnMapping;
+};
+
+const matches = (candidate: { id: string; name: string }, value: string) =>
+  candidate.id.toLowerCase() === value.toLowerCase() ||
+  candidate.name.toLowerCase() === value.toLowerCase();
+
+/**
+ * Validates each data row with `createSchema` and the organization's password policy after
+ * resolving role, organization and team by name or id. Rows without a role get the
+ * organization's default role.
+ */
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  organizations: Organization[],
+  roles: Role[],
+  settingsFor: (organizationId: string) => WorkspaceSettings,
+): ImportRow[] => {
+  const seenUsernames = new Map<string, number>();
+  const schema = withPasswordPolicy(
+    createSchema,
+    (organizationId) => settingsFor(organizationId).passwordPolicy,
+  );
+
+  return rows.map((values, index) => {
+    const line = index + 2;
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (values[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+    const failedLookups = new Set<string>();
+
+    const organizationValue = read('organization');
+    const organization = organizations.find((item) => matches(item, organizationValue));
+    if (organizationValue && !organization) {
+      errors.push(translate('import.unknownOrganization', { value: organizationValue }));
+      failedLookups.add('organizationId');
+    }
+
+    const roleValue =
+      read('role') || (organization ? settingsFor(organization.id).defaultRole : '');
+    const role = roles.find((item) => item.name.toLowerCase() === roleValue.toLowerCase());
+    if (roleValue && !role) {
+      errors.push(translate('import.unknownRole', { value: roleValue }));
+      failedLookups.add('role');
+    }
+
+    const teamValue = read('team');
+    const team = organization?.teams?.find((item) => matches(item, teamValue));
+    if (teamValue && organization && !team) {
+      errors.push(
+        translate('import.unknownTeam', { value: teamValue, organization: organization.name }),
+      );
+    }
+    if (teamValue && !team) failedLookups.add('teamId');
+
+    const result = schema.safeParse({
+      username: read('username'),
+      role: role?.name ?? '',
+      organizationId: organization?.id ?? '',
+      teamId: team?.id ?? '',
+      password: read('password'),
+    });
+    if (!result.success) {
+      result.error.issues
+        .filter((issue) => !failedLookups.has(String(issue.path[0])))
+        .forEach((issue) => errors.push(issue.message));
+    }
+
+    const usernameKey = read('username').toLowerCase();
+    if (usernameKey) {
+      const firstLine = seenUsernames.get(usernameKey);
+      if (firstLine) errors.push(translate('import.duplicate', { line: firstLine }));
+      else seenUsernames.set(usernameKey, line);
+    }
+
+    return {
+      line,
+      values,
+      payload: result.success && errors.length === 0 ? result.data : null,
+      errors,
+    };
+  });
+};
+
+/** The original columns of every failed row plus its line number and reason, ready to fix and re-import. */
+export const buildErrorReport = (
+  headers: string[],
+  failures: { row: ImportRow; error: string }[],
+) =>
+  csvBlob([
+    [...headers, 'line', 'error'],
+    ...failures.map(({ row, error }) => [
+      ...headers.map((_, column) => row.values[column] ?? ''),
+      row.line,
+      error,
+    ]),
+  ]);
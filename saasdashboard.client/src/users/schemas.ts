@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { translate, type MessageKey } from '../i18n/i18n';
+import type { PasswordPolicy } from '../settings/types';
+
+/** Resolved when validation runs, so messages follow the current language. */
+export const localizedError = (key: MessageKey) => ({ error: () => translate(key) });
+
+const usernameSchema = z
+  .string()
+  .trim()
+  .min(3, localizedError('validation.usernameMin'))
+  .max(32, localizedError('validation.usernameMax'))
+  .regex(/^[a-zA-Z0-9._-]+$/, localizedError('validation.usernameChars'));
+
+const roleSchema = z.string().min(1, localizedError('validation.roleRequired'));
+const organizationSchema = z.string().min(1, localizedError('validation.organizationRequired'));
+const teamSchema = z.string().min(1, localizedError('validation.teamRequired'));
+
+export const passwordSchema = z
+  .string()
+  .min(6, { error: () => translate('validation.passwordMin', { min: 6 }) })
+  .max(64, localizedError('validation.passwordMax'));
+
+const passwordOptionalSchema = z.preprocess(
+  (value) => (value === '' ? undefined : value),
+  passwordSchema.optional(),
+);
+
+export const createSchema = z.object({
+  username: usernameSchema,
+  role: roleSchema,
+  organizationId: organizationSchema,
+  teamId: teamSchema,
+  password: passwordSchema,
+});
+
+export const editSchema = z.object({
+  username: usernameSchema,
+  role: roleSchema,
+  organizationId: organizationSchema,
+  teamId: teamSchema,
+  password: passwordOptionalSchema,
+});
+
+/** Messages for every rule of `policy` that `password` breaks, on top of `passwordSchema`. */
+export const passwordPolicyIssues = (password: string, policy: PasswordPolicy) => [
+  ...(password.length < policy.minLength
+    ? [translate('validation.passwordMin', { min: policy.minLength })]
+    : []),
+  ...(policy.requireUppercase && !/[A-Z]/.test(password)
+    ? [translate('validation.passwordUppercase')]
+    : []),
+  ...(policy.requireNumber && !/[0-9]/.test(password)
+    ? [translate('validation.passwordNumber')]
+    : []),
+  ...(policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)
+    ? [translate('validation.passwordSymbol')]
+    : []),
+];
+
+/** Applies the password policy of the organization the user is being saved into. */
+export const withPasswordPolicy = <
+  S extends z.ZodType<{ organizationId: string; password?: string }>,
+>(
+  schema: S,
+  policyFor: (organizationId: string) => PasswordPolicy,
+) =>
+  schema.superRefine((values, ctx) => {
+    if (!values.password) return;
+    passwordPolicyIssues(values.password, policyFor(values.organizationId)).forEach((message) =>
+      ctx.addIssue({ code: 'custom', message, path: ['password'] }),
+    );
+  });
+
+export type CreateFormValues = z.infer<typeof createSchema>;
+export type EditFormValues = z.infer<typeof editSchema>;
+export type UserFormValues = CreateFormValues | EditFormValues;
@@ -1,14 +1,20 @@
+import { z } from 'zod';
+
 export type UserRole = string;
 
-export type User = {
-  id: string;
-  username: string;
-  role: UserRole;
-  organizationId: string;
-  organizationName: string;
-  teamId: string;
-  teamName: string;
-};
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: z.string(),
+  organizationId: z.string(),
+  organizationName: z.string(),
+  teamId: z.string(),
+  teamName: z.string(),
+  /** The row version the server last saved; updates and deletes must send it back as If-Match. */
+  version: z.string(),
+});
+
+export type User = z.infer<typeof userSchema>;
 
 export type PagedResponse<T> = {
   items: T[];
@@ -16,3 +22,11 @@ export type PagedResponse<T> = {
   page: number;
   pageSize: number;
 };
+
+export const pagedResponseSchema = <T extends z.ZodType>(itemSchema: T) =>
+  z.object({
+    items: z.array(itemSchema),
+    totalCount: z.number(),
+    page: z.number(),
+    pageSize: z.number(),
+  });
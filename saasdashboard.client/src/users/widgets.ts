@@ -0,0 +1,14 @@
+import type { DashboardWidget } from '../dashboard/types';
+import { UsersWidget } from './UsersWidget';
+
+export const widgets: DashboardWidget[] = [
+  {
+    id: 'users.total',
+    titleKey: 'widgets.totalUsers',
+    descriptionKey: 'widgets.totalUsersDescription',
+    defaultSize: 'small',
+    defaultOrder: 10,
+    permission: 'users.view',
+    component: UsersWidget,
+  },
+];